@@ -0,0 +1,280 @@
+import { app, HttpRequest, HttpResponseInit, InvocationContext } from '@azure/functions';
+import {
+    findOrganizationById,
+    findUserById,
+    findUsersByOrg,
+    logAuditEvent,
+    updateOrganization,
+    updateUser,
+    type EncryptedEnvelope,
+    type OrgRecoveryKey,
+    type RecoveryEscrow,
+    type User,
+    type WrappedDataKeys,
+    type WrappedOrgKey
+} from '../services/cosmosDb.js';
+import { verifyRequestToken, getRequestMetadata } from '../utils/auth.js';
+
+// Recovery of locally encrypted data after a password reset. Devices escrow their data keys to the
+// org recovery key, whose private half only managers can open; this API stores opaque ciphertext only.
+
+interface SetupRequest {
+    publicKey: JsonWebKey;
+    encryptedPrivateKey: EncryptedEnvelope;
+    /** The recovery key material wrapped for each manager, keyed by user id. Must include the caller. */
+    wrappedKeys: Record<string, string>;
+}
+
+interface ShareRequest {
+    wrappedKeys: Record<string, string>;
+    keyVersion: number;
+}
+
+interface RecoveryRequestBody {
+    escrow: RecoveryEscrow;
+    requestPublicKey: JsonWebKey;
+}
+
+interface ApproveRequest {
+    userId: string;
+    recoveredKeys: WrappedDataKeys;
+}
+
+function isPublicKey(value: unknown): value is JsonWebKey {
+    const jwk = value as JsonWebKey | null;
+    return Boolean(jwk) && typeof jwk === 'object' && jwk?.kty === 'RSA' && typeof jwk.n === 'string' && typeof jwk.e === 'string' && !('d' in jwk);
+}
+
+function isEncryptedEnvelope(value: unknown): value is EncryptedEnvelope {
+    const envelope = value as EncryptedEnvelope | null;
+    return Boolean(envelope) && typeof envelope?.ciphertext === 'string' && typeof envelope.iv === 'string' &&
+        envelope.algorithm === 'AES-GCM' && envelope.version === 1;
+}
+
+function isWrappedDataKeys(value: unknown): value is WrappedDataKeys {
+    const keys = value as WrappedDataKeys | null;
+    return Boolean(keys) && typeof keys?.wrappedKey === 'string' && Boolean(keys.wrappedKey) &&
+        typeof keys.wrappedSigningKey === 'string' && Boolean(keys.wrappedSigningKey);
+}
+
+/** Managers who may hold the recovery key: active, in the org, with a published public key. */
+function canHoldRecoveryKey(member: User | null, orgId: string): member is User {
+    return Boolean(member && member.isActive && member.orgId === orgId && member.role === 'manager' && member.encryptionKeys);
+}
+
+function wrapFor(wrappedKey: string, keyVersion: number, wrappedBy: string): WrappedOrgKey {
+    return { wrappedKey, keyVersion, wrappedBy, wrappedAt: new Date().toISOString() };
+}
+
+async function accountRecoveryHandler(request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
+    context.log(`Account recovery request: ${request.method} ${request.params.action ?? ''}`);
+
+    const { ipAddress, userAgent } = getRequestMetadata(request);
+
+    const payload = verifyRequestToken(request);
+    if (!payload) {
+        return { status: 401, jsonBody: { error: 'Unauthorized - valid session required' } };
+    }
+
+    const user = await findUserById(payload.userId);
+    if (!user || !user.isActive || user.userType !== 'org' || !user.orgId) {
+        return { status: 403, jsonBody: { error: 'Access denied: Organization user required' } };
+    }
+    const orgId = user.orgId;
+
+    const audit = (action: string, entityId: string, details: Record<string, unknown>) => logAuditEvent({
+        userId: user.id,
+        userEmail: user.email,
+        action,
+        entityType: 'account_recovery',
+        entityId,
+        orgId,
+        ipAddress,
+        userAgent,
+        success: true,
+        details
+    });
+
+    try {
+        const action = request.params.action;
+        const organization = await findOrganizationById(orgId);
+        if (!organization) {
+            return { status: 404, jsonBody: { error: 'Organization not found' } };
+        }
+        const recoveryKey = organization.recoveryKey;
+
+        if (request.method === 'POST' && action === 'request') {
+            // The reset user's device hands over its escrow and a one-time key to receive the data keys
+            if (user.recovery?.status !== 'reset' && user.recovery?.status !== 'requested') {
+                return { status: 409, jsonBody: { error: 'Recovery is only available after a manager resets your password' } };
+            }
+            const body = await request.json() as RecoveryRequestBody;
+            if (!isWrappedDataKeys(body.escrow) || !isPublicKey(body.requestPublicKey)) {
+                return { status: 400, jsonBody: { error: 'escrow and requestPublicKey (RSA JWK) are required' } };
+            }
+            if (!recoveryKey || body.escrow.recoveryKeyVersion !== recoveryKey.keyVersion) {
+                return { status: 409, jsonBody: { error: 'This device was not escrowed with the current recovery key' } };
+            }
+
+            await updateUser(user.id, {
+                recovery: {
+                    ...user.recovery,
+                    status: 'requested',
+                    requestedAt: new Date().toISOString(),
+                    escrow: body.escrow,
+                    requestPublicKey: body.requestPublicKey
+                }
+            });
+            await audit('request_account_recovery', user.id, { resetBy: user.recovery.resetBy, recoveryKeyVersion: recoveryKey.keyVersion });
+            return { status: 200, jsonBody: { ok: true } };
+        }
+
+        if (request.method === 'POST' && action === 'complete') {
+            if (user.recovery?.status !== 'approved') {
+                return { status: 409, jsonBody: { error: 'No approved recovery to complete' } };
+            }
+            const { approvedBy, resetBy } = user.recovery;
+            await updateUser(user.id, { recovery: undefined });
+            await audit('complete_account_recovery', user.id, { approvedBy, resetBy });
+            return { status: 200, jsonBody: { ok: true } };
+        }
+
+        if (user.role !== 'manager') {
+            return { status: 403, jsonBody: { error: 'Only managers can manage account recovery' } };
+        }
+
+        const members = await findUsersByOrg(orgId);
+
+        if (request.method === 'GET' && !action) {
+            await audit('read', orgId, { hasRecoveryKey: Boolean(recoveryKey) });
+            return {
+                status: 200,
+                jsonBody: {
+                    keyVersion: recoveryKey?.keyVersion ?? null,
+                    managers: members
+                        .filter((member) => member.isActive && member.role === 'manager')
+                        .map((member) => ({
+                            userId: member.id,
+                            name: member.name,
+                            email: member.email,
+                            role: member.role,
+                            publicKey: member.encryptionKeys?.publicKey ?? null,
+                            hasAccess: recoveryKey?.wrappedKeys[member.id]?.keyVersion === recoveryKey?.keyVersion
+                        })),
+                    requests: members
+                        .filter((member) => member.isActive && member.recovery?.status === 'requested')
+                        .map((member) => ({
+                            userId: member.id,
+                            name: member.name,
+                            email: member.email,
+                            resetBy: member.recovery!.resetBy,
+                            resetAt: member.recovery!.resetAt,
+                            requestedAt: member.recovery!.requestedAt,
+                            escrow: member.recovery!.escrow,
+                            requestPublicKey: member.recovery!.requestPublicKey
+                        }))
+                }
+            };
+        }
+
+        if (request.method === 'POST' && action === 'setup') {
+            if (recoveryKey) {
+                return { status: 409, jsonBody: { error: 'Account recovery is already set up' } };
+            }
+            const body = await request.json() as SetupRequest;
+            if (!isPublicKey(body.publicKey) || !isEncryptedEnvelope(body.encryptedPrivateKey)) {
+                return { status: 400, jsonBody: { error: 'publicKey (RSA JWK) and encryptedPrivateKey are required' } };
+            }
+            const entries = Object.entries(body.wrappedKeys ?? {});
+            if (!body.wrappedKeys?.[user.id]) {
+                return { status: 400, jsonBody: { error: 'wrappedKeys must include a key for the requesting manager' } };
+            }
+            const managerIds = new Set(members.filter((member) => canHoldRecoveryKey(member, orgId)).map((member) => member.id));
+            const invalid = entries.filter(([userId, wrappedKey]) => !managerIds.has(userId) || typeof wrappedKey !== 'string' || !wrappedKey);
+            if (invalid.length > 0) {
+                return { status: 400, jsonBody: { error: 'wrappedKeys may only include active managers with a published key', userIds: invalid.map(([userId]) => userId) } };
+            }
+
+            const created: OrgRecoveryKey = {
+                publicKey: body.publicKey,
+                encryptedPrivateKey: body.encryptedPrivateKey,
+                keyVersion: 1,
+                createdBy: user.id,
+                createdAt: new Date().toISOString(),
+                wrappedKeys: Object.fromEntries(entries.map(([userId, wrappedKey]) => [userId, wrapFor(wrappedKey, 1, user.id)]))
+            };
+            await updateOrganization(orgId, { recoveryKey: created });
+            await audit('setup_account_recovery', orgId, { keyVersion: created.keyVersion, managerIds: entries.map(([userId]) => userId) });
+            return { status: 200, jsonBody: { keyVersion: created.keyVersion } };
+        }
+
+        if (!recoveryKey) {
+            return { status: 409, jsonBody: { error: 'Account recovery is not set up' } };
+        }
+
+        if (request.method === 'POST' && action === 'share') {
+            const body = await request.json() as ShareRequest;
+            if (body.keyVersion !== recoveryKey.keyVersion) {
+                return { status: 409, jsonBody: { error: `Key version ${body.keyVersion} is not current (${recoveryKey.keyVersion})` } };
+            }
+            const entries = Object.entries(body.wrappedKeys ?? {});
+            const managerIds = new Set(members.filter((member) => canHoldRecoveryKey(member, orgId)).map((member) => member.id));
+            const invalid = entries.filter(([userId, wrappedKey]) => !managerIds.has(userId) || typeof wrappedKey !== 'string' || !wrappedKey);
+            if (entries.length === 0 || invalid.length > 0) {
+                return { status: 400, jsonBody: { error: 'wrappedKeys may only include active managers with a published key', userIds: invalid.map(([userId]) => userId) } };
+            }
+
+            await updateOrganization(orgId, {
+                recoveryKey: {
+                    ...recoveryKey,
+                    wrappedKeys: {
+                        ...recoveryKey.wrappedKeys,
+                        ...Object.fromEntries(entries.map(([userId, wrappedKey]) => [userId, wrapFor(wrappedKey, recoveryKey.keyVersion, user.id)]))
+                    }
+                }
+            });
+            await audit('share_recovery_key', orgId, { keyVersion: recoveryKey.keyVersion, managerIds: entries.map(([userId]) => userId) });
+            return { status: 200, jsonBody: { ok: true } };
+        }
+
+        if (request.method === 'POST' && action === 'approve') {
+            const body = await request.json() as ApproveRequest;
+            if (!body.userId || !isWrappedDataKeys(body.recoveredKeys)) {
+                return { status: 400, jsonBody: { error: 'userId and recoveredKeys are required' } };
+            }
+            if (body.userId === user.id) {
+                return { status: 403, jsonBody: { error: 'Another manager must approve your own recovery' } };
+            }
+            const target = await findUserById(body.userId);
+            if (!target || target.orgId !== orgId || target.recovery?.status !== 'requested') {
+                return { status: 404, jsonBody: { error: 'No pending recovery request for this user' } };
+            }
+
+            const approvedAt = new Date().toISOString();
+            await updateUser(target.id, {
+                recovery: { ...target.recovery, status: 'approved', approvedBy: user.id, approvedAt, recoveredKeys: body.recoveredKeys }
+            });
+            await audit('approve_account_recovery', target.id, {
+                approvedBy: user.id,
+                approverEmail: user.email,
+                recoveredUserEmail: target.email,
+                resetBy: target.recovery.resetBy,
+                requestedAt: target.recovery.requestedAt,
+                approvedAt
+            });
+            return { status: 200, jsonBody: { ok: true } };
+        }
+
+        return { status: 405, jsonBody: { error: 'Method not allowed' } };
+    } catch (error) {
+        context.error('Account recovery error:', error);
+        return { status: 500, jsonBody: { error: 'Internal server error' } };
+    }
+}
+
+app.http('accountRecovery', {
+    methods: ['GET', 'POST'],
+    authLevel: 'anonymous',
+    route: 'org/recovery/{action?}',
+    handler: accountRecoveryHandler
+});
@@ -2,6 +2,26 @@ import { app, HttpRequest, HttpResponseInit, InvocationContext } from '@azure/fu
 import { findAuditLogsByOrg, findUserById, logAuditEvent } from '../services/cosmosDb.js';
 import { getRequestMetadata, verifyRequestToken } from '../utils/auth.js';
 
+/** Local data events a device reports once it is back online. */
+const DEVICE_AUDIT_ACTIONS = new Set(['purge_local_data', 'wipe_device']);
+const MAX_DEVICE_EVENTS_PER_REQUEST = 50;
+
+interface DeviceAuditEventRequest {
+    uuid: string;
+    action: string;
+    userId?: string;
+    occurredAt: string;
+    details: Record<string, unknown>;
+}
+
+function isValidDeviceEvent(event: DeviceAuditEventRequest): boolean {
+    return typeof event?.uuid === 'string' &&
+        DEVICE_AUDIT_ACTIONS.has(event.action) &&
+        !Number.isNaN(Date.parse(event.occurredAt)) &&
+        typeof event.details === 'object' && event.details !== null &&
+        Object.values(event.details).every((value) => typeof value === 'number');
+}
+
 async function auditLogsHandler(request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
     context.log('Audit logs request');
 
@@ -64,9 +84,65 @@ async function auditLogsHandler(request: HttpRequest, context: InvocationContext
     }
 }
 
+async function deviceAuditEventsHandler(request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
+    context.log('Device audit events request');
+
+    const { ipAddress, userAgent } = getRequestMetadata(request);
+
+    try {
+        const payload = verifyRequestToken(request);
+        if (!payload) {
+            return { status: 401, jsonBody: { error: 'Unauthorized' } };
+        }
+
+        const requester = await findUserById(payload.userId);
+        if (!requester || !requester.isActive) {
+            return { status: 403, jsonBody: { error: 'Access denied' } };
+        }
+
+        const body = await request.json() as { events?: DeviceAuditEventRequest[] };
+        const events = body.events;
+        if (!Array.isArray(events) || events.length === 0 || events.length > MAX_DEVICE_EVENTS_PER_REQUEST || !events.every(isValidDeviceEvent)) {
+            return { status: 400, jsonBody: { error: `events must be 1 to ${MAX_DEVICE_EVENTS_PER_REQUEST} purge or wipe events` } };
+        }
+
+        for (const event of events) {
+            await logAuditEvent({
+                userId: requester.id,
+                userEmail: requester.email,
+                action: event.action,
+                entityType: 'local_device_data',
+                entityId: event.uuid,
+                orgId: requester.orgId ?? null,
+                ipAddress,
+                userAgent,
+                success: true,
+                details: {
+                    ...event.details,
+                    occurredAt: event.occurredAt,
+                    // Shared devices report queued events under whoever signs in next
+                    ...(event.userId && event.userId !== requester.id ? { deviceUserId: event.userId } : {})
+                }
+            });
+        }
+
+        return { status: 200, jsonBody: { accepted: events.length } };
+    } catch (error) {
+        context.error('Device audit events error:', error);
+        return { status: 500, jsonBody: { error: 'Internal server error' } };
+    }
+}
+
 app.http('auditLogs', {
     methods: ['GET'],
     authLevel: 'anonymous',
     route: 'audit/logs',
     handler: auditLogsHandler
 });
+
+app.http('deviceAuditEvents', {
+    methods: ['POST'],
+    authLevel: 'anonymous',
+    route: 'audit/device-events',
+    handler: deviceAuditEventsHandler
+});
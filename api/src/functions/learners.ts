@@ -144,6 +144,12 @@ export async function learnersHandler(request: HttpRequest, context: InvocationC
             }
             if (typeof status !== 'undefined') {
                 updates.status = status;
+                // Starts (or cancels) the clock for disposal of the learner's records
+                if (status === 'discharged' && existing.status !== 'discharged') {
+                    updates.dischargedAt = new Date().toISOString();
+                } else if (status !== 'discharged') {
+                    updates.dischargedAt = null;
+                }
             }
 
             if (Object.keys(updates).length === 0) {
@@ -1,6 +1,30 @@
 import { app, HttpRequest, HttpResponseInit, InvocationContext } from '@azure/functions';
-import { findUserById, findLearnersByIds, findLearnersByOrg, findOrganizationById, Learner, Organization, logAuditEvent, updateUser } from '../services/cosmosDb.js';
+import { findUserById, findAccessibleLearners, findOrganizationById, getCloudEncryption, Learner, Organization, logAuditEvent, updateUser } from '../services/cosmosDb.js';
 import { verifyRequestToken, generateEncryptionSalt, getRequestMetadata } from '../utils/auth.js';
+import { getDisabledPlaintextFeatures } from '../utils/plaintextFeatures.js';
+
+/** Members only see their own wrapped org and recovery keys, never anyone else's. */
+function toClientOrganization(organization: Organization, userId: string) {
+    const { cloudEncryption: _, recoveryKey, ...rest } = organization; // eslint-disable-line @typescript-eslint/no-unused-vars
+    const cloudEncryption = getCloudEncryption(organization);
+    const wrappedKey = cloudEncryption.wrappedKeys[userId];
+    const wrappedRecoveryKey = recoveryKey?.wrappedKeys[userId];
+    return {
+        ...rest,
+        cloudEncryption: {
+            mode: cloudEncryption.mode,
+            keyVersion: cloudEncryption.keyVersion,
+            wrappedKey: wrappedKey?.keyVersion === cloudEncryption.keyVersion ? wrappedKey.wrappedKey : null,
+            disabledFeatures: getDisabledPlaintextFeatures(organization)
+        },
+        recoveryKey: recoveryKey ? {
+            publicKey: recoveryKey.publicKey,
+            encryptedPrivateKey: recoveryKey.encryptedPrivateKey,
+            keyVersion: recoveryKey.keyVersion,
+            wrappedKey: wrappedRecoveryKey?.keyVersion === recoveryKey.keyVersion ? wrappedRecoveryKey.wrappedKey : null
+        } : null
+    };
+}
 
 async function meHandler(request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
     context.log('Auth/me request');
@@ -49,19 +73,11 @@ async function meHandler(request: HttpRequest, context: InvocationContext): Prom
         if (userRecord.userType === 'org' && userRecord.orgId) {
             // Get organization info
             organization = await findOrganizationById(userRecord.orgId);
-
-            if (userRecord.role === 'manager' || userRecord.role === 'bcba') {
-                // Full org access
-                learners = await findLearnersByOrg(userRecord.orgId);
-            } else if (userRecord.role === 'rbt') {
-                // Only assigned learners
-                learners = await findLearnersByIds(userRecord.assignedLearnerIds);
-            }
-        } else if (userRecord.userType === 'parent') {
-            // Parents only see their assigned learners
-            learners = await findLearnersByIds(userRecord.assignedLearnerIds);
         }
 
+        // Managers/BCBAs see the whole org; RBTs and parents only their assigned learners
+        learners = await findAccessibleLearners(userRecord);
+
         // Log access to user info (includes learner assignments - PHI)
         await logAuditEvent({
             userId: userRecord.id,
@@ -87,7 +103,7 @@ async function meHandler(request: HttpRequest, context: InvocationContext): Prom
             status: 200,
             jsonBody: {
                 user: safeUser,
-                organization,
+                organization: organization ? toClientOrganization(organization, userRecord.id) : null,
                 learners
             }
         };
@@ -0,0 +1,226 @@
+import { app, HttpRequest, HttpResponseInit, InvocationContext } from '@azure/functions';
+import {
+    findOrganizationById,
+    findUserById,
+    findUsersByOrg,
+    getCloudEncryption,
+    logAuditEvent,
+    updateOrganization,
+    updateUser,
+    type EncryptedEnvelope,
+    type Organization,
+    type User,
+    type WrappedOrgKey
+} from '../services/cosmosDb.js';
+import { verifyRequestToken, getRequestMetadata } from '../utils/auth.js';
+import { getDisabledPlaintextFeatures } from '../utils/plaintextFeatures.js';
+
+// Key management for end-to-end encrypted cloud storage. The org data key is generated and
+// wrapped on a manager's device; this API only stores public keys and wrapped (opaque) keys.
+
+interface PublishUserKeyRequest {
+    publicKey: JsonWebKey;
+    encryptedPrivateKey: EncryptedEnvelope;
+}
+
+interface EnableRequest {
+    /** The new org data key wrapped for each member, keyed by user id. Must include the caller. */
+    wrappedKeys: Record<string, string>;
+}
+
+interface GrantRequest {
+    userId: string;
+    wrappedKey: string;
+    keyVersion: number;
+}
+
+function isPublicKey(value: unknown): value is JsonWebKey {
+    const jwk = value as JsonWebKey | null;
+    return Boolean(jwk) && typeof jwk === 'object' && jwk?.kty === 'RSA' && typeof jwk.n === 'string' && typeof jwk.e === 'string' && !('d' in jwk);
+}
+
+function isEncryptedEnvelope(value: unknown): value is EncryptedEnvelope {
+    const envelope = value as EncryptedEnvelope | null;
+    return Boolean(envelope) && typeof envelope?.ciphertext === 'string' && typeof envelope.iv === 'string' &&
+        envelope.algorithm === 'AES-GCM' && envelope.version === 1;
+}
+
+/** Staff who may hold the org data key: active members of the org with a published public key. */
+function canHoldOrgKey(member: User | null, orgId: string): member is User & { encryptionKeys: NonNullable<User['encryptionKeys']> } {
+    return Boolean(member && member.isActive && member.userType === 'org' && member.orgId === orgId && member.encryptionKeys);
+}
+
+function wrapFor(wrappedKey: string, keyVersion: number, wrappedBy: string): WrappedOrgKey {
+    return { wrappedKey, keyVersion, wrappedBy, wrappedAt: new Date().toISOString() };
+}
+
+async function orgEncryptionHandler(request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
+    context.log(`Org encryption request: ${request.method} ${request.params.action ?? ''}`);
+
+    const { ipAddress, userAgent } = getRequestMetadata(request);
+
+    const payload = verifyRequestToken(request);
+    if (!payload) {
+        return { status: 401, jsonBody: { error: 'Unauthorized - valid session required' } };
+    }
+
+    const user = await findUserById(payload.userId);
+    if (!user || !user.isActive || user.userType !== 'org' || !user.orgId) {
+        return { status: 403, jsonBody: { error: 'Access denied: Organization user required' } };
+    }
+    const orgId = user.orgId;
+
+    const audit = (action: string, entityId: string, details: Record<string, unknown>) => logAuditEvent({
+        userId: user.id,
+        userEmail: user.email,
+        action,
+        entityType: 'org_encryption',
+        entityId,
+        orgId,
+        ipAddress,
+        userAgent,
+        success: true,
+        details
+    });
+
+    try {
+        const action = request.params.action;
+
+        if (request.method === 'PUT' && action === 'user-key') {
+            // Any staff member publishes their own key pair
+            const body = await request.json() as PublishUserKeyRequest;
+            if (!isPublicKey(body.publicKey) || !isEncryptedEnvelope(body.encryptedPrivateKey)) {
+                return { status: 400, jsonBody: { error: 'publicKey (RSA JWK) and encryptedPrivateKey are required' } };
+            }
+
+            const previousKey = user.encryptionKeys?.publicKey;
+            const keyChanged = previousKey?.n !== body.publicKey.n || previousKey?.e !== body.publicKey.e;
+
+            await updateUser(user.id, {
+                encryptionKeys: {
+                    publicKey: body.publicKey,
+                    encryptedPrivateKey: body.encryptedPrivateKey,
+                    updatedAt: new Date().toISOString()
+                }
+            });
+
+            // A key wrapped for the old public key can no longer be opened; a manager must grant again.
+            // Re-publishing the same pair (its private key re-encrypted) keeps the grant.
+            const organization = await findOrganizationById(orgId);
+            const cloudEncryption = organization ? getCloudEncryption(organization) : null;
+            const revoked = keyChanged && Boolean(cloudEncryption?.wrappedKeys[user.id]);
+            if (organization && cloudEncryption && revoked) {
+                const { [user.id]: _, ...wrappedKeys } = cloudEncryption.wrappedKeys; // eslint-disable-line @typescript-eslint/no-unused-vars
+                await updateOrganization(orgId, { cloudEncryption: { ...cloudEncryption, wrappedKeys } });
+            }
+
+            await audit('update', user.id, { keyPublished: true, orgKeyAccessRevoked: revoked });
+            return { status: 200, jsonBody: { ok: true, orgKeyAccessRevoked: revoked } };
+        }
+
+        if (user.role !== 'manager') {
+            return { status: 403, jsonBody: { error: 'Only managers can manage organization encryption' } };
+        }
+
+        const organization = await findOrganizationById(orgId);
+        if (!organization) {
+            return { status: 404, jsonBody: { error: 'Organization not found' } };
+        }
+        const cloudEncryption = getCloudEncryption(organization);
+        const members = await findUsersByOrg(orgId);
+
+        if (request.method === 'GET' && !action) {
+            await audit('read', orgId, { mode: cloudEncryption.mode });
+            return {
+                status: 200,
+                jsonBody: {
+                    mode: cloudEncryption.mode,
+                    keyVersion: cloudEncryption.keyVersion,
+                    disabledFeatures: getDisabledPlaintextFeatures(organization),
+                    members: members
+                        .filter((member) => member.isActive && member.userType === 'org')
+                        .map((member) => ({
+                            userId: member.id,
+                            name: member.name,
+                            email: member.email,
+                            role: member.role,
+                            publicKey: member.encryptionKeys?.publicKey ?? null,
+                            hasAccess: cloudEncryption.wrappedKeys[member.id]?.keyVersion === cloudEncryption.keyVersion
+                        }))
+                }
+            };
+        }
+
+        if (request.method === 'POST' && action === 'enable') {
+            if (cloudEncryption.mode === 'e2e') {
+                return { status: 409, jsonBody: { error: 'End-to-end encryption is already enabled' } };
+            }
+            const body = await request.json() as EnableRequest;
+            const entries = Object.entries(body.wrappedKeys ?? {});
+            if (!body.wrappedKeys?.[user.id]) {
+                return { status: 400, jsonBody: { error: 'wrappedKeys must include a key for the requesting manager' } };
+            }
+            const memberIds = new Set(members.filter((member) => canHoldOrgKey(member, orgId)).map((member) => member.id));
+            const invalid = entries.filter(([userId, wrappedKey]) => !memberIds.has(userId) || typeof wrappedKey !== 'string' || !wrappedKey);
+            if (invalid.length > 0) {
+                return { status: 400, jsonBody: { error: 'wrappedKeys may only include active staff with a published key', userIds: invalid.map(([userId]) => userId) } };
+            }
+
+            const keyVersion = cloudEncryption.keyVersion + 1;
+            const enabled: Organization['cloudEncryption'] = {
+                mode: 'e2e',
+                keyVersion,
+                enabledAt: new Date().toISOString(),
+                enabledBy: user.id,
+                wrappedKeys: Object.fromEntries(entries.map(([userId, wrappedKey]) => [userId, wrapFor(wrappedKey, keyVersion, user.id)]))
+            };
+            await updateOrganization(orgId, { cloudEncryption: enabled });
+
+            await audit('enable_e2e_encryption', orgId, {
+                keyVersion,
+                grantedUserIds: entries.map(([userId]) => userId),
+                disabledFeatures: getDisabledPlaintextFeatures({ ...organization, cloudEncryption: enabled })
+            });
+            return { status: 200, jsonBody: { mode: 'e2e', keyVersion } };
+        }
+
+        if (request.method === 'POST' && action === 'grant') {
+            if (cloudEncryption.mode !== 'e2e') {
+                return { status: 409, jsonBody: { error: 'End-to-end encryption is not enabled' } };
+            }
+            const body = await request.json() as GrantRequest;
+            if (!body.userId || typeof body.wrappedKey !== 'string' || !body.wrappedKey) {
+                return { status: 400, jsonBody: { error: 'userId and wrappedKey are required' } };
+            }
+            if (body.keyVersion !== cloudEncryption.keyVersion) {
+                return { status: 409, jsonBody: { error: `Key version ${body.keyVersion} is not current (${cloudEncryption.keyVersion})` } };
+            }
+            const member = await findUserById(body.userId);
+            if (!canHoldOrgKey(member, orgId)) {
+                return { status: 404, jsonBody: { error: 'User not found or has not published an encryption key' } };
+            }
+
+            await updateOrganization(orgId, {
+                cloudEncryption: {
+                    ...cloudEncryption,
+                    wrappedKeys: { ...cloudEncryption.wrappedKeys, [member.id]: wrapFor(body.wrappedKey, body.keyVersion, user.id) }
+                }
+            });
+
+            await audit('grant_org_key', member.id, { keyVersion: body.keyVersion, grantedUserEmail: member.email });
+            return { status: 200, jsonBody: { ok: true } };
+        }
+
+        return { status: 405, jsonBody: { error: 'Method not allowed' } };
+    } catch (error) {
+        context.error('Org encryption error:', error);
+        return { status: 500, jsonBody: { error: 'Internal server error' } };
+    }
+}
+
+app.http('orgEncryption', {
+    methods: ['GET', 'POST', 'PUT'],
+    authLevel: 'anonymous',
+    route: 'org/encryption/{action?}',
+    handler: orgEncryptionHandler
+});
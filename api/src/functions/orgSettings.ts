@@ -0,0 +1,99 @@
+import { app, HttpRequest, HttpResponseInit, InvocationContext } from '@azure/functions';
+import { findOrganizationById, findUserById, logAuditEvent, updateOrganization } from '../services/cosmosDb.js';
+import { MIN_RECORD_RETENTION_YEARS } from '../services/retention.js';
+import { verifyRequestToken, getRequestMetadata } from '../utils/auth.js';
+
+/** Longest idle lock a manager can pick; beyond it the 30-minute sign-out applies anyway. */
+const MAX_IDLE_LOCK_MINUTES = 30;
+/** Longest a device may keep synced records; the server copy is the record of truth. */
+const MAX_LOCAL_RETENTION_DAYS = 365;
+const MAX_RECORD_RETENTION_YEARS = 30;
+
+interface UpdateSettingsRequest {
+    idleLockMinutes?: number;
+    localRetentionDays?: number;
+    recordRetentionYears?: number;
+}
+
+function isWholeNumberUpTo(value: unknown, max: number): value is number {
+    return typeof value === 'number' && Number.isInteger(value) && value >= 0 && value <= max;
+}
+
+async function orgSettingsHandler(request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
+    context.log(`Org settings request: ${request.method}`);
+
+    const { ipAddress, userAgent } = getRequestMetadata(request);
+
+    const payload = verifyRequestToken(request);
+    if (!payload) {
+        return { status: 401, jsonBody: { error: 'Unauthorized - valid session required' } };
+    }
+
+    const user = await findUserById(payload.userId);
+    if (!user || !user.isActive || user.userType !== 'org' || !user.orgId) {
+        return { status: 403, jsonBody: { error: 'Access denied: Organization user required' } };
+    }
+    if (user.role !== 'manager') {
+        return { status: 403, jsonBody: { error: 'Only managers can change organization settings' } };
+    }
+    const orgId = user.orgId;
+
+    try {
+        const organization = await findOrganizationById(orgId);
+        if (!organization) {
+            return { status: 404, jsonBody: { error: 'Organization not found' } };
+        }
+
+        const body = await request.json() as UpdateSettingsRequest;
+        const { idleLockMinutes, localRetentionDays, recordRetentionYears } = body;
+        if (idleLockMinutes === undefined && localRetentionDays === undefined && recordRetentionYears === undefined) {
+            return { status: 400, jsonBody: { error: 'No settings to update' } };
+        }
+        if (idleLockMinutes !== undefined && !isWholeNumberUpTo(idleLockMinutes, MAX_IDLE_LOCK_MINUTES)) {
+            return { status: 400, jsonBody: { error: `idleLockMinutes must be a whole number from 0 to ${MAX_IDLE_LOCK_MINUTES}` } };
+        }
+        if (localRetentionDays !== undefined && !isWholeNumberUpTo(localRetentionDays, MAX_LOCAL_RETENTION_DAYS)) {
+            return { status: 400, jsonBody: { error: `localRetentionDays must be a whole number from 0 to ${MAX_LOCAL_RETENTION_DAYS}` } };
+        }
+        if (recordRetentionYears !== undefined &&
+            (!isWholeNumberUpTo(recordRetentionYears, MAX_RECORD_RETENTION_YEARS) || recordRetentionYears < MIN_RECORD_RETENTION_YEARS)) {
+            return { status: 400, jsonBody: { error: `recordRetentionYears must be a whole number from ${MIN_RECORD_RETENTION_YEARS} to ${MAX_RECORD_RETENTION_YEARS}` } };
+        }
+
+        const changes = {
+            ...(idleLockMinutes !== undefined ? { idleLockMinutes } : {}),
+            ...(localRetentionDays !== undefined ? { localRetentionDays } : {}),
+            ...(recordRetentionYears !== undefined ? { recordRetentionYears } : {})
+        };
+        const settings = { ...organization.settings, ...changes };
+        await updateOrganization(orgId, { settings });
+        await logAuditEvent({
+            userId: user.id,
+            userEmail: user.email,
+            action: 'update_org_settings',
+            entityType: 'organization',
+            entityId: orgId,
+            orgId,
+            ipAddress,
+            userAgent,
+            success: true,
+            details: {
+                ...changes,
+                previousIdleLockMinutes: organization.settings.idleLockMinutes ?? null,
+                previousLocalRetentionDays: organization.settings.localRetentionDays ?? null,
+                previousRecordRetentionYears: organization.settings.recordRetentionYears ?? null
+            }
+        });
+        return { status: 200, jsonBody: { settings } };
+    } catch (error) {
+        context.error('Org settings error:', error);
+        return { status: 500, jsonBody: { error: 'Internal server error' } };
+    }
+}
+
+app.http('orgSettings', {
+    methods: ['PUT'],
+    authLevel: 'anonymous',
+    route: 'org/settings',
+    handler: orgSettingsHandler
+});
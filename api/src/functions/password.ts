@@ -0,0 +1,108 @@
+import { app, HttpRequest, HttpResponseInit, InvocationContext } from '@azure/functions';
+import { findUserById, logAuditEvent, updateUser, type EncryptedEnvelope } from '../services/cosmosDb.js';
+import { hashPassword, verifyPassword, verifyRequestToken, getRequestMetadata } from '../utils/auth.js';
+
+// Self-service password change. The encryption salt stays the same, so the client derives the new
+// account key itself and sends the private key re-encrypted under it; this API never sees either key.
+
+interface ChangePasswordRequest {
+    currentPassword: string;
+    newPassword: string;
+    /** The user's RSA private key encrypted with the new account key. Required once a key pair is published. */
+    encryptedPrivateKey?: EncryptedEnvelope;
+}
+
+function isEncryptedEnvelope(value: unknown): value is EncryptedEnvelope {
+    const envelope = value as EncryptedEnvelope | null;
+    return Boolean(envelope) && typeof envelope?.ciphertext === 'string' && typeof envelope.iv === 'string' &&
+        envelope.algorithm === 'AES-GCM' && envelope.version === 1;
+}
+
+async function changePasswordHandler(request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
+    context.log('Password change');
+
+    const { ipAddress, userAgent } = getRequestMetadata(request);
+
+    const payload = verifyRequestToken(request);
+    if (!payload) {
+        return { status: 401, jsonBody: { error: 'Unauthorized - valid session required' } };
+    }
+
+    try {
+        const user = await findUserById(payload.userId);
+        if (!user || !user.isActive) {
+            return { status: 403, jsonBody: { error: 'Account is deactivated. Contact your administrator.' } };
+        }
+
+        const body = await request.json() as ChangePasswordRequest;
+        const { currentPassword, newPassword, encryptedPrivateKey } = body;
+
+        if (!currentPassword || !newPassword) {
+            return { status: 400, jsonBody: { error: 'Current and new password are required' } };
+        }
+
+        if (newPassword.length < 8) {
+            return { status: 400, jsonBody: { error: 'Password must be at least 8 characters' } };
+        }
+
+        // Without the re-encrypted key the stored one stops opening, and the next sign-in would
+        // publish a new pair and lose access to the org data key
+        if (user.encryptionKeys && !isEncryptedEnvelope(encryptedPrivateKey)) {
+            return { status: 400, jsonBody: { error: 'encryptedPrivateKey is required to keep your encryption key' } };
+        }
+
+        const isValid = await verifyPassword(currentPassword, user.passwordHash);
+        if (!isValid) {
+            await logAuditEvent({
+                userId: user.id,
+                userEmail: user.email,
+                action: 'password_change_failed',
+                entityType: 'auth',
+                entityId: user.id,
+                orgId: user.orgId,
+                ipAddress,
+                userAgent,
+                success: false,
+                failureReason: 'invalid_password',
+                details: {}
+            });
+            return { status: 401, jsonBody: { error: 'Current password is incorrect' } };
+        }
+
+        await updateUser(user.id, {
+            passwordHash: await hashPassword(newPassword),
+            ...(user.encryptionKeys && encryptedPrivateKey ? {
+                encryptionKeys: {
+                    ...user.encryptionKeys,
+                    encryptedPrivateKey,
+                    updatedAt: new Date().toISOString()
+                }
+            } : {})
+        });
+
+        await logAuditEvent({
+            userId: user.id,
+            userEmail: user.email,
+            action: 'password_changed',
+            entityType: 'auth',
+            entityId: user.id,
+            orgId: user.orgId,
+            ipAddress,
+            userAgent,
+            success: true,
+            details: { privateKeyReencrypted: Boolean(user.encryptionKeys) }
+        });
+
+        return { status: 200, jsonBody: { ok: true } };
+    } catch (error) {
+        context.error('Password change error:', error);
+        return { status: 500, jsonBody: { error: 'Internal server error' } };
+    }
+}
+
+app.http('changePassword', {
+    methods: ['PUT'],
+    authLevel: 'anonymous',
+    route: 'auth/password',
+    handler: changePasswordHandler
+});
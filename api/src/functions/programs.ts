@@ -0,0 +1,274 @@
+import { app, HttpRequest, HttpResponseInit, InvocationContext } from '@azure/functions';
+import {
+    createProgram,
+    findAccessibleLearners,
+    findProgramsByLearner,
+    findUserById,
+    logAuditEvent,
+    updateProgram,
+    type MasteryCriterion,
+    type PromptLevel,
+    type SkillProgram
+} from '../services/cosmosDb.js';
+import { verifyRequestToken, getRequestMetadata } from '../utils/auth.js';
+import { PROMPT_LEVELS } from '../utils/syncValidation.js';
+
+const MAX_NAME_LENGTH = 200;
+const MAX_TARGETS = 50;
+const MAX_CONSECUTIVE_SESSIONS = 10;
+const MAX_TRIALS_PER_SESSION = 100;
+const DEFAULT_STALL_AFTER_SESSIONS = 5;
+const MIN_STALL_SESSIONS = 2;
+const MAX_STALL_SESSIONS = 30;
+
+interface ProgramFields {
+    name?: string;
+    targets?: string[];
+    promptHierarchy?: PromptLevel[];
+    masteryCriterion?: MasteryCriterion;
+    stallAfterSessions?: number;
+    status?: 'active' | 'archived';
+}
+
+interface CreateProgramRequest extends ProgramFields {
+    learnerId: string;
+}
+
+interface UpdateProgramRequest extends ProgramFields {
+    id: string;
+    learnerId: string;
+}
+
+function isWholeNumberBetween(value: unknown, min: number, max: number): value is number {
+    return typeof value === 'number' && Number.isInteger(value) && value >= min && value <= max;
+}
+
+function isLabel(value: unknown): value is string {
+    return typeof value === 'string' && value.trim().length > 0 && value.trim().length <= MAX_NAME_LENGTH;
+}
+
+/**
+ * Checks the program fields present in `body` and returns them trimmed, or the first problem found.
+ * The prompt hierarchy is stored least intrusive first, whatever order it was sent in.
+ */
+function validateProgramFields(body: ProgramFields): { fields: ProgramFields } | { error: string } {
+    const fields: ProgramFields = {};
+    if (body.name !== undefined) {
+        if (!isLabel(body.name)) return { error: `name must be 1 to ${MAX_NAME_LENGTH} characters` };
+        fields.name = body.name.trim();
+    }
+    if (body.targets !== undefined) {
+        if (!Array.isArray(body.targets) || body.targets.length === 0 || body.targets.length > MAX_TARGETS || !body.targets.every(isLabel)) {
+            return { error: `targets must list 1 to ${MAX_TARGETS} targets of 1 to ${MAX_NAME_LENGTH} characters` };
+        }
+        const targets = body.targets.map((target) => target.trim());
+        if (new Set(targets.map((target) => target.toLowerCase())).size !== targets.length) {
+            return { error: 'targets must not repeat' };
+        }
+        fields.targets = targets;
+    }
+    if (body.promptHierarchy !== undefined) {
+        const levels: unknown[] = Array.isArray(body.promptHierarchy) ? body.promptHierarchy : [];
+        if (!levels.every((level) => (PROMPT_LEVELS as readonly unknown[]).includes(level)) || !levels.includes('independent')) {
+            return { error: `promptHierarchy must include 'independent' and only use ${PROMPT_LEVELS.join(', ')}` };
+        }
+        fields.promptHierarchy = PROMPT_LEVELS.filter((level) => levels.includes(level));
+    }
+    if (body.masteryCriterion !== undefined) {
+        const { percentCorrect, consecutiveSessions, minTrialsPerSession } = body.masteryCriterion ?? {};
+        if (!isWholeNumberBetween(percentCorrect, 1, 100) ||
+            !isWholeNumberBetween(consecutiveSessions, 1, MAX_CONSECUTIVE_SESSIONS) ||
+            !isWholeNumberBetween(minTrialsPerSession, 1, MAX_TRIALS_PER_SESSION)) {
+            return {
+                error: `masteryCriterion needs percentCorrect from 1 to 100, consecutiveSessions from 1 to ${MAX_CONSECUTIVE_SESSIONS} ` +
+                    `and minTrialsPerSession from 1 to ${MAX_TRIALS_PER_SESSION}`
+            };
+        }
+        fields.masteryCriterion = { percentCorrect, consecutiveSessions, minTrialsPerSession };
+    }
+    if (body.stallAfterSessions !== undefined) {
+        if (!isWholeNumberBetween(body.stallAfterSessions, MIN_STALL_SESSIONS, MAX_STALL_SESSIONS)) {
+            return { error: `stallAfterSessions must be a whole number from ${MIN_STALL_SESSIONS} to ${MAX_STALL_SESSIONS}` };
+        }
+        fields.stallAfterSessions = body.stallAfterSessions;
+    }
+    if (body.status !== undefined) {
+        if (body.status !== 'active' && body.status !== 'archived') {
+            return { error: "status must be 'active' or 'archived'" };
+        }
+        fields.status = body.status;
+    }
+    return { fields };
+}
+
+export async function programsHandler(request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
+    context.log(`Programs API request: ${request.method} ${request.url}`);
+
+    const { ipAddress, userAgent } = getRequestMetadata(request);
+
+    const payload = verifyRequestToken(request);
+    if (!payload) {
+        return { status: 401, jsonBody: { error: 'Unauthorized - valid session required' } };
+    }
+
+    const user = await findUserById(payload.userId);
+    if (!user || user.userType !== 'org' || !user.orgId) {
+        return { status: 403, jsonBody: { error: 'Access denied: Organization user required' } };
+    }
+    const orgId = user.orgId;
+
+    // Programs are read by everyone working with the learner and written by Managers and BCBAs
+    const findLearner = async (learnerId: string | null | undefined) => {
+        if (!learnerId) return null;
+        const learners = await findAccessibleLearners(user);
+        return learners.find((learner) => learner.id === learnerId && learner.orgId === orgId) ?? null;
+    };
+    const canWrite = user.role === 'manager' || user.role === 'bcba';
+
+    try {
+        if (request.method === 'GET') {
+            const learner = await findLearner(request.query.get('learnerId'));
+            if (!learner) {
+                return { status: 404, jsonBody: { error: 'Learner not found' } };
+            }
+
+            const programs = await findProgramsByLearner(learner.id);
+
+            await logAuditEvent({
+                userId: user.id,
+                userEmail: user.email,
+                action: 'read',
+                entityType: 'programs_list',
+                entityId: learner.id,
+                orgId,
+                ipAddress,
+                userAgent,
+                success: true,
+                details: { programCount: programs.length, userRole: user.role }
+            });
+
+            return { status: 200, jsonBody: programs };
+        } else if (request.method === 'POST') {
+            if (!canWrite) {
+                return { status: 403, jsonBody: { error: 'Access denied: Only Managers and BCBAs can create programs' } };
+            }
+
+            const body = await request.json() as CreateProgramRequest;
+            const learner = await findLearner(body.learnerId);
+            if (!learner) {
+                return { status: 404, jsonBody: { error: 'Learner not found' } };
+            }
+            if (body.name === undefined || body.targets === undefined || body.promptHierarchy === undefined || body.masteryCriterion === undefined) {
+                return { status: 400, jsonBody: { error: 'Name, targets, prompt hierarchy and mastery criterion are required' } };
+            }
+            const validation = validateProgramFields(body);
+            if ('error' in validation) {
+                return { status: 400, jsonBody: { error: validation.error } };
+            }
+            const { fields } = validation;
+
+            const now = new Date().toISOString();
+            const program = await createProgram({
+                orgId,
+                learnerId: learner.id,
+                name: fields.name!,
+                targets: fields.targets!,
+                promptHierarchy: fields.promptHierarchy!,
+                masteryCriterion: fields.masteryCriterion!,
+                stallAfterSessions: fields.stallAfterSessions ?? DEFAULT_STALL_AFTER_SESSIONS,
+                status: fields.status ?? 'active',
+                createdBy: user.id,
+                createdAt: now,
+                updatedAt: now
+            });
+
+            await logAuditEvent({
+                userId: user.id,
+                userEmail: user.email,
+                action: 'create',
+                entityType: 'program',
+                entityId: program.id,
+                orgId,
+                ipAddress,
+                userAgent,
+                success: true,
+                details: {
+                    learnerId: learner.id,
+                    targetCount: program.targets.length,
+                    createdBy: user.name,
+                    createdByRole: user.role
+                }
+            });
+
+            return { status: 201, jsonBody: program };
+        } else if (request.method === 'PUT') {
+            if (!canWrite) {
+                return { status: 403, jsonBody: { error: 'Access denied: Only Managers and BCBAs can update programs' } };
+            }
+
+            const body = await request.json() as UpdateProgramRequest;
+            if (!body.id) {
+                return { status: 400, jsonBody: { error: 'Program id is required' } };
+            }
+            const learner = await findLearner(body.learnerId);
+            if (!learner) {
+                return { status: 404, jsonBody: { error: 'Learner not found' } };
+            }
+            const validation = validateProgramFields(body);
+            if ('error' in validation) {
+                return { status: 400, jsonBody: { error: validation.error } };
+            }
+            if (Object.keys(validation.fields).length === 0) {
+                return { status: 400, jsonBody: { error: 'No valid fields to update' } };
+            }
+
+            const existing = (await findProgramsByLearner(learner.id)).find((program) => program.id === body.id);
+            if (!existing) {
+                return { status: 404, jsonBody: { error: 'Program not found' } };
+            }
+            const updated = await updateProgram(existing.id, learner.id, validation.fields as Partial<SkillProgram>);
+            if (!updated) {
+                return { status: 404, jsonBody: { error: 'Program not found' } };
+            }
+
+            await logAuditEvent({
+                userId: user.id,
+                userEmail: user.email,
+                action: 'update',
+                entityType: 'program',
+                entityId: updated.id,
+                orgId,
+                ipAddress,
+                userAgent,
+                success: true,
+                details: {
+                    learnerId: learner.id,
+                    changedFields: Object.keys(validation.fields),
+                    status: updated.status,
+                    updatedBy: user.name,
+                    updatedByRole: user.role
+                }
+            });
+
+            return { status: 200, jsonBody: updated };
+        } else {
+            return { status: 405, jsonBody: { error: 'Method not allowed' } };
+        }
+    } catch (error) {
+        context.error('Programs API error:', error);
+        return {
+            status: 500,
+            jsonBody: {
+                error: 'Internal server error',
+                details: error instanceof Error ? error.message : String(error)
+            }
+        };
+    }
+}
+
+app.http('programs', {
+    methods: ['GET', 'POST', 'PUT'],
+    authLevel: 'anonymous',
+    route: 'programs',
+    handler: programsHandler
+});
@@ -74,7 +74,8 @@ async function registerHandler(request: HttpRequest, context: InvocationContext)
                     name: orgName,
                     settings: {
                         defaultSessionDuration: 120,
-                        requireSupervisorApproval: false
+                        requireSupervisorApproval: false,
+                        idleLockMinutes: 5
                     },
                     createdAt: new Date().toISOString(),
                     subscription: {
@@ -0,0 +1,23 @@
+import { app, InvocationContext, Timer } from '@azure/functions';
+import { createCosmosRetentionStore, runRetentionJob } from '../services/retention.js';
+
+/** Nightly at 03:00 UTC, outside clinic hours in US time zones. */
+const RETENTION_SCHEDULE = process.env.RETENTION_SCHEDULE || '0 0 3 * * *';
+
+async function retentionDisposalHandler(timer: Timer, context: InvocationContext): Promise<void> {
+    context.log(`Retention disposal run${timer.isPastDue ? ' (past due)' : ''}`);
+
+    const record = await runRetentionJob(createCosmosRetentionStore());
+    context.log(
+        `Retention disposal ${record.runId}: ${record.learners.length} learners disposed, ` +
+        `${record.auditLogsDeleted} audit logs deleted, ${record.tombstonesExpiring} tombstones set to expire`
+    );
+    if (record.errors.length > 0) {
+        context.error('Retention disposal errors:', record.errors);
+    }
+}
+
+app.timer('retentionDisposal', {
+    schedule: RETENTION_SCHEDULE,
+    handler: retentionDisposalHandler
+});
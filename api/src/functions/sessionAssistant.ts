@@ -1,16 +1,60 @@
 import { app, HttpRequest, HttpResponseInit, InvocationContext } from '@azure/functions';
+import { findOrganizationById } from '../services/cosmosDb.js';
+import { verifyRequestToken } from '../utils/auth.js';
+import { requirePlaintextFeature } from '../utils/plaintextFeatures.js';
 
 type SessionAssistantTask = 'parse' | 'note' | 'chat';
 
+/** The learner's target catalog, as the client sends it with a parse request. */
+type ParseCatalog = {
+    behaviors?: { name: string; definition?: string; synonyms?: string[] }[];
+    skills?: { skill: string; targets: string[] }[];
+    reinforcers?: string[];
+};
+
 type ParseTaskRequest = {
     task: 'parse';
     message: string;
+    catalog?: ParseCatalog;
 };
 
+const MAX_CATALOG_PROMPT_ENTRIES = 100;
+
+const asStrings = (value: unknown): string[] =>
+    Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string' && item.trim().length > 0).slice(0, MAX_CATALOG_PROMPT_ENTRIES) : [];
+
+/** Prompt lines naming the learner's defined targets; empty when the learner has none. */
+function describeCatalog(catalog: ParseCatalog | undefined): string[] {
+    if (!catalog || typeof catalog !== 'object') return [];
+    const behaviors = (Array.isArray(catalog.behaviors) ? catalog.behaviors : [])
+        .filter((behavior) => typeof behavior?.name === 'string')
+        .slice(0, MAX_CATALOG_PROMPT_ENTRIES)
+        .map((behavior) => {
+            const synonyms = asStrings(behavior.synonyms);
+            const definition = typeof behavior.definition === 'string' && behavior.definition.trim() ? `; defined as: ${behavior.definition.trim()}` : '';
+            return `- "${behavior.name}"${synonyms.length > 0 ? ` (also called ${synonyms.map((synonym) => `"${synonym}"`).join(', ')})` : ''}${definition}`;
+        });
+    const skills = (Array.isArray(catalog.skills) ? catalog.skills : [])
+        .filter((skill) => typeof skill?.skill === 'string')
+        .slice(0, MAX_CATALOG_PROMPT_ENTRIES)
+        .map((skill) => `- "${skill.skill}": ${asStrings(skill.targets).map((target) => `"${target}"`).join(', ')}`);
+    const reinforcers = asStrings(catalog.reinforcers);
+    if (behaviors.length === 0 && skills.length === 0 && reinforcers.length === 0) return [];
+
+    return [
+        'This learner has defined targets. Use the defined name, exactly as written, whenever the input refers to one',
+        'by its name, a synonym or its definition; use free text only for something not defined here.',
+        ...(behaviors.length > 0 ? ['Behaviors (use as "type"):', ...behaviors] : []),
+        ...(skills.length > 0 ? ['Skills and their targets (use as "skill" and "target"):', ...skills] : []),
+        ...(reinforcers.length > 0 ? [`Reinforcers (use as reinforcement "type"): ${reinforcers.map((reinforcer) => `"${reinforcer}"`).join(', ')}`] : []),
+    ];
+}
+
 type NoteBehavior = {
     type: string;
     count?: number;
     duration?: number;
+    latency?: number;
     antecedent?: string;
     function?: string;
     intervention?: string;
@@ -22,12 +66,21 @@ type NoteSkillTrial = {
     response: string;
 };
 
+type NoteIntervalData = {
+    behavior: string;
+    method: string;
+    intervalSeconds: number;
+    percent: number;
+    intervals: number;
+};
+
 type NoteTaskRequest = {
     task: 'note';
     clientName: string;
     behaviors: NoteBehavior[];
     skillTrials: NoteSkillTrial[];
     reinforcements?: string[];
+    intervals?: NoteIntervalData[];
 };
 
 type ChatTaskRequest = {
@@ -119,6 +172,16 @@ const isTask = (value: unknown): value is SessionAssistantTask =>
 async function sessionAssistantHandler(request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
     context.log('Session assistant request');
 
+    // Session content must not leave the device for end-to-end encrypted organizations
+    const token = verifyRequestToken(request);
+    if (token?.orgId) {
+        const organization = await findOrganizationById(token.orgId);
+        const disabled = requirePlaintextFeature(organization, 'sessionAssistant');
+        if (disabled) {
+            return disabled;
+        }
+    }
+
     const endpoint = readEnv('AZURE_OPENAI_ENDPOINT');
     const apiKey = readEnv('AZURE_OPENAI_API_KEY');
     const deployment = readEnv('AZURE_OPENAI_DEPLOYMENT') || 'gpt-5-chat';
@@ -177,6 +240,7 @@ async function sessionAssistantHandler(request: HttpRequest, context: Invocation
                 '  "clarificationQuestion"?: string,',
                 '  "narrativeFragment": string',
                 '}',
+                ...describeCatalog(payload.catalog),
                 `Input: ${message}`,
             ].join('\n');
 
@@ -229,6 +293,7 @@ async function sessionAssistantHandler(request: HttpRequest, context: Invocation
                     `Behaviors: ${JSON.stringify(payload.behaviors || [])}`,
                     `SkillTrials: ${JSON.stringify(payload.skillTrials || [])}`,
                     `Reinforcements: ${JSON.stringify(payload.reinforcements || [])}`,
+                    `IntervalData (percent of scored intervals per behavior): ${JSON.stringify(payload.intervals || [])}`,
                     'Write one concise paragraph with objective language and no invented details.'
                 ].join('\n'),
                 temperature: 0.35,
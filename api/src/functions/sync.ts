@@ -1,15 +1,287 @@
 import { app, HttpRequest, HttpResponseInit, InvocationContext } from '@azure/functions';
+import type { Container } from '@azure/cosmos';
 import { verifyRequestToken, getRequestMetadata } from '../utils/auth.js';
-import { getContainer, CONTAINERS, logAuditEvent } from '../services/cosmosDb.js';
+import { getContainer, getSessionsPartitionKey, CONTAINERS, logAuditEvent, findUserById, findAccessibleLearners, findOrganizationById, type EncryptedEnvelope } from '../services/cosmosDb.js';
+import { validateSyncDocument } from '../utils/syncValidation.js';
+import { isEndToEndEncrypted } from '../utils/plaintextFeatures.js';
+
+/** End-to-end mode: the record, encrypted and signed with the org data key. `data` is then empty. */
+export interface EncryptedSyncPayload {
+    payload: EncryptedEnvelope;
+    signature: string;
+    keyVersion: number;
+}
 
 export interface SyncableDocument {
     id: string;
     sessionId: number;
-    entityType: 'behavior' | 'skillTrial' | 'incident' | 'note';
+    entityType: 'behavior' | 'skillTrial' | 'incident' | 'note' | 'interval' | 'taskAnalysis';
     data: Record<string, unknown>;
     syncedAt: string;
     clientId?: string;
     orgId?: string; // Will be populated from authenticated user
+    /** Server revision the client's copy is based on (0 for new documents). */
+    revision?: number;
+    /** Tombstone: the client deleted the record. */
+    deleted?: boolean;
+    encrypted?: EncryptedSyncPayload;
+}
+
+interface StoredSyncDocument extends SyncableDocument {
+    syncedBy: string;
+    syncedByEmail: string;
+    revision: number;
+    deletedAt?: string;
+    _etag?: string;
+}
+
+export interface SyncConflict {
+    id: string;
+    entityType: SyncableDocument['entityType'];
+    clientRevision: number;
+    serverRevision: number;
+    serverDocument: Omit<StoredSyncDocument, '_etag'>;
+}
+
+/** `encryption_required`: plaintext sent for an end-to-end organization; the client should retry once it has the org key. */
+export type SyncErrorCode = 'conflict' | 'forbidden' | 'invalid' | 'encryption_required' | 'write_failed';
+
+/** Outcome for one document of a batch; failed documents carry a machine-readable code and reason. */
+export interface SyncDocumentResult {
+    id: string;
+    ok: boolean;
+    revision?: number;
+    errorCode?: SyncErrorCode;
+    error?: string;
+}
+
+class SyncDocumentError extends Error {
+    constructor(public readonly code: SyncErrorCode, message: string) {
+        super(message);
+        this.name = 'SyncDocumentError';
+    }
+}
+
+class StaleWriteError extends SyncDocumentError {
+    constructor(public readonly conflict: SyncConflict) {
+        super('conflict', `Stale write: server is at revision ${conflict.serverRevision}, client sent ${conflict.clientRevision}`);
+        this.name = 'StaleWriteError';
+    }
+}
+
+function toDocumentResult(doc: SyncableDocument, outcome: PromiseSettledResult<number>): SyncDocumentResult {
+    if (outcome.status === 'fulfilled') {
+        return { id: doc.id, ok: true, revision: outcome.value };
+    }
+    if (outcome.reason instanceof SyncDocumentError) {
+        return { id: doc.id, ok: false, errorCode: outcome.reason.code, error: outcome.reason.message };
+    }
+    // Storage errors are not echoed verbatim; they are logged server-side
+    return { id: doc.id, ok: false, errorCode: 'write_failed', error: 'Document could not be stored' };
+}
+
+async function findStoredDocument(container: Container, id: string, partitionKey: [string, string]): Promise<StoredSyncDocument | null> {
+    try {
+        const { resource } = await container.item(id, partitionKey).read<StoredSyncDocument>();
+        return resource || null;
+    } catch (error) {
+        if ((error as { code?: number }).code === 404) {
+            return null;
+        }
+        throw error;
+    }
+}
+
+function stableStringify(value: unknown): string {
+    if (Array.isArray(value)) {
+        return `[${value.map(stableStringify).join(',')}]`;
+    }
+    if (value && typeof value === 'object') {
+        const entries = Object.keys(value as Record<string, unknown>).sort()
+            .map((key) => `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`);
+        return `{${entries.join(',')}}`;
+    }
+    return JSON.stringify(value) ?? 'null';
+}
+
+/**
+ * A retry of a write we already stored (the client never saw the acknowledgement):
+ * same author, based on the revision just before the stored one, with identical content.
+ */
+function isReplayOfStoredWrite(doc: SyncableDocument, existing: StoredSyncDocument, userId: string): boolean {
+    const { revision: _clientRevision, synced: _synced, ...incomingData } = doc.data; // eslint-disable-line @typescript-eslint/no-unused-vars
+    const { revision: _storedRevision, synced: _storedSynced, ...storedData } = existing.data ?? {}; // eslint-disable-line @typescript-eslint/no-unused-vars
+    return existing.syncedBy === userId &&
+        (doc.revision ?? 0) === existing.revision - 1 &&
+        Boolean(doc.deleted) === Boolean(existing.deleted) &&
+        stableStringify(incomingData) === stableStringify(storedData) &&
+        stableStringify(doc.encrypted ?? null) === stableStringify(existing.encrypted ?? null);
+}
+
+function toConflict(doc: SyncableDocument, existing: StoredSyncDocument): SyncConflict {
+    const { _etag, _rid, _self, _attachments, _ts, ...serverDocument } = existing as StoredSyncDocument & Record<string, unknown>; // eslint-disable-line @typescript-eslint/no-unused-vars
+    return {
+        id: doc.id,
+        entityType: doc.entityType,
+        clientRevision: doc.revision ?? 0,
+        serverRevision: existing.revision ?? 0,
+        serverDocument: serverDocument as Omit<StoredSyncDocument, '_etag'>
+    };
+}
+
+/**
+ * Validates a document and writes it only if the client's base revision matches the stored one.
+ * The etag precondition closes the race between the read and the write.
+ * Deletes are stored as tombstones (empty `data`, `deleted: true`) so pulling devices see them.
+ * @returns The new server revision.
+ */
+async function writeWithRevisionCheck(
+    container: Container,
+    doc: SyncableDocument,
+    attribution: { orgId: string | null; userId: string; email: string; learnerIds: Set<string>; endToEnd: boolean }
+): Promise<number> {
+    if (attribution.endToEnd && !doc.deleted && !doc.encrypted) {
+        // Never store readable PHI for an end-to-end organization
+        throw new SyncDocumentError('encryption_required', 'This organization only accepts end-to-end encrypted records');
+    }
+    const problems = validateSyncDocument(doc, { endToEnd: attribution.endToEnd });
+    if (problems.length > 0) {
+        throw new SyncDocumentError('invalid', problems.join('; '));
+    }
+    if (!doc.clientId || !attribution.orgId || !attribution.learnerIds.has(doc.clientId)) {
+        throw new SyncDocumentError('forbidden', `Learner ${doc.clientId} is not in your organization or assignments`);
+    }
+
+    const partitionKey = getSessionsPartitionKey(attribution.orgId, doc.clientId);
+    const existing = await findStoredDocument(container, doc.id, partitionKey);
+
+    const serverRevision = existing?.revision ?? 0;
+    const clientRevision = doc.revision ?? 0;
+    if (existing && clientRevision !== serverRevision) {
+        if (isReplayOfStoredWrite(doc, existing, attribution.userId)) {
+            return serverRevision;
+        }
+        throw new StaleWriteError(toConflict(doc, existing));
+    }
+
+    if (doc.deleted && !existing) {
+        // Nothing was ever stored under this id, so there is nothing to delete
+        return serverRevision;
+    }
+
+    const revision = serverRevision + 1;
+    const documentToStore = {
+        ...doc,
+        ...(doc.deleted ? { data: {}, deleted: true, deletedAt: new Date().toISOString() } : { deleted: false }),
+        revision,
+        // Add orgId from authenticated user for multi-tenant isolation
+        orgId: attribution.orgId,
+        syncedBy: attribution.userId,
+        syncedByEmail: attribution.email
+    };
+
+    try {
+        await container.items.upsert(
+            documentToStore,
+            existing?._etag ? { accessCondition: { type: 'IfMatch', condition: existing._etag } } : undefined
+        );
+    } catch (error) {
+        if ((error as { code?: number }).code === 412) {
+            const latest = await findStoredDocument(container, doc.id, partitionKey);
+            if (latest) {
+                throw new StaleWriteError(toConflict(doc, latest));
+            }
+        }
+        throw error;
+    }
+
+    return revision;
+}
+
+/**
+ * Position in the pull feed. `since` is a `_ts` watermark (whole seconds) over the learners in
+ * `learnerIds`; `maxTs` is the newest `_ts` seen by the pass in progress. Learners that come into
+ * the caller's scope later have older documents below the watermark, so they are pulled in full
+ * (`backfill`) before joining `learnerIds`.
+ */
+interface PullCursor {
+    since: number;
+    continuationToken?: string;
+    maxTs: number;
+    /** Absent on cursors issued before scopes were tracked: taken as the caller's current learners. */
+    learnerIds?: string[];
+    backfill?: PullBackfill;
+}
+
+interface PullBackfill {
+    learnerIds: string[];
+    continuationToken?: string;
+}
+
+const isStringArray = (value: unknown): value is string[] => Array.isArray(value) && value.every((item) => typeof item === 'string');
+
+const sameIds = (a: string[], b: string[]) => a.length === b.length && a.every((id, index) => id === b[index]);
+
+const DEFAULT_PULL_PAGE_SIZE = 100;
+const MAX_PULL_PAGE_SIZE = 500;
+
+function decodePullCursor(value: string | null): PullCursor | null {
+    if (!value) {
+        return { since: 0, maxTs: 0 };
+    }
+    try {
+        const parsed = JSON.parse(Buffer.from(value, 'base64url').toString('utf8')) as Partial<PullCursor>;
+        if (typeof parsed.since !== 'number' || typeof parsed.maxTs !== 'number') {
+            return null;
+        }
+        const backfill = parsed.backfill;
+        return {
+            since: parsed.since,
+            maxTs: parsed.maxTs,
+            continuationToken: typeof parsed.continuationToken === 'string' ? parsed.continuationToken : undefined,
+            learnerIds: isStringArray(parsed.learnerIds) ? parsed.learnerIds : undefined,
+            backfill: backfill && isStringArray(backfill.learnerIds) ? {
+                learnerIds: backfill.learnerIds,
+                continuationToken: typeof backfill.continuationToken === 'string' ? backfill.continuationToken : undefined
+            } : undefined
+        };
+    } catch {
+        return null;
+    }
+}
+
+function encodePullCursor(cursor: PullCursor): string {
+    return Buffer.from(JSON.stringify(cursor), 'utf8').toString('base64url');
+}
+
+/**
+ * Fits a cursor to the learners the caller can access now. Learners no longer in scope are dropped;
+ * new ones are queued for a backfill, unless the pull starts from nothing and covers them anyway.
+ * A continuation token only resumes the query it came from, so a pass whose learners changed restarts.
+ */
+function scopePullCursor(cursor: PullCursor, scope: string[]): PullCursor {
+    const inScope = new Set(scope);
+    const known = cursor.learnerIds ?? scope;
+    const covered = known.filter((id) => inScope.has(id));
+    const backfilling = (cursor.backfill?.learnerIds ?? []).filter((id) => inScope.has(id));
+    const added = scope.filter((id) => !known.includes(id) && !backfilling.includes(id));
+
+    if (cursor.since === 0 && !cursor.continuationToken && !cursor.backfill) {
+        return { since: 0, maxTs: cursor.maxTs, learnerIds: scope };
+    }
+
+    const backfillIds = [...backfilling, ...added];
+    const backfill: PullBackfill | undefined = backfillIds.length === 0 ? undefined : {
+        learnerIds: backfillIds,
+        continuationToken: cursor.backfill && sameIds(backfillIds, cursor.backfill.learnerIds) ? cursor.backfill.continuationToken : undefined
+    };
+    return {
+        since: cursor.since,
+        maxTs: cursor.maxTs,
+        continuationToken: sameIds(covered, known) ? cursor.continuationToken : undefined,
+        learnerIds: covered,
+        backfill
+    };
 }
 
 async function batchSyncHandler(request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
@@ -28,6 +300,14 @@ async function batchSyncHandler(request: HttpRequest, context: InvocationContext
             };
         }
 
+        const user = await findUserById(payload.userId);
+        if (!user || !user.isActive || user.userType !== 'org' || !user.orgId) {
+            return {
+                status: 403,
+                jsonBody: { error: 'Access denied: Organization user required' }
+            };
+        }
+
         const body = await request.json() as { documents: SyncableDocument[] };
         const { documents } = body;
 
@@ -41,42 +321,51 @@ async function batchSyncHandler(request: HttpRequest, context: InvocationContext
         if (documents.length === 0) {
             return {
                 status: 200,
-                jsonBody: { success: 0, failed: 0 }
+                jsonBody: { success: 0, failed: 0, results: [] }
             };
         }
 
+        const organization = await findOrganizationById(user.orgId);
+        const endToEnd = isEndToEndEncrypted(organization);
+
+        // Documents may only reference learners the caller can access (same rules as sync/pull)
+        const learners = await findAccessibleLearners(user);
+        const learnerIds = new Set(learners.filter((learner) => learner.orgId === user.orgId).map((learner) => learner.id));
+
         const container = getContainer(CONTAINERS.SESSIONS);
         let success = 0;
         let failed = 0;
+        const results: SyncDocumentResult[] = [];
+        const conflicts: SyncConflict[] = [];
 
         // Process in batches of 10 to avoid rate limiting
         const batchSize = 10;
         for (let i = 0; i < documents.length; i += batchSize) {
             const batch = documents.slice(i, i + batchSize);
 
-            const results = await Promise.allSettled(
-                batch.map(async (doc) => {
-                    // Add orgId from authenticated user for multi-tenant isolation
-                    const documentToStore = {
-                        ...doc,
-                        orgId: payload.orgId,
-                        syncedBy: payload.userId,
-                        syncedByEmail: payload.email
-                    };
-
-                    // Upsert the document
-                    await container.items.upsert(documentToStore);
-                    return true;
-                })
+            const outcomes = await Promise.allSettled(
+                batch.map((doc) => writeWithRevisionCheck(container, doc, {
+                    orgId: user.orgId,
+                    userId: user.id,
+                    email: user.email,
+                    learnerIds,
+                    endToEnd
+                }))
             );
 
-            // Count successes and failures
-            results.forEach(result => {
-                if (result.status === 'fulfilled') {
+            // Record a result per document; stale writes also return the server copy
+            outcomes.forEach((outcome, index) => {
+                const result = toDocumentResult(batch[index], outcome);
+                results.push(result);
+                if (result.ok) {
                     success++;
+                    return;
+                }
+                failed++;
+                if (outcome.status === 'rejected' && outcome.reason instanceof StaleWriteError) {
+                    conflicts.push(outcome.reason.conflict);
                 } else {
-                    failed++;
-                    context.error('Sync failed for document:', result.reason);
+                    context.error(`Sync failed for document ${batch[index].id}:`, outcome.status === 'rejected' ? outcome.reason : result.error);
                 }
             });
 
@@ -104,16 +393,23 @@ async function batchSyncHandler(request: HttpRequest, context: InvocationContext
                 totalDocuments: documents.length,
                 successCount: success,
                 failedCount: failed,
+                conflictCount: conflicts.length,
+                deletedCount: documents.filter(d => d.deleted).length,
+                endToEnd,
+                errorCodes: [...new Set(results.filter(r => !r.ok).map(r => r.errorCode))],
                 entityTypes: [...new Set(documents.map(d => d.entityType))]
             }
         });
 
+        // Stale writes are rejected with 409; the payload carries the server copies to merge against
         return {
-            status: 200,
+            status: conflicts.length > 0 ? 409 : 200,
             jsonBody: {
                 success,
                 failed,
-                total: documents.length
+                total: documents.length,
+                results,
+                conflicts
             }
         };
 
@@ -129,9 +425,153 @@ async function batchSyncHandler(request: HttpRequest, context: InvocationContext
     }
 }
 
+async function pullSyncHandler(request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
+    context.log('Sync pull request');
+
+    const { ipAddress, userAgent } = getRequestMetadata(request);
+
+    try {
+        const payload = verifyRequestToken(request);
+        if (!payload) {
+            return {
+                status: 401,
+                jsonBody: { error: 'Authentication required' }
+            };
+        }
+
+        const user = await findUserById(payload.userId);
+        if (!user || !user.isActive || user.userType !== 'org' || !user.orgId) {
+            return {
+                status: 403,
+                jsonBody: { error: 'Access denied: Organization user required' }
+            };
+        }
+
+        const cursor = decodePullCursor(request.query.get('cursor'));
+        if (!cursor) {
+            return {
+                status: 400,
+                jsonBody: { error: 'Invalid cursor' }
+            };
+        }
+
+        const requestedPageSize = Number(request.query.get('pageSize') ?? DEFAULT_PULL_PAGE_SIZE);
+        const pageSize = Number.isFinite(requestedPageSize)
+            ? Math.min(Math.max(Math.floor(requestedPageSize), 1), MAX_PULL_PAGE_SIZE)
+            : DEFAULT_PULL_PAGE_SIZE;
+
+        // Scope to the caller's org and the learners they can access (same rules as auth/me)
+        const learners = await findAccessibleLearners(user);
+        const scoped = scopePullCursor(cursor, learners.map((learner) => learner.id));
+        const learnerIds = scoped.learnerIds ?? [];
+        if (learnerIds.length === 0 && !scoped.backfill) {
+            return {
+                status: 200,
+                jsonBody: { documents: [], cursor: encodePullCursor(scoped), hasMore: false }
+            };
+        }
+
+        const container = getContainer(CONTAINERS.SESSIONS);
+        const queryPage = async (filter: string, ids: string[], continuationToken: string | undefined, parameters: { name: string; value: number }[] = []) => {
+            const page = await container.items.query(
+                {
+                    query: `SELECT * FROM c WHERE c.orgId = @orgId AND ARRAY_CONTAINS(@learnerIds, c.clientId)${filter} ORDER BY c._ts ASC`,
+                    parameters: [
+                        { name: '@orgId', value: user.orgId },
+                        { name: '@learnerIds', value: ids },
+                        ...parameters
+                    ]
+                },
+                { maxItemCount: pageSize, continuationToken }
+            ).fetchNext();
+            const more = page.hasMoreResults && Boolean(page.continuationToken);
+            return { resources: page.resources as Array<SyncableDocument & Record<string, unknown>>, continuationToken: more ? page.continuationToken : undefined };
+        };
+
+        let resources: Array<SyncableDocument & Record<string, unknown>>;
+        let nextCursor: PullCursor;
+        let hasMore: boolean;
+        if (scoped.backfill) {
+            // Newly accessible learners, from their first document; the watermark is left alone, and
+            // the next pass re-reads their documents above it (the client skips revisions it has)
+            const page = await queryPage('', scoped.backfill.learnerIds, scoped.backfill.continuationToken);
+            resources = page.resources;
+            nextCursor = page.continuationToken
+                ? { ...scoped, backfill: { learnerIds: scoped.backfill.learnerIds, continuationToken: page.continuationToken } }
+                : { ...scoped, learnerIds: [...learnerIds, ...scoped.backfill.learnerIds], backfill: undefined };
+            hasMore = true;
+        } else {
+            const page = await queryPage(' AND c._ts > @since', learnerIds, scoped.continuationToken, [{ name: '@since', value: scoped.since }]);
+            resources = page.resources;
+            const maxTs = resources.reduce(
+                (max, resource) => Math.max(max, typeof resource._ts === 'number' ? resource._ts : 0),
+                scoped.maxTs
+            );
+            hasMore = Boolean(page.continuationToken);
+            // `_ts` has one-second granularity, so a document written later in the newest second seen
+            // would fall behind a watermark at that second. Hold the watermark one second back and pull
+            // that second again next time; the client skips revisions it already has.
+            nextCursor = hasMore
+                ? { since: scoped.since, continuationToken: page.continuationToken, maxTs, learnerIds }
+                : { since: Math.max(scoped.since, maxTs - 1), maxTs, learnerIds };
+        }
+
+        // Strip Cosmos system properties before returning documents
+        const documents = resources.map((resource) => {
+            const { _rid, _self, _etag, _attachments, _ts, ...document } = resource; // eslint-disable-line @typescript-eslint/no-unused-vars
+            return document;
+        });
+
+        // Log PHI read for the pulled page
+        await logAuditEvent({
+            userId: user.id,
+            userEmail: user.email,
+            action: 'read',
+            entityType: 'session_data',
+            entityId: `pull_${documents.length}`,
+            orgId: user.orgId,
+            ipAddress,
+            userAgent,
+            success: true,
+            details: {
+                documentCount: documents.length,
+                since: scoped.since,
+                backfill: Boolean(scoped.backfill),
+                hasMore,
+                learnerIds: [...new Set(documents.map((document) => document.clientId).filter(Boolean))]
+            }
+        });
+
+        return {
+            status: 200,
+            jsonBody: {
+                documents,
+                cursor: encodePullCursor(nextCursor),
+                hasMore
+            }
+        };
+    } catch (error) {
+        context.error('Sync pull error:', error);
+        return {
+            status: 500,
+            jsonBody: {
+                error: 'Internal server error',
+                details: error instanceof Error ? error.message : String(error)
+            }
+        };
+    }
+}
+
 app.http('batchSync', {
     methods: ['POST'],
     authLevel: 'anonymous',
     route: 'sync/batch',
     handler: batchSyncHandler
 });
+
+app.http('pullSync', {
+    methods: ['GET'],
+    authLevel: 'anonymous',
+    route: 'sync/pull',
+    handler: pullSyncHandler
+});
@@ -0,0 +1,207 @@
+import { app, HttpRequest, HttpResponseInit, InvocationContext } from '@azure/functions';
+import {
+    findAccessibleLearners,
+    findTargetCatalog,
+    findUserById,
+    logAuditEvent,
+    saveTargetCatalog,
+    type BehaviorDefinition,
+    type SkillTargetList
+} from '../services/cosmosDb.js';
+import { verifyRequestToken, getRequestMetadata } from '../utils/auth.js';
+
+const MAX_LABEL_LENGTH = 200;
+const MAX_DEFINITION_LENGTH = 2000;
+const MAX_ENTRIES = 100;
+const MAX_SYNONYMS = 20;
+
+interface SaveTargetCatalogRequest {
+    learnerId: string;
+    behaviors?: BehaviorDefinition[];
+    skills?: SkillTargetList[];
+    reinforcers?: string[];
+}
+
+type CatalogFields = Pick<SaveTargetCatalogRequest, 'behaviors' | 'skills' | 'reinforcers'>;
+
+function isLabel(value: unknown): value is string {
+    return typeof value === 'string' && value.trim().length > 0 && value.trim().length <= MAX_LABEL_LENGTH;
+}
+
+/** Trimmed labels, or null when the list is not 0 to `max` labels that do not repeat (ignoring case). */
+function toLabels(value: unknown, max: number): string[] | null {
+    if (!Array.isArray(value) || value.length > max || !value.every(isLabel)) return null;
+    const labels = value.map((label) => label.trim());
+    return new Set(labels.map((label) => label.toLowerCase())).size === labels.length ? labels : null;
+}
+
+/**
+ * Checks a whole catalog and returns it trimmed, or the first problem found. A word may name or
+ * be a synonym of only one behavior, so the parser never has to choose between two.
+ */
+function validateCatalog(body: CatalogFields): { fields: Required<CatalogFields> } | { error: string } {
+    const rawBehaviors: unknown[] = Array.isArray(body.behaviors) ? body.behaviors : [];
+    if ((body.behaviors !== undefined && !Array.isArray(body.behaviors)) || rawBehaviors.length > MAX_ENTRIES) {
+        return { error: `behaviors must list up to ${MAX_ENTRIES} behaviors` };
+    }
+    const behaviors: BehaviorDefinition[] = [];
+    const behaviorWords = new Set<string>();
+    for (const raw of rawBehaviors) {
+        const candidate = (raw ?? {}) as Partial<BehaviorDefinition>;
+        const synonyms = toLabels(candidate.synonyms ?? [], MAX_SYNONYMS);
+        if (!isLabel(candidate.name) || !synonyms) {
+            return { error: `each behavior needs a name and up to ${MAX_SYNONYMS} distinct synonyms of 1 to ${MAX_LABEL_LENGTH} characters` };
+        }
+        if (candidate.definition !== undefined && (typeof candidate.definition !== 'string' || candidate.definition.length > MAX_DEFINITION_LENGTH)) {
+            return { error: `behavior definitions must be at most ${MAX_DEFINITION_LENGTH} characters` };
+        }
+        const name = candidate.name.trim();
+        for (const word of [name, ...synonyms]) {
+            if (behaviorWords.has(word.toLowerCase())) {
+                return { error: `'${word}' is used by more than one behavior` };
+            }
+            behaviorWords.add(word.toLowerCase());
+        }
+        const definition = candidate.definition?.trim();
+        behaviors.push({ name, ...(definition ? { definition } : {}), synonyms });
+    }
+
+    const rawSkills: unknown[] = Array.isArray(body.skills) ? body.skills : [];
+    if ((body.skills !== undefined && !Array.isArray(body.skills)) || rawSkills.length > MAX_ENTRIES) {
+        return { error: `skills must list up to ${MAX_ENTRIES} skills` };
+    }
+    const skills: SkillTargetList[] = [];
+    for (const raw of rawSkills) {
+        const candidate = (raw ?? {}) as Partial<SkillTargetList>;
+        const targets = toLabels(candidate.targets, MAX_ENTRIES);
+        if (!isLabel(candidate.skill) || !targets || targets.length === 0) {
+            return { error: `each skill needs a name and 1 to ${MAX_ENTRIES} distinct targets of 1 to ${MAX_LABEL_LENGTH} characters` };
+        }
+        skills.push({ skill: candidate.skill.trim(), targets });
+    }
+    if (new Set(skills.map((entry) => entry.skill.toLowerCase())).size !== skills.length) {
+        return { error: 'skills must not repeat' };
+    }
+
+    const reinforcers = toLabels(body.reinforcers ?? [], MAX_ENTRIES);
+    if (!reinforcers) {
+        return { error: `reinforcers must list up to ${MAX_ENTRIES} distinct reinforcers of 1 to ${MAX_LABEL_LENGTH} characters` };
+    }
+
+    return { fields: { behaviors, skills, reinforcers } };
+}
+
+export async function targetCatalogHandler(request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
+    context.log(`Target catalog API request: ${request.method} ${request.url}`);
+
+    const { ipAddress, userAgent } = getRequestMetadata(request);
+
+    const payload = verifyRequestToken(request);
+    if (!payload) {
+        return { status: 401, jsonBody: { error: 'Unauthorized - valid session required' } };
+    }
+
+    const user = await findUserById(payload.userId);
+    if (!user || user.userType !== 'org' || !user.orgId) {
+        return { status: 403, jsonBody: { error: 'Access denied: Organization user required' } };
+    }
+    const orgId = user.orgId;
+
+    // Read by everyone working with the learner (their devices parse against it), written by Managers and BCBAs
+    const findLearner = async (learnerId: string | null | undefined) => {
+        if (!learnerId) return null;
+        const learners = await findAccessibleLearners(user);
+        return learners.find((learner) => learner.id === learnerId && learner.orgId === orgId) ?? null;
+    };
+
+    try {
+        if (request.method === 'GET') {
+            const learner = await findLearner(request.query.get('learnerId'));
+            if (!learner) {
+                return { status: 404, jsonBody: { error: 'Learner not found' } };
+            }
+
+            const catalog = await findTargetCatalog(learner.id);
+
+            await logAuditEvent({
+                userId: user.id,
+                userEmail: user.email,
+                action: 'read',
+                entityType: 'target_catalog',
+                entityId: learner.id,
+                orgId,
+                ipAddress,
+                userAgent,
+                success: true,
+                details: { found: catalog !== null, userRole: user.role }
+            });
+
+            // A learner without a catalog gets an empty one, so devices can cache "nothing defined" too
+            return {
+                status: 200,
+                jsonBody: catalog ?? { learnerId: learner.id, behaviors: [], skills: [], reinforcers: [], updatedAt: null }
+            };
+        } else if (request.method === 'PUT') {
+            if (user.role !== 'manager' && user.role !== 'bcba') {
+                return { status: 403, jsonBody: { error: 'Access denied: Only Managers and BCBAs can edit target catalogs' } };
+            }
+
+            const body = await request.json() as SaveTargetCatalogRequest;
+            const learner = await findLearner(body.learnerId);
+            if (!learner) {
+                return { status: 404, jsonBody: { error: 'Learner not found' } };
+            }
+            const validation = validateCatalog(body);
+            if ('error' in validation) {
+                return { status: 400, jsonBody: { error: validation.error } };
+            }
+
+            const catalog = await saveTargetCatalog({
+                orgId,
+                learnerId: learner.id,
+                ...validation.fields,
+                updatedBy: user.id,
+                updatedAt: new Date().toISOString()
+            });
+
+            await logAuditEvent({
+                userId: user.id,
+                userEmail: user.email,
+                action: 'update',
+                entityType: 'target_catalog',
+                entityId: learner.id,
+                orgId,
+                ipAddress,
+                userAgent,
+                success: true,
+                details: {
+                    behaviorCount: catalog.behaviors.length,
+                    skillCount: catalog.skills.length,
+                    reinforcerCount: catalog.reinforcers.length,
+                    updatedBy: user.name,
+                    updatedByRole: user.role
+                }
+            });
+
+            return { status: 200, jsonBody: catalog };
+        } else {
+            return { status: 405, jsonBody: { error: 'Method not allowed' } };
+        }
+    } catch (error) {
+        context.error('Target catalog API error:', error);
+        return {
+            status: 500,
+            jsonBody: {
+                error: 'Internal server error',
+                details: error instanceof Error ? error.message : String(error)
+            }
+        };
+    }
+}
+
+app.http('targetCatalog', {
+    methods: ['GET', 'PUT'],
+    authLevel: 'anonymous',
+    route: 'target-catalog',
+    handler: targetCatalogHandler
+});
@@ -16,6 +16,8 @@ interface UpdateUserRequest {
     isActive?: boolean;
     name?: string;
     assignedLearnerIds?: string[];
+    /** Resets the user's password; their device then needs a manager-approved recovery to reopen local data. */
+    password?: string;
 }
 
 async function usersHandler(request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
@@ -59,9 +61,9 @@ async function usersHandler(request: HttpRequest, context: InvocationContext): P
                 details: { userCount: users.length }
             });
 
-            // Remove sensitive data
+            // Remove sensitive data (other users' encrypted private keys included)
             // eslint-disable-next-line @typescript-eslint/no-unused-vars
-            const safeUsers = users.map(({ passwordHash: _, ...u }) => u);
+            const safeUsers = users.map(({ passwordHash: _, encryptionKeys: __, ...u }) => u);
             return { status: 200, jsonBody: { users: safeUsers } };
 
         } else if (request.method === 'POST') {
@@ -122,7 +124,7 @@ async function usersHandler(request: HttpRequest, context: InvocationContext): P
             }
 
             const body = await request.json() as UpdateUserRequest;
-            const { id, role, isActive, name, assignedLearnerIds } = body;
+            const { id, role, isActive, name, assignedLearnerIds, password } = body;
 
             if (!id) {
                 return { status: 400, jsonBody: { error: 'User id is required' } };
@@ -137,6 +139,10 @@ async function usersHandler(request: HttpRequest, context: InvocationContext): P
                 return { status: 400, jsonBody: { error: 'You cannot deactivate your own account' } };
             }
 
+            if (typeof password !== 'undefined' && password.length < 8) {
+                return { status: 400, jsonBody: { error: 'Password must be at least 8 characters' } };
+            }
+
             const updates: UpdateUserRequest = { id };
             if (typeof role !== 'undefined') {
                 updates.role = role;
@@ -156,7 +162,11 @@ async function usersHandler(request: HttpRequest, context: InvocationContext): P
                 ...(typeof updates.role !== 'undefined' ? { role: updates.role, permissions } : {}),
                 ...(typeof updates.isActive !== 'undefined' ? { isActive: updates.isActive } : {}),
                 ...(typeof updates.name !== 'undefined' ? { name: updates.name } : {}),
-                ...(typeof updates.assignedLearnerIds !== 'undefined' ? { assignedLearnerIds: updates.assignedLearnerIds } : {})
+                ...(typeof updates.assignedLearnerIds !== 'undefined' ? { assignedLearnerIds: updates.assignedLearnerIds } : {}),
+                ...(typeof password !== 'undefined' ? {
+                    passwordHash: await hashPassword(password),
+                    recovery: { status: 'reset' as const, resetBy: requester.id, resetAt: new Date().toISOString() }
+                } : {})
             });
 
             if (!updatedUser) {
@@ -177,11 +187,12 @@ async function usersHandler(request: HttpRequest, context: InvocationContext): P
                     updatedUserEmail: updatedUser.email,
                     role: updatedUser.role,
                     isActive: updatedUser.isActive,
-                    name: updatedUser.name
+                    name: updatedUser.name,
+                    passwordReset: typeof password !== 'undefined'
                 }
             });
 
-            const { passwordHash: _, ...safeUser } = updatedUser; // eslint-disable-line @typescript-eslint/no-unused-vars
+            const { passwordHash: _, encryptionKeys: __, ...safeUser } = updatedUser; // eslint-disable-line @typescript-eslint/no-unused-vars
             return { status: 200, jsonBody: { user: safeUser } };
         }
 
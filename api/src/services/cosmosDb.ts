@@ -13,9 +13,21 @@ export const CONTAINERS = {
     ORGANIZATIONS: 'Organizations',
     LEARNERS: 'Learners',
     SESSIONS: 'Sessions',
+    PROGRAMS: 'Programs',
+    TARGET_CATALOGS: 'TargetCatalogs',
     AUDIT_LOG: 'AuditLog'
 } as const;
 
+/**
+ * The Sessions container is partitioned hierarchically on org, then learner, so record ids only
+ * need to be unique per learner and a learner's records are read from a single partition.
+ */
+export const SESSIONS_PARTITION_KEY_PATHS = ['/orgId', '/clientId'] as const;
+
+export function getSessionsPartitionKey(orgId: string, learnerId: string): [string, string] {
+    return [orgId, learnerId];
+}
+
 function getClient(): CosmosClient {
     if (!client) {
         if (!COSMOS_CONNECTION_STRING) {
@@ -52,6 +64,87 @@ export interface User {
     lastLogin: string | null;
     isActive: boolean;
     encryptionSalt: string;
+    /** Key pair for receiving the org data key; the private half is encrypted with the user's password-derived key. */
+    encryptionKeys?: UserEncryptionKeys;
+    /** Present from a manager password reset until the user's device has recovered its local data keys. */
+    recovery?: AccountRecovery;
+}
+
+/** AES-GCM envelope produced by the client; the server never holds the key. */
+export interface EncryptedEnvelope {
+    ciphertext: string;
+    iv: string;
+    algorithm: 'AES-GCM';
+    version: 1;
+}
+
+export interface UserEncryptionKeys {
+    publicKey: JsonWebKey;
+    encryptedPrivateKey: EncryptedEnvelope;
+    updatedAt: string;
+}
+
+/** The org data key wrapped (RSA-OAEP) for one user's public key. */
+export interface WrappedOrgKey {
+    wrappedKey: string;
+    keyVersion: number;
+    wrappedBy: string;
+    wrappedAt: string;
+}
+
+/** Local data keys encrypted (RSA-OAEP) to a public key, base64. */
+export interface WrappedDataKeys {
+    wrappedKey: string;
+    wrappedSigningKey: string;
+}
+
+/** A device's local data keys encrypted to the org recovery key. Only managers can open it. */
+export interface RecoveryEscrow extends WrappedDataKeys {
+    recoveryKeyVersion: number;
+}
+
+/**
+ * Recovery of a device's locally encrypted data after a manager reset the user's password.
+ * 'reset' -> the device sends its escrow ('requested') -> a manager re-encrypts the data keys
+ * to the device's one-time request key ('approved') -> the device re-wraps them and clears this.
+ */
+export interface AccountRecovery {
+    status: 'reset' | 'requested' | 'approved';
+    resetBy: string;
+    resetAt: string;
+    requestedAt?: string;
+    escrow?: RecoveryEscrow;
+    requestPublicKey?: JsonWebKey;
+    approvedBy?: string;
+    approvedAt?: string;
+    recoveredKeys?: WrappedDataKeys;
+}
+
+/**
+ * Org-escrowed recovery key. Devices encrypt their local data keys to `publicKey`; the private half
+ * is encrypted under random material that is wrapped for each manager's public key.
+ */
+export interface OrgRecoveryKey {
+    publicKey: JsonWebKey;
+    encryptedPrivateKey: EncryptedEnvelope;
+    keyVersion: number;
+    createdBy: string;
+    createdAt: string;
+    /** Keyed by manager user id. */
+    wrappedKeys: Record<string, WrappedOrgKey>;
+}
+
+/**
+ * 'standard': clinical records are stored readable by the service.
+ * 'e2e': records are uploaded as ciphertext under an org data key the service never sees.
+ */
+export interface OrgCloudEncryption {
+    mode: 'standard' | 'e2e';
+    keyVersion: number;
+    enabledAt: string | null;
+    enabledBy: string | null;
+    /** Keyed by user id. */
+    wrappedKeys: Record<string, WrappedOrgKey>;
 }
 
 export interface Organization {
@@ -60,7 +153,17 @@ export interface Organization {
     settings: {
         defaultSessionDuration: number;
         requireSupervisorApproval: boolean;
+        /** Minutes without input before devices lock their local keys; 0 turns the lock off. Absent: the client default. */
+        idleLockMinutes?: number;
+        /** Days synced records stay on a device before they are purged; 0 keeps them until the device is wiped. Absent: the client default. */
+        localRetentionDays?: number;
+        /** Years a discharged learner's records are kept on the server before disposal. Absent: the server default. */
+        recordRetentionYears?: number;
     };
+    /** Absent on organizations created before end-to-end mode existed; treated as 'standard'. */
+    cloudEncryption?: OrgCloudEncryption;
+    /** Absent until a manager sets up account recovery. */
+    recoveryKey?: OrgRecoveryKey;
     createdAt: string;
 
     // Subscription & Billing (Stripe integration)
@@ -98,7 +201,71 @@ export interface Learner {
     primaryBcbaId: string | null;
     assignedRbtIds: string[];
     status: 'active' | 'inactive' | 'discharged';
+    /** Set when the learner is discharged; their records are disposed of once the org's retention period has passed. */
+    dischargedAt?: string | null;
+    createdAt: string;
+}
+
+export type PromptLevel = 'independent' | 'verbal' | 'gestural' | 'model' | 'partial-physical' | 'full-physical';
+
+/** A target is mastered at `percentCorrect` independent correct or better in `consecutiveSessions` sessions in a row. */
+export interface MasteryCriterion {
+    percentCorrect: number;
+    consecutiveSessions: number;
+    /** Sessions with fewer trials of a target do not count toward its mastery. */
+    minTrialsPerSession: number;
+}
+
+/**
+ * A skill acquisition program a BCBA wrote for one learner. The Programs container is partitioned
+ * on learnerId. Progress is not stored here: devices compute it from the learner's skill trials.
+ */
+export interface SkillProgram {
+    id: string;
+    orgId: string;
+    learnerId: string;
+    /** Recorded as the skill name of the program's trials. */
+    name: string;
+    /** Targets in teaching order. */
+    targets: string[];
+    /** Prompt levels in use, least intrusive first. */
+    promptHierarchy: PromptLevel[];
+    masteryCriterion: MasteryCriterion;
+    /** A target without a new best score in this many sessions is flagged as stalled. */
+    stallAfterSessions: number;
+    status: 'active' | 'archived';
+    createdBy: string;
     createdAt: string;
+    updatedAt: string;
+}
+
+/** A behavior as the learner's team defines it, with the words staff use for it. */
+export interface BehaviorDefinition {
+    name: string;
+    /** The operational definition. */
+    definition?: string;
+    synonyms: string[];
+}
+
+export interface SkillTargetList {
+    skill: string;
+    targets: string[];
+}
+
+/**
+ * The behaviors, skill targets and reinforcers defined for one learner, which the session
+ * assistant maps free text onto. One document per learner, with the learner's id as its id, in
+ * the TargetCatalogs container partitioned on learnerId.
+ */
+export interface TargetCatalog {
+    id: string;
+    orgId: string;
+    learnerId: string;
+    behaviors: BehaviorDefinition[];
+    skills: SkillTargetList[];
+    reinforcers: string[];
+    updatedBy: string;
+    updatedAt: string;
 }
 
 export interface AuditLogEntry {
@@ -186,6 +353,10 @@ export async function findOrganizationById(orgId: string): Promise<Organization
     }
 }
 
+export function getCloudEncryption(org: Organization): OrgCloudEncryption {
+    return org.cloudEncryption ?? { mode: 'standard', keyVersion: 0, enabledAt: null, enabledBy: null, wrappedKeys: {} };
+}
+
 export async function createLearner(learner: Omit<Learner, 'id'>): Promise<Learner> {
     const container = getContainer(CONTAINERS.LEARNERS);
     const id = crypto.randomUUID();
@@ -217,6 +388,27 @@ export async function findLearnersByIds(learnerIds: string[]): Promise<Learner[]
     return resources;
 }
 
+/**
+ * Learners a user may access: managers and BCBAs see the whole org,
+ * RBTs and parents only their assigned learners.
+ */
+export async function findAccessibleLearners(user: User): Promise<Learner[]> {
+    if (user.userType === 'org' && user.orgId) {
+        if (user.role === 'manager' || user.role === 'bcba') {
+            return findLearnersByOrg(user.orgId);
+        }
+        if (user.role === 'rbt') {
+            const assigned = await findLearnersByIds(user.assignedLearnerIds);
+            return assigned.filter((learner) => learner.orgId === user.orgId);
+        }
+        return [];
+    }
+    if (user.userType === 'parent') {
+        return findLearnersByIds(user.assignedLearnerIds);
+    }
+    return [];
+}
+
 export async function updateLearner(learnerId: string, updates: Partial<Learner>): Promise<Learner | null> {
     const container = getContainer(CONTAINERS.LEARNERS);
     try {
@@ -232,6 +424,69 @@ export async function updateLearner(learnerId: string, updates: Partial<Learner>
     }
 }
 
+export async function createProgram(program: Omit<SkillProgram, 'id'>): Promise<SkillProgram> {
+    const container = getContainer(CONTAINERS.PROGRAMS);
+    const newProgram: SkillProgram = { ...program, id: crypto.randomUUID() };
+    await container.items.create(newProgram);
+    return newProgram;
+}
+
+export async function findProgramsByLearner(learnerId: string): Promise<SkillProgram[]> {
+    const container = getContainer(CONTAINERS.PROGRAMS);
+    const { resources } = await container.items
+        .query<SkillProgram>(
+            { query: 'SELECT * FROM c WHERE c.learnerId = @learnerId', parameters: [{ name: '@learnerId', value: learnerId }] },
+            { partitionKey: learnerId }
+        )
+        .fetchAll();
+    return resources;
+}
+
+export async function updateProgram(programId: string, learnerId: string, updates: Partial<SkillProgram>): Promise<SkillProgram | null> {
+    const container = getContainer(CONTAINERS.PROGRAMS);
+    try {
+        const { resource: existing } = await container.item(programId, learnerId).read<SkillProgram>();
+        if (!existing) {
+            return null;
+        }
+        const updated: SkillProgram = {
+            ...existing,
+            ...updates,
+            id: existing.id,
+            orgId: existing.orgId,
+            learnerId: existing.learnerId,
+            updatedAt: new Date().toISOString()
+        };
+        await container.item(programId, learnerId).replace(updated);
+        return updated;
+    } catch {
+        return null;
+    }
+}
+
+export async function findTargetCatalog(learnerId: string): Promise<TargetCatalog | null> {
+    const container = getContainer(CONTAINERS.TARGET_CATALOGS);
+    try {
+        const { resource } = await container.item(learnerId, learnerId).read<TargetCatalog>();
+        return resource ?? null;
+    } catch {
+        return null;
+    }
+}
+
+export async function saveTargetCatalog(catalog: Omit<TargetCatalog, 'id'>): Promise<TargetCatalog> {
+    const container = getContainer(CONTAINERS.TARGET_CATALOGS);
+    const saved: TargetCatalog = { ...catalog, id: catalog.learnerId };
+    await container.items.upsert(saved);
+    return saved;
+}
+
+export async function deleteTargetCatalog(learnerId: string): Promise<void> {
+    if (await findTargetCatalog(learnerId)) {
+        await getContainer(CONTAINERS.TARGET_CATALOGS).item(learnerId, learnerId).delete();
+    }
+}
+
 export async function logAuditEvent(entry: Omit<AuditLogEntry, 'id' | 'timestamp'>): Promise<void> {
     const container = getContainer(CONTAINERS.AUDIT_LOG);
     await container.items.create({
@@ -0,0 +1,174 @@
+import { describe, expect, it } from 'vitest';
+import type { Learner, Organization } from './cosmosDb.js';
+import { runRetentionJob, type DisposalRecord, type ItemRef, type RetentionStore } from './retention.js';
+
+const NOW = new Date('2026-10-19T03:00:00.000Z');
+
+interface AuditLogItem {
+  id: string;
+  orgId: string;
+  timestamp: string;
+}
+
+interface SessionItem {
+  id: string;
+  orgId: string;
+  clientId: string;
+}
+
+/** The retention store on plain arrays, recording the disposal records it is given. */
+class MemoryRetentionStore implements RetentionStore {
+  organizations: Pick<Organization, 'id' | 'settings'>[] = [{ id: 'org-1', settings: { defaultSessionDuration: 120, requireSupervisorApproval: false } }];
+  learners: Learner[] = [];
+  sessions: SessionItem[] = [];
+  auditLogs: AuditLogItem[] = [];
+  records: DisposalRecord[] = [];
+
+  async enableSessionsTtl() {
+    return false;
+  }
+
+  async findTombstonesWithoutTtl() {
+    return [];
+  }
+
+  async setTtl() {}
+
+  async findOrganizations() {
+    return this.organizations;
+  }
+
+  async findDischargedLearners() {
+    return this.learners.filter((learner) => learner.status === 'discharged');
+  }
+
+  async setDischargedAt(learnerId: string, dischargedAt: string) {
+    this.learners = this.learners.map((learner) => (learner.id === learnerId ? { ...learner, dischargedAt } : learner));
+  }
+
+  async findLearnerDocuments(orgId: string, learnerId: string, limit: number): Promise<ItemRef[]> {
+    return this.sessions
+      .filter((item) => item.orgId === orgId && item.clientId === learnerId)
+      .slice(0, limit)
+      .map((item) => ({ id: item.id, partitionKey: [item.orgId, item.clientId] }));
+  }
+
+  async deleteSessionDocument(ref: ItemRef) {
+    this.sessions = this.sessions.filter((item) => item.id !== ref.id);
+  }
+
+  async deleteLearner(learnerId: string) {
+    this.learners = this.learners.filter((learner) => learner.id !== learnerId);
+  }
+
+  async findAuditLogsBefore(cutoff: string, limit: number): Promise<ItemRef[]> {
+    return this.auditLogs
+      .filter((entry) => entry.timestamp < cutoff)
+      .slice(0, limit)
+      .map((entry) => ({ id: entry.id, partitionKey: entry.orgId }));
+  }
+
+  async deleteAuditLog(ref: ItemRef) {
+    this.auditLogs = this.auditLogs.filter((entry) => entry.id !== ref.id);
+  }
+
+  async writeDisposalRecord(record: DisposalRecord) {
+    this.records.push(record);
+  }
+}
+
+function learner(id: string, dischargedAt: string | null | undefined): Learner {
+  return {
+    id,
+    orgId: 'org-1',
+    name: id,
+    dob: '2018-04-02',
+    parentUserIds: [],
+    primaryBcbaId: null,
+    assignedRbtIds: [],
+    status: 'discharged',
+    dischargedAt,
+    createdAt: '2015-01-01T00:00:00.000Z',
+  };
+}
+
+function documentsFor(learnerId: string, count: number): SessionItem[] {
+  return Array.from({ length: count }, (_, index) => ({ id: `${learnerId}-doc-${index}`, orgId: 'org-1', clientId: learnerId }));
+}
+
+describe('retention job', () => {
+  it('deletes audit logs older than six years and keeps newer ones', async () => {
+    const store = new MemoryRetentionStore();
+    store.auditLogs = [
+      { id: 'old', orgId: 'org-1', timestamp: '2020-10-18T00:00:00.000Z' },
+      { id: 'recent', orgId: 'org-1', timestamp: '2020-10-20T00:00:00.000Z' },
+    ];
+
+    const record = await runRetentionJob(store, NOW);
+
+    expect(record.auditLogCutoff).toBe('2020-10-19T03:00:00.000Z');
+    expect(record.auditLogsDeleted).toBe(1);
+    expect(store.auditLogs.map((entry) => entry.id)).toEqual(['recent']);
+  });
+
+  it('disposes of a learner discharged past the retention period and keeps one within it', async () => {
+    const store = new MemoryRetentionStore();
+    store.learners = [learner('past', '2019-10-01T00:00:00.000Z'), learner('within', '2020-01-01T00:00:00.000Z')];
+    store.sessions = [...documentsFor('past', 3), ...documentsFor('within', 2)];
+
+    const record = await runRetentionJob(store, NOW);
+
+    expect(record.learners).toEqual([
+      { orgId: 'org-1', learnerId: 'past', dischargedAt: '2019-10-01T00:00:00.000Z', documentsDeleted: 3, learnerDeleted: true },
+    ]);
+    expect(store.learners.map((item) => item.id)).toEqual(['within']);
+    expect(store.sessions.every((item) => item.clientId === 'within')).toBe(true);
+    expect(record.complete).toBe(true);
+  });
+
+  it('backfills a missing discharge date instead of disposing of the learner', async () => {
+    const store = new MemoryRetentionStore();
+    store.learners = [learner('undated', undefined)];
+    store.sessions = documentsFor('undated', 2);
+
+    const record = await runRetentionJob(store, NOW);
+
+    expect(record.dischargeDatesBackfilled).toBe(1);
+    expect(record.learners).toEqual([]);
+    expect(store.learners[0].dischargedAt).toBe(NOW.toISOString());
+    expect(store.sessions).toHaveLength(2);
+  });
+
+  it('marks the run incomplete when the deletion budget runs out', async () => {
+    const store = new MemoryRetentionStore();
+    store.learners = [learner('large', '2018-01-01T00:00:00.000Z')];
+    store.sessions = documentsFor('large', 5001);
+    store.auditLogs = [{ id: 'old', orgId: 'org-1', timestamp: '2019-01-01T00:00:00.000Z' }];
+
+    const record = await runRetentionJob(store, NOW);
+
+    expect(record.complete).toBe(false);
+    expect(record.learners[0]).toMatchObject({ documentsDeleted: 5000, learnerDeleted: false });
+    expect(store.learners).toHaveLength(1);
+    expect(store.sessions).toHaveLength(1);
+    // The audit log step waits for the next run
+    expect(record.auditLogsDeleted).toBe(0);
+    expect(store.auditLogs).toHaveLength(1);
+  });
+
+  it('writes the disposal record even when a step throws', async () => {
+    const store = new MemoryRetentionStore();
+    store.enableSessionsTtl = async () => {
+      throw new Error('container unavailable');
+    };
+    store.auditLogs = [{ id: 'old', orgId: 'org-1', timestamp: '2019-01-01T00:00:00.000Z' }];
+
+    const record = await runRetentionJob(store, NOW);
+
+    expect(store.records).toEqual([record]);
+    expect(record.complete).toBe(false);
+    expect(record.errors).toEqual(['sessions ttl: container unavailable']);
+    // Later steps still ran
+    expect(record.auditLogsDeleted).toBe(1);
+  });
+});
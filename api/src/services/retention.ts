@@ -0,0 +1,279 @@
+import crypto from 'crypto';
+import type { Container } from '@azure/cosmos';
+import {
+    CONTAINERS,
+    deleteTargetCatalog,
+    findProgramsByLearner,
+    getContainer,
+    getSessionsPartitionKey,
+    logAuditEvent,
+    updateLearner,
+    type Learner,
+    type Organization
+} from './cosmosDb.js';
+
+/** Audit logs are never disposed of before this age. */
+export const AUDIT_LOG_RETENTION_YEARS = 6;
+/** Floor for an organization's record retention, matching the audit log baseline. */
+export const MIN_RECORD_RETENTION_YEARS = 6;
+/** Record retention for organizations that have not chosen one. */
+export const DEFAULT_RECORD_RETENTION_YEARS = 7;
+/** Tombstones carry no data; they only need to outlive the devices that have yet to pull them. */
+export const TOMBSTONE_TTL_SECONDS = 365 * 24 * 60 * 60;
+/** Deletions per run, so one run stays well inside the function timeout. The next run picks up the rest. */
+const MAX_DELETIONS_PER_RUN = 5000;
+
+/** A Cosmos item address: its id and partition key value. */
+export interface ItemRef {
+    id: string;
+    partitionKey: string | [string, string];
+}
+
+/**
+ * The storage operations the retention job needs. `createCosmosRetentionStore` implements them on
+ * Cosmos DB (or the Cosmos emulator via `COSMOS_CONNECTION_STRING`); tests can pass an in-memory stand-in.
+ */
+export interface RetentionStore {
+    /** Turns on per-item TTL for the Sessions container without a container-wide expiry. @returns Whether it changed. */
+    enableSessionsTtl(): Promise<boolean>;
+    /** Tombstones that have no `ttl` yet. */
+    findTombstonesWithoutTtl(limit: number): Promise<ItemRef[]>;
+    setTtl(item: ItemRef, ttlSeconds: number): Promise<void>;
+    findOrganizations(): Promise<Pick<Organization, 'id' | 'settings'>[]>;
+    findDischargedLearners(): Promise<Learner[]>;
+    setDischargedAt(learnerId: string, dischargedAt: string): Promise<void>;
+    /** Every synced document of one learner. */
+    findLearnerDocuments(orgId: string, learnerId: string, limit: number): Promise<ItemRef[]>;
+    deleteSessionDocument(item: ItemRef): Promise<void>;
+    /** Deletes the learner with the programs and target catalog written for them. */
+    deleteLearner(learnerId: string): Promise<void>;
+    findAuditLogsBefore(cutoff: string, limit: number): Promise<ItemRef[]>;
+    deleteAuditLog(item: ItemRef): Promise<void>;
+    writeDisposalRecord(record: DisposalRecord): Promise<void>;
+}
+
+export interface LearnerDisposal {
+    orgId: string;
+    learnerId: string;
+    dischargedAt: string;
+    documentsDeleted: number;
+    /** False when the deletion budget ran out; the next run continues. */
+    learnerDeleted: boolean;
+}
+
+/** What one run did. Written to the audit log, so it holds ids and counts only. */
+export interface DisposalRecord {
+    runId: string;
+    startedAt: string;
+    finishedAt: string;
+    sessionsTtlEnabled: boolean;
+    tombstonesExpiring: number;
+    learners: LearnerDisposal[];
+    /** Discharged learners seen without a discharge date; their clock starts at this run. */
+    dischargeDatesBackfilled: number;
+    auditLogCutoff: string;
+    auditLogsDeleted: number;
+    /** False when the run stopped at the deletion budget. */
+    complete: boolean;
+    errors: string[];
+}
+
+function yearsBefore(now: Date, years: number): Date {
+    const cutoff = new Date(now);
+    cutoff.setUTCFullYear(cutoff.getUTCFullYear() - years);
+    return cutoff;
+}
+
+function recordRetentionYears(organization: Pick<Organization, 'settings'> | undefined): number {
+    const years = organization?.settings.recordRetentionYears ?? DEFAULT_RECORD_RETENTION_YEARS;
+    return Math.max(years, MIN_RECORD_RETENTION_YEARS);
+}
+
+/**
+ * Applies server retention: per-item TTL on the Sessions container (tombstones expire after
+ * `TOMBSTONE_TTL_SECONDS`), disposal of discharged learners' records once their organization's
+ * retention period has passed since discharge, and disposal of audit logs older than six years.
+ * Each step runs even if an earlier one failed; failures are listed in the disposal record,
+ * which is written at the end of every run.
+ */
+export async function runRetentionJob(store: RetentionStore, now: Date = new Date()): Promise<DisposalRecord> {
+    const record: DisposalRecord = {
+        runId: crypto.randomUUID(),
+        startedAt: now.toISOString(),
+        finishedAt: now.toISOString(),
+        sessionsTtlEnabled: false,
+        tombstonesExpiring: 0,
+        learners: [],
+        dischargeDatesBackfilled: 0,
+        auditLogCutoff: yearsBefore(now, AUDIT_LOG_RETENTION_YEARS).toISOString(),
+        auditLogsDeleted: 0,
+        complete: true,
+        errors: []
+    };
+    let budget = MAX_DELETIONS_PER_RUN;
+
+    const step = async (name: string, action: () => Promise<void>) => {
+        try {
+            await action();
+        } catch (error) {
+            record.complete = false;
+            record.errors.push(`${name}: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    };
+
+    await step('sessions ttl', async () => {
+        record.sessionsTtlEnabled = await store.enableSessionsTtl();
+        for (const tombstone of await store.findTombstonesWithoutTtl(MAX_DELETIONS_PER_RUN)) {
+            await store.setTtl(tombstone, TOMBSTONE_TTL_SECONDS);
+            record.tombstonesExpiring += 1;
+        }
+    });
+
+    await step('discharged learners', async () => {
+        const organizations = new Map((await store.findOrganizations()).map((organization) => [organization.id, organization]));
+        for (const learner of await store.findDischargedLearners()) {
+            if (!learner.dischargedAt) {
+                await store.setDischargedAt(learner.id, record.startedAt);
+                record.dischargeDatesBackfilled += 1;
+                continue;
+            }
+            const cutoff = yearsBefore(now, recordRetentionYears(organizations.get(learner.orgId)));
+            if (new Date(learner.dischargedAt) > cutoff || budget <= 0) continue;
+
+            const documents = await store.findLearnerDocuments(learner.orgId, learner.id, budget);
+            for (const document of documents) {
+                await store.deleteSessionDocument(document);
+            }
+            budget -= documents.length;
+            const learnerDeleted = budget > 0;
+            if (learnerDeleted) {
+                await store.deleteLearner(learner.id);
+            }
+            record.learners.push({
+                orgId: learner.orgId,
+                learnerId: learner.id,
+                dischargedAt: learner.dischargedAt,
+                documentsDeleted: documents.length,
+                learnerDeleted
+            });
+        }
+    });
+
+    await step('audit logs', async () => {
+        if (budget <= 0) return;
+        const expired = await store.findAuditLogsBefore(record.auditLogCutoff, budget);
+        for (const entry of expired) {
+            await store.deleteAuditLog(entry);
+        }
+        record.auditLogsDeleted = expired.length;
+        budget -= expired.length;
+    });
+
+    if (budget <= 0) {
+        record.complete = false;
+    }
+    record.finishedAt = new Date().toISOString();
+    await store.writeDisposalRecord(record);
+    return record;
+}
+
+async function queryRefs<T extends { id: string }>(
+    container: Container,
+    query: string,
+    parameters: { name: string; value: string | number }[],
+    toRef: (item: T) => ItemRef,
+    partitionKey?: [string, string]
+): Promise<ItemRef[]> {
+    const { resources } = await container.items
+        .query<T>({ query, parameters }, partitionKey ? { partitionKey } : undefined)
+        .fetchAll();
+    return resources.map(toRef);
+}
+
+/** Retention store on the Cosmos containers from `cosmosDb.ts`. */
+export function createCosmosRetentionStore(): RetentionStore {
+    const sessions = () => getContainer(CONTAINERS.SESSIONS);
+    const learners = () => getContainer(CONTAINERS.LEARNERS);
+    const auditLog = () => getContainer(CONTAINERS.AUDIT_LOG);
+    const toSessionRef = (item: { id: string; orgId: string; clientId: string }): ItemRef => ({
+        id: item.id,
+        partitionKey: getSessionsPartitionKey(item.orgId, item.clientId)
+    });
+
+    return {
+        async enableSessionsTtl() {
+            const { resource } = await sessions().read();
+            if (!resource || resource.defaultTtl !== undefined) return false;
+            // -1: items never expire unless they carry their own `ttl`
+            await sessions().replace({ ...resource, defaultTtl: -1 });
+            return true;
+        },
+        findTombstonesWithoutTtl: (limit) => queryRefs(
+            sessions(),
+            'SELECT TOP @limit c.id, c.orgId, c.clientId FROM c WHERE c.deleted = true AND NOT IS_DEFINED(c.ttl)',
+            [{ name: '@limit', value: limit }],
+            toSessionRef
+        ),
+        async setTtl(item, ttlSeconds) {
+            await sessions().item(item.id, item.partitionKey).patch([{ op: 'add', path: '/ttl', value: ttlSeconds }]);
+        },
+        async findOrganizations() {
+            const { resources } = await getContainer(CONTAINERS.ORGANIZATIONS).items
+                .query<Pick<Organization, 'id' | 'settings'>>('SELECT c.id, c.settings FROM c')
+                .fetchAll();
+            return resources;
+        },
+        async findDischargedLearners() {
+            const { resources } = await learners().items
+                .query<Learner>({ query: 'SELECT * FROM c WHERE c.status = @status', parameters: [{ name: '@status', value: 'discharged' }] })
+                .fetchAll();
+            return resources;
+        },
+        async setDischargedAt(learnerId, dischargedAt) {
+            await updateLearner(learnerId, { dischargedAt });
+        },
+        findLearnerDocuments: (orgId, learnerId, limit) => queryRefs(
+            sessions(),
+            'SELECT TOP @limit c.id, c.orgId, c.clientId FROM c',
+            [{ name: '@limit', value: limit }],
+            toSessionRef,
+            getSessionsPartitionKey(orgId, learnerId)
+        ),
+        async deleteSessionDocument(item) {
+            await sessions().item(item.id, item.partitionKey).delete();
+        },
+        async deleteLearner(learnerId) {
+            const programs = getContainer(CONTAINERS.PROGRAMS);
+            for (const program of await findProgramsByLearner(learnerId)) {
+                await programs.item(program.id, learnerId).delete();
+            }
+            await deleteTargetCatalog(learnerId);
+            await learners().item(learnerId, learnerId).delete();
+        },
+        findAuditLogsBefore: (cutoff, limit) => queryRefs(
+            auditLog(),
+            'SELECT TOP @limit c.id, c.orgId FROM c WHERE c.timestamp < @cutoff',
+            [{ name: '@limit', value: limit }, { name: '@cutoff', value: cutoff }],
+            // The audit log is partitioned on orgId; events without an org are stored under 'none'
+            (item: { id: string; orgId: string }) => ({ id: item.id, partitionKey: item.orgId })
+        ),
+        async deleteAuditLog(item) {
+            await auditLog().item(item.id, item.partitionKey).delete();
+        },
+        async writeDisposalRecord(record) {
+            await logAuditEvent({
+                userId: 'system',
+                userEmail: 'system',
+                action: 'retention_disposal',
+                entityType: 'retention_job',
+                entityId: record.runId,
+                orgId: null,
+                ipAddress: 'internal',
+                userAgent: 'retention-timer',
+                success: record.errors.length === 0,
+                failureReason: record.errors.length > 0 ? record.errors.join('; ') : undefined,
+                details: { ...record }
+            });
+        }
+    };
+}
@@ -0,0 +1,39 @@
+import type { HttpResponseInit } from '@azure/functions';
+import type { Organization } from '../services/cosmosDb.js';
+
+/**
+ * Server features that need to read clinical content. Organizations in end-to-end mode only
+ * upload ciphertext, so every feature listed here is switched off for them.
+ * Add an entry (and a `requirePlaintextFeature` check) for any new feature that reads PHI.
+ */
+export const PLAINTEXT_FEATURES = {
+    syncContentValidation: 'Field-level validation of uploaded clinical records',
+    sessionAssistant: 'AI parsing, note drafting and chat through Azure OpenAI'
+} as const;
+
+export type PlaintextFeature = keyof typeof PLAINTEXT_FEATURES;
+
+export function isEndToEndEncrypted(org: Organization | null): boolean {
+    return org?.cloudEncryption?.mode === 'e2e';
+}
+
+export function getDisabledPlaintextFeatures(org: Organization | null): PlaintextFeature[] {
+    return isEndToEndEncrypted(org) ? Object.keys(PLAINTEXT_FEATURES) as PlaintextFeature[] : [];
+}
+
+/**
+ * Returns a 409 response when the organization cannot use a plaintext feature, or null when it can.
+ */
+export function requirePlaintextFeature(org: Organization | null, feature: PlaintextFeature): HttpResponseInit | null {
+    if (!isEndToEndEncrypted(org)) {
+        return null;
+    }
+    return {
+        status: 409,
+        jsonBody: {
+            error: 'Disabled for end-to-end encrypted organizations',
+            feature,
+            details: `${PLAINTEXT_FEATURES[feature]} needs readable clinical data, which this organization does not share with the server.`
+        }
+    };
+}
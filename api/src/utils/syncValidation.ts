@@ -0,0 +1,265 @@
+// Strict validation for clinical documents received through sync/batch.
+// Field rules mirror BehaviorEvent, SkillTrial, SessionNote, Incident, IntervalRecording and TaskAnalysisRun in src/db/db.ts;
+// keep them in step when those types change.
+
+export const SYNC_ENTITY_TYPES = ['behavior', 'skillTrial', 'note', 'incident', 'interval', 'taskAnalysis'] as const;
+export type SyncEntityType = typeof SYNC_ENTITY_TYPES[number];
+
+export const FUNCTION_GUESSES = ['escape', 'tangible', 'attention', 'automatic', 'unsure'] as const;
+export const PROMPT_LEVELS = ['independent', 'verbal', 'gestural', 'model', 'partial-physical', 'full-physical'] as const;
+export const TRIAL_RESPONSES = ['correct', 'incorrect', 'no-response', 'prompted'] as const;
+export const INCIDENT_TYPES = ['injury', 'restraint', 'property-destruction', 'elopement-serious', 'other'] as const;
+export const INTERVAL_METHODS = ['partial-interval', 'whole-interval', 'momentary-time-sampling'] as const;
+export const CHAINING_METHODS = ['forward', 'backward', 'total-task'] as const;
+
+interface FieldRule {
+    required: boolean;
+    expected: string;
+    check: (value: unknown) => boolean;
+}
+
+type EntitySchema = Record<string, FieldRule>;
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(?:\.\d+)?Z$/;
+
+function isIsoDate(value: unknown): boolean {
+    return typeof value === 'string' && ISO_DATE_PATTERN.test(value) && !Number.isNaN(Date.parse(value));
+}
+
+/** Dates arrive as ISO strings, or as `{ __type: 'date', value }` from the client's date replacer. */
+function isDateValue(value: unknown): boolean {
+    if (isIsoDate(value)) return true;
+    if (!value || typeof value !== 'object') return false;
+    const tagged = value as { __type?: unknown; value?: unknown };
+    return Object.keys(value).length === 2 && tagged.__type === 'date' && isIsoDate(tagged.value);
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+    return Boolean(value) && typeof value === 'object' && !Array.isArray(value);
+}
+
+const isUuid = (value: unknown): boolean => typeof value === 'string' && UUID_PATTERN.test(value);
+const isString = (value: unknown): boolean => typeof value === 'string';
+const isNonEmptyString = (value: unknown): boolean => typeof value === 'string' && value.trim().length > 0;
+const isBoolean = (value: unknown): boolean => typeof value === 'boolean';
+const isNonNegativeInteger = (value: unknown): boolean => Number.isInteger(value) && (value as number) >= 0;
+const isNonNegativeNumber = (value: unknown): boolean => typeof value === 'number' && Number.isFinite(value) && value >= 0;
+const isPositiveInteger = (value: unknown): boolean => Number.isInteger(value) && (value as number) > 0;
+const isStringArray = (value: unknown): boolean => Array.isArray(value) && value.every(isString);
+const isOneOf = (options: readonly unknown[]) => (value: unknown): boolean => options.includes(value);
+const isFieldTimestamps = (value: unknown): boolean => isPlainObject(value) && Object.values(value).every(isIsoDate);
+const isIntervalScores = (value: unknown): boolean => Array.isArray(value) &&
+    value.every((score) => typeof score === 'boolean' || score === null);
+const isTaskSteps = (value: unknown): boolean => Array.isArray(value) && value.length > 0 && value.every((step) =>
+    isPlainObject(step) &&
+    Object.keys(step).every((key) => key === 'step' || key === 'promptLevel') &&
+    isNonEmptyString(step.step) &&
+    (step.promptLevel === null || (PROMPT_LEVELS as readonly unknown[]).includes(step.promptLevel))
+);
+
+const isEditHistory = (value: unknown): boolean => Array.isArray(value) && value.every((entry) =>
+    isPlainObject(entry) &&
+    Object.keys(entry).every((key) => key === 'timestamp' || key === 'previousContent' || key === 'editedBy') &&
+    isDateValue(entry.timestamp) &&
+    isString(entry.previousContent) &&
+    isString(entry.editedBy)
+);
+
+function required(expected: string, check: (value: unknown) => boolean): FieldRule {
+    return { required: true, expected, check };
+}
+
+function optional(expected: string, check: (value: unknown) => boolean): FieldRule {
+    return { required: false, expected, check };
+}
+
+/** Row metadata the client includes with every record. */
+const ROW_FIELDS: EntitySchema = {
+    id: optional('a non-negative integer', isNonNegativeInteger),
+    uuid: optional('a UUID', isUuid),
+    sessionId: required('a non-negative integer', isNonNegativeInteger),
+    createdAt: required('an ISO date', isDateValue),
+    synced: optional('a boolean', isBoolean),
+    revision: optional('a non-negative integer', isNonNegativeInteger)
+};
+
+const ENTITY_SCHEMAS: Record<SyncEntityType, EntitySchema> = {
+    behavior: {
+        ...ROW_FIELDS,
+        timestamp: required('an ISO date', isDateValue),
+        behaviorType: required('a non-empty string', isNonEmptyString),
+        count: optional('a non-negative integer', isNonNegativeInteger),
+        duration: optional('a non-negative number of seconds', isNonNegativeNumber),
+        latency: optional('a non-negative number of seconds', isNonNegativeNumber),
+        startedAt: optional('an ISO date', isDateValue),
+        endedAt: optional('an ISO date', isDateValue),
+        antecedent: optional('a string', isString),
+        consequent: optional('a string', isString),
+        functionGuess: optional(`one of ${FUNCTION_GUESSES.join(', ')}`, isOneOf(FUNCTION_GUESSES)),
+        intervention: optional('a string', isString),
+        intensity: optional('1, 2 or 3', isOneOf([1, 2, 3])),
+        notes: optional('a string', isString),
+        fieldUpdatedAt: optional('a map of field names to ISO dates', isFieldTimestamps)
+    },
+    skillTrial: {
+        ...ROW_FIELDS,
+        timestamp: required('an ISO date', isDateValue),
+        skillName: required('a non-empty string', isNonEmptyString),
+        target: required('a non-empty string', isNonEmptyString),
+        promptLevel: required(`one of ${PROMPT_LEVELS.join(', ')}`, isOneOf(PROMPT_LEVELS)),
+        response: required(`one of ${TRIAL_RESPONSES.join(', ')}`, isOneOf(TRIAL_RESPONSES)),
+        reinforcementDelivered: required('a boolean', isBoolean),
+        reinforcementType: optional('a string', isString),
+        notes: optional('a string', isString),
+        fieldUpdatedAt: optional('a map of field names to ISO dates', isFieldTimestamps)
+    },
+    note: {
+        ...ROW_FIELDS,
+        updatedAt: required('an ISO date', isDateValue),
+        section: required('a non-empty string', isNonEmptyString),
+        content: required('a string', isString),
+        isAutoGenerated: required('a boolean', isBoolean),
+        editHistory: required('a list of { timestamp, previousContent, editedBy }', isEditHistory)
+    },
+    incident: {
+        ...ROW_FIELDS,
+        timestamp: required('an ISO date', isDateValue),
+        incidentType: required(`one of ${INCIDENT_TYPES.join(', ')}`, isOneOf(INCIDENT_TYPES)),
+        description: required('a non-empty string', isNonEmptyString),
+        staffInvolved: required('a list of strings', isStringArray),
+        actionsToken: required('a list of strings', isStringArray),
+        witnesses: optional('a list of strings', isStringArray),
+        injuries: optional('a string', isString),
+        parentNotified: required('a boolean', isBoolean),
+        supervisorNotified: required('a boolean', isBoolean)
+    },
+    interval: {
+        ...ROW_FIELDS,
+        timestamp: required('an ISO date', isDateValue),
+        behaviorType: required('a non-empty string', isNonEmptyString),
+        method: required(`one of ${INTERVAL_METHODS.join(', ')}`, isOneOf(INTERVAL_METHODS)),
+        intervalSeconds: required('a positive integer number of seconds', isPositiveInteger),
+        intervals: required('a list of true, false or null', isIntervalScores),
+        notes: optional('a string', isString),
+        fieldUpdatedAt: optional('a map of field names to ISO dates', isFieldTimestamps)
+    },
+    taskAnalysis: {
+        ...ROW_FIELDS,
+        timestamp: required('an ISO date', isDateValue),
+        taskName: required('a non-empty string', isNonEmptyString),
+        chainingMethod: required(`one of ${CHAINING_METHODS.join(', ')}`, isOneOf(CHAINING_METHODS)),
+        steps: required('a non-empty list of { step, promptLevel } with promptLevel a prompt level or null', isTaskSteps),
+        notes: optional('a string', isString),
+        fieldUpdatedAt: optional('a map of field names to ISO dates', isFieldTimestamps)
+    }
+};
+
+const isEncryptedEnvelope = (value: unknown): boolean => isPlainObject(value) &&
+    Object.keys(value).length === 4 &&
+    isNonEmptyString(value.ciphertext) &&
+    isNonEmptyString(value.iv) &&
+    value.algorithm === 'AES-GCM' &&
+    value.version === 1;
+
+/** Ciphertext of `data` under the org data key, with an HMAC binding it to the document id. */
+const isEncryptedPayload = (value: unknown): boolean => isPlainObject(value) &&
+    Object.keys(value).length === 3 &&
+    isEncryptedEnvelope(value.payload) &&
+    isNonEmptyString(value.signature) &&
+    Number.isInteger(value.keyVersion) && (value.keyVersion as number) > 0;
+
+/** Top-level envelope fields a client may send. `orgId` is accepted but always overwritten. */
+const ENVELOPE_FIELDS: EntitySchema = {
+    id: required('a non-empty string', isNonEmptyString),
+    sessionId: required('a non-negative integer', isNonNegativeInteger),
+    entityType: required(`one of ${SYNC_ENTITY_TYPES.join(', ')}`, isOneOf(SYNC_ENTITY_TYPES)),
+    data: required('an object', isPlainObject),
+    syncedAt: required('an ISO date', isIsoDate),
+    clientId: required('a non-empty string', isNonEmptyString),
+    orgId: optional('a string', isString),
+    revision: optional('a non-negative integer', isNonNegativeInteger),
+    deleted: optional('a boolean', isBoolean),
+    encrypted: optional('{ payload, signature, keyVersion }', isEncryptedPayload)
+};
+
+function checkFields(value: Record<string, unknown>, schema: EntitySchema, path: string): string[] {
+    const errors: string[] = [];
+    for (const key of Object.keys(value)) {
+        if (!(key in schema)) {
+            errors.push(`${path}${key} is not a recognized field`);
+        }
+    }
+    for (const [key, rule] of Object.entries(schema)) {
+        if (!(key in value)) {
+            if (rule.required) errors.push(`${path}${key} is required`);
+            continue;
+        }
+        if (!rule.check(value[key])) {
+            errors.push(`${path}${key} must be ${rule.expected}`);
+        }
+    }
+    return errors;
+}
+
+function isLegacyDocumentId(doc: Record<string, unknown>): boolean {
+    return typeof doc.id === 'string' && new RegExp(`^${String(doc.entityType)}-\\d+$`).test(doc.id);
+}
+
+/**
+ * End-to-end documents carry their record only as ciphertext, so just the envelope can be checked
+ * (field-level validation is a plaintext feature, see PLAINTEXT_FEATURES).
+ */
+function validateEncryptedDocument(doc: Record<string, unknown>, data: Record<string, unknown>): string[] {
+    const errors: string[] = [];
+    if (Object.keys(data).length > 0) {
+        errors.push('data must be empty; this organization only accepts end-to-end encrypted records');
+    }
+    if (doc.deleted === true && 'encrypted' in doc) {
+        errors.push('encrypted must be omitted for deleted documents');
+    }
+    if (doc.deleted !== true && !('encrypted' in doc)) {
+        errors.push('encrypted is required; this organization only accepts end-to-end encrypted records');
+    }
+    if (!isUuid(doc.id) && !isLegacyDocumentId(doc)) {
+        errors.push('id must be a UUID');
+    }
+    return errors;
+}
+
+/**
+ * Validates a sync document against the schema for its entity type.
+ * Tombstones must carry empty `data`. Returns human-readable problems; an empty list means valid.
+ * @param options.endToEnd The organization uploads ciphertext only (`data` empty, `encrypted` set).
+ */
+export function validateSyncDocument(doc: unknown, options: { endToEnd?: boolean } = {}): string[] {
+    if (!isPlainObject(doc)) {
+        return ['document must be an object'];
+    }
+
+    const errors = checkFields(doc, ENVELOPE_FIELDS, '');
+    if (errors.length > 0 || !isPlainObject(doc.data)) {
+        return errors;
+    }
+
+    const data = doc.data;
+    if (options.endToEnd) {
+        return validateEncryptedDocument(doc, data);
+    }
+    if ('encrypted' in doc) {
+        return ['encrypted is only accepted from end-to-end encrypted organizations'];
+    }
+    if (doc.deleted === true) {
+        return Object.keys(data).length === 0 ? [] : ['data must be empty for deleted documents'];
+    }
+
+    const dataErrors = checkFields(data, ENTITY_SCHEMAS[doc.entityType as SyncEntityType], 'data.');
+    if (dataErrors.length === 0 && data.sessionId !== doc.sessionId) {
+        dataErrors.push('data.sessionId must match sessionId');
+    }
+    // Records are addressed by their UUID; only records pushed before UUIDs keep `${entityType}-${localId}`
+    if (dataErrors.length === 0 && !isLegacyDocumentId(doc) && data.uuid !== doc.id) {
+        dataErrors.push('id must equal data.uuid');
+    }
+    return dataErrors;
+}
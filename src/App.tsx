@@ -1,4 +1,4 @@
-import { useState, useCallback, useEffect, useMemo } from 'react';
+import { useState, useCallback, useEffect, useMemo, useRef } from 'react';
 import { useLiveQuery } from 'dexie-react-hooks';
 import { useLocation } from 'react-router-dom';
 import { Header } from './components/Header';
@@ -8,10 +8,28 @@ import { ActionButtons } from './components/ActionButtons';
 import { SessionSummaryContent } from './components/SessionSummary';
 import { SideDrawer } from './components/SideDrawer';
 import { IncidentButton } from './components/IncidentButton';
-import { useSessionStore } from './stores/sessionStore';
+import { AbcRecorder } from './components/AbcRecorder';
+import { IntervalRecorder } from './components/IntervalRecorder';
+import { ProgramRunner } from './components/ProgramRunner';
+import { TaskAnalysisRecorder } from './components/TaskAnalysisRecorder';
+import { BehaviorTimers } from './components/BehaviorTimers';
+import { getSessionPhase, useSessionStore } from './stores/sessionStore';
+import { SessionControls, type SessionSetup } from './components/SessionControls';
 import { useSyncStore } from './stores/syncStore';
-import { addBehaviorEvent, addIncident, addSessionNote, addSkillTrial, getBehaviorEventsBySession, getSessionNotesBySession, getSkillTrialsBySession, updateBehaviorEventIntervention, type BehaviorEvent, type Incident, type SessionNote, type SkillTrial } from './db/db';
-import { parseUserInput, generateConfirmation, generateNoteDraft, generateSessionChatReply, type ParsedInput } from './services/llmService';
+import { startBackgroundSync } from './services/backgroundSync';
+import { loadOrgEncryption } from './services/orgEncryptionService';
+import { completeAccountRecovery, ensureRecoveryEscrow, requestAccountRecovery } from './services/accountRecoveryService';
+import { hasKeyringPin, isValidPin } from './services/keyringService';
+import { getIdleLockMinutes, getLocalRetentionDays } from './services/authService';
+import { applyLocalRetention } from './services/retentionService';
+import { toAbcBehaviorEvent, type AbcRecord } from './services/abcService';
+import { INTERVAL_METHOD_LABELS, summarizeIntervalRecordings, type IntervalTargetConfig } from './services/intervalService';
+import { DEFAULT_MASTERY_CRITERION, DEFAULT_STALL_AFTER_SESSIONS, PROMPT_LEVEL_LABELS, programService, toProgramTrial, type ProgramTrialRecord, type PromptLevel } from './services/programService';
+import { CHAINING_METHOD_LABELS, percentIndependent, toTaskAnalysisRun, type TaskDefinition } from './services/taskAnalysisService';
+import { TIMER_KIND_LABELS, behaviorTimestamp, toTimedInput } from './services/timerService';
+import { syncTargetCatalog } from './services/targetCatalogService';
+import { addBehaviorEvent, addIncident, addIntervalRecordings, addSessionNote, addSkillTrial, addTaskAnalysisRun, deleteBehaviorEvent, deleteBehaviorTimer, deleteSkillTrial, getActiveSessionForClient, getBehaviorEventsBySession, getBehaviorTimers, getIntervalRecordingsBySession, getSessionElapsedMs, getSessionNotesBySession, getSkillTrialsBySession, getTaskAnalysisRunsBySession, refreshSearchIndex, runIntegrityScan, startBehaviorTimer, stopBehaviorTimer, updateBehaviorEventIntervention, updateIntervalScores, type BehaviorEvent, type BehaviorTimer, type Incident, type IntervalRecording, type SessionNote, type SkillProgram, type SkillTrial, type TargetCatalog } from './db/db';
+import { parseUserInput, generateConfirmation, generateNoteDraft, generateSessionChatReply, needsFunctionGuess, type ParsedInput } from './services/llmService';
 import { TermsModal } from './components/TermsModal';
 import { useEncryptionStore } from './stores/encryptionStore';
 import { useAuth } from './hooks/useAuth';
@@ -42,14 +60,29 @@ const DEMO_LEARNERS: Learner[] = [
   }
 ];
 
+const DEMO_PROGRAMS: SkillProgram[] = [
+  {
+    id: 'demo-program',
+    orgId: 'demo-org',
+    learnerId: 'demo',
+    name: 'Receptive ID',
+    targets: ['Cup', 'Ball', 'Shoe'],
+    promptHierarchy: ['independent', 'gestural', 'model', 'full-physical'],
+    masteryCriterion: DEFAULT_MASTERY_CRITERION,
+    stallAfterSessions: DEFAULT_STALL_AFTER_SESSIONS,
+    status: 'active',
+    createdBy: 'demo-user',
+    createdAt: '2026-01-01T00:00:00.000Z',
+    updatedAt: '2026-01-01T00:00:00.000Z'
+  }
+];
+
 /**
  * Main application orchestration component.
- * Handles chat interactions, data state, and session timing.
- * 
- * @note Currently hardcoded to use Session ID 1 for demo purposes.
+ * Handles chat interactions, data state, and the session lifecycle (start, pause, resume, end).
  */
 function App() {
-  const { user, logout, learners: authLearners } = useAuth();
+  const { user, organization, logout, refreshUser, learners: authLearners } = useAuth();
   const location = useLocation();
   const isDemoRoute = location.pathname === '/demo';
 
@@ -62,24 +95,60 @@ function App() {
     isDrawerOpen,
     setNoteDraft,
     toggleDrawer,
-    setDrawerOpen
+    setDrawerOpen,
+    setCurrentSession,
+    startSession,
+    pauseSession,
+    resumeSession,
+    endSession
   } = useSessionStore();
 
-  const activeSessionId = currentSession?.id || 1;
+  const activeSessionId = currentSession?.id;
+  const sessionPhase = getSessionPhase(currentSession);
 
   const [messages, setMessages] = useState<ChatMessageData[]>([]);
   const [inputValue, setInputValue] = useState('');
   const [isProcessing, setIsProcessing] = useState(false);
   const [pendingData, setPendingData] = useState<ParsedInput | null>(null);
+  // The stopped timer `pendingData` was built from; its row is deleted once the event is written
+  const [pendingTimerId, setPendingTimerId] = useState<number | null>(null);
+  // Stopped timers not to offer again: declined ones wait for Log on their chip, logged ones for the live query
+  const [heldTimerIds, setHeldTimerIds] = useState<number[]>([]);
   const [selectedFunction, setSelectedFunction] = useState<string | null>(null);
   const [sessionTime, setSessionTime] = useState('00:00:00');
   const [incidentModalOpen, setIncidentModalOpen] = useState(false);
+  const [abcModalOpen, setAbcModalOpen] = useState(false);
+  const [intervalModalOpen, setIntervalModalOpen] = useState(false);
+  const [programModalOpen, setProgramModalOpen] = useState(false);
+  const [taskAnalysisModalOpen, setTaskAnalysisModalOpen] = useState(false);
+  const [timerStartOpen, setTimerStartOpen] = useState(false);
   const [pendingInterventionBehaviorIds, setPendingInterventionBehaviorIds] = useState<number[]>([]);
   const [unlockPassword, setUnlockPassword] = useState('');
+  const [previousPassword, setPreviousPassword] = useState('');
   const [unlockError, setUnlockError] = useState<string | null>(null);
   const [isUnlocking, setIsUnlocking] = useState(false);
+  const [unlockPin, setUnlockPin] = useState('');
+  const [newPin, setNewPin] = useState('');
+  const [isUsingPassword, setIsUsingPassword] = useState(false);
+  const [sessionSetup, setSessionSetup] = useState<SessionSetup>({ location: 'Clinic', serviceCode: '97153' });
+  const [isSessionBusy, setIsSessionBusy] = useState(false);
   const isEncryptionReady = useEncryptionStore((state) => state.isReady);
   const initializeEncryption = useEncryptionStore((state) => state.initializeWithPassword);
+  const needsPreviousPassword = useEncryptionStore((state) => state.needsPreviousPassword);
+  const unlockWithPreviousPassword = useEncryptionStore((state) => state.unlockWithPreviousPassword);
+  const isLocked = useEncryptionStore((state) => state.isLocked);
+  const unlockWithPin = useEncryptionStore((state) => state.unlockWithPin);
+  const setDevicePin = useEncryptionStore((state) => state.setPin);
+  const confirmPassword = useEncryptionStore((state) => state.confirmPassword);
+  const hasAccountKey = useEncryptionStore((state) => state.accountKey !== null);
+  const [accountPassword, setAccountPassword] = useState('');
+  const [accountPasswordError, setAccountPasswordError] = useState<string | null>(null);
+  const hasPin = useLiveQuery(
+    async () => (user?.encryptionSalt ? hasKeyringPin(user.encryptionSalt) : false),
+    [user?.encryptionSalt]
+  ) ?? false;
+  const isIdleLockEnabled = getIdleLockMinutes(organization) > 0;
+  const isPinUnlock = hasPin && !isUsingPassword && !needsPreviousPassword;
 
   useEffect(() => {
     if (!isDemoRoute || isEncryptionReady) {
@@ -99,11 +168,11 @@ function App() {
   }, [initializeEncryption, isDemoRoute, isEncryptionReady]);
 
   // Live Queries (Reactive, Single Source of Truth)
-  // Limit to 500 most recent items to avoid performance issues with large datasets
+  // Each re-run only decrypts rows added or edited since the last one; the rest come from the decrypted-row cache
   const behaviorEventsRaw = useLiveQuery(
     async () => {
-      if (!isEncryptionReady) return [];
-      return getBehaviorEventsBySession(activeSessionId, 500);
+      if (!isEncryptionReady || activeSessionId === undefined) return [];
+      return getBehaviorEventsBySession(activeSessionId);
     },
     [isEncryptionReady, activeSessionId]
   );
@@ -111,8 +180,8 @@ function App() {
 
   const skillTrialsRaw = useLiveQuery(
     async () => {
-      if (!isEncryptionReady) return [];
-      return getSkillTrialsBySession(activeSessionId, 500);
+      if (!isEncryptionReady || activeSessionId === undefined) return [];
+      return getSkillTrialsBySession(activeSessionId);
     },
     [isEncryptionReady, activeSessionId]
   );
@@ -120,14 +189,68 @@ function App() {
 
   const sessionNotesRaw = useLiveQuery(
     async () => {
-      if (!isEncryptionReady) return [];
-      return getSessionNotesBySession(activeSessionId, 500);
+      if (!isEncryptionReady || activeSessionId === undefined) return [];
+      return getSessionNotesBySession(activeSessionId);
     },
     [isEncryptionReady, activeSessionId]
   );
   const sessionNotes = useMemo(() => sessionNotesRaw || [], [sessionNotesRaw]);
 
-  const { incrementUnsyncedCount } = useSyncStore();
+  const intervalRecordingsRaw = useLiveQuery(
+    async () => {
+      if (!isEncryptionReady || activeSessionId === undefined) return [];
+      return getIntervalRecordingsBySession(activeSessionId);
+    },
+    [isEncryptionReady, activeSessionId]
+  );
+  const intervalSummaries = useMemo(() => summarizeIntervalRecordings(intervalRecordingsRaw || []), [intervalRecordingsRaw]);
+
+  const taskAnalysisRunsRaw = useLiveQuery(
+    async () => {
+      if (!isEncryptionReady || activeSessionId === undefined) return [];
+      return getTaskAnalysisRunsBySession(activeSessionId);
+    },
+    [isEncryptionReady, activeSessionId]
+  );
+  const taskAnalysisRuns = useMemo(() => taskAnalysisRunsRaw || [], [taskAnalysisRunsRaw]);
+
+  // Timers are stored on the device, so they come back after a reload once local data is unlocked
+  const behaviorTimersRaw = useLiveQuery(
+    async () => {
+      if (!isEncryptionReady || activeSessionId === undefined) return [];
+      return getBehaviorTimers(activeSessionId);
+    },
+    [isEncryptionReady, activeSessionId]
+  );
+  const behaviorTimers = useMemo(() => behaviorTimersRaw || [], [behaviorTimersRaw]);
+  // Stopped timers are confirmed one at a time, oldest stop first, whenever nothing else awaits confirmation
+  const nextStoppedTimer = useMemo(() => behaviorTimers
+    .filter((timer) => timer.endedAt && timer.id !== undefined && !heldTimerIds.includes(timer.id))
+    .sort((a, b) => a.endedAt!.getTime() - b.endedAt!.getTime())[0], [behaviorTimers, heldTimerIds]);
+  const timerSuggestions = useMemo(() => [...new Set(behaviorEvents.map((event) => event.behaviorType))], [behaviorEvents]);
+
+  const { incrementUnsyncedCount, refreshUnsyncedCount, pullFromCloud } = useSyncStore();
+
+  // Load the org's cloud encryption keys, then hydrate records logged on other devices once local data is unlocked.
+  // Runs again when the password is entered after a PIN unlock, which opens the org keys.
+  useEffect(() => {
+    if (!isEncryptionReady || isDemoRoute || !user) {
+      return;
+    }
+    void loadOrgEncryption(user, organization)
+      .catch((error) => console.warn('[App] Organization encryption unavailable:', error))
+      .then(() => pullFromCloud(authLearners));
+    void ensureRecoveryEscrow(organization)
+      .catch((error) => console.warn('[App] Local data keys not escrowed for recovery:', error));
+  }, [authLearners, hasAccountKey, isDemoRoute, isEncryptionReady, organization, pullFromCloud, user]);
+
+  // Keep draining the sync queue in the background; after the tab closes only while the worker still holds the keys
+  useEffect(() => {
+    if (isDemoRoute || !user?.id) {
+      return;
+    }
+    return startBackgroundSync();
+  }, [isDemoRoute, user?.id]);
 
   // Demo client name
   // const { learners } = useAuth(); // Handled at top level now
@@ -141,48 +264,121 @@ function App() {
 
   const clientName = selectedLearner.name;
 
-  // Session timer
+  // Bind the current session to the selected learner, resuming any session left in progress
+  useEffect(() => {
+    if (useSessionStore.getState().currentSession?.clientId === selectedLearner.id) {
+      return;
+    }
+
+    let cancelled = false;
+    void getActiveSessionForClient(selectedLearner.id).then((session) => {
+      if (!cancelled) {
+        setCurrentSession(session ?? null);
+      }
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedLearner.id, setCurrentSession]);
+
+  // The learner's target catalog, refreshed from the server and read from the device cache offline
+  const [loadedCatalog, setLoadedCatalog] = useState<{ learnerId: string; catalog: TargetCatalog | null } | null>(null);
+  const targetCatalog = loadedCatalog?.learnerId === selectedLearner.id ? loadedCatalog.catalog : null;
+
+  useEffect(() => {
+    if (isDemoRoute || !isEncryptionReady || selectedLearner.id === 'demo') {
+      return;
+    }
+
+    let cancelled = false;
+    const learnerId = selectedLearner.id;
+    void syncTargetCatalog(learnerId)
+      .catch((error) => {
+        console.warn('[App] Target catalog unavailable:', error);
+        return null;
+      })
+      .then((catalog) => {
+        if (!cancelled) {
+          setLoadedCatalog({ learnerId, catalog });
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isDemoRoute, isEncryptionReady, selectedLearner.id]);
+
+  // A session opened from the drawer may belong to another learner; follow it
+  useEffect(() => {
+    if (!currentSession || currentSession.clientId === selectedLearner.id) {
+      return;
+    }
+    const owner = learners.find((learner) => learner.id === currentSession.clientId);
+    if (owner) {
+      setSelectedLearner(owner);
+    }
+  }, [currentSession, learners, selectedLearner.id]);
+
+  // Session timer (excludes paused time and stops once the session is completed)
   useEffect(() => {
-    const startTime = Date.now();
-    const timer = setInterval(() => {
-      const elapsed = Date.now() - startTime;
+    const renderElapsed = () => {
+      const elapsed = currentSession ? getSessionElapsedMs(currentSession) : 0;
       const hours = Math.floor(elapsed / 3600000);
       const minutes = Math.floor((elapsed % 3600000) / 60000);
       const seconds = Math.floor((elapsed % 60000) / 1000);
       setSessionTime(
         `${hours.toString().padStart(2, '0')}:${minutes.toString().padStart(2, '0')}:${seconds.toString().padStart(2, '0')}`
       );
-    }, 1000);
+    };
+
+    renderElapsed();
+    if (sessionPhase !== 'in-progress') {
+      return;
+    }
+    const timer = setInterval(renderElapsed, 1000);
     return () => clearInterval(timer);
-  }, []);
+  }, [currentSession, sessionPhase]);
+
+  const buildNoteDraft = useCallback(() => {
+    const behaviors = behaviorEvents.map((e: BehaviorEvent) => ({
+      type: e.behaviorType,
+      count: e.count,
+      duration: e.duration,
+      latency: e.latency,
+      antecedent: e.antecedent,
+      function: e.functionGuess,
+      intervention: e.intervention
+    }));
+    const trials = skillTrials.map((t: SkillTrial) => ({
+      skill: t.skillName,
+      target: t.target,
+      response: t.response
+    }));
+    const reinforcements = sessionNotes
+      .filter((note: SessionNote) => note.section === 'reinforcement')
+      .map((note: SessionNote) => note.content);
+    const intervals = intervalSummaries.map((summary) => ({
+      behavior: summary.behaviorType,
+      method: INTERVAL_METHOD_LABELS[summary.method].toLowerCase(),
+      intervalSeconds: summary.intervalSeconds,
+      percent: summary.percent,
+      intervals: summary.scored
+    }));
+    return generateNoteDraft(behaviors, trials, clientName, reinforcements, intervals);
+  }, [behaviorEvents, skillTrials, sessionNotes, intervalSummaries, clientName]);
 
   // Generate note draft when events change
   useEffect(() => {
     // Debounce note generation to avoid hitting LLM API too frequently
     const timer = setTimeout(() => {
-      if (behaviorEvents.length > 0 || skillTrials.length > 0) {
-        const behaviors = behaviorEvents.map((e: BehaviorEvent) => ({
-          type: e.behaviorType,
-          count: e.count,
-          duration: e.duration,
-          antecedent: e.antecedent,
-          function: e.functionGuess,
-          intervention: e.intervention
-        }));
-        const trials = skillTrials.map((t: SkillTrial) => ({
-          skill: t.skillName,
-          target: t.target,
-          response: t.response
-        }));
-        const reinforcements = sessionNotes
-          .filter((note: SessionNote) => note.section === 'reinforcement')
-          .map((note: SessionNote) => note.content);
-        generateNoteDraft(behaviors, trials, clientName, reinforcements).then(setNoteDraft);
+      if (behaviorEvents.length > 0 || skillTrials.length > 0 || intervalSummaries.length > 0) {
+        buildNoteDraft().then(setNoteDraft);
       }
     }, 2000); // 2 second debounce
 
     return () => clearTimeout(timer);
-  }, [behaviorEvents, skillTrials, sessionNotes, setNoteDraft, clientName]);
+  }, [behaviorEvents.length, skillTrials.length, intervalSummaries.length, buildNoteDraft, setNoteDraft]);
 
   const normalizePromptLevel = (value?: string): SkillTrial['promptLevel'] => {
     const normalized = (value || '').toLowerCase();
@@ -219,6 +415,158 @@ function App() {
     return message.id;
   }, []);
 
+  /**
+   * Resolves the session new entries are written to.
+   * Starts a session for the selected learner when none is active yet.
+   */
+  const resolveWritableSessionId = useCallback(async (): Promise<number | null> => {
+    if (sessionPhase === 'completed') {
+      addMessage('assistant', 'This session is completed and locked. Start a new session to log more data.');
+      return null;
+    }
+    if (sessionPhase === 'paused') {
+      addMessage('assistant', 'The session is paused. Resume it to keep logging.');
+      return null;
+    }
+    if (activeSessionId !== undefined) {
+      return activeSessionId;
+    }
+
+    const session = await startSession({
+      clientId: selectedLearner.id,
+      clientName,
+      location: sessionSetup.location,
+      serviceCode: sessionSetup.serviceCode
+    });
+    return session.id ?? null;
+  }, [activeSessionId, addMessage, clientName, selectedLearner.id, sessionPhase, sessionSetup, startSession]);
+
+  const runSessionAction = useCallback(async (action: () => Promise<void>) => {
+    setIsSessionBusy(true);
+    try {
+      await action();
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Session update failed';
+      addMessage('assistant', message);
+    } finally {
+      setIsSessionBusy(false);
+    }
+  }, [addMessage]);
+
+  const handleStartSession = useCallback(() => runSessionAction(async () => {
+    await startSession({
+      clientId: selectedLearner.id,
+      clientName,
+      location: sessionSetup.location,
+      serviceCode: sessionSetup.serviceCode
+    });
+    setMessages([]);
+    addMessage('system', `Session started for ${clientName} (${sessionSetup.location}, ${sessionSetup.serviceCode}).`);
+  }), [addMessage, clientName, runSessionAction, selectedLearner.id, sessionSetup, startSession]);
+
+  const handlePauseSession = useCallback(() => runSessionAction(async () => {
+    await pauseSession();
+    addMessage('system', 'Session paused.');
+  }), [addMessage, pauseSession, runSessionAction]);
+
+  const handleResumeSession = useCallback(() => runSessionAction(async () => {
+    await resumeSession();
+    addMessage('system', 'Session resumed.');
+  }), [addMessage, resumeSession, runSessionAction]);
+
+  // Stop the session clock while the device is locked; the session picks up again on unlock
+  const pausedByLockRef = useRef(false);
+  useEffect(() => {
+    if (isLocked) {
+      if (sessionPhase === 'in-progress' && !pausedByLockRef.current) {
+        pausedByLockRef.current = true;
+        void runSessionAction(async () => {
+          await pauseSession();
+          addMessage('system', 'Session paused while the device is locked.');
+        });
+      }
+      return;
+    }
+    if (!pausedByLockRef.current) return;
+    pausedByLockRef.current = false;
+    if (isEncryptionReady && sessionPhase === 'paused') {
+      void handleResumeSession();
+    }
+  }, [addMessage, handleResumeSession, isEncryptionReady, isLocked, pauseSession, runSessionAction, sessionPhase]);
+
+  // Verify local rows once per unlock, quarantining any that fail so gaps in a record are explained,
+  // then index whatever history search has not seen yet
+  useEffect(() => {
+    if (!isEncryptionReady || isDemoRoute) {
+      return;
+    }
+    void runIntegrityScan()
+      .then((report) => {
+        const moved = Object.values(report.tables).reduce((sum, summary) => sum + summary.quarantined, 0);
+        if (moved > 0) {
+          addMessage('system', `${moved} record${moved === 1 ? '' : 's'} failed the integrity check and ${moved === 1 ? 'was' : 'were'} quarantined. See Data Integrity in the menu.`);
+        }
+      })
+      .catch((error) => console.warn('[App] Integrity check did not finish:', error))
+      // Quarantined rows are gone by now, so only verified rows get indexed
+      .then(() => refreshSearchIndex())
+      .catch((error) => console.warn('[App] Search index refresh did not finish:', error));
+  }, [addMessage, isDemoRoute, isEncryptionReady]);
+
+  // Apply the organization's local retention once per unlock; org users wait until their organization has loaded
+  const localRetentionDays = getLocalRetentionDays(organization);
+  const isRetentionPolicyKnown = Boolean(user) && (user?.userType !== 'org' || Boolean(organization));
+  useEffect(() => {
+    if (!isEncryptionReady || isDemoRoute || !isRetentionPolicyKnown) {
+      return;
+    }
+    void applyLocalRetention(localRetentionDays, user?.id)
+      .catch((error) => console.warn('[App] Local retention did not finish:', error));
+  }, [isDemoRoute, isEncryptionReady, isRetentionPolicyKnown, localRetentionDays, user?.id]);
+
+  const handleEndSession = useCallback(() => runSessionAction(async () => {
+    const completed = await endSession();
+    if (!completed) return;
+    addMessage('system', 'Session completed. Data is now locked; generating the session note...');
+    setNoteDraft(await buildNoteDraft());
+  }), [addMessage, buildNoteDraft, endSession, runSessionAction, setNoteDraft]);
+
+  const presentConfirmation = useCallback((parsed: ParsedInput, timerId: number | null = null) => {
+    setPendingData(parsed);
+    setPendingTimerId(timerId);
+
+    // Generate confirmation response
+    const confirmation = generateConfirmation(parsed);
+
+    // Add assistant response
+    const buttons = confirmation.buttons.map(btn => ({
+      ...btn,
+      variant: btn.value === 'yes' ? 'primary' as const : 'secondary' as const
+    }));
+
+    addMessage('assistant', confirmation.message, { buttons });
+
+    // If we need function clarification, add those buttons too
+    if (needsFunctionGuess(parsed)) {
+      setTimeout(() => {
+        addMessage('system', 'What was the likely function?', {
+          functionButtons: [
+            { label: 'Escape', value: 'escape' },
+            { label: 'Tangible', value: 'tangible' },
+            { label: 'Attention', value: 'attention' },
+            { label: 'Automatic', value: 'automatic' },
+            { label: 'Unsure', value: 'unsure' }
+          ]
+        });
+      }, 500);
+    }
+  }, [addMessage]);
+
+  useEffect(() => {
+    if (pendingData || !nextStoppedTimer?.endedAt) return;
+    presentConfirmation(toTimedInput(nextStoppedTimer, nextStoppedTimer.endedAt), nextStoppedTimer.id);
+  }, [nextStoppedTimer, pendingData, presentConfirmation]);
+
   const handleSendMessage = useCallback(async () => {
     if (!inputValue.trim() || isProcessing) return;
 
@@ -243,7 +591,7 @@ function App() {
       }
 
       // Parse the input using LLM or mock
-      const parsed = await parseUserInput(userMessage);
+      const parsed = await parseUserInput(userMessage, targetCatalog);
       setSelectedFunction(null);
 
       // If no data extracted, ask for clarification
@@ -253,40 +601,14 @@ function App() {
         return;
       }
 
-      setPendingData(parsed);
-
-      // Generate confirmation response
-      const confirmation = generateConfirmation(parsed);
-
-      // Add assistant response
-      const buttons = confirmation.buttons.map(btn => ({
-        ...btn,
-        variant: btn.value === 'yes' ? 'primary' as const : 'secondary' as const
-      }));
-
-      addMessage('assistant', confirmation.message, { buttons });
-
-      // If we need function clarification, add those buttons too
-      if (parsed.behaviors.length > 0 && !parsed.functionGuess) {
-        setTimeout(() => {
-          addMessage('system', 'What was the likely function?', {
-            functionButtons: [
-              { label: 'Escape', value: 'escape' },
-              { label: 'Tangible', value: 'tangible' },
-              { label: 'Attention', value: 'attention' },
-              { label: 'Automatic', value: 'automatic' },
-              { label: 'Unsure', value: 'unsure' }
-            ]
-          });
-        }, 500);
-      }
+      presentConfirmation(parsed);
     } catch (error) {
       console.error('Error processing message:', error);
       addMessage('assistant', 'Sorry, I had trouble understanding that. Could you try rephrasing?');
     } finally {
       setIsProcessing(false);
     }
-  }, [addMessage, behaviorEvents.length, clientName, inputValue, isProcessing, noteDraft, skillTrials.length]);
+  }, [addMessage, behaviorEvents.length, clientName, inputValue, isProcessing, noteDraft, presentConfirmation, skillTrials.length, targetCatalog]);
 
   const handleButtonClick = useCallback(async (action: string, value: string) => {
     if (!isEncryptionReady) {
@@ -299,7 +621,7 @@ function App() {
     }
 
     if (action === 'confirm' && value === 'yes' && pendingData) {
-      if (pendingData.behaviors.length > 0 && !selectedFunction && !pendingData.functionGuess) {
+      if (!selectedFunction && needsFunctionGuess(pendingData)) {
         addMessage('assistant', 'Please select the likely function before confirming this behavior.');
         addMessage('system', 'What was the likely function?', {
           functionButtons: [
@@ -313,24 +635,33 @@ function App() {
         return;
       }
 
+      const sessionId = await resolveWritableSessionId();
+      if (sessionId === null) {
+        return;
+      }
+
       // Save the behavior events
       const createdBehaviorIds: number[] = [];
       const functionGuess = selectedFunction as BehaviorEvent['functionGuess'] || pendingData.functionGuess;
       for (const behavior of pendingData.behaviors) {
         const event: BehaviorEvent = {
-          sessionId: activeSessionId, // Demo session
+          sessionId,
           behaviorType: behavior.type,
           count: behavior.count,
           duration: behavior.duration,
+          latency: behavior.latency,
+          startedAt: behavior.startedAt,
+          endedAt: behavior.endedAt,
           antecedent: pendingData.antecedent,
-          functionGuess,
-          timestamp: new Date(),
+          functionGuess: behavior.latency === undefined ? functionGuess : undefined,
+          timestamp: behaviorTimestamp(behavior),
           createdAt: new Date(),
           synced: false
         };
 
         const id = await addBehaviorEvent(event);
-        createdBehaviorIds.push(id);
+        // Latency measures a response, so no intervention is asked for it
+        if (behavior.latency === undefined) createdBehaviorIds.push(id);
         incrementUnsyncedCount();
       }
 
@@ -338,7 +669,7 @@ function App() {
       if (pendingData.skillTrials && pendingData.skillTrials.length > 0) {
         for (const trial of pendingData.skillTrials) {
           const skillTrial: Omit<SkillTrial, 'id'> = {
-            sessionId: activeSessionId, // Demo session
+            sessionId,
             skillName: trial.skill,
             target: trial.target,
             promptLevel: normalizePromptLevel(trial.promptLevel),
@@ -357,7 +688,7 @@ function App() {
 
       if (pendingData.reinforcement) {
         const note: Omit<SessionNote, 'id'> = {
-          sessionId: activeSessionId,
+          sessionId,
           section: 'reinforcement',
           content: pendingData.reinforcement.details
             ? `${pendingData.reinforcement.type} delivered: ${pendingData.reinforcement.details}`
@@ -372,6 +703,12 @@ function App() {
         incrementUnsyncedCount();
       }
 
+      if (pendingTimerId !== null) {
+        await deleteBehaviorTimer(pendingTimerId);
+        setHeldTimerIds((ids) => [...ids, pendingTimerId]);
+        setPendingTimerId(null);
+      }
+
       addMessage('assistant', '✓ Data logged successfully!');
 
       // Ask for intervention if not specified
@@ -392,7 +729,13 @@ function App() {
       setPendingData(null);
       setSelectedFunction(null);
     } else if (action === 'confirm' && value === 'no') {
-      addMessage('assistant', 'No problem! What would you like to log instead?');
+      if (pendingTimerId !== null) {
+        setHeldTimerIds((ids) => [...ids, pendingTimerId]);
+        setPendingTimerId(null);
+        addMessage('assistant', 'Not logged. The stopped timer keeps its times: tap Log on it to record it, or discard it.');
+      } else {
+        addMessage('assistant', 'No problem! What would you like to log instead?');
+      }
       setPendingData(null);
       setPendingInterventionBehaviorIds([]);
     } else if (action === 'logBehavior') {
@@ -407,11 +750,26 @@ function App() {
       for (const behaviorId of pendingInterventionBehaviorIds) {
         await updateBehaviorEventIntervention(behaviorId, value);
       }
-      incrementUnsyncedCount();
+      // Corrections coalesce with changes already queued, so recount instead of incrementing
+      await refreshUnsyncedCount();
       addMessage('assistant', `Intervention saved: ${value}.`);
       setPendingInterventionBehaviorIds([]);
     }
-  }, [pendingData, selectedFunction, incrementUnsyncedCount, addMessage, isDemoRoute, isEncryptionReady, pendingInterventionBehaviorIds, activeSessionId]);
+  }, [pendingData, pendingTimerId, selectedFunction, incrementUnsyncedCount, refreshUnsyncedCount, addMessage, isDemoRoute, isEncryptionReady, pendingInterventionBehaviorIds, resolveWritableSessionId]);
+
+  const handleDeleteRecord = useCallback(async (kind: 'behavior' | 'skillTrial', id: number) => {
+    if (isDemoRoute || !isEncryptionReady) return;
+    try {
+      if (kind === 'behavior') {
+        await deleteBehaviorEvent(id);
+      } else {
+        await deleteSkillTrial(id);
+      }
+      await refreshUnsyncedCount();
+    } catch (error) {
+      addMessage('system', error instanceof Error ? error.message : 'Failed to delete record.');
+    }
+  }, [addMessage, isDemoRoute, isEncryptionReady, refreshUnsyncedCount]);
 
   const handleUnlock = useCallback(async () => {
     if (!user?.encryptionSalt) {
@@ -422,18 +780,92 @@ function App() {
       setUnlockError('Enter your password to unlock local data.');
       return;
     }
+    if (newPin && !isValidPin(newPin)) {
+      setUnlockError('PIN must be 4 to 8 digits.');
+      return;
+    }
+    const isRecoveryApproved = user.recovery?.status === 'approved';
+    if (needsPreviousPassword && !isRecoveryApproved && !previousPassword) {
+      setUnlockError('Enter the password you used before it was changed.');
+      return;
+    }
     setIsUnlocking(true);
     setUnlockError(null);
     try {
-      await initializeEncryption(unlockPassword, user.encryptionSalt);
+      if (needsPreviousPassword && isRecoveryApproved) {
+        await completeAccountRecovery(user, unlockPassword);
+        await refreshUser();
+      } else if (needsPreviousPassword) {
+        // Local data keys are still wrapped with the old password; re-wrap them with the current one
+        await unlockWithPreviousPassword(previousPassword, unlockPassword, user.encryptionSalt);
+      } else {
+        await initializeEncryption(unlockPassword, user.encryptionSalt);
+        if (newPin) {
+          await setDevicePin(unlockPassword, newPin);
+        }
+      }
       setUnlockPassword('');
+      setPreviousPassword('');
+      setNewPin('');
+      setIsUsingPassword(false);
     } catch (error) {
       const message = error instanceof Error ? error.message : 'Failed to unlock local data';
       setUnlockError(message);
     } finally {
       setIsUnlocking(false);
     }
-  }, [initializeEncryption, unlockPassword, user?.encryptionSalt]);
+  }, [initializeEncryption, needsPreviousPassword, newPin, previousPassword, refreshUser, setDevicePin, unlockPassword, unlockWithPreviousPassword, user]);
+
+  const handleConfirmPassword = useCallback(async () => {
+    if (!accountPassword) {
+      setAccountPasswordError('Enter your password.');
+      return;
+    }
+    setIsUnlocking(true);
+    setAccountPasswordError(null);
+    try {
+      await confirmPassword(accountPassword);
+      setAccountPassword('');
+    } catch (error) {
+      setAccountPasswordError(error instanceof Error ? error.message : 'Password does not unlock local data');
+    } finally {
+      setIsUnlocking(false);
+    }
+  }, [accountPassword, confirmPassword]);
+
+  const handlePinUnlock = useCallback(async () => {
+    if (!user?.encryptionSalt || !unlockPin) {
+      setUnlockError('Enter your PIN to unlock.');
+      return;
+    }
+    setIsUnlocking(true);
+    setUnlockError(null);
+    try {
+      await unlockWithPin(user.encryptionSalt, unlockPin);
+    } catch (error) {
+      setUnlockError(error instanceof Error ? error.message : 'Failed to unlock local data');
+    } finally {
+      setUnlockPin('');
+      setIsUnlocking(false);
+    }
+  }, [unlockPin, unlockWithPin, user?.encryptionSalt]);
+
+  const handleRequestRecovery = useCallback(async () => {
+    if (!user?.encryptionSalt || !unlockPassword) {
+      setUnlockError('Enter your new password to request recovery.');
+      return;
+    }
+    setIsUnlocking(true);
+    setUnlockError(null);
+    try {
+      await requestAccountRecovery(unlockPassword, user.encryptionSalt);
+      await refreshUser();
+    } catch (error) {
+      setUnlockError(error instanceof Error ? error.message : 'Failed to request account recovery');
+    } finally {
+      setIsUnlocking(false);
+    }
+  }, [refreshUser, unlockPassword, user?.encryptionSalt]);
 
   const handleFunctionSelect = useCallback((func: string) => {
     if (!pendingData) {
@@ -458,8 +890,8 @@ function App() {
   }, [addMessage]);
 
   const handleLogABC = useCallback(() => {
-    addMessage('assistant', 'Describe the ABC: What was the Antecedent (what happened before), the Behavior, and the Consequence (what happened after)?');
-  }, [addMessage]);
+    setAbcModalOpen(true);
+  }, []);
 
   const handleDeliverReinforcement = useCallback(() => {
     addMessage('assistant', 'What reinforcement was delivered? (e.g., verbal praise, token, preferred item)');
@@ -483,8 +915,13 @@ function App() {
       return;
     }
 
+    const sessionId = await resolveWritableSessionId();
+    if (sessionId === null) {
+      return;
+    }
+
     const incident: Incident = {
-      sessionId: 1,
+      sessionId,
       incidentType: data.incidentType,
       description: data.description,
       staffInvolved: data.staffInvolved,
@@ -501,7 +938,132 @@ function App() {
     incrementUnsyncedCount();
 
     addMessage('system', `⚠️ Incident report filed: ${data.incidentType}. ${data.parentNotified ? 'Parent notified.' : ''} ${data.supervisorNotified ? 'Supervisor notified.' : ''}`);
-  }, [incrementUnsyncedCount, addMessage, isDemoRoute, isEncryptionReady]);
+  }, [incrementUnsyncedCount, addMessage, isDemoRoute, isEncryptionReady, resolveWritableSessionId]);
+
+  const handleAbcSubmit = useCallback(async (record: AbcRecord) => {
+    if (!isEncryptionReady) {
+      throw new Error('Local data is locked. Unlock it to record ABC data.');
+    }
+
+    const sessionId = await resolveWritableSessionId();
+    if (sessionId === null) {
+      throw new Error('Start or resume a session to record ABC data.');
+    }
+
+    const event = toAbcBehaviorEvent(record, sessionId);
+    await addBehaviorEvent(event);
+    incrementUnsyncedCount();
+
+    addMessage('system', `ABC recorded: ${event.antecedent} → ${event.behaviorType.replace(/_/g, ' ')} → ${event.consequent}`);
+  }, [incrementUnsyncedCount, addMessage, isEncryptionReady, resolveWritableSessionId]);
+
+  const handleIntervalStart = useCallback(async (targets: IntervalTargetConfig[], startedAt: Date) => {
+    if (!isEncryptionReady) {
+      throw new Error('Local data is locked. Unlock it to record interval data.');
+    }
+
+    const sessionId = await resolveWritableSessionId();
+    if (sessionId === null) {
+      throw new Error('Start or resume a session to record interval data.');
+    }
+
+    const recordings: Omit<IntervalRecording, 'id'>[] = targets.map((target) => ({
+      sessionId,
+      behaviorType: target.behaviorType,
+      method: target.method,
+      intervalSeconds: target.intervalSeconds,
+      intervals: [],
+      timestamp: startedAt,
+      createdAt: startedAt,
+      synced: false
+    }));
+    const ids = await addIntervalRecordings(recordings);
+    ids.forEach(() => incrementUnsyncedCount());
+
+    addMessage('system', `Interval recording started: ${targets.map((target) => `${target.behaviorType} (${INTERVAL_METHOD_LABELS[target.method].toLowerCase()}, ${target.intervalSeconds}s)`).join(', ')}`);
+    return ids;
+  }, [incrementUnsyncedCount, addMessage, isEncryptionReady, resolveWritableSessionId]);
+
+  const loadPrograms = useCallback(
+    () => (isDemoRoute ? Promise.resolve(DEMO_PROGRAMS) : programService.getPrograms(selectedLearner.id)),
+    [isDemoRoute, selectedLearner.id]
+  );
+
+  const handleProgramTrial = useCallback(async (record: ProgramTrialRecord) => {
+    if (!isEncryptionReady) {
+      throw new Error('Local data is locked. Unlock it to run programs.');
+    }
+
+    const sessionId = await resolveWritableSessionId();
+    if (sessionId === null) {
+      throw new Error('Start or resume a session to run programs.');
+    }
+
+    await addSkillTrial(toProgramTrial(record, sessionId));
+    incrementUnsyncedCount();
+    addMessage('system', `Trial: ${record.skillName} · ${record.target} · ${PROMPT_LEVEL_LABELS[record.promptLevel]} · ${record.response}`);
+    return sessionId;
+  }, [incrementUnsyncedCount, addMessage, isEncryptionReady, resolveWritableSessionId]);
+
+  const handleTaskAnalysisSubmit = useCallback(async (definition: TaskDefinition, levels: (PromptLevel | null)[], range: [number, number]) => {
+    if (!isEncryptionReady) {
+      throw new Error('Local data is locked. Unlock it to record task analysis data.');
+    }
+
+    const sessionId = await resolveWritableSessionId();
+    if (sessionId === null) {
+      throw new Error('Start or resume a session to record task analysis data.');
+    }
+
+    const run = toTaskAnalysisRun(definition, levels, range, sessionId);
+    await addTaskAnalysisRun(run);
+    incrementUnsyncedCount();
+    addMessage('system', `Task analysis: ${run.taskName} · ${percentIndependent(run.steps) ?? 0}% independent (${CHAINING_METHOD_LABELS[run.chainingMethod].toLowerCase()})`);
+  }, [incrementUnsyncedCount, addMessage, isEncryptionReady, resolveWritableSessionId]);
+
+  const handleTimerStart = useCallback(async (kind: BehaviorTimer['kind'], label: string) => {
+    if (!isEncryptionReady) {
+      throw new Error('Local data is locked. Unlock it to start a timer.');
+    }
+
+    const sessionId = await resolveWritableSessionId();
+    if (sessionId === null) {
+      throw new Error('Start or resume a session to start a timer.');
+    }
+
+    const startedAt = new Date();
+    await startBehaviorTimer({ sessionId, kind, label, startedAt });
+    addMessage('system', `${TIMER_KIND_LABELS[kind]} timer started: ${label}`);
+  }, [addMessage, isEncryptionReady, resolveWritableSessionId]);
+
+  const handleTimerStop = useCallback(async (timer: BehaviorTimer) => {
+    // Take the stop time before any await so it is exact
+    const endedAt = new Date();
+    if (timer.id === undefined) return;
+    const { id } = timer;
+    if (timer.endedAt) {
+      // Log on a timer whose confirmation was declined: offer it again
+      setHeldTimerIds((ids) => ids.filter((heldId) => heldId !== id));
+      return;
+    }
+    await stopBehaviorTimer({ ...timer, id }, endedAt);
+    if (pendingData) {
+      addMessage('system', `${TIMER_KIND_LABELS[timer.kind]} timer stopped: ${timer.label}. It is confirmed after the current entry.`);
+    }
+  }, [addMessage, pendingData]);
+
+  const handleTimerDiscard = useCallback(async (timer: BehaviorTimer) => {
+    if (timer.id !== undefined) {
+      const { id } = timer;
+      await deleteBehaviorTimer(id);
+      setHeldTimerIds((ids) => [...ids, id]);
+      if (id === pendingTimerId) {
+        setPendingData(null);
+        setPendingTimerId(null);
+      }
+    }
+    addMessage('system', `${TIMER_KIND_LABELS[timer.kind]} timer discarded: ${timer.label}`);
+  }, [addMessage, pendingTimerId]);
 
   return (
     <div className="app-shell">
@@ -510,32 +1072,154 @@ function App() {
           <Header
             clientName={clientName}
             sessionTime={sessionTime}
+            sessionPhase={sessionPhase}
             onMenuClick={toggleDrawer}
             learners={learners}
             onLearnerChange={setSelectedLearner}
           />
 
+          <SessionControls
+            phase={sessionPhase}
+            setup={sessionSetup}
+            onSetupChange={setSessionSetup}
+            onStart={() => void handleStartSession()}
+            onPause={() => void handlePauseSession()}
+            onResume={() => void handleResumeSession()}
+            onEnd={() => void handleEndSession()}
+            disabled={isSessionBusy || !isEncryptionReady}
+          />
+
           {!isEncryptionReady && !isDemoRoute && (
-            <div className="encryption-warning">
-              Local encrypted data is currently locked. <a href="/login" onClick={(e) => { e.preventDefault(); logout(); }}>Sign out and sign in again</a> to log session entries.
+            <div className="lock-screen" role="dialog" aria-modal="true" aria-labelledby="lock-screen-title">
+              <form
+                className="lock-card"
+                onSubmit={(event) => {
+                  event.preventDefault();
+                  void (isPinUnlock ? handlePinUnlock() : handleUnlock());
+                }}
+              >
+                <h2 id="lock-screen-title" className="lock-title">
+                  {isLocked ? 'Locked after inactivity' : 'Local data is locked'}
+                </h2>
+                <p className="unlock-note">
+                  {isPinUnlock
+                    ? 'Enter your device PIN to continue.'
+                    : 'Enter your password to unlock the session entries stored on this device.'}
+                  {isLocked && sessionPhase === 'paused' && ' The session timer is paused until you unlock.'}
+                </p>
+                {isPinUnlock ? (
+                  <div className="unlock-row">
+                    <input
+                      type="password"
+                      inputMode="numeric"
+                      autoComplete="off"
+                      className="unlock-input"
+                      placeholder="PIN"
+                      maxLength={8}
+                      value={unlockPin}
+                      onChange={(event) => setUnlockPin(event.target.value)}
+                      autoFocus
+                    />
+                    <button type="submit" className="unlock-btn" disabled={isUnlocking}>
+                      {isUnlocking ? 'Unlocking...' : 'Unlock'}
+                    </button>
+                  </div>
+                ) : (
+                  <>
+                    <div className="unlock-row">
+                      <input
+                        type="password"
+                        className="unlock-input"
+                        placeholder="Enter password to unlock"
+                        value={unlockPassword}
+                        onChange={(event) => setUnlockPassword(event.target.value)}
+                      />
+                      {needsPreviousPassword && user?.recovery?.status !== 'approved' && (
+                        <input
+                          type="password"
+                          className="unlock-input"
+                          placeholder="Previous password"
+                          value={previousPassword}
+                          onChange={(event) => setPreviousPassword(event.target.value)}
+                        />
+                      )}
+                      <button type="submit" className="unlock-btn" disabled={isUnlocking}>
+                        {isUnlocking ? 'Unlocking...' : 'Unlock'}
+                      </button>
+                    </div>
+                    {isIdleLockEnabled && !needsPreviousPassword && (
+                      <div className="unlock-row">
+                        <input
+                          type="password"
+                          inputMode="numeric"
+                          autoComplete="off"
+                          className="unlock-input"
+                          placeholder={hasPin ? 'New device PIN (optional)' : 'Set a 4–8 digit device PIN (optional)'}
+                          maxLength={8}
+                          value={newPin}
+                          onChange={(event) => setNewPin(event.target.value)}
+                        />
+                      </div>
+                    )}
+                  </>
+                )}
+                {needsPreviousPassword && user?.recovery?.status === 'reset' && (
+                  <button type="button" className="unlock-link-btn" onClick={() => void handleRequestRecovery()} disabled={isUnlocking}>
+                    Password was reset? Ask a manager to recover this device's data
+                  </button>
+                )}
+                {needsPreviousPassword && user?.recovery?.status === 'requested' && (
+                  <div className="unlock-note">Recovery requested. A manager must approve it before you can unlock.</div>
+                )}
+                {needsPreviousPassword && user?.recovery?.status === 'approved' && (
+                  <div className="unlock-note">Recovery approved. Enter your new password to unlock.</div>
+                )}
+                {unlockError && <div className="unlock-error">{unlockError}</div>}
+                <div className="lock-links">
+                  {hasPin && !needsPreviousPassword && (
+                    <button
+                      type="button"
+                      className="unlock-link-btn"
+                      onClick={() => {
+                        setIsUsingPassword(!isUsingPassword);
+                        setUnlockError(null);
+                      }}
+                    >
+                      {isUsingPassword ? 'Use PIN instead' : 'Use password instead'}
+                    </button>
+                  )}
+                  <a href="/login" className="unlock-link-btn" onClick={(e) => { e.preventDefault(); logout(); }}>Sign out</a>
+                </div>
+              </form>
+            </div>
+          )}
+
+          {isEncryptionReady && !hasAccountKey && !isDemoRoute && (
+            <form
+              className="account-key-prompt"
+              onSubmit={(event) => {
+                event.preventDefault();
+                void handleConfirmPassword();
+              }}
+            >
+              <p className="unlock-note">
+                Unlocked with your device PIN. Enter your password to resume encrypted sync and backup restores.
+              </p>
               <div className="unlock-row">
                 <input
                   type="password"
                   className="unlock-input"
-                  placeholder="Enter password to unlock"
-                  value={unlockPassword}
-                  onChange={(event) => setUnlockPassword(event.target.value)}
+                  placeholder="Password"
+                  aria-label="Password"
+                  value={accountPassword}
+                  onChange={(event) => setAccountPassword(event.target.value)}
                 />
-                <button
-                  className="unlock-btn"
-                  onClick={() => void handleUnlock()}
-                  disabled={isUnlocking}
-                >
-                  {isUnlocking ? 'Unlocking...' : 'Unlock'}
+                <button type="submit" className="unlock-btn" disabled={isUnlocking}>
+                  {isUnlocking ? 'Checking...' : 'Continue'}
                 </button>
               </div>
-              {unlockError && <div className="unlock-error">{unlockError}</div>}
-            </div>
+              {accountPasswordError && <div className="unlock-error">{accountPasswordError}</div>}
+            </form>
           )}
 
           <ChatArea
@@ -545,10 +1229,24 @@ function App() {
             selectedFunction={selectedFunction || undefined}
           />
 
+          <BehaviorTimers
+            timers={behaviorTimers}
+            isStartOpen={timerStartOpen}
+            onStartOpenChange={setTimerStartOpen}
+            suggestions={timerSuggestions}
+            onStart={handleTimerStart}
+            onStop={handleTimerStop}
+            onDiscard={handleTimerDiscard}
+          />
+
           <ActionButtons
             onLogBehavior={handleLogBehavior}
             onLogSkillTrial={handleLogSkillTrial}
             onLogABC={handleLogABC}
+            onStartTimer={() => setTimerStartOpen(true)}
+            onIntervalRecording={() => setIntervalModalOpen(true)}
+            onRunProgram={() => setProgramModalOpen(true)}
+            onTaskAnalysis={() => setTaskAnalysisModalOpen(true)}
             onDeliverReinforcement={handleDeliverReinforcement}
             onIncidentReport={() => setIncidentModalOpen(true)}
           />
@@ -570,7 +1268,11 @@ function App() {
           <SessionSummaryContent
             behaviorEvents={behaviorEvents}
             skillTrials={skillTrials}
+            intervalSummaries={intervalSummaries}
+            taskAnalysisRuns={taskAnalysisRuns}
             noteDraft={noteDraft}
+            onDeleteBehavior={sessionPhase === 'completed' ? undefined : (id) => void handleDeleteRecord('behavior', id)}
+            onDeleteSkillTrial={sessionPhase === 'completed' ? undefined : (id) => void handleDeleteRecord('skillTrial', id)}
           />
         </aside>
       </div>
@@ -588,6 +1290,42 @@ function App() {
         isOpen={incidentModalOpen}
         onOpenChange={setIncidentModalOpen}
       />
+      <AbcRecorder
+        isOpen={abcModalOpen}
+        onOpenChange={setAbcModalOpen}
+        learnerId={selectedLearner.id}
+        learnerName={clientName}
+        canReadHistory={isEncryptionReady}
+        onSubmit={handleAbcSubmit}
+      />
+      <IntervalRecorder
+        isOpen={intervalModalOpen}
+        onOpenChange={setIntervalModalOpen}
+        learnerId={selectedLearner.id}
+        learnerName={clientName}
+        canReadHistory={isEncryptionReady}
+        onStart={handleIntervalStart}
+        onScoresChange={updateIntervalScores}
+      />
+      <ProgramRunner
+        key={selectedLearner.id}
+        isOpen={programModalOpen}
+        onOpenChange={setProgramModalOpen}
+        learnerId={selectedLearner.id}
+        learnerName={clientName}
+        sessionId={activeSessionId}
+        canReadHistory={isEncryptionReady}
+        loadPrograms={loadPrograms}
+        onRecordTrial={handleProgramTrial}
+      />
+      <TaskAnalysisRecorder
+        isOpen={taskAnalysisModalOpen}
+        onOpenChange={setTaskAnalysisModalOpen}
+        learnerId={selectedLearner.id}
+        learnerName={clientName}
+        canReadHistory={isEncryptionReady}
+        onSubmit={handleTaskAnalysisSubmit}
+      />
       <TermsModal />
       <RoleToggle />
     </div>
@@ -0,0 +1,232 @@
+import { useMemo, useState } from 'react';
+import { useLiveQuery } from 'dexie-react-hooks';
+import { subDays } from 'date-fns';
+import { getBehaviorEventsByLearner, type BehaviorEvent } from '../db/db';
+import {
+    ABC_HISTORY_DAYS,
+    buildAbcCatalog,
+    isCompleteAbcRecord,
+    summarizeAbc,
+    type AbcPatternCount,
+    type AbcRecord
+} from '../services/abcService';
+
+const FUNCTION_OPTIONS: { label: string; value: NonNullable<BehaviorEvent['functionGuess']> }[] = [
+    { label: 'Escape', value: 'escape' },
+    { label: 'Tangible', value: 'tangible' },
+    { label: 'Attention', value: 'attention' },
+    { label: 'Automatic', value: 'automatic' },
+    { label: 'Unsure', value: 'unsure' }
+];
+
+const EMPTY_RECORD: Partial<AbcRecord> = {};
+
+interface AbcRecorderProps {
+    isOpen: boolean;
+    onOpenChange: (open: boolean) => void;
+    learnerId: string;
+    learnerName: string;
+    /** False while local data is locked; the learner's history is not read then. */
+    canReadHistory: boolean;
+    onSubmit: (record: AbcRecord) => Promise<void>;
+}
+
+interface QuickPickFieldProps {
+    label: string;
+    options: string[];
+    value: string | undefined;
+    placeholder: string;
+    onChange: (value: string) => void;
+}
+
+/** Quick-pick chips with a free-text field for anything not in the catalog. */
+function QuickPickField({ label, options, value, placeholder, onChange }: QuickPickFieldProps) {
+    return (
+        <div className="form-group">
+            <label className="form-label">{label}</label>
+            <div className="function-buttons abc-quick-picks">
+                {options.map((option) => (
+                    <button
+                        key={option}
+                        type="button"
+                        className={`function-btn ${value?.toLowerCase() === option.toLowerCase() ? 'selected' : ''}`}
+                        onClick={() => onChange(option)}
+                    >
+                        {option.replace(/_/g, ' ')}
+                    </button>
+                ))}
+            </div>
+            <input
+                type="text"
+                className="form-input"
+                placeholder={placeholder}
+                aria-label={label}
+                value={value ?? ''}
+                onChange={(event) => onChange(event.target.value)}
+            />
+        </div>
+    );
+}
+
+function PatternList({ title, patterns, total }: { title: string; patterns: AbcPatternCount[]; total: number }) {
+    if (patterns.length === 0) return null;
+    return (
+        <div className="abc-pattern-list">
+            <span className="tree-session-meta">{title}</span>
+            {patterns.slice(0, 5).map((pattern) => (
+                <div key={pattern.label} className="abc-pattern-row">
+                    <span>{pattern.label}</span>
+                    <span className="abc-pattern-count">{pattern.count} · {Math.round((pattern.count / total) * 100)}%</span>
+                </div>
+            ))}
+        </div>
+    );
+}
+
+/**
+ * ABC recording mode: the behavior, what came right before it and right after it, picked from
+ * the learner's own catalog. The summary tab tallies the learner's recent ABC data per behavior.
+ */
+export function AbcRecorder({ isOpen, onOpenChange, learnerId, learnerName, canReadHistory, onSubmit }: AbcRecorderProps) {
+    const [tab, setTab] = useState<'record' | 'summary'>('record');
+    const [record, setRecord] = useState<Partial<AbcRecord>>(EMPTY_RECORD);
+    const [isSaving, setIsSaving] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const history = useLiveQuery(
+        async () => (isOpen && canReadHistory ? getBehaviorEventsByLearner(learnerId, subDays(new Date(), ABC_HISTORY_DAYS)) : []),
+        [isOpen, canReadHistory, learnerId]
+    );
+    const catalog = useMemo(() => buildAbcCatalog(history ?? []), [history]);
+    const summaries = useMemo(() => summarizeAbc(history ?? []), [history]);
+
+    const update = (changes: Partial<AbcRecord>) => setRecord((current) => ({ ...current, ...changes }));
+
+    const close = () => {
+        setRecord(EMPTY_RECORD);
+        setError(null);
+        onOpenChange(false);
+    };
+
+    const handleSave = async () => {
+        if (!isCompleteAbcRecord(record)) return;
+        setIsSaving(true);
+        setError(null);
+        try {
+            await onSubmit(record);
+            // Keep the recorder open for the next observation
+            setRecord(EMPTY_RECORD);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to save the ABC record');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    return (
+        <div className={`modal-overlay ${isOpen ? 'open' : ''}`}>
+            <div className="modal abc-modal" role="dialog" aria-modal="true" aria-labelledby="abc-modal-title">
+                <div className="modal-header">
+                    <h2 id="abc-modal-title" className="modal-title">ABC Recording · {learnerName}</h2>
+                    <button className="drawer-close" onClick={close} aria-label="Close ABC recording">
+                        <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                            <path d="M18 6L6 18M6 6l12 12" />
+                        </svg>
+                    </button>
+                </div>
+
+                <div className="function-buttons abc-tabs" role="tablist">
+                    <button type="button" role="tab" aria-selected={tab === 'record'} className={`function-btn ${tab === 'record' ? 'selected' : ''}`} onClick={() => setTab('record')}>
+                        Record
+                    </button>
+                    <button type="button" role="tab" aria-selected={tab === 'summary'} className={`function-btn ${tab === 'summary' ? 'selected' : ''}`} onClick={() => setTab('summary')}>
+                        Summary
+                    </button>
+                </div>
+
+                {tab === 'record' ? (
+                    <div className="modal-body">
+                        <QuickPickField
+                            label="Antecedent"
+                            options={catalog.antecedents}
+                            value={record.antecedent}
+                            placeholder="What happened right before?"
+                            onChange={(antecedent) => update({ antecedent })}
+                        />
+                        <QuickPickField
+                            label="Behavior"
+                            options={catalog.behaviors}
+                            value={record.behaviorType}
+                            placeholder="What did the learner do?"
+                            onChange={(behaviorType) => update({ behaviorType })}
+                        />
+                        <QuickPickField
+                            label="Consequence"
+                            options={catalog.consequences}
+                            value={record.consequent}
+                            placeholder="What happened right after?"
+                            onChange={(consequent) => update({ consequent })}
+                        />
+                        <div className="form-group">
+                            <label className="form-label">Likely function</label>
+                            <div className="function-buttons abc-quick-picks">
+                                {FUNCTION_OPTIONS.map((option) => (
+                                    <button
+                                        key={option.value}
+                                        type="button"
+                                        className={`function-btn ${record.functionGuess === option.value ? 'selected' : ''}`}
+                                        onClick={() => update({ functionGuess: record.functionGuess === option.value ? undefined : option.value })}
+                                    >
+                                        {option.label}
+                                    </button>
+                                ))}
+                            </div>
+                        </div>
+                        <div className="form-group">
+                            <label className="form-label">Notes</label>
+                            <input
+                                type="text"
+                                className="form-input"
+                                placeholder="Optional"
+                                value={record.notes ?? ''}
+                                onChange={(event) => update({ notes: event.target.value })}
+                            />
+                        </div>
+                        {error && <div className="unlock-error">{error}</div>}
+                    </div>
+                ) : (
+                    <div className="modal-body">
+                        <p className="drawer-empty">Last {ABC_HISTORY_DAYS} days of behaviors with an antecedent or consequence recorded.</p>
+                        {summaries.length === 0 && <div className="drawer-empty">No ABC data for {learnerName} yet.</div>}
+                        {summaries.map((summary) => (
+                            <div key={summary.behaviorType} className="event-item abc-summary-item">
+                                <div className="event-details">
+                                    <span className="event-label">{summary.behaviorType.replace(/_/g, ' ')} · {summary.total}</span>
+                                    <PatternList title="Antecedents" patterns={summary.antecedents} total={summary.total} />
+                                    <PatternList title="Consequences" patterns={summary.consequences} total={summary.total} />
+                                    <PatternList title="Sequences" patterns={summary.sequences} total={summary.total} />
+                                    <PatternList title="Function hypotheses" patterns={summary.functions} total={summary.total} />
+                                </div>
+                            </div>
+                        ))}
+                    </div>
+                )}
+
+                <div className="modal-footer">
+                    <button className="btn btn-secondary" onClick={close}>
+                        Done
+                    </button>
+                    {tab === 'record' && (
+                        <button
+                            className="btn btn-primary"
+                            onClick={() => void handleSave()}
+                            disabled={!isCompleteAbcRecord(record) || isSaving}
+                        >
+                            {isSaving ? 'Saving...' : 'Save ABC'}
+                        </button>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+}
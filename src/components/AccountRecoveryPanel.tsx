@@ -0,0 +1,142 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useAuth } from '../hooks/useAuth';
+import {
+    approveAccountRecovery,
+    fetchAccountRecoveryOverview,
+    setupAccountRecovery,
+    shareRecoveryKey,
+    type AccountRecoveryOverview,
+    type AccountRecoveryRequest
+} from '../services/accountRecoveryService';
+
+/**
+ * Manager controls for recovering locally encrypted data after a password reset:
+ * setting up the org recovery key, sharing it with other managers and approving requests.
+ */
+export function AccountRecoveryPanel() {
+    const { user, organization, refreshUser } = useAuth();
+    const [overview, setOverview] = useState<AccountRecoveryOverview | null>(null);
+    const [error, setError] = useState('');
+    const [busy, setBusy] = useState(false);
+
+    const loadOverview = useCallback(async () => {
+        try {
+            setOverview(await fetchAccountRecoveryOverview());
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to load account recovery');
+        }
+    }, []);
+
+    useEffect(() => {
+        void loadOverview();
+    }, [loadOverview]);
+
+    const run = async (action: () => Promise<unknown>) => {
+        setBusy(true);
+        setError('');
+        try {
+            await action();
+            await refreshUser();
+            await loadOverview();
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Request failed');
+        } finally {
+            setBusy(false);
+        }
+    };
+
+    const handleApprove = (request: AccountRecoveryRequest) => {
+        if (!user || !organization) return;
+        const confirmed = window.confirm(
+            `Approve recovery for ${request.name}? Their device will regain access to records that were encrypted under their old password.`
+        );
+        if (confirmed) {
+            void run(() => approveAccountRecovery(user, organization, request));
+        }
+    };
+
+    if (!overview) {
+        return error ? <div className="admin-error">{error}</div> : null;
+    }
+
+    const isSetUp = overview.keyVersion !== null;
+    const managersWithoutAccess = overview.managers.filter((manager) => !manager.hasAccess && manager.publicKey);
+    const canShare = isSetUp && managersWithoutAccess.length > 0 && Boolean(organization?.recoveryKey?.wrappedKey);
+
+    return (
+        <section className="admin-section" aria-labelledby="account-recovery-title">
+            <div className="admin-section-header">
+                <div>
+                    <h2 id="account-recovery-title" className="admin-section-title">Account recovery</h2>
+                    <p className="admin-page-subtitle">
+                        {isSetUp
+                            ? 'Devices escrow their local keys so unsynced records survive a password reset. Another manager approves each recovery.'
+                            : 'Without a recovery key, resetting a password leaves records on that person’s device unreadable.'}
+                    </p>
+                </div>
+                {!isSetUp && (
+                    <button
+                        type="button"
+                        className="admin-primary-btn"
+                        onClick={() => void run(() => setupAccountRecovery(overview.managers))}
+                        disabled={busy}
+                    >
+                        Set up recovery key
+                    </button>
+                )}
+                {canShare && user && organization && (
+                    <button
+                        type="button"
+                        className="admin-primary-btn"
+                        onClick={() => void run(() => shareRecoveryKey(user, organization, managersWithoutAccess))}
+                        disabled={busy}
+                    >
+                        Share with {managersWithoutAccess.length} manager{managersWithoutAccess.length === 1 ? '' : 's'}
+                    </button>
+                )}
+            </div>
+
+            {error && <div className="admin-error">{error}</div>}
+
+            {isSetUp && (
+                <div className="admin-table-wrap">
+                    <table className="admin-table">
+                        <thead>
+                            <tr>
+                                <th>Staff</th>
+                                <th>Password reset</th>
+                                <th>Requested</th>
+                                <th aria-label="actions" />
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {overview.requests.length === 0 ? (
+                                <tr>
+                                    <td colSpan={4} className="admin-empty">No pending recovery requests.</td>
+                                </tr>
+                            ) : overview.requests.map((request) => (
+                                <tr key={request.userId}>
+                                    <td>{request.name}</td>
+                                    <td>{new Date(request.resetAt).toLocaleString()}</td>
+                                    <td>{new Date(request.requestedAt).toLocaleString()}</td>
+                                    <td>
+                                        {request.userId !== user?.id && (
+                                            <button
+                                                type="button"
+                                                className="admin-link-btn"
+                                                onClick={() => handleApprove(request)}
+                                                disabled={busy}
+                                            >
+                                                Approve
+                                            </button>
+                                        )}
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            )}
+        </section>
+    );
+}
@@ -25,6 +25,12 @@ const icons = {
             <path d="M12 17h.01" />
         </svg>
     ),
+    clock: (
+        <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.5" strokeLinecap="round" strokeLinejoin="round">
+            <circle cx="12" cy="12" r="10" />
+            <path d="M12 6v6l4 2" />
+        </svg>
+    ),
     zap: (
         <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.5" strokeLinecap="round" strokeLinejoin="round">
             <path d="M13 2 L3 14 L12 14 L11 22 L21 10 L12 10 Z" />
@@ -36,6 +42,10 @@ interface ActionButtonsProps {
     onLogBehavior: () => void;
     onLogSkillTrial: () => void;
     onLogABC?: () => void;
+    onIntervalRecording?: () => void;
+    onRunProgram?: () => void;
+    onTaskAnalysis?: () => void;
+    onStartTimer?: () => void;
     onPromptLevel?: () => void;
     onDeliverReinforcement?: () => void;
     onIncidentReport: () => void;
@@ -46,6 +56,10 @@ export function ActionButtons({
     onLogBehavior,
     onLogSkillTrial,
     onLogABC,
+    onIntervalRecording,
+    onRunProgram,
+    onTaskAnalysis,
+    onStartTimer,
     onPromptLevel,
     onDeliverReinforcement,
     onIncidentReport,
@@ -70,6 +84,34 @@ export function ActionButtons({
                 </button>
             )}
 
+            {onStartTimer && (
+                <button className="action-btn" onClick={onStartTimer}>
+                    <span className="icon">{icons.clock}</span>
+                    Start Timer
+                </button>
+            )}
+
+            {onIntervalRecording && (
+                <button className="action-btn" onClick={onIntervalRecording}>
+                    <span className="icon">{icons.clock}</span>
+                    Interval Data
+                </button>
+            )}
+
+            {onRunProgram && (
+                <button className="action-btn" onClick={onRunProgram}>
+                    <span className="icon">{icons.trial}</span>
+                    Run Program
+                </button>
+            )}
+
+            {onTaskAnalysis && (
+                <button className="action-btn" onClick={onTaskAnalysis}>
+                    <span className="icon">{icons.trial}</span>
+                    Task Analysis
+                </button>
+            )}
+
             {onPromptLevel && (
                 <button className="action-btn" onClick={onPromptLevel}>
                     <span className="icon">{icons.zap}</span>
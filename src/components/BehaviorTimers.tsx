@@ -0,0 +1,114 @@
+import { useEffect, useState } from 'react';
+import type { BehaviorTimer } from '../db/db';
+import { TIMER_KIND_LABELS, formatClockTime, formatTimerClock } from '../services/timerService';
+
+interface BehaviorTimersProps {
+    timers: BehaviorTimer[];
+    isStartOpen: boolean;
+    onStartOpenChange: (open: boolean) => void;
+    /** Behaviors already logged this session, offered as labels. */
+    suggestions: string[];
+    onStart: (kind: BehaviorTimer['kind'], label: string) => Promise<void>;
+    /** Stops a running timer, or offers a stopped one for confirmation again. */
+    onStop: (timer: BehaviorTimer) => Promise<void>;
+    onDiscard: (timer: BehaviorTimer) => Promise<void>;
+}
+
+/**
+ * Duration and latency timers above the action buttons. Elapsed time is always computed from the
+ * stored start time, so a reload or a suspended tab does not lose any. A stopped timer stays here,
+ * its clock frozen, until its measurement is logged; Log offers it for confirmation again.
+ */
+export function BehaviorTimers({ timers, isStartOpen, onStartOpenChange, suggestions, onStart, onStop, onDiscard }: BehaviorTimersProps) {
+    const [now, setNow] = useState(() => new Date());
+    const [kind, setKind] = useState<BehaviorTimer['kind']>('duration');
+    const [label, setLabel] = useState('');
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        if (timers.length === 0) return;
+        const tick = setInterval(() => setNow(new Date()), 1000);
+        return () => clearInterval(tick);
+    }, [timers.length]);
+
+    if (timers.length === 0 && !isStartOpen) return null;
+
+    const run = async (action: () => Promise<void>) => {
+        setError(null);
+        try {
+            await action();
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Timer action failed');
+        }
+    };
+
+    const handleStart = () => run(async () => {
+        await onStart(kind, label.trim());
+        setLabel('');
+        onStartOpenChange(false);
+    });
+
+    return (
+        <div className="timer-bar" aria-label="Timers">
+            {timers.map((timer) => (
+                <div key={timer.id} className={`timer-chip ${timer.kind}`}>
+                    <div className="timer-chip-info">
+                        <span className="timer-chip-label">{timer.label}</span>
+                        <span className="timer-chip-meta">
+                            {TIMER_KIND_LABELS[timer.kind]} · {timer.endedAt
+                                ? `stopped at ${formatClockTime(timer.endedAt)}`
+                                : `since ${formatClockTime(timer.startedAt)}`}
+                        </span>
+                    </div>
+                    <span className="timer-chip-clock" aria-live="off">{formatTimerClock(timer.startedAt, timer.endedAt ?? now)}</span>
+                    <button className="btn btn-primary timer-stop" onClick={() => void run(() => onStop(timer))}>
+                        {timer.endedAt ? 'Log' : timer.kind === 'latency' ? 'Response' : 'Stop'}
+                    </button>
+                    <button className="timer-discard" onClick={() => void run(() => onDiscard(timer))} aria-label={`Discard ${timer.label} timer`}>
+                        ✕
+                    </button>
+                </div>
+            ))}
+
+            {isStartOpen && (
+                <form
+                    className="timer-start"
+                    onSubmit={(event) => {
+                        event.preventDefault();
+                        void handleStart();
+                    }}
+                >
+                    <select
+                        className="form-select"
+                        aria-label="Timer type"
+                        value={kind}
+                        onChange={(event) => setKind(event.target.value as BehaviorTimer['kind'])}
+                    >
+                        <option value="duration">Duration of a behavior</option>
+                        <option value="latency">Latency from instruction to response</option>
+                    </select>
+                    <input
+                        type="text"
+                        className="form-input"
+                        list="timer-suggestions"
+                        placeholder={kind === 'duration' ? 'Behavior, e.g. tantrum' : 'Response, e.g. sitting at the table'}
+                        aria-label={kind === 'duration' ? 'Behavior' : 'Response'}
+                        value={label}
+                        onChange={(event) => setLabel(event.target.value)}
+                    />
+                    <datalist id="timer-suggestions">
+                        {suggestions.map((suggestion) => <option key={suggestion} value={suggestion} />)}
+                    </datalist>
+                    <button type="submit" className="btn btn-primary" disabled={!label.trim()}>
+                        Start
+                    </button>
+                    <button type="button" className="btn btn-secondary" onClick={() => onStartOpenChange(false)}>
+                        Cancel
+                    </button>
+                </form>
+            )}
+
+            {error && <div className="unlock-error">{error}</div>}
+        </div>
+    );
+}
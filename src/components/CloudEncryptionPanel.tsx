@@ -0,0 +1,140 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useAuth } from '../hooks/useAuth';
+import {
+    enableOrgEncryption,
+    fetchOrgEncryptionStatus,
+    grantOrgKeyAccess,
+    type OrgEncryptionMember,
+    type OrgEncryptionStatus
+} from '../services/orgEncryptionService';
+import type { PlaintextFeature } from '../services/authService';
+
+const PLAINTEXT_FEATURE_LABELS: Record<PlaintextFeature, string> = {
+    syncContentValidation: 'Server-side validation of uploaded records',
+    sessionAssistant: 'AI parsing, note drafting and chat'
+};
+
+/**
+ * Manager controls for end-to-end encrypted cloud storage: enabling the mode and
+ * granting the org data key to staff who joined or signed in after it was enabled.
+ */
+export function CloudEncryptionPanel() {
+    const { user, organization, refreshUser } = useAuth();
+    const [status, setStatus] = useState<OrgEncryptionStatus | null>(null);
+    const [error, setError] = useState('');
+    const [busy, setBusy] = useState(false);
+
+    const loadStatus = useCallback(async () => {
+        try {
+            setStatus(await fetchOrgEncryptionStatus());
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to load encryption settings');
+        }
+    }, []);
+
+    useEffect(() => {
+        void loadStatus();
+    }, [loadStatus]);
+
+    const run = async (action: () => Promise<unknown>) => {
+        setBusy(true);
+        setError('');
+        try {
+            await action();
+            await refreshUser();
+            await loadStatus();
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Request failed');
+        } finally {
+            setBusy(false);
+        }
+    };
+
+    const handleEnable = () => {
+        if (!status) return;
+        const confirmed = window.confirm(
+            'Enable end-to-end encryption? Clinical records will be uploaded only as ciphertext that the service cannot read. ' +
+            `These features will be turned off: ${Object.values(PLAINTEXT_FEATURE_LABELS).join(', ')}. This cannot be undone.`
+        );
+        if (confirmed) {
+            void run(() => enableOrgEncryption(status.members));
+        }
+    };
+
+    const handleGrant = (member: OrgEncryptionMember) => {
+        if (!user || !organization) return;
+        void run(() => grantOrgKeyAccess(user, organization, member));
+    };
+
+    if (!status) {
+        return error ? <div className="admin-error">{error}</div> : null;
+    }
+
+    const isEndToEnd = status.mode === 'e2e';
+
+    return (
+        <section className="admin-section" aria-labelledby="cloud-encryption-title">
+            <div className="admin-section-header">
+                <div>
+                    <h2 id="cloud-encryption-title" className="admin-section-title">Cloud encryption</h2>
+                    <p className="admin-page-subtitle">
+                        {isEndToEnd
+                            ? 'End-to-end: records are stored as ciphertext only staff with access can open.'
+                            : 'Standard: records are encrypted on devices and in transit, and readable by the service in the cloud.'}
+                    </p>
+                </div>
+                {!isEndToEnd && (
+                    <button type="button" className="admin-primary-btn" onClick={handleEnable} disabled={busy}>
+                        Enable end-to-end encryption
+                    </button>
+                )}
+            </div>
+
+            {error && <div className="admin-error">{error}</div>}
+
+            {isEndToEnd && status.disabledFeatures.length > 0 && (
+                <p className="admin-page-subtitle">
+                    Turned off for this organization: {status.disabledFeatures.map((feature) => PLAINTEXT_FEATURE_LABELS[feature]).join(', ')}.
+                </p>
+            )}
+
+            <div className="admin-table-wrap">
+                <table className="admin-table">
+                    <thead>
+                        <tr>
+                            <th>Staff</th>
+                            <th>Role</th>
+                            <th>Access</th>
+                            <th aria-label="actions" />
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {status.members.map((member) => (
+                            <tr key={member.userId}>
+                                <td>{member.name}</td>
+                                <td style={{ textTransform: 'capitalize' }}>{member.role}</td>
+                                <td>
+                                    {member.hasAccess
+                                        ? 'Has key'
+                                        : member.publicKey ? 'No access yet' : 'Waiting for first sign-in'}
+                                </td>
+                                <td>
+                                    {isEndToEnd && !member.hasAccess && member.publicKey && (
+                                        <button
+                                            type="button"
+                                            className="admin-link-btn"
+                                            onClick={() => handleGrant(member)}
+                                            disabled={busy}
+                                        >
+                                            Grant access
+                                        </button>
+                                    )}
+                                </td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+        </section>
+    );
+}
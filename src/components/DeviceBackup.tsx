@@ -0,0 +1,134 @@
+import { useState, type ChangeEvent, type FormEvent } from 'react';
+import { format } from 'date-fns';
+import {
+    createBackupArchive,
+    parseBackupArchive,
+    restoreBackupArchive,
+    type BackupArchive,
+    type RestoreSummary
+} from '../services/backupService';
+import { useEncryptionStore } from '../stores/encryptionStore';
+
+const DIFFERENT_PASSWORD_ERROR = 'This backup was made under a different password';
+
+function downloadArchive(archive: BackupArchive) {
+    const blob = new Blob([JSON.stringify(archive)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `session-copilot-backup-${format(new Date(archive.manifest.createdAt), 'yyyy-MM-dd-HHmm')}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+}
+
+function describeSummary(summary: RestoreSummary): string {
+    const parts = [`Restored ${summary.records} records, ${summary.sessions} sessions and ${summary.chatMessages} chat messages.`];
+    if (summary.duplicates > 0) parts.push(`${summary.duplicates} records were already on this device.`);
+    if (summary.skipped > 0) parts.push(`${summary.skipped} records failed verification and were skipped.`);
+    return parts.join(' ');
+}
+
+/**
+ * Drawer section exporting the whole local database to an encrypted, signed file and merging
+ * such a file back in. If the password changed since the backup, the old one is asked for.
+ */
+export function DeviceBackupSection() {
+    const isEncryptionReady = useEncryptionStore((state) => state.isReady);
+    const [isWorking, setIsWorking] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [status, setStatus] = useState<string | null>(null);
+    const [pendingArchive, setPendingArchive] = useState<BackupArchive | null>(null);
+    const [backupPassword, setBackupPassword] = useState('');
+
+    const run = async (task: () => Promise<void>) => {
+        setIsWorking(true);
+        setError(null);
+        setStatus(null);
+        try {
+            await task();
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Backup failed');
+        } finally {
+            setIsWorking(false);
+        }
+    };
+
+    const restore = async (archive: BackupArchive, previous?: { password: string; salt: string }) => {
+        try {
+            setStatus(describeSummary(await restoreBackupArchive(archive, previous)));
+            setPendingArchive(null);
+            setBackupPassword('');
+        } catch (err) {
+            if (err instanceof Error && err.message.startsWith(DIFFERENT_PASSWORD_ERROR)) {
+                setPendingArchive(archive);
+            }
+            throw err;
+        }
+    };
+
+    const handleExport = () => run(async () => {
+        const archive = await createBackupArchive();
+        downloadArchive(archive);
+        const total = Object.values(archive.manifest.tables).reduce((sum, count) => sum + (count ?? 0), 0);
+        setStatus(`Backup created with ${total} rows.`);
+    });
+
+    const handleFile = (event: ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        event.target.value = '';
+        if (!file) return;
+        setPendingArchive(null);
+        void run(async () => restore(parseBackupArchive(await file.text())));
+    };
+
+    const handlePassword = (event: FormEvent) => {
+        event.preventDefault();
+        if (!pendingArchive || !backupPassword) return;
+        void run(() => restore(pendingArchive, { password: backupPassword, salt: pendingArchive.manifest.salt }));
+    };
+
+    return (
+        <section className="drawer-section">
+            <h3 className="drawer-section-title">Device Backup</h3>
+            <p className="drawer-empty">
+                Save everything on this device to an encrypted file, or merge a backup back in. Records already here are kept.
+            </p>
+            {error && <div className="unlock-error">{error}</div>}
+            {status && <p className="drawer-empty">{status}</p>}
+            {pendingArchive && (
+                <form className="history-search" onSubmit={handlePassword}>
+                    <input
+                        type="password"
+                        className="history-search-input"
+                        placeholder="Password when the backup was made"
+                        aria-label="Backup password"
+                        value={backupPassword}
+                        onChange={(event) => setBackupPassword(event.target.value)}
+                    />
+                    <button type="submit" className="message-btn secondary" disabled={isWorking || !backupPassword}>
+                        Restore
+                    </button>
+                </form>
+            )}
+            <div className="conflict-actions">
+                <button
+                    className="message-btn secondary"
+                    disabled={!isEncryptionReady || isWorking}
+                    onClick={() => void handleExport()}
+                >
+                    {isWorking ? 'Working...' : 'Create backup'}
+                </button>
+                <label className={`message-btn secondary device-backup-file${!isEncryptionReady || isWorking ? ' disabled' : ''}`}>
+                    Restore backup
+                    <input
+                        type="file"
+                        accept="application/json,.json"
+                        hidden
+                        disabled={!isEncryptionReady || isWorking}
+                        onChange={handleFile}
+                    />
+                </label>
+            </div>
+        </section>
+    );
+}
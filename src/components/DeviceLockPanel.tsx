@@ -0,0 +1,56 @@
+import { useState } from 'react';
+import { useAuth } from '../hooks/useAuth';
+import { getIdleLockMinutes, updateOrganizationSettings } from '../services/authService';
+
+const IDLE_LOCK_OPTIONS = [0, 2, 5, 10, 15, 30];
+
+/**
+ * Manager control for the idle lock: how long a device may sit unused before its local keys are wiped.
+ */
+export function DeviceLockPanel() {
+    const { organization, refreshUser } = useAuth();
+    const [error, setError] = useState('');
+    const [busy, setBusy] = useState(false);
+    const idleLockMinutes = getIdleLockMinutes(organization);
+
+    const handleChange = async (minutes: number) => {
+        setBusy(true);
+        setError('');
+        try {
+            await updateOrganizationSettings({ idleLockMinutes: minutes });
+            await refreshUser();
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to update the idle lock');
+        } finally {
+            setBusy(false);
+        }
+    };
+
+    return (
+        <section className="admin-section" aria-labelledby="device-lock-title">
+            <div className="admin-section-header">
+                <div>
+                    <h2 id="device-lock-title" className="admin-section-title">Device lock</h2>
+                    <p className="admin-page-subtitle">
+                        Shared tablets lock their local records after a period without input. Staff reopen them with a device PIN or their password.
+                    </p>
+                </div>
+                <select
+                    className="admin-select"
+                    aria-label="Lock after inactivity"
+                    value={idleLockMinutes}
+                    onChange={(event) => void handleChange(Number(event.target.value))}
+                    disabled={busy}
+                >
+                    {IDLE_LOCK_OPTIONS.map((minutes) => (
+                        <option key={minutes} value={minutes}>
+                            {minutes === 0 ? 'Never lock' : `Lock after ${minutes} min`}
+                        </option>
+                    ))}
+                </select>
+            </div>
+
+            {error && <div className="admin-error">{error}</div>}
+        </section>
+    );
+}
@@ -0,0 +1,57 @@
+import { useState } from 'react';
+import { useLiveQuery } from 'dexie-react-hooks';
+import { useNavigate } from 'react-router-dom';
+import { getUnsyncedCount } from '../db/db';
+import { useAuth } from '../hooks/useAuth';
+import { getLocalRetentionDays } from '../services/authService';
+import { wipeDevice } from '../services/retentionService';
+
+/**
+ * Drawer section stating the organization's local retention and erasing everything on this
+ * device: records, chat history and keys. Warns first when changes have not been uploaded.
+ */
+export function DeviceWipeSection() {
+    const { user, organization, logout } = useAuth();
+    const navigate = useNavigate();
+    const [isWiping, setIsWiping] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const unsynced = useLiveQuery(() => getUnsyncedCount(), []) ?? 0;
+    const retentionDays = getLocalRetentionDays(organization);
+
+    const handleWipe = async () => {
+        const warning = unsynced > 0
+            ? `${unsynced} change${unsynced === 1 ? ' has' : 's have'} not been uploaded and will be lost. `
+            : '';
+        if (!window.confirm(`${warning}Erase all session data and keys from this device and sign out?`)) {
+            return;
+        }
+        setIsWiping(true);
+        setError(null);
+        try {
+            await wipeDevice(user?.id);
+            await logout();
+            navigate('/login');
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Wipe failed');
+            setIsWiping(false);
+        }
+    };
+
+    return (
+        <section className="drawer-section">
+            <h3 className="drawer-section-title">Device Data</h3>
+            <p className="drawer-empty">
+                {retentionDays > 0
+                    ? `Synced records are removed from this device after ${retentionDays} days.`
+                    : 'Synced records stay on this device until it is wiped.'}
+                {unsynced > 0 && ` ${unsynced} change${unsynced === 1 ? ' is' : 's are'} waiting to upload.`}
+            </p>
+            {error && <div className="unlock-error">{error}</div>}
+            <div className="conflict-actions">
+                <button className="message-btn danger" disabled={isWiping} onClick={() => void handleWipe()}>
+                    {isWiping ? 'Wiping...' : 'Wipe this device'}
+                </button>
+            </div>
+        </section>
+    );
+}
@@ -1,18 +1,23 @@
 import { useState, useRef, useEffect } from 'react';
+import { useLiveQuery } from 'dexie-react-hooks';
 import { useSyncStore } from '../stores/syncStore';
+import { countOpenSyncConflicts } from '../db/db';
 import type { Learner } from '../services/authService';
+import type { SessionPhase } from '../stores/sessionStore';
 
 interface HeaderProps {
     clientName: string;
     sessionTime: string;
+    sessionPhase?: SessionPhase;
     learners?: Learner[];
     onLearnerChange?: (learner: Learner) => void;
     onBack?: () => void;
     onMenuClick?: () => void;
 }
 
-export function Header({ clientName, sessionTime, learners = [], onLearnerChange, onBack, onMenuClick }: HeaderProps) {
+export function Header({ clientName, sessionTime, sessionPhase = 'in-progress', learners = [], onLearnerChange, onBack, onMenuClick }: HeaderProps) {
     const { status, unsyncedCount } = useSyncStore();
+    const conflictCount = useLiveQuery(() => countOpenSyncConflicts(), []) ?? 0;
     const [dropdownOpen, setDropdownOpen] = useState(false);
     const dropdownRef = useRef<HTMLDivElement>(null);
 
@@ -27,6 +32,9 @@ export function Header({ clientName, sessionTime, learners = [], onLearnerChange
     }, []);
 
     const getStatusLabel = () => {
+        if (conflictCount > 0 && status !== 'syncing') {
+            return `${conflictCount} conflict${conflictCount === 1 ? '' : 's'}`;
+        }
         switch (status) {
             case 'offline': return 'Offline';
             case 'syncing': return 'Syncing...';
@@ -35,6 +43,15 @@ export function Header({ clientName, sessionTime, learners = [], onLearnerChange
         }
     };
 
+    const getPhaseLabel = () => {
+        switch (sessionPhase) {
+            case 'idle': return 'Not Started';
+            case 'in-progress': return 'In Progress';
+            case 'paused': return 'Paused';
+            case 'completed': return 'Completed';
+        }
+    };
+
     const getInitials = (name: string) => {
         return name.split(' ').map(n => n[0]).join('').toUpperCase().slice(0, 2);
     };
@@ -85,9 +102,9 @@ export function Header({ clientName, sessionTime, learners = [], onLearnerChange
                             </svg>
                         )}
                     </button>
-                    <div className="session-timer">{sessionTime} In Progress</div>
+                    <div className="session-timer">{sessionTime} {getPhaseLabel()}</div>
                 </div>
-                <div className={`sync-badge ${status}`}>
+                <div className={`sync-badge ${conflictCount > 0 && status !== 'syncing' ? 'error' : status}`}>
                     <span className="status-dot" />
                     {getStatusLabel()}
                 </div>
@@ -0,0 +1,92 @@
+import { useState, type FormEvent } from 'react';
+import { format } from 'date-fns';
+import { searchSessionHistory, type HistorySearchResult, type Session } from '../db/db';
+import type { Learner } from '../services/authService';
+import { useEncryptionStore } from '../stores/encryptionStore';
+
+const ENTITY_LABELS: Record<HistorySearchResult['entityType'], string> = {
+    behavior: 'Behavior',
+    skillTrial: 'Skill Trial',
+    note: 'Session Note',
+    incident: 'Incident Report',
+    interval: 'Interval Data',
+    taskAnalysis: 'Task Analysis'
+};
+
+interface HistorySearchSectionProps {
+    /** Only these learners' sessions are searched. */
+    learners: Learner[];
+    onOpenSession: (session: Session) => void;
+}
+
+/**
+ * Drawer section searching past sessions on this device, e.g. "elopement transition".
+ * Matching runs on the encrypted search index; only matching records are decrypted.
+ */
+export function HistorySearchSection({ learners, onOpenSession }: HistorySearchSectionProps) {
+    const isEncryptionReady = useEncryptionStore((state) => state.isReady);
+    const [query, setQuery] = useState('');
+    const [results, setResults] = useState<HistorySearchResult[] | null>(null);
+    const [isSearching, setIsSearching] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const learnerNames = new Map(learners.map((learner) => [learner.id, learner.name]));
+
+    const handleSearch = async (event: FormEvent) => {
+        event.preventDefault();
+        if (!query.trim()) {
+            setResults(null);
+            return;
+        }
+        setIsSearching(true);
+        setError(null);
+        try {
+            setResults(await searchSessionHistory(query, { clientIds: learners.map((learner) => learner.id) }));
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Search failed');
+        } finally {
+            setIsSearching(false);
+        }
+    };
+
+    return (
+        <section className="drawer-section">
+            <h3 className="drawer-section-title">Search History</h3>
+            <form className="history-search" role="search" onSubmit={(event) => void handleSearch(event)}>
+                <input
+                    type="search"
+                    className="history-search-input"
+                    placeholder="e.g. elopement transition"
+                    aria-label="Search session history"
+                    value={query}
+                    onChange={(event) => setQuery(event.target.value)}
+                    disabled={!isEncryptionReady}
+                />
+                <button type="submit" className="message-btn secondary" disabled={!isEncryptionReady || isSearching}>
+                    {isSearching ? 'Searching...' : 'Search'}
+                </button>
+            </form>
+            {error && <div className="unlock-error">{error}</div>}
+            {results && results.length === 0 && <div className="drawer-empty">No matching records.</div>}
+            {results && results.length > 0 && (
+                <div className="history-search-results">
+                    {results.map((result) => (
+                        <button
+                            key={`${result.entityType}-${result.id}`}
+                            className="tree-session-item"
+                            onClick={() => onOpenSession(result.session)}
+                        >
+                            <div className="tree-session-info">
+                                <span className="event-label">{ENTITY_LABELS[result.entityType]}: {result.title}</span>
+                                <span className="tree-session-meta">
+                                    {learnerNames.get(result.session.clientId) || result.session.clientName || 'Unknown learner'} · {format(result.timestamp, 'MMM d, h:mm a')}
+                                </span>
+                                {result.excerpt && <span className="event-value">{result.excerpt}</span>}
+                            </div>
+                        </button>
+                    ))}
+                </div>
+            )}
+        </section>
+    );
+}
@@ -0,0 +1,115 @@
+import { useState } from 'react';
+import { useLiveQuery } from 'dexie-react-hooks';
+import { format } from 'date-fns';
+import {
+    getLastIntegrityReport,
+    runIntegrityScan,
+    type IntegrityFailure,
+    type IntegrityReport,
+    type IntegrityTableName
+} from '../db/db';
+import { useEncryptionStore } from '../stores/encryptionStore';
+
+const TABLE_LABELS: Record<IntegrityTableName, string> = {
+    behaviorEvents: 'Behavior',
+    skillTrials: 'Skill Trial',
+    sessionNotes: 'Session Note',
+    incidents: 'Incident Report',
+    intervalRecordings: 'Interval Data',
+    taskAnalyses: 'Task Analysis',
+    behaviorTimers: 'Running Timer',
+    targetCatalogs: 'Target Catalog',
+    syncConflicts: 'Sync Conflict'
+};
+
+const FAILURE_LABELS: Record<IntegrityFailure, string> = {
+    'malformed': 'Stored data is malformed',
+    'missing-signature': 'Integrity signature missing',
+    'signature-mismatch': 'Altered after it was signed',
+    'undecryptable': 'Cannot be decrypted'
+};
+
+function downloadReport(report: IntegrityReport) {
+    const blob = new Blob([JSON.stringify(report, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `integrity-report-${format(new Date(report.generatedAt), 'yyyy-MM-dd-HHmm')}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+}
+
+/**
+ * Drawer section with the latest integrity scan: how many rows verified per table and which were
+ * quarantined, with an export for compliance review.
+ */
+export function IntegrityReportSection() {
+    const isEncryptionReady = useEncryptionStore((state) => state.isReady);
+    const [isScanning, setIsScanning] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const report = useLiveQuery(() => getLastIntegrityReport(), []);
+
+    const handleScan = async () => {
+        setIsScanning(true);
+        setError(null);
+        try {
+            await runIntegrityScan();
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Integrity check failed');
+        } finally {
+            setIsScanning(false);
+        }
+    };
+
+    const summaries = report ? Object.values(report.tables) : [];
+    const verified = summaries.reduce((sum, summary) => sum + summary.verified, 0);
+    const unattributed = summaries.reduce((sum, summary) => sum + summary.unattributed, 0);
+
+    return (
+        <section className="drawer-section">
+            <h3 className="drawer-section-title">
+                Data Integrity{report && report.quarantined.length > 0 ? ` (${report.quarantined.length} quarantined)` : ''}
+            </h3>
+            <p className="drawer-empty">
+                {report
+                    ? `Checked ${format(new Date(report.generatedAt), 'MMM d, h:mm a')}: ${verified} records verified.`
+                    : 'No integrity check has run on this device yet.'}
+                {unattributed > 0 && ` ${unattributed} records belong to other users of this device.`}
+            </p>
+            {error && <div className="unlock-error">{error}</div>}
+            {report && report.quarantined.length > 0 && (
+                <div className="event-list">
+                    {report.quarantined.map((entry) => (
+                        <div key={entry.id} className="event-item conflict-item">
+                            <div className="event-details">
+                                <span className="event-label">
+                                    {TABLE_LABELS[entry.tableName]} {entry.rowId > 0 ? `#${entry.rowId}` : '(pulled)'} · {format(new Date(entry.recordedAt), 'MMM d, h:mm a')}
+                                </span>
+                                <div className="event-value">
+                                    {FAILURE_LABELS[entry.reason]}
+                                    {entry.rowId === 0
+                                        ? '. Received from the server but never stored on this device.'
+                                        : entry.remoteId ? '. A copy is stored on the server.' : '. Not uploaded before it was quarantined.'}
+                                </div>
+                            </div>
+                        </div>
+                    ))}
+                </div>
+            )}
+            <div className="conflict-actions">
+                <button
+                    className="message-btn secondary"
+                    disabled={!isEncryptionReady || isScanning}
+                    onClick={() => void handleScan()}
+                >
+                    {isScanning ? 'Checking...' : 'Run check'}
+                </button>
+                {report && (
+                    <button className="message-btn secondary" onClick={() => downloadReport(report)}>
+                        Export report
+                    </button>
+                )}
+            </div>
+        </section>
+    );
+}
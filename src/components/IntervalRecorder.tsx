@@ -0,0 +1,350 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { useLiveQuery } from 'dexie-react-hooks';
+import { subDays } from 'date-fns';
+import { getIntervalRecordingsByLearner, type IntervalMethod, type IntervalRecording } from '../db/db';
+import {
+    DEFAULT_INTERVAL_SECONDS,
+    INTERVAL_METHOD_LABELS,
+    MAX_INTERVAL_SECONDS,
+    MIN_INTERVAL_SECONDS,
+    closeIntervals,
+    countClosedIntervals,
+    isValidIntervalSeconds,
+    lastIntervalConfigs,
+    nextIntervalScore,
+    playIntervalCue,
+    setIntervalScore,
+    type IntervalCueOptions,
+    type IntervalTargetConfig
+} from '../services/intervalService';
+
+/** History the remembered target configurations are drawn from. */
+const CONFIG_HISTORY_DAYS = 90;
+const TICK_MS = 250;
+
+const OBSERVE_LABELS: Record<IntervalMethod, string> = {
+    'partial-interval': 'Occurred',
+    'whole-interval': 'Throughout',
+    'momentary-time-sampling': 'Occurring at cue'
+};
+
+interface RunningTarget {
+    id: number;
+    config: IntervalTargetConfig;
+    intervals: IntervalRecording['intervals'];
+    closed: number;
+}
+
+interface IntervalRun {
+    startedAt: Date;
+    targets: RunningTarget[];
+}
+
+interface IntervalRecorderProps {
+    isOpen: boolean;
+    onOpenChange: (open: boolean) => void;
+    learnerId: string;
+    learnerName: string;
+    /** False while local data is locked; the learner's history is not read then. */
+    canReadHistory: boolean;
+    /** Creates one recording per target and returns their ids, in order. */
+    onStart: (targets: IntervalTargetConfig[], startedAt: Date) => Promise<number[]>;
+    onScoresChange: (id: number, intervals: IntervalRecording['intervals']) => Promise<void>;
+}
+
+function scoreLabel(score: boolean | null | undefined): string {
+    if (score === true) return '✓';
+    if (score === false) return '–';
+    return '';
+}
+
+/**
+ * Interval recording mode: partial-interval, whole-interval or momentary time sampling for one or
+ * more behavior targets on a shared clock, with a cue at every interval boundary and a per-interval
+ * scoring grid. Recording keeps running while the dialog is closed.
+ */
+export function IntervalRecorder({ isOpen, onOpenChange, learnerId, learnerName, canReadHistory, onStart, onScoresChange }: IntervalRecorderProps) {
+    const [targets, setTargets] = useState<IntervalTargetConfig[]>([]);
+    const [draft, setDraft] = useState<IntervalTargetConfig>({ behaviorType: '', method: 'partial-interval', intervalSeconds: DEFAULT_INTERVAL_SECONDS });
+    const [cue, setCue] = useState<IntervalCueOptions>({ sound: true, vibrate: true });
+    const [run, setRun] = useState<IntervalRun | null>(null);
+    const [now, setNow] = useState(() => Date.now());
+    const [isStarting, setIsStarting] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const runRef = useRef<IntervalRun | null>(null);
+    const saves = useRef<Promise<void>>(Promise.resolve());
+    const cueRef = useRef(cue);
+    const onScoresChangeRef = useRef(onScoresChange);
+    const isRunning = run !== null;
+
+    const history = useLiveQuery(
+        async () => (isOpen && canReadHistory ? getIntervalRecordingsByLearner(learnerId, subDays(new Date(), CONFIG_HISTORY_DAYS)) : []),
+        [isOpen, canReadHistory, learnerId]
+    );
+    const suggestions = useMemo(() => lastIntervalConfigs(history ?? [])
+        .filter((config) => !targets.some((target) => target.behaviorType.toLowerCase() === config.behaviorType.toLowerCase())),
+    [history, targets]);
+
+    useEffect(() => {
+        cueRef.current = cue;
+        onScoresChangeRef.current = onScoresChange;
+    }, [cue, onScoresChange]);
+
+    /** Scores are written in order, so an older save never lands after a newer one. */
+    const commit = useCallback((next: IntervalRun | null, changed: RunningTarget[]) => {
+        runRef.current = next;
+        setRun(next);
+        for (const target of changed) {
+            saves.current = saves.current
+                .then(() => onScoresChangeRef.current(target.id, target.intervals))
+                .catch((err: unknown) => setError(err instanceof Error ? err.message : 'Failed to save interval scores'));
+        }
+    }, []);
+
+    useEffect(() => {
+        if (!isRunning) return;
+        const timer = setInterval(() => {
+            const current = runRef.current;
+            if (!current) return;
+            const time = new Date();
+            setNow(time.getTime());
+
+            const changed: RunningTarget[] = [];
+            const targets = current.targets.map((target) => {
+                const closed = countClosedIntervals(current.startedAt, target.config.intervalSeconds, time);
+                if (closed === target.closed) return target;
+                const updated = { ...target, closed, intervals: closeIntervals(target.intervals, target.config.method, closed) };
+                changed.push(updated);
+                return updated;
+            });
+            if (changed.length > 0) {
+                playIntervalCue(cueRef.current);
+                commit({ ...current, targets }, changed);
+            }
+        }, TICK_MS);
+        return () => clearInterval(timer);
+    }, [commit, isRunning]);
+
+    const addTarget = (config: IntervalTargetConfig) => {
+        const behaviorType = config.behaviorType.trim();
+        if (!behaviorType || targets.some((target) => target.behaviorType.toLowerCase() === behaviorType.toLowerCase())) return;
+        setTargets([...targets, { ...config, behaviorType }]);
+    };
+
+    const updateTarget = (index: number, changes: Partial<IntervalTargetConfig>) => {
+        setTargets(targets.map((target, i) => (i === index ? { ...target, ...changes } : target)));
+    };
+
+    const handleStart = async () => {
+        setIsStarting(true);
+        setError(null);
+        try {
+            const startedAt = new Date();
+            const ids = await onStart(targets, startedAt);
+            setNow(startedAt.getTime());
+            commit({
+                startedAt,
+                targets: targets.map((config, index) => ({ id: ids[index], config, intervals: [], closed: 0 }))
+            }, []);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to start interval recording');
+        } finally {
+            setIsStarting(false);
+        }
+    };
+
+    const handleStop = () => {
+        const current = runRef.current;
+        if (!current) return;
+        const time = new Date();
+        const targets = current.targets.map((target) => {
+            const closed = countClosedIntervals(current.startedAt, target.config.intervalSeconds, time);
+            return { ...target, closed, intervals: closeIntervals(target.intervals, target.config.method, closed) };
+        });
+        commit(null, targets);
+    };
+
+    const score = (targetId: number, index: number, value: (previous: boolean | null | undefined) => boolean | null) => {
+        const current = runRef.current;
+        if (!current) return;
+        const changed: RunningTarget[] = [];
+        const targets = current.targets.map((target) => {
+            if (target.id !== targetId) return target;
+            const updated = { ...target, intervals: setIntervalScore(target.intervals, index, value(target.intervals[index])) };
+            changed.push(updated);
+            return updated;
+        });
+        commit({ ...current, targets }, changed);
+    };
+
+    /** Partial and whole interval score the open interval; a momentary sample scores the interval that just ended. */
+    const observe = (target: RunningTarget) => {
+        const index = target.config.method === 'momentary-time-sampling' ? target.closed - 1 : target.closed;
+        if (index >= 0) score(target.id, index, () => true);
+    };
+
+    const close = () => {
+        setError(null);
+        onOpenChange(false);
+    };
+
+    const canStart = targets.length > 0 && targets.every((target) => isValidIntervalSeconds(target.intervalSeconds)) && !isStarting;
+
+    return (
+        <div className={`modal-overlay ${isOpen ? 'open' : ''}`}>
+            <div className="modal interval-modal" role="dialog" aria-modal="true" aria-labelledby="interval-modal-title">
+                <div className="modal-header">
+                    <h2 id="interval-modal-title" className="modal-title">Interval Recording · {learnerName}</h2>
+                    <button className="drawer-close" onClick={close} aria-label="Close interval recording">
+                        <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                            <path d="M18 6L6 18M6 6l12 12" />
+                        </svg>
+                    </button>
+                </div>
+
+                {run ? (
+                    <div className="modal-body">
+                        {run.targets.every((target) => target.closed === 0) && (
+                            <p className="drawer-empty">Tap a cell to correct its score. The open interval shows the seconds left.</p>
+                        )}
+                        {run.targets.map((target) => {
+                            const seconds = target.config.intervalSeconds;
+                            const remaining = seconds - Math.floor(((now - run.startedAt.getTime()) / 1000) % seconds);
+                            const scored = target.intervals.filter((value) => value !== null);
+                            const percent = scored.length > 0 ? Math.round((scored.filter(Boolean).length / scored.length) * 100) : null;
+                            return (
+                                <div key={target.id} className="interval-target">
+                                    <div className="interval-target-header">
+                                        <span className="event-label">{target.config.behaviorType.replace(/_/g, ' ')}</span>
+                                        <span className="tree-session-meta">
+                                            {INTERVAL_METHOD_LABELS[target.config.method]} · {seconds}s · {percent === null ? '—' : `${percent}%`}
+                                        </span>
+                                    </div>
+                                    <div className="interval-grid" role="group" aria-label={`${target.config.behaviorType} intervals`}>
+                                        {Array.from({ length: Math.max(target.intervals.length, target.closed + 1) }, (_, index) => (
+                                            <button
+                                                key={index}
+                                                type="button"
+                                                className={`interval-cell ${index === target.closed ? 'open' : ''} ${target.intervals[index] === true ? 'occurred' : ''}`}
+                                                aria-label={`Interval ${index + 1}`}
+                                                onClick={() => score(target.id, index, (previous) => nextIntervalScore(previous, target.config.method))}
+                                            >
+                                                {index === target.closed ? `${remaining}s` : scoreLabel(target.intervals[index])}
+                                            </button>
+                                        ))}
+                                    </div>
+                                    <button
+                                        type="button"
+                                        className="function-btn interval-observe"
+                                        onClick={() => observe(target)}
+                                        disabled={target.config.method === 'momentary-time-sampling' && target.closed === 0}
+                                    >
+                                        {OBSERVE_LABELS[target.config.method]}
+                                    </button>
+                                </div>
+                            );
+                        })}
+                        {error && <div className="unlock-error">{error}</div>}
+                    </div>
+                ) : (
+                    <div className="modal-body">
+                        {targets.map((target, index) => (
+                            <div key={target.behaviorType} className="form-group interval-config">
+                                <label className="form-label">{target.behaviorType.replace(/_/g, ' ')}</label>
+                                <div className="interval-config-row">
+                                    <select
+                                        className="form-select"
+                                        aria-label={`${target.behaviorType} method`}
+                                        value={target.method}
+                                        onChange={(event) => updateTarget(index, { method: event.target.value as IntervalMethod })}
+                                    >
+                                        {Object.entries(INTERVAL_METHOD_LABELS).map(([value, label]) => (
+                                            <option key={value} value={value}>{label}</option>
+                                        ))}
+                                    </select>
+                                    <input
+                                        type="number"
+                                        className="form-input"
+                                        aria-label={`${target.behaviorType} interval length in seconds`}
+                                        min={MIN_INTERVAL_SECONDS}
+                                        max={MAX_INTERVAL_SECONDS}
+                                        value={target.intervalSeconds}
+                                        onChange={(event) => updateTarget(index, { intervalSeconds: Number(event.target.value) })}
+                                    />
+                                    <button type="button" className="event-remove" onClick={() => setTargets(targets.filter((_, i) => i !== index))}>
+                                        Remove
+                                    </button>
+                                </div>
+                            </div>
+                        ))}
+
+                        {suggestions.length > 0 && (
+                            <div className="form-group">
+                                <label className="form-label">Recent targets</label>
+                                <div className="function-buttons interval-suggestions">
+                                    {suggestions.map((config) => (
+                                        <button key={config.behaviorType} type="button" className="function-btn" onClick={() => addTarget(config)}>
+                                            {config.behaviorType.replace(/_/g, ' ')} · {config.intervalSeconds}s
+                                        </button>
+                                    ))}
+                                </div>
+                            </div>
+                        )}
+
+                        <div className="form-group">
+                            <label className="form-label">Add behavior target</label>
+                            <div className="interval-config-row">
+                                <input
+                                    type="text"
+                                    className="form-input"
+                                    placeholder="e.g. stereotypy"
+                                    aria-label="Behavior target"
+                                    value={draft.behaviorType}
+                                    onChange={(event) => setDraft({ ...draft, behaviorType: event.target.value })}
+                                />
+                                <button
+                                    type="button"
+                                    className="btn btn-secondary"
+                                    disabled={!draft.behaviorType.trim()}
+                                    onClick={() => {
+                                        addTarget(draft);
+                                        setDraft({ ...draft, behaviorType: '' });
+                                    }}
+                                >
+                                    Add
+                                </button>
+                            </div>
+                        </div>
+
+                        <div className="checkbox-group">
+                            <label className="checkbox-label">
+                                <input type="checkbox" checked={cue.sound} onChange={(event) => setCue({ ...cue, sound: event.target.checked })} />
+                                Beep at each interval
+                            </label>
+                            <label className="checkbox-label">
+                                <input type="checkbox" checked={cue.vibrate} onChange={(event) => setCue({ ...cue, vibrate: event.target.checked })} />
+                                Vibrate at each interval
+                            </label>
+                        </div>
+                        {error && <div className="unlock-error">{error}</div>}
+                    </div>
+                )}
+
+                <div className="modal-footer">
+                    <button className="btn btn-secondary" onClick={close}>
+                        {run ? 'Hide' : 'Done'}
+                    </button>
+                    {run ? (
+                        <button className="btn btn-primary" onClick={handleStop}>
+                            Stop
+                        </button>
+                    ) : (
+                        <button className="btn btn-primary" onClick={() => void handleStart()} disabled={!canStart}>
+                            {isStarting ? 'Starting...' : 'Start'}
+                        </button>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+}
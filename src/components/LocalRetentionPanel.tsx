@@ -0,0 +1,56 @@
+import { useState } from 'react';
+import { useAuth } from '../hooks/useAuth';
+import { getLocalRetentionDays, updateOrganizationSettings } from '../services/authService';
+
+const RETENTION_OPTIONS = [0, 7, 14, 30, 90, 180, 365];
+
+/**
+ * Manager control for local retention: how long devices keep records after they reach the server.
+ */
+export function LocalRetentionPanel() {
+    const { organization, refreshUser } = useAuth();
+    const [error, setError] = useState('');
+    const [busy, setBusy] = useState(false);
+    const localRetentionDays = getLocalRetentionDays(organization);
+
+    const handleChange = async (days: number) => {
+        setBusy(true);
+        setError('');
+        try {
+            await updateOrganizationSettings({ localRetentionDays: days });
+            await refreshUser();
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to update local retention');
+        } finally {
+            setBusy(false);
+        }
+    };
+
+    return (
+        <section className="admin-section" aria-labelledby="local-retention-title">
+            <div className="admin-section-header">
+                <div>
+                    <h2 id="local-retention-title" className="admin-section-title">Local retention</h2>
+                    <p className="admin-page-subtitle">
+                        Devices delete synced records older than this when staff sign in. Records not yet uploaded are never deleted. Each purge is recorded in the audit log.
+                    </p>
+                </div>
+                <select
+                    className="admin-select"
+                    aria-label="Keep synced records on devices for"
+                    value={localRetentionDays}
+                    onChange={(event) => void handleChange(Number(event.target.value))}
+                    disabled={busy}
+                >
+                    {RETENTION_OPTIONS.map((days) => (
+                        <option key={days} value={days}>
+                            {days === 0 ? 'Keep until wiped' : `Keep for ${days} days`}
+                        </option>
+                    ))}
+                </select>
+            </div>
+
+            {error && <div className="admin-error">{error}</div>}
+        </section>
+    );
+}
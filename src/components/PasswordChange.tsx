@@ -0,0 +1,121 @@
+import { useState, type FormEvent } from 'react';
+import { useAuth } from '../hooks/useAuth';
+import { changeAccountPassword } from '../services/orgEncryptionService';
+import { useEncryptionStore } from '../stores/encryptionStore';
+
+/**
+ * Drawer section changing the signed-in user's password. Local data keeps its keys unless asked to
+ * replace them, and the progress of any re-encryption of this device's records is shown here.
+ */
+export function PasswordChangeSection() {
+    const { user, refreshUser } = useAuth();
+    const isEncryptionReady = useEncryptionStore((state) => state.isReady);
+    const rotation = useEncryptionStore((state) => state.rotation);
+    const rotateDataKey = useEncryptionStore((state) => state.rotateDataKey);
+    const [currentPassword, setCurrentPassword] = useState('');
+    const [newPassword, setNewPassword] = useState('');
+    const [confirmPassword, setConfirmPassword] = useState('');
+    const [reencrypt, setReencrypt] = useState(false);
+    const [isWorking, setIsWorking] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [status, setStatus] = useState<string | null>(null);
+
+    if (!user) return null;
+
+    const handleSubmit = async (event: FormEvent) => {
+        event.preventDefault();
+        if (newPassword.length < 8) {
+            setError('Password must be at least 8 characters');
+            return;
+        }
+        if (newPassword !== confirmPassword) {
+            setError('The new passwords do not match');
+            return;
+        }
+        setIsWorking(true);
+        setError(null);
+        setStatus(null);
+        try {
+            await changeAccountPassword(user, currentPassword, newPassword, { reencrypt });
+            setCurrentPassword('');
+            setNewPassword('');
+            setConfirmPassword('');
+            setStatus('Password changed. Use the new password to sign in on every device.');
+            await refreshUser();
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to change password');
+        } finally {
+            setIsWorking(false);
+        }
+    };
+
+    const handleRetry = () => {
+        setError(null);
+        void rotateDataKey().catch(() => undefined);
+    };
+
+    return (
+        <section className="drawer-section">
+            <h3 className="drawer-section-title">Password</h3>
+            {error && <div className="unlock-error">{error}</div>}
+            {status && <p className="drawer-empty">{status}</p>}
+            {rotation.phase === 'reencrypting' && (
+                <p className="drawer-empty">
+                    Re-encrypting records on this device{rotation.total > 0 ? `: ${rotation.processed} of ${rotation.total}` : '...'}
+                </p>
+            )}
+            {rotation.phase === 'failed' && (
+                <>
+                    <div className="unlock-error">Re-encrypting records on this device stopped: {rotation.error}</div>
+                    <div className="conflict-actions">
+                        <button className="message-btn secondary" onClick={handleRetry}>
+                            Resume re-encryption
+                        </button>
+                    </div>
+                </>
+            )}
+            <form className="password-change-form" onSubmit={(event) => void handleSubmit(event)}>
+                <input
+                    type="password"
+                    className="history-search-input"
+                    placeholder="Current password"
+                    aria-label="Current password"
+                    autoComplete="current-password"
+                    value={currentPassword}
+                    onChange={(event) => setCurrentPassword(event.target.value)}
+                />
+                <input
+                    type="password"
+                    className="history-search-input"
+                    placeholder="New password"
+                    aria-label="New password"
+                    autoComplete="new-password"
+                    value={newPassword}
+                    onChange={(event) => setNewPassword(event.target.value)}
+                />
+                <input
+                    type="password"
+                    className="history-search-input"
+                    placeholder="Confirm new password"
+                    aria-label="Confirm new password"
+                    autoComplete="new-password"
+                    value={confirmPassword}
+                    onChange={(event) => setConfirmPassword(event.target.value)}
+                />
+                <label className="checkbox-label">
+                    <input type="checkbox" checked={reencrypt} onChange={(event) => setReencrypt(event.target.checked)} />
+                    Also replace this device's data keys
+                </label>
+                <div className="conflict-actions">
+                    <button
+                        type="submit"
+                        className="message-btn secondary"
+                        disabled={!isEncryptionReady || isWorking || !currentPassword || !newPassword || rotation.phase === 'reencrypting'}
+                    >
+                        {isWorking ? 'Changing...' : 'Change password'}
+                    </button>
+                </div>
+            </form>
+        </section>
+    );
+}
@@ -0,0 +1,281 @@
+import { useEffect, useState } from 'react';
+import type { Learner, SkillProgram } from '../db/db';
+import {
+    DEFAULT_MASTERY_CRITERION,
+    DEFAULT_STALL_AFTER_SESSIONS,
+    PROMPT_LEVELS,
+    PROMPT_LEVEL_LABELS,
+    formatMasteryCriterion,
+    programService,
+    type ProgramFields,
+    type PromptLevel
+} from '../services/programService';
+
+interface ProgramModalProps {
+    isOpen: boolean;
+    learner: Learner;
+    onClose: () => void;
+}
+
+interface ProgramForm {
+    name: string;
+    /** One target per line, in teaching order. */
+    targets: string;
+    promptHierarchy: PromptLevel[];
+    percentCorrect: number;
+    consecutiveSessions: number;
+    minTrialsPerSession: number;
+    stallAfterSessions: number;
+    status: SkillProgram['status'];
+}
+
+const EMPTY_FORM: ProgramForm = {
+    name: '',
+    targets: '',
+    promptHierarchy: ['independent', 'verbal', 'model', 'full-physical'],
+    ...DEFAULT_MASTERY_CRITERION,
+    stallAfterSessions: DEFAULT_STALL_AFTER_SESSIONS,
+    status: 'active'
+};
+
+function toForm(program: SkillProgram): ProgramForm {
+    return {
+        name: program.name,
+        targets: program.targets.join('\n'),
+        promptHierarchy: program.promptHierarchy,
+        ...program.masteryCriterion,
+        stallAfterSessions: program.stallAfterSessions,
+        status: program.status
+    };
+}
+
+function toFields(form: ProgramForm): ProgramFields {
+    return {
+        name: form.name.trim(),
+        targets: form.targets.split('\n').map((target) => target.trim()).filter(Boolean),
+        promptHierarchy: form.promptHierarchy,
+        masteryCriterion: {
+            percentCorrect: form.percentCorrect,
+            consecutiveSessions: form.consecutiveSessions,
+            minTrialsPerSession: form.minTrialsPerSession
+        },
+        stallAfterSessions: form.stallAfterSessions,
+        status: form.status
+    };
+}
+
+/** Lists a learner's skill programs and lets Managers and BCBAs add and edit them. */
+export function ProgramModal({ isOpen, learner, onClose }: ProgramModalProps) {
+    const [programs, setPrograms] = useState<SkillProgram[]>([]);
+    const [editingId, setEditingId] = useState<string | 'new' | null>(null);
+    const [form, setForm] = useState<ProgramForm>(EMPTY_FORM);
+    const [isLoading, setIsLoading] = useState(false);
+    const [error, setError] = useState('');
+
+    useEffect(() => {
+        if (!isOpen) {
+            return;
+        }
+        let cancelled = false;
+        programService.getPrograms(learner.id)
+            .then((loaded) => {
+                if (!cancelled) setPrograms(loaded);
+            })
+            .catch((err: unknown) => {
+                if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load programs');
+            });
+        return () => {
+            cancelled = true;
+        };
+    }, [isOpen, learner.id]);
+
+    if (!isOpen) return null;
+
+    const update = (changes: Partial<ProgramForm>) => setForm((current) => ({ ...current, ...changes }));
+
+    const startEditing = (program: SkillProgram | null) => {
+        setError('');
+        setForm(program ? toForm(program) : EMPTY_FORM);
+        setEditingId(program ? program.id : 'new');
+    };
+
+    const toggleLevel = (level: PromptLevel) => {
+        // Independent is the goal of every program and always stays in the hierarchy
+        if (level === 'independent') return;
+        const levels = form.promptHierarchy.includes(level)
+            ? form.promptHierarchy.filter((candidate) => candidate !== level)
+            : [...form.promptHierarchy, level];
+        update({ promptHierarchy: PROMPT_LEVELS.filter((candidate) => levels.includes(candidate)) });
+    };
+
+    async function handleSubmit(e: React.FormEvent) {
+        e.preventDefault();
+        setError('');
+        setIsLoading(true);
+
+        try {
+            const fields = toFields(form);
+            const saved = editingId && editingId !== 'new'
+                ? await programService.updateProgram({ id: editingId, learnerId: learner.id, ...fields })
+                : await programService.createProgram({ learnerId: learner.id, ...fields });
+            setPrograms((current) => [...current.filter((program) => program.id !== saved.id), saved]);
+            setEditingId(null);
+        } catch (err: unknown) {
+            setError(err instanceof Error ? err.message : 'Failed to save program');
+        } finally {
+            setIsLoading(false);
+        }
+    }
+
+    const numberField = (id: keyof ProgramForm, label: string, min: number, max: number) => (
+        <div className="form-group">
+            <label htmlFor={`program-${id}`} className="form-label">{label}</label>
+            <input
+                type="number"
+                id={`program-${id}`}
+                min={min}
+                max={max}
+                value={form[id] as number}
+                onChange={(e) => update({ [id]: Number(e.target.value) })}
+                className="form-input"
+                required
+            />
+        </div>
+    );
+
+    return (
+        <div className="modal-overlay open" aria-labelledby="program-admin-title" role="dialog" aria-modal="true">
+            <div className="modal admin-modal">
+                <div className="modal-header">
+                    <h3 id="program-admin-title" className="modal-title admin-modal-title">
+                        Programs · {learner.name}
+                    </h3>
+                    <button type="button" className="drawer-close" onClick={onClose} aria-label="Close">
+                        ✕
+                    </button>
+                </div>
+                {editingId ? (
+                    <form onSubmit={handleSubmit}>
+                        <div className="modal-body">
+                            {error && <div className="admin-error">{error}</div>}
+                            <div className="admin-form-grid">
+                                <div className="form-group">
+                                    <label htmlFor="program-name" className="form-label">Skill</label>
+                                    <input
+                                        type="text"
+                                        id="program-name"
+                                        value={form.name}
+                                        onChange={(e) => update({ name: e.target.value })}
+                                        className="form-input"
+                                        placeholder="e.g. Receptive ID"
+                                        required
+                                    />
+                                </div>
+                                <div className="form-group">
+                                    <label htmlFor="program-targets" className="form-label">Targets (one per line, in teaching order)</label>
+                                    <textarea
+                                        id="program-targets"
+                                        value={form.targets}
+                                        onChange={(e) => update({ targets: e.target.value })}
+                                        className="form-textarea"
+                                        rows={5}
+                                        required
+                                    />
+                                </div>
+                                <div className="form-group">
+                                    <span className="form-label">Prompt hierarchy</span>
+                                    <div className="checkbox-group">
+                                        {PROMPT_LEVELS.map((level) => (
+                                            <label key={level} className="checkbox-label">
+                                                <input
+                                                    type="checkbox"
+                                                    checked={form.promptHierarchy.includes(level)}
+                                                    disabled={level === 'independent'}
+                                                    onChange={() => toggleLevel(level)}
+                                                />
+                                                {PROMPT_LEVEL_LABELS[level]}
+                                            </label>
+                                        ))}
+                                    </div>
+                                </div>
+                                {numberField('percentCorrect', 'Mastery: % independent correct', 1, 100)}
+                                {numberField('consecutiveSessions', 'Mastery: consecutive sessions', 1, 10)}
+                                {numberField('minTrialsPerSession', 'Minimum trials per session', 1, 100)}
+                                {numberField('stallAfterSessions', 'Flag as stalled after sessions without a new best', 2, 30)}
+                                <div className="form-group">
+                                    <label htmlFor="program-status" className="form-label">Status</label>
+                                    <select
+                                        id="program-status"
+                                        value={form.status}
+                                        onChange={(e) => update({ status: e.target.value as SkillProgram['status'] })}
+                                        className="form-select"
+                                    >
+                                        <option value="active">Active</option>
+                                        <option value="archived">Archived</option>
+                                    </select>
+                                </div>
+                            </div>
+                        </div>
+                        <div className="modal-footer">
+                            <button type="button" className="btn btn-secondary" onClick={() => setEditingId(null)}>
+                                Back
+                            </button>
+                            <button type="submit" disabled={isLoading} className="btn btn-primary">
+                                {isLoading ? 'Saving...' : 'Save Program'}
+                            </button>
+                        </div>
+                    </form>
+                ) : (
+                    <>
+                        <div className="modal-body">
+                            {error && <div className="admin-error">{error}</div>}
+                            <div className="admin-table-wrap">
+                                <table className="admin-table">
+                                    <thead>
+                                        <tr>
+                                            <th>Skill</th>
+                                            <th>Targets</th>
+                                            <th>Mastery</th>
+                                            <th aria-label="actions" />
+                                        </tr>
+                                    </thead>
+                                    <tbody>
+                                        {programs.length === 0 ? (
+                                            <tr>
+                                                <td colSpan={4} className="admin-empty">No programs yet.</td>
+                                            </tr>
+                                        ) : (
+                                            programs.map((program) => (
+                                                <tr key={program.id}>
+                                                    <td>
+                                                        {program.name}
+                                                        {program.status === 'archived' && <span className="status-pill inactive">Archived</span>}
+                                                    </td>
+                                                    <td>{program.targets.length}</td>
+                                                    <td>{formatMasteryCriterion(program.masteryCriterion)}</td>
+                                                    <td>
+                                                        <button type="button" className="admin-link-btn" onClick={() => startEditing(program)}>
+                                                            Edit
+                                                        </button>
+                                                    </td>
+                                                </tr>
+                                            ))
+                                        )}
+                                    </tbody>
+                                </table>
+                            </div>
+                        </div>
+                        <div className="modal-footer">
+                            <button type="button" className="btn btn-secondary" onClick={onClose}>
+                                Close
+                            </button>
+                            <button type="button" className="btn btn-primary" onClick={() => startEditing(null)}>
+                                Add Program
+                            </button>
+                        </div>
+                    </>
+                )}
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,275 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useLiveQuery } from 'dexie-react-hooks';
+import { getSkillTrialsByLearner, type SkillProgram } from '../db/db';
+import {
+    PROMPT_LEVEL_LABELS,
+    evaluateProgram,
+    formatMasteryCriterion,
+    suggestPromptLevel,
+    type ProgramTrialRecord,
+    type PromptLevel,
+    type TargetProgress
+} from '../services/programService';
+
+const RESPONSE_OPTIONS: { label: string; value: ProgramTrialRecord['response'] }[] = [
+    { label: 'Correct', value: 'correct' },
+    { label: 'Incorrect', value: 'incorrect' },
+    { label: 'No response', value: 'no-response' }
+];
+
+interface ProgramRunnerProps {
+    isOpen: boolean;
+    onOpenChange: (open: boolean) => void;
+    learnerId: string;
+    learnerName: string;
+    /** The session trials are recorded into, for this session's tally. */
+    sessionId: number | undefined;
+    /** False while local data is locked; the learner's history is not read then. */
+    canReadHistory: boolean;
+    loadPrograms: () => Promise<SkillProgram[]>;
+    /** Saves the trial and resolves with the session it was recorded into. */
+    onRecordTrial: (record: ProgramTrialRecord) => Promise<number>;
+}
+
+function TargetRow({ progress, isActive, onSelect }: { progress: TargetProgress; isActive: boolean; onSelect: () => void }) {
+    const recent = progress.sessions.slice(-3).map((session) => `${session.percent}%`).join(' · ');
+    const status = progress.status === 'mastered' ? 'Mastered' : progress.stalled ? 'Stalled' : isActive ? 'Current' : progress.status === 'in-progress' ? 'In progress' : 'Not started';
+    return (
+        <button
+            type="button"
+            className={`program-target ${isActive ? 'active' : ''} ${progress.status === 'mastered' ? 'mastered' : ''} ${progress.stalled ? 'stalled' : ''}`}
+            onClick={onSelect}
+            disabled={progress.status === 'mastered'}
+        >
+            <span className="program-target-name">{progress.target}</span>
+            <span className="program-target-meta">{recent || 'No sessions yet'}</span>
+            <span className="program-target-status">{status}</span>
+        </button>
+    );
+}
+
+/**
+ * Trial-by-trial runner for the learner's skill programs. Each response is saved as a skill trial
+ * right away; when a target meets its mastery criterion the runner moves on to the next one.
+ */
+export function ProgramRunner({ isOpen, onOpenChange, learnerId, learnerName, sessionId, canReadHistory, loadPrograms, onRecordTrial }: ProgramRunnerProps) {
+    const [programs, setPrograms] = useState<SkillProgram[] | null>(null);
+    const [loadError, setLoadError] = useState<string | null>(null);
+    const [programId, setProgramId] = useState<string | null>(null);
+    const [selectedTarget, setSelectedTarget] = useState<string | null>(null);
+    const [promptLevel, setPromptLevel] = useState<PromptLevel | null>(null);
+    const [reinforce, setReinforce] = useState(true);
+    const [notice, setNotice] = useState<string | null>(null);
+    const [isSaving, setIsSaving] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        if (!isOpen) return;
+        let cancelled = false;
+        loadPrograms()
+            .then((loaded) => {
+                if (cancelled) return;
+                setPrograms(loaded.filter((program) => program.status === 'active'));
+                setLoadError(null);
+            })
+            .catch((err: unknown) => {
+                if (!cancelled) setLoadError(err instanceof Error ? err.message : 'Failed to load programs');
+            });
+        return () => {
+            cancelled = true;
+        };
+    }, [isOpen, learnerId, loadPrograms]);
+
+    const history = useLiveQuery(
+        async () => (isOpen && canReadHistory ? getSkillTrialsByLearner(learnerId) : []),
+        [isOpen, canReadHistory, learnerId]
+    );
+
+    const program = programs?.find((candidate) => candidate.id === programId) ?? programs?.[0] ?? null;
+    const progress = useMemo(() => (program ? evaluateProgram(program, history ?? []) : null), [program, history]);
+    const selected = progress?.targets.find((target) => target.target === selectedTarget && target.status !== 'mastered');
+    const activeTarget = selected?.target ?? progress?.currentTarget ?? null;
+    const activeProgress = progress?.targets.find((target) => target.target === activeTarget);
+
+    const sessionTrials = useMemo(() => {
+        if (!program || !activeTarget || sessionId === undefined) return [];
+        return (history ?? [])
+            .filter((trial) => trial.sessionId === sessionId &&
+                trial.skillName.trim().toLowerCase() === program.name.trim().toLowerCase() &&
+                trial.target.trim().toLowerCase() === activeTarget.trim().toLowerCase())
+            .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+    }, [activeTarget, history, program, sessionId]);
+    const sessionCorrect = sessionTrials.filter((trial) => trial.response === 'correct' && trial.promptLevel === 'independent').length;
+    const suggestedLevel = program ? suggestPromptLevel(program.promptHierarchy, sessionTrials[sessionTrials.length - 1]) : 'independent';
+    const level = promptLevel ?? suggestedLevel;
+
+    const selectProgram = (id: string) => {
+        setProgramId(id);
+        setSelectedTarget(null);
+        setPromptLevel(null);
+        setNotice(null);
+    };
+
+    const close = () => {
+        setSelectedTarget(null);
+        setPromptLevel(null);
+        setNotice(null);
+        setError(null);
+        onOpenChange(false);
+    };
+
+    const handleResponse = async (response: ProgramTrialRecord['response']) => {
+        if (!program || !activeTarget) return;
+        const record: ProgramTrialRecord = {
+            skillName: program.name,
+            target: activeTarget,
+            promptLevel: level,
+            response,
+            reinforcementDelivered: response === 'correct' && reinforce
+        };
+        setIsSaving(true);
+        setError(null);
+        try {
+            const recordedSessionId = await onRecordTrial(record);
+            setPromptLevel(null);
+            // Check mastery with this trial included; the live query catches up a moment later
+            const updated = evaluateProgram(program, [
+                ...(history ?? []),
+                { ...record, sessionId: recordedSessionId, timestamp: new Date(), createdAt: new Date(), synced: false }
+            ]);
+            if (updated.targets.find((target) => target.target === activeTarget)?.status === 'mastered') {
+                setSelectedTarget(null);
+                setNotice(updated.currentTarget
+                    ? `${activeTarget} mastered. Moving on to ${updated.currentTarget}.`
+                    : `${activeTarget} mastered. Every target in ${program.name} is mastered.`);
+            }
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to save the trial');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    return (
+        <div className={`modal-overlay ${isOpen ? 'open' : ''}`}>
+            <div className="modal program-modal" role="dialog" aria-modal="true" aria-labelledby="program-modal-title">
+                <div className="modal-header">
+                    <h2 id="program-modal-title" className="modal-title">Programs · {learnerName}</h2>
+                    <button className="drawer-close" onClick={close} aria-label="Close program runner">
+                        <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                            <path d="M18 6L6 18M6 6l12 12" />
+                        </svg>
+                    </button>
+                </div>
+
+                <div className="modal-body">
+                    {loadError && <div className="unlock-error">{loadError}</div>}
+                    {!programs && !loadError && <p className="drawer-empty">Loading programs...</p>}
+                    {programs?.length === 0 && (
+                        <p className="drawer-empty">No active programs for {learnerName}. A BCBA can add them from the Learners page.</p>
+                    )}
+
+                    {program && progress && (
+                        <>
+                            {programs && programs.length > 1 && (
+                                <div className="function-buttons program-picker">
+                                    {programs.map((candidate) => (
+                                        <button
+                                            key={candidate.id}
+                                            type="button"
+                                            className={`function-btn ${candidate.id === program.id ? 'selected' : ''}`}
+                                            onClick={() => selectProgram(candidate.id)}
+                                        >
+                                            {candidate.name}
+                                        </button>
+                                    ))}
+                                </div>
+                            )}
+                            <p className="tree-session-meta">Mastery: {formatMasteryCriterion(program.masteryCriterion)}</p>
+
+                            <div className="program-targets">
+                                {progress.targets.map((target) => (
+                                    <TargetRow
+                                        key={target.target}
+                                        progress={target}
+                                        isActive={target.target === activeTarget}
+                                        onSelect={() => {
+                                            setSelectedTarget(target.target);
+                                            setPromptLevel(null);
+                                        }}
+                                    />
+                                ))}
+                            </div>
+
+                            {notice && <div className="program-notice">{notice}</div>}
+
+                            {activeTarget ? (
+                                <div className="program-trial">
+                                    <div className="program-trial-header">
+                                        <strong>{activeTarget}</strong>
+                                        <span className="tree-session-meta">
+                                            This session: {sessionCorrect}/{sessionTrials.length} independent
+                                            {sessionTrials.length > 0 && ` (${Math.round((sessionCorrect / sessionTrials.length) * 100)}%)`}
+                                        </span>
+                                    </div>
+                                    {activeProgress?.stalled && (
+                                        <div className="program-stalled">
+                                            No new best in the last {program.stallAfterSessions} sessions. Review this target with the BCBA.
+                                        </div>
+                                    )}
+
+                                    <div className="form-group">
+                                        <label className="form-label">Prompt level</label>
+                                        <div className="function-buttons">
+                                            {program.promptHierarchy.map((option) => (
+                                                <button
+                                                    key={option}
+                                                    type="button"
+                                                    className={`function-btn ${level === option ? 'selected' : ''}`}
+                                                    onClick={() => setPromptLevel(option)}
+                                                >
+                                                    {PROMPT_LEVEL_LABELS[option]}
+                                                </button>
+                                            ))}
+                                        </div>
+                                    </div>
+
+                                    <div className="checkbox-group">
+                                        <label className="checkbox-label">
+                                            <input type="checkbox" checked={reinforce} onChange={(event) => setReinforce(event.target.checked)} />
+                                            Reinforcer delivered on correct responses
+                                        </label>
+                                    </div>
+
+                                    <div className="program-responses">
+                                        {RESPONSE_OPTIONS.map((option) => (
+                                            <button
+                                                key={option.value}
+                                                type="button"
+                                                className={`btn ${option.value === 'correct' ? 'btn-primary' : 'btn-secondary'}`}
+                                                onClick={() => void handleResponse(option.value)}
+                                                disabled={isSaving}
+                                            >
+                                                {option.label}
+                                            </button>
+                                        ))}
+                                    </div>
+                                </div>
+                            ) : (
+                                <p className="drawer-empty">Every target in {program.name} is mastered.</p>
+                            )}
+                        </>
+                    )}
+
+                    {error && <div className="unlock-error">{error}</div>}
+                </div>
+
+                <div className="modal-footer">
+                    <button type="button" className="btn btn-secondary" onClick={close}>
+                        Done
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,92 @@
+import type { SessionPhase } from '../stores/sessionStore';
+
+export const SESSION_LOCATIONS = ['Clinic', 'Home', 'School', 'Community', 'Telehealth'] as const;
+
+export const SERVICE_CODES = [
+    { code: '97153', label: '97153 - Direct treatment' },
+    { code: '97155', label: '97155 - Protocol modification' },
+    { code: '97156', label: '97156 - Caregiver training' },
+    { code: '97151', label: '97151 - Assessment' }
+] as const;
+
+export interface SessionSetup {
+    location: string;
+    serviceCode: string;
+}
+
+interface SessionControlsProps {
+    phase: SessionPhase;
+    setup: SessionSetup;
+    onSetupChange: (setup: SessionSetup) => void;
+    onStart: () => void;
+    onPause: () => void;
+    onResume: () => void;
+    onEnd: () => void;
+    disabled?: boolean;
+}
+
+/**
+ * Start / pause / resume / end controls for the active session.
+ * Location and service code are chosen before the session starts and are locked afterwards.
+ */
+export function SessionControls({
+    phase,
+    setup,
+    onSetupChange,
+    onStart,
+    onPause,
+    onResume,
+    onEnd,
+    disabled = false
+}: SessionControlsProps) {
+    const canConfigure = phase === 'idle' || phase === 'completed';
+
+    return (
+        <div className="session-controls">
+            {canConfigure ? (
+                <>
+                    <select
+                        className="session-control-select"
+                        aria-label="Session location"
+                        value={setup.location}
+                        onChange={(event) => onSetupChange({ ...setup, location: event.target.value })}
+                        disabled={disabled}
+                    >
+                        {SESSION_LOCATIONS.map((location) => (
+                            <option key={location} value={location}>{location}</option>
+                        ))}
+                    </select>
+                    <select
+                        className="session-control-select"
+                        aria-label="Service code"
+                        value={setup.serviceCode}
+                        onChange={(event) => onSetupChange({ ...setup, serviceCode: event.target.value })}
+                        disabled={disabled}
+                    >
+                        {SERVICE_CODES.map((service) => (
+                            <option key={service.code} value={service.code}>{service.label}</option>
+                        ))}
+                    </select>
+                    <button className="message-btn primary" onClick={onStart} disabled={disabled}>
+                        {phase === 'completed' ? 'Start New Session' : 'Start Session'}
+                    </button>
+                </>
+            ) : (
+                <>
+                    {phase === 'paused' ? (
+                        <button className="message-btn primary" onClick={onResume} disabled={disabled}>
+                            Resume
+                        </button>
+                    ) : (
+                        <button className="message-btn secondary" onClick={onPause} disabled={disabled}>
+                            Pause
+                        </button>
+                    )}
+                    <button className="message-btn danger" onClick={onEnd} disabled={disabled}>
+                        End Session
+                    </button>
+                </>
+            )}
+        </div>
+    );
+}
@@ -1,19 +1,31 @@
 import { useNavigate } from 'react-router-dom';
 import { useAuth } from '../hooks/useAuth';
-import type { BehaviorEvent, SkillTrial } from '../db/db';
+import type { BehaviorEvent, SkillTrial, TaskAnalysisRun } from '../db/db';
+import { INTERVAL_METHOD_LABELS, type IntervalSummary } from '../services/intervalService';
+import { CHAINING_METHOD_LABELS, percentIndependent } from '../services/taskAnalysisService';
 
 export interface SessionSummaryContentProps {
     behaviorEvents: BehaviorEvent[];
     skillTrials: SkillTrial[];
+    /** Percent of intervals per interval-recorded behavior target. */
+    intervalSummaries?: IntervalSummary[];
+    taskAnalysisRuns?: TaskAnalysisRun[];
     noteDraft: string;
     onNavigateComplete?: () => void;
+    /** When provided, each record gets a remove control (corrections are synced as deletions). */
+    onDeleteBehavior?: (id: number) => void;
+    onDeleteSkillTrial?: (id: number) => void;
 }
 
 export function SessionSummaryContent({
     behaviorEvents,
     skillTrials,
+    intervalSummaries = [],
+    taskAnalysisRuns = [],
     noteDraft,
-    onNavigateComplete
+    onNavigateComplete,
+    onDeleteBehavior,
+    onDeleteSkillTrial
 }: SessionSummaryContentProps) {
     const { user } = useAuth();
     const navigate = useNavigate();
@@ -89,6 +101,11 @@ export function SessionSummaryContent({
                                             <strong>Antecedent:</strong> {event.antecedent}
                                         </div>
                                     )}
+                                    {event.consequent && (
+                                        <div className="event-value">
+                                            <strong>Consequence:</strong> {event.consequent}
+                                        </div>
+                                    )}
                                     {event.functionGuess && (
                                         <div className="event-value">
                                             <strong>Likely Function:</strong> {capitalize(event.functionGuess)}
@@ -100,12 +117,59 @@ export function SessionSummaryContent({
                                         </div>
                                     )}
                                 </div>
+                                {onDeleteBehavior && event.id !== undefined && (
+                                    <button
+                                        className="event-remove"
+                                        aria-label={`Remove ${event.behaviorType}`}
+                                        onClick={() => onDeleteBehavior(event.id as number)}
+                                    >
+                                        Remove
+                                    </button>
+                                )}
                             </div>
                         ))}
                     </div>
                 )}
             </section>
 
+            {intervalSummaries.length > 0 && (
+                <section className="drawer-section">
+                    <h3 className="drawer-section-title">Interval Data</h3>
+                    <div className="event-list">
+                        {intervalSummaries.map((summary) => (
+                            <div key={`${summary.behaviorType}-${summary.method}-${summary.intervalSeconds}`} className="event-item">
+                                <span className="event-icon">▸</span>
+                                <div className="event-details">
+                                    <span className="event-label">{summary.behaviorType}: {summary.percent}% of intervals</span>
+                                    <div className="event-value">
+                                        {summary.occurred} of {summary.scored} intervals · {INTERVAL_METHOD_LABELS[summary.method]}, {summary.intervalSeconds}s
+                                    </div>
+                                </div>
+                            </div>
+                        ))}
+                    </div>
+                </section>
+            )}
+
+            {taskAnalysisRuns.length > 0 && (
+                <section className="drawer-section">
+                    <h3 className="drawer-section-title">Task Analysis</h3>
+                    <div className="event-list">
+                        {taskAnalysisRuns.map((run, idx) => (
+                            <div key={run.id || idx} className="event-item">
+                                <span className="event-icon">▸</span>
+                                <div className="event-details">
+                                    <span className="event-label">{run.taskName}: {percentIndependent(run.steps) ?? 0}% independent</span>
+                                    <div className="event-value">
+                                        {run.steps.filter((step) => step.promptLevel !== null).length} of {run.steps.length} steps · {CHAINING_METHOD_LABELS[run.chainingMethod]}
+                                    </div>
+                                </div>
+                            </div>
+                        ))}
+                    </div>
+                </section>
+            )}
+
             <section className="drawer-section">
                 <h3 className="drawer-section-title">Skill Trials</h3>
                 {skillTrials.length === 0 ? (
@@ -122,6 +186,15 @@ export function SessionSummaryContent({
                                         {trial.promptLevel !== 'independent' && ` (${trial.promptLevel})`}
                                     </div>
                                 </div>
+                                {onDeleteSkillTrial && trial.id !== undefined && (
+                                    <button
+                                        className="event-remove"
+                                        aria-label={`Remove ${trial.skillName} trial`}
+                                        onClick={() => onDeleteSkillTrial(trial.id as number)}
+                                    >
+                                        Remove
+                                    </button>
+                                )}
                             </div>
                         ))}
                     </div>
@@ -153,6 +226,9 @@ function formatBehaviorSummary(event: BehaviorEvent): string {
     if (event.duration) {
         return `${event.behaviorType}: ${event.duration}s`;
     }
+    if (event.latency !== undefined) {
+        return `${event.behaviorType}: ${event.latency}s latency`;
+    }
     if (event.count && event.count > 1) {
         return `${event.count}x ${event.behaviorType}`;
     }
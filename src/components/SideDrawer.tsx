@@ -6,6 +6,12 @@ import { useAuth } from '../hooks/useAuth';
 import { useNavigate } from 'react-router-dom';
 import { useSessionStore } from '../stores/sessionStore';
 import { format } from 'date-fns';
+import { ParkedSyncItemsSection, SyncConflictsSection } from './SyncConflicts';
+import { IntegrityReportSection } from './IntegrityReport';
+import { HistorySearchSection } from './HistorySearch';
+import { DeviceBackupSection } from './DeviceBackup';
+import { DeviceWipeSection } from './DeviceWipe';
+import { PasswordChangeSection } from './PasswordChange';
 
 interface SideDrawerProps {
     isOpen: boolean;
@@ -153,6 +159,14 @@ export function SideDrawer({ isOpen, onClose, currentSessionId, overrideUser, ov
                         </div>
                     </section>
 
+                    <HistorySearchSection learners={learners} onOpenSession={handleSessionClick} />
+                    <SyncConflictsSection />
+                    <ParkedSyncItemsSection />
+                    <IntegrityReportSection />
+                    <DeviceBackupSection />
+                    <PasswordChangeSection />
+                    <DeviceWipeSection />
+
                     {/* Learner Tree Section */}
                     <section className="drawer-section">
                         <h3 className="drawer-section-title">History by Learner</h3>
@@ -198,7 +212,12 @@ export function SideDrawer({ isOpen, onClose, currentSessionId, overrideUser, ov
                                                                     {formatSessionRange(session.startTime, session.endTime)}
                                                                 </span>
                                                                 {session.status === 'in-progress' && (
-                                                                    <span className="status-indicator">In Progress</span>
+                                                                    <span className="status-indicator">{session.pausedAt ? 'Paused' : 'In Progress'}</span>
+                                                                )}
+                                                                {(session.location || session.serviceCode) && (
+                                                                    <span className="tree-session-meta">
+                                                                        {[session.location, session.serviceCode].filter(Boolean).join(' · ')}
+                                                                    </span>
                                                                 )}
                                                             </div>
                                                         </button>
@@ -0,0 +1,154 @@
+import { useState } from 'react';
+import { useLiveQuery } from 'dexie-react-hooks';
+import { format } from 'date-fns';
+import {
+    getOpenSyncConflicts,
+    getParkedSyncQueueItems,
+    resolveSyncConflict,
+    retryParkedSyncQueueItem,
+    type OpenSyncConflict,
+    type SyncQueueItem
+} from '../db/db';
+import { useEncryptionStore } from '../stores/encryptionStore';
+import { useSyncStore } from '../stores/syncStore';
+
+const ENTITY_LABELS: Record<OpenSyncConflict['entityType'], string> = {
+    behavior: 'Behavior',
+    skillTrial: 'Skill Trial',
+    note: 'Session Note',
+    incident: 'Incident Report',
+    interval: 'Interval Data',
+    taskAnalysis: 'Task Analysis'
+};
+
+function describeRecord(entityType: OpenSyncConflict['entityType'], data: Record<string, unknown> | null): string {
+    if (!data) return 'Deleted on this device';
+    if (entityType === 'note') return String(data.content ?? '');
+    if (entityType === 'incident') return `${String(data.incidentType ?? 'other')}: ${String(data.description ?? '')}`;
+    if (entityType === 'skillTrial') return `${String(data.skillName ?? '')}: ${String(data.target ?? '')}`;
+    if (entityType === 'taskAnalysis') return String(data.taskName ?? '');
+    return String(data.behaviorType ?? '');
+}
+
+/**
+ * Drawer section listing sync conflicts that need a manual decision (notes and incidents).
+ * Renders nothing when there are no open conflicts.
+ */
+export function SyncConflictsSection() {
+    const isEncryptionReady = useEncryptionStore((state) => state.isReady);
+    const syncToCloud = useSyncStore((state) => state.syncToCloud);
+    const [resolvingId, setResolvingId] = useState<number | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    const conflicts = useLiveQuery(async () => {
+        if (!isEncryptionReady) return [];
+        return getOpenSyncConflicts();
+    }, [isEncryptionReady]);
+
+    if (!conflicts || conflicts.length === 0) return null;
+
+    const handleResolve = async (conflictId: number, resolution: 'local' | 'server') => {
+        setResolvingId(conflictId);
+        setError(null);
+        try {
+            await resolveSyncConflict(conflictId, resolution);
+            if (resolution === 'local') {
+                void syncToCloud();
+            }
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to resolve conflict');
+        } finally {
+            setResolvingId(null);
+        }
+    };
+
+    return (
+        <section className="drawer-section">
+            <h3 className="drawer-section-title">Sync Conflicts ({conflicts.length})</h3>
+            <p className="drawer-empty">
+                These records were changed on another device while you edited them. Choose which version to keep.
+            </p>
+            {error && <div className="unlock-error">{error}</div>}
+            <div className="event-list">
+                {conflicts.map((conflict) => (
+                    <div key={conflict.id} className="event-item conflict-item">
+                        <div className="event-details">
+                            <span className="event-label">
+                                {ENTITY_LABELS[conflict.entityType]} · {format(conflict.createdAt, 'MMM d, h:mm a')}
+                            </span>
+                            <div className="event-value">
+                                <strong>This device:</strong> {describeRecord(conflict.entityType, conflict.local)}
+                            </div>
+                            <div className="event-value">
+                                <strong>Server (rev {conflict.serverRevision}):</strong>{' '}
+                                {conflict.serverDeleted ? 'Deleted on another device' : describeRecord(conflict.entityType, conflict.server)}
+                            </div>
+                            <div className="conflict-actions">
+                                <button
+                                    className="message-btn primary"
+                                    disabled={resolvingId === conflict.id}
+                                    onClick={() => void handleResolve(conflict.id, 'local')}
+                                >
+                                    Keep mine
+                                </button>
+                                <button
+                                    className="message-btn secondary"
+                                    disabled={resolvingId === conflict.id}
+                                    onClick={() => void handleResolve(conflict.id, 'server')}
+                                >
+                                    Use server
+                                </button>
+                            </div>
+                        </div>
+                    </div>
+                ))}
+            </div>
+        </section>
+    );
+}
+
+const ACTION_LABELS: Record<SyncQueueItem['action'], string> = {
+    create: 'New record',
+    update: 'Correction',
+    delete: 'Deletion'
+};
+
+/**
+ * Drawer section listing queued changes that were parked after repeated or permanent upload failures.
+ * Renders nothing when the queue has no parked items.
+ */
+export function ParkedSyncItemsSection() {
+    const syncToCloud = useSyncStore((state) => state.syncToCloud);
+    const parkedItems = useLiveQuery(() => getParkedSyncQueueItems(), []);
+
+    if (!parkedItems || parkedItems.length === 0) return null;
+
+    const handleRetry = async (itemId: number | undefined) => {
+        if (itemId === undefined) return;
+        await retryParkedSyncQueueItem(itemId);
+        void syncToCloud();
+    };
+
+    return (
+        <section className="drawer-section">
+            <h3 className="drawer-section-title">Failed Uploads ({parkedItems.length})</h3>
+            <div className="event-list">
+                {parkedItems.map((item) => (
+                    <div key={item.id} className="event-item conflict-item">
+                        <div className="event-details">
+                            <span className="event-label">
+                                {item.entityType === 'session' ? 'Session' : ENTITY_LABELS[item.entityType]} · {ACTION_LABELS[item.action]}
+                            </span>
+                            <div className="event-value">{item.parkedReason ?? 'Upload failed'}</div>
+                            <div className="conflict-actions">
+                                <button className="message-btn secondary" onClick={() => void handleRetry(item.id)}>
+                                    Retry
+                                </button>
+                            </div>
+                        </div>
+                    </div>
+                ))}
+            </div>
+        </section>
+    );
+}
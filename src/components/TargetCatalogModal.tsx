@@ -0,0 +1,212 @@
+import { useEffect, useState } from 'react';
+import type { Learner, TargetCatalog } from '../db/db';
+import { targetCatalogService, type TargetCatalogFields } from '../services/targetCatalogService';
+
+interface TargetCatalogModalProps {
+    isOpen: boolean;
+    learner: Learner;
+    onClose: () => void;
+}
+
+interface BehaviorRow {
+    name: string;
+    definition: string;
+    /** Comma separated. */
+    synonyms: string;
+}
+
+interface CatalogForm {
+    behaviors: BehaviorRow[];
+    /** One skill per line: `Skill: target, target`. */
+    skills: string;
+    /** One reinforcer per line. */
+    reinforcers: string;
+}
+
+const EMPTY_BEHAVIOR: BehaviorRow = { name: '', definition: '', synonyms: '' };
+
+const splitList = (text: string, separator: string) => text.split(separator).map((item) => item.trim()).filter(Boolean);
+
+function toForm(catalog: TargetCatalog): CatalogForm {
+    return {
+        behaviors: catalog.behaviors.map((behavior) => ({
+            name: behavior.name,
+            definition: behavior.definition ?? '',
+            synonyms: behavior.synonyms.join(', ')
+        })),
+        skills: catalog.skills.map((entry) => `${entry.skill}: ${entry.targets.join(', ')}`).join('\n'),
+        reinforcers: catalog.reinforcers.join('\n')
+    };
+}
+
+function toFields(form: CatalogForm): TargetCatalogFields {
+    return {
+        behaviors: form.behaviors
+            .filter((row) => row.name.trim())
+            .map((row) => ({
+                name: row.name.trim(),
+                ...(row.definition.trim() ? { definition: row.definition.trim() } : {}),
+                synonyms: splitList(row.synonyms, ',')
+            })),
+        skills: splitList(form.skills, '\n').map((line) => {
+            const separator = line.indexOf(':');
+            return separator === -1
+                ? { skill: line, targets: [] }
+                : { skill: line.slice(0, separator).trim(), targets: splitList(line.slice(separator + 1), ',') };
+        }),
+        reinforcers: splitList(form.reinforcers, '\n')
+    };
+}
+
+/**
+ * Edits the behaviors, skill targets and reinforcers defined for a learner. Staff devices sync the
+ * catalog and the session parser maps what is typed onto it.
+ */
+export function TargetCatalogModal({ isOpen, learner, onClose }: TargetCatalogModalProps) {
+    const [form, setForm] = useState<CatalogForm | null>(null);
+    const [isLoading, setIsLoading] = useState(false);
+    const [error, setError] = useState('');
+
+    useEffect(() => {
+        if (!isOpen) {
+            return;
+        }
+        let cancelled = false;
+        targetCatalogService.getCatalog(learner.id)
+            .then((catalog) => {
+                if (!cancelled) setForm(toForm(catalog));
+            })
+            .catch((err: unknown) => {
+                if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load target catalog');
+            });
+        return () => {
+            cancelled = true;
+        };
+    }, [isOpen, learner.id]);
+
+    if (!isOpen) return null;
+
+    const updateBehavior = (index: number, changes: Partial<BehaviorRow>) => setForm((current) => current && {
+        ...current,
+        behaviors: current.behaviors.map((row, rowIndex) => (rowIndex === index ? { ...row, ...changes } : row))
+    });
+
+    const removeBehavior = (index: number) => setForm((current) => current && {
+        ...current,
+        behaviors: current.behaviors.filter((_, rowIndex) => rowIndex !== index)
+    });
+
+    async function handleSubmit(e: React.FormEvent) {
+        e.preventDefault();
+        if (!form) return;
+        setError('');
+        setIsLoading(true);
+
+        try {
+            const saved = await targetCatalogService.saveCatalog(learner.id, toFields(form));
+            setForm(toForm(saved));
+            onClose();
+        } catch (err: unknown) {
+            setError(err instanceof Error ? err.message : 'Failed to save target catalog');
+        } finally {
+            setIsLoading(false);
+        }
+    }
+
+    return (
+        <div className="modal-overlay open" aria-labelledby="target-catalog-title" role="dialog" aria-modal="true">
+            <div className="modal admin-modal">
+                <div className="modal-header">
+                    <h3 id="target-catalog-title" className="modal-title admin-modal-title">
+                        Targets · {learner.name}
+                    </h3>
+                    <button type="button" className="drawer-close" onClick={onClose} aria-label="Close">
+                        ✕
+                    </button>
+                </div>
+                <form onSubmit={handleSubmit}>
+                    <div className="modal-body">
+                        {error && <div className="admin-error">{error}</div>}
+                        {!form ? (
+                            !error && <div className="admin-empty">Loading targets...</div>
+                        ) : (
+                            <div className="admin-form-grid">
+                                <div className="form-group target-catalog-behaviors">
+                                    <span className="form-label">Behaviors</span>
+                                    {form.behaviors.map((row, index) => (
+                                        <div key={index} className="target-catalog-behavior">
+                                            <input
+                                                type="text"
+                                                value={row.name}
+                                                onChange={(e) => updateBehavior(index, { name: e.target.value })}
+                                                className="form-input"
+                                                placeholder="Behavior, e.g. Tantrum"
+                                                aria-label={`Behavior ${index + 1} name`}
+                                            />
+                                            <input
+                                                type="text"
+                                                value={row.synonyms}
+                                                onChange={(e) => updateBehavior(index, { synonyms: e.target.value })}
+                                                className="form-input"
+                                                placeholder="Also called, e.g. dropping, meltdown"
+                                                aria-label={`Behavior ${index + 1} synonyms`}
+                                            />
+                                            <textarea
+                                                value={row.definition}
+                                                onChange={(e) => updateBehavior(index, { definition: e.target.value })}
+                                                className="form-textarea"
+                                                rows={2}
+                                                placeholder="Operational definition"
+                                                aria-label={`Behavior ${index + 1} definition`}
+                                            />
+                                            <button type="button" className="admin-link-btn" onClick={() => removeBehavior(index)}>
+                                                Remove
+                                            </button>
+                                        </div>
+                                    ))}
+                                    <button
+                                        type="button"
+                                        className="btn btn-secondary"
+                                        onClick={() => setForm({ ...form, behaviors: [...form.behaviors, EMPTY_BEHAVIOR] })}
+                                    >
+                                        Add Behavior
+                                    </button>
+                                </div>
+                                <div className="form-group">
+                                    <label htmlFor="target-catalog-skills" className="form-label">Skills (one per line: skill: target, target)</label>
+                                    <textarea
+                                        id="target-catalog-skills"
+                                        value={form.skills}
+                                        onChange={(e) => setForm({ ...form, skills: e.target.value })}
+                                        className="form-textarea"
+                                        rows={4}
+                                        placeholder="Receptive ID: cup, ball, shoe"
+                                    />
+                                </div>
+                                <div className="form-group">
+                                    <label htmlFor="target-catalog-reinforcers" className="form-label">Reinforcers (one per line)</label>
+                                    <textarea
+                                        id="target-catalog-reinforcers"
+                                        value={form.reinforcers}
+                                        onChange={(e) => setForm({ ...form, reinforcers: e.target.value })}
+                                        className="form-textarea"
+                                        rows={4}
+                                        placeholder="Bubbles"
+                                    />
+                                </div>
+                            </div>
+                        )}
+                    </div>
+                    <div className="modal-footer">
+                        <button type="button" className="btn btn-secondary" onClick={onClose}>
+                            Cancel
+                        </button>
+                        <button type="submit" disabled={isLoading || !form} className="btn btn-primary">
+                            {isLoading ? 'Saving...' : 'Save Targets'}
+                        </button>
+                    </div>
+                </form>
+            </div>
+        </div>
+    );
+}
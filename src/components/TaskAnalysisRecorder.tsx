@@ -0,0 +1,304 @@
+import { useMemo, useState } from 'react';
+import { useLiveQuery } from 'dexie-react-hooks';
+import { subDays } from 'date-fns';
+import { getTaskAnalysisRunsByLearner, type ChainingMethod } from '../db/db';
+import { Sparkline } from './dashboard/Sparkline';
+import { PROMPT_LEVELS, PROMPT_LEVEL_LABELS, type PromptLevel } from '../services/programService';
+import {
+    CHAINING_METHOD_LABELS,
+    TASK_ANALYSIS_HISTORY_DAYS,
+    isCompleteRun,
+    lastTaskDefinitions,
+    learnerStepRange,
+    percentIndependent,
+    suggestTrainingStep,
+    summarizeTaskAnalyses,
+    type TaskDefinition
+} from '../services/taskAnalysisService';
+
+const PROMPT_ABBREVIATIONS: Record<PromptLevel, string> = {
+    independent: 'I',
+    verbal: 'V',
+    gestural: 'G',
+    model: 'M',
+    'partial-physical': 'PP',
+    'full-physical': 'FP'
+};
+
+interface TaskAnalysisRecorderProps {
+    isOpen: boolean;
+    onOpenChange: (open: boolean) => void;
+    learnerId: string;
+    learnerName: string;
+    /** False while local data is locked; the learner's history is not read then. */
+    canReadHistory: boolean;
+    /** Saves one run; `range` is the steps the learner performed, the rest were completed by staff. */
+    onSubmit: (definition: TaskDefinition, levels: (PromptLevel | null)[], range: [number, number]) => Promise<void>;
+}
+
+const splitSteps = (text: string) => text.split('\n').map((step) => step.trim()).filter(Boolean);
+
+/**
+ * Task analysis recording: one row per step of a chained task, scored with the prompt level the
+ * learner needed. The history tab charts percent independent per run and shows which steps lag.
+ */
+export function TaskAnalysisRecorder({ isOpen, onOpenChange, learnerId, learnerName, canReadHistory, onSubmit }: TaskAnalysisRecorderProps) {
+    const [tab, setTab] = useState<'record' | 'history'>('record');
+    const [taskName, setTaskName] = useState('');
+    const [chainingMethod, setChainingMethod] = useState<ChainingMethod>('total-task');
+    const [stepsText, setStepsText] = useState('');
+    const [levels, setLevels] = useState<(PromptLevel | null)[]>([]);
+    const [trainingStep, setTrainingStep] = useState<number | null>(null);
+    const [isSaving, setIsSaving] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const history = useLiveQuery(
+        async () => (isOpen && canReadHistory ? getTaskAnalysisRunsByLearner(learnerId, subDays(new Date(), TASK_ANALYSIS_HISTORY_DAYS)) : []),
+        [isOpen, canReadHistory, learnerId]
+    );
+    const definitions = useMemo(() => lastTaskDefinitions(history ?? []), [history]);
+    const summaries = useMemo(() => summarizeTaskAnalyses(history ?? []), [history]);
+
+    const steps = splitSteps(stepsText);
+    const lastRun = useMemo(() => [...(history ?? [])]
+        .filter((run) => run.taskName.trim().toLowerCase() === taskName.trim().toLowerCase())
+        .sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime())[0], [history, taskName]);
+    const currentStep = trainingStep ?? suggestTrainingStep(chainingMethod, steps.length, lastRun);
+    const range = learnerStepRange(chainingMethod, steps.length, currentStep);
+    const scoredSteps = steps.map((step, index) => ({
+        step,
+        promptLevel: index >= range[0] && index < range[1] ? levels[index] ?? null : null
+    }));
+    const percent = percentIndependent(scoredSteps);
+    const canSave = Boolean(taskName.trim()) && isCompleteRun(levels, range) && !isSaving;
+
+    const resetScores = () => {
+        setLevels([]);
+        setTrainingStep(null);
+    };
+
+    const pickTask = (definition: TaskDefinition) => {
+        setTaskName(definition.taskName);
+        setChainingMethod(definition.chainingMethod);
+        setStepsText(definition.steps.join('\n'));
+        resetScores();
+    };
+
+    const scoreStep = (index: number, level: PromptLevel) => {
+        setLevels((current) => {
+            const next = [...current];
+            while (next.length < index) next.push(null);
+            next[index] = next[index] === level ? null : level;
+            return next;
+        });
+    };
+
+    const close = () => {
+        setError(null);
+        onOpenChange(false);
+    };
+
+    const handleSave = async () => {
+        if (!canSave) return;
+        setIsSaving(true);
+        setError(null);
+        try {
+            await onSubmit({ taskName: taskName.trim(), chainingMethod, steps }, levels, range);
+            // Keep the task set up for the next run
+            resetScores();
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to save the task analysis');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    return (
+        <div className={`modal-overlay ${isOpen ? 'open' : ''}`}>
+            <div className="modal task-analysis-modal" role="dialog" aria-modal="true" aria-labelledby="task-analysis-modal-title">
+                <div className="modal-header">
+                    <h2 id="task-analysis-modal-title" className="modal-title">Task Analysis · {learnerName}</h2>
+                    <button className="drawer-close" onClick={close} aria-label="Close task analysis">
+                        <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                            <path d="M18 6L6 18M6 6l12 12" />
+                        </svg>
+                    </button>
+                </div>
+
+                <div className="function-buttons abc-tabs" role="tablist">
+                    <button type="button" role="tab" aria-selected={tab === 'record'} className={`function-btn ${tab === 'record' ? 'selected' : ''}`} onClick={() => setTab('record')}>
+                        Record
+                    </button>
+                    <button type="button" role="tab" aria-selected={tab === 'history'} className={`function-btn ${tab === 'history' ? 'selected' : ''}`} onClick={() => setTab('history')}>
+                        History
+                    </button>
+                </div>
+
+                {tab === 'record' ? (
+                    <div className="modal-body">
+                        {definitions.length > 0 && (
+                            <div className="form-group">
+                                <label className="form-label">Recent tasks</label>
+                                <div className="function-buttons abc-quick-picks">
+                                    {definitions.map((definition) => (
+                                        <button
+                                            key={definition.taskName}
+                                            type="button"
+                                            className={`function-btn ${definition.taskName.toLowerCase() === taskName.trim().toLowerCase() ? 'selected' : ''}`}
+                                            onClick={() => pickTask(definition)}
+                                        >
+                                            {definition.taskName}
+                                        </button>
+                                    ))}
+                                </div>
+                            </div>
+                        )}
+
+                        <div className="form-group">
+                            <label className="form-label" htmlFor="task-analysis-name">Task</label>
+                            <div className="interval-config-row">
+                                <input
+                                    id="task-analysis-name"
+                                    type="text"
+                                    className="form-input"
+                                    placeholder="e.g. handwashing"
+                                    value={taskName}
+                                    onChange={(event) => setTaskName(event.target.value)}
+                                />
+                                <select
+                                    className="form-select"
+                                    aria-label="Chaining method"
+                                    value={chainingMethod}
+                                    onChange={(event) => {
+                                        setChainingMethod(event.target.value as ChainingMethod);
+                                        resetScores();
+                                    }}
+                                >
+                                    {Object.entries(CHAINING_METHOD_LABELS).map(([value, label]) => (
+                                        <option key={value} value={value}>{label}</option>
+                                    ))}
+                                </select>
+                            </div>
+                        </div>
+
+                        <div className="form-group">
+                            <label className="form-label" htmlFor="task-analysis-steps">Steps (one per line, in order)</label>
+                            <textarea
+                                id="task-analysis-steps"
+                                className="form-textarea"
+                                rows={4}
+                                value={stepsText}
+                                onChange={(event) => {
+                                    setStepsText(event.target.value);
+                                    resetScores();
+                                }}
+                            />
+                        </div>
+
+                        {steps.length > 0 && chainingMethod !== 'total-task' && (
+                            <div className="form-group">
+                                <label className="form-label" htmlFor="task-analysis-training-step">Training step</label>
+                                <select
+                                    id="task-analysis-training-step"
+                                    className="form-select"
+                                    value={currentStep}
+                                    onChange={(event) => setTrainingStep(Number(event.target.value))}
+                                >
+                                    {steps.map((step, index) => (
+                                        <option key={`${index}-${step}`} value={index}>{index + 1}. {step}</option>
+                                    ))}
+                                </select>
+                            </div>
+                        )}
+
+                        {steps.length > 0 && (
+                            <div className="task-grid" role="grid" aria-label="Step scores">
+                                {steps.map((step, index) => {
+                                    const performed = index >= range[0] && index < range[1];
+                                    return (
+                                        <div key={`${index}-${step}`} className={`task-grid-row ${performed ? '' : 'staff'}`} role="row">
+                                            <span className="task-grid-step" role="rowheader">{index + 1}. {step}</span>
+                                            {performed ? (
+                                                <div className="task-grid-levels">
+                                                    {PROMPT_LEVELS.map((level) => (
+                                                        <button
+                                                            key={level}
+                                                            type="button"
+                                                            role="gridcell"
+                                                            title={PROMPT_LEVEL_LABELS[level]}
+                                                            aria-label={`${step}: ${PROMPT_LEVEL_LABELS[level]}`}
+                                                            aria-pressed={levels[index] === level}
+                                                            className={`task-grid-cell ${levels[index] === level ? 'selected' : ''} ${level === 'independent' ? 'independent' : ''}`}
+                                                            onClick={() => scoreStep(index, level)}
+                                                        >
+                                                            {PROMPT_ABBREVIATIONS[level]}
+                                                        </button>
+                                                    ))}
+                                                </div>
+                                            ) : (
+                                                <span className="tree-session-meta">Staff</span>
+                                            )}
+                                        </div>
+                                    );
+                                })}
+                            </div>
+                        )}
+
+                        {percent !== null && (
+                            <p className="tree-session-meta">This run: {percent}% independent</p>
+                        )}
+                        {error && <div className="unlock-error">{error}</div>}
+                    </div>
+                ) : (
+                    <div className="modal-body">
+                        <p className="drawer-empty">Last {TASK_ANALYSIS_HISTORY_DAYS} days. Bottleneck steps have the lowest share of independent runs.</p>
+                        {summaries.length === 0 && <div className="drawer-empty">No task analysis data for {learnerName} yet.</div>}
+                        {summaries.map((summary) => (
+                            <div key={summary.taskName} className="event-item task-summary-item">
+                                <div className="event-details">
+                                    <span className="event-label">
+                                        {summary.taskName} · {CHAINING_METHOD_LABELS[summary.chainingMethod]} · {summary.runs.length} runs
+                                    </span>
+                                    {summary.runs.length > 1 && (
+                                        <Sparkline
+                                            values={summary.runs.map((run) => run.percent)}
+                                            width={260}
+                                            height={48}
+                                            ariaLabel={`${summary.taskName} percent independent per run`}
+                                        />
+                                    )}
+                                    <div className="task-step-bars">
+                                        {summary.stepSummaries.map((step, index) => (
+                                            <div key={`${index}-${step.step}`} className={`task-step-bar ${step.isBottleneck ? 'bottleneck' : ''}`}>
+                                                <span className="task-step-label">{index + 1}. {step.step}</span>
+                                                <span className="task-step-track">
+                                                    <span className="task-step-fill" style={{ width: `${step.percent ?? 0}%` }} />
+                                                </span>
+                                                <span className="task-step-value">
+                                                    {step.percent === null ? 'not run' : `${step.percent}%`}
+                                                    {step.commonPrompt && ` · ${PROMPT_ABBREVIATIONS[step.commonPrompt]}`}
+                                                    {step.isBottleneck && ' · bottleneck'}
+                                                </span>
+                                            </div>
+                                        ))}
+                                    </div>
+                                </div>
+                            </div>
+                        ))}
+                    </div>
+                )}
+
+                <div className="modal-footer">
+                    <button className="btn btn-secondary" onClick={close}>
+                        Done
+                    </button>
+                    {tab === 'record' && (
+                        <button className="btn btn-primary" onClick={() => void handleSave()} disabled={!canSave}>
+                            {isSaving ? 'Saving...' : 'Save Run'}
+                        </button>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+}
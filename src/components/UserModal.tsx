@@ -78,7 +78,8 @@ export function UserModal({ isOpen, onClose, onUserSaved, editingUser }: UserMod
                     name: name.trim(),
                     role,
                     isActive,
-                    assignedLearnerIds
+                    assignedLearnerIds,
+                    ...(password ? { password } : {})
                 });
             } else {
                 await userService.createUser({
@@ -178,6 +179,21 @@ export function UserModal({ isOpen, onClose, onUserSaved, editingUser }: UserMod
                                     />
                                 </div>
                             )}
+                            {isEditMode && (
+                                <div className="form-group">
+                                    <label htmlFor="user-reset-password" className="form-label">Reset Password</label>
+                                    <input
+                                        type="password"
+                                        id="user-reset-password"
+                                        autoComplete="new-password"
+                                        minLength={8}
+                                        placeholder="Leave blank to keep"
+                                        className="form-input"
+                                        value={password}
+                                        onChange={(e) => setPassword(e.target.value)}
+                                    />
+                                </div>
+                            )}
                             {isEditMode && (
                                 <div className="form-group">
                                     <label htmlFor="user-status" className="form-label">Status</label>
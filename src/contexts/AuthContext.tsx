@@ -3,6 +3,7 @@ import { useLocation } from 'react-router-dom';
 import type { User, Learner, Organization } from '../services/authService';
 export type { User };
 import {
+    getIdleLockMinutes,
     getMe,
     login as apiLogin,
     register as apiRegister,
@@ -46,6 +47,28 @@ const SESSION_OPTIONAL_ROUTES = new Set([
     '/legal'
 ]);
 
+/** Calls `onIdle` once no input arrives for `timeoutMs`. Returns a cleanup function. */
+function watchInactivity(timeoutMs: number, onIdle: () => void): () => void {
+    let timeoutId = window.setTimeout(onIdle, timeoutMs);
+
+    const reset = () => {
+        window.clearTimeout(timeoutId);
+        timeoutId = window.setTimeout(onIdle, timeoutMs);
+    };
+
+    const activityEvents: Array<keyof WindowEventMap> = ['mousemove', 'keydown', 'click', 'scroll', 'touchstart'];
+    for (const eventName of activityEvents) {
+        window.addEventListener(eventName, reset, { passive: true });
+    }
+
+    return () => {
+        window.clearTimeout(timeoutId);
+        for (const eventName of activityEvents) {
+            window.removeEventListener(eventName, reset);
+        }
+    };
+}
+
 export function AuthProvider({ children }: { children: React.ReactNode }) {
     const location = useLocation();
     const [user, setUser] = useState<User | null>(null);
@@ -55,6 +78,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     const [error, setError] = useState<string | null>(null);
     const initializeEncryption = useEncryptionStore((state) => state.initializeWithPassword);
     const clearEncryption = useEncryptionStore((state) => state.clear);
+    const lockEncryption = useEncryptionStore((state) => state.lock);
     const isSessionOptionalRoute = SESSION_OPTIONAL_ROUTES.has(location.pathname);
 
     const refreshUser = useCallback(async () => {
@@ -104,8 +128,13 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
             if (!response.user.encryptionSalt) {
                 throw new Error('Account encryption is not configured');
             }
-            await initializeEncryption(password, response.user.encryptionSalt);
-            await migrateLegacyPlaintextData();
+            try {
+                await initializeEncryption(password, response.user.encryptionSalt);
+                await migrateLegacyPlaintextData();
+            } catch (encryptionError) {
+                // Password changed since this device last unlocked: sign in locked, the app asks for the old one
+                if (!useEncryptionStore.getState().needsPreviousPassword) throw encryptionError;
+            }
             setUser(response.user);
             await refreshUser(); // Get full user data with learners
         } catch (err) {
@@ -151,30 +180,17 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
         if (!user) {
             return;
         }
+        return watchInactivity(SESSION_TIMEOUT_MS, () => void logout());
+    }, [user, logout]);
 
-        let timeoutId = window.setTimeout(() => {
-            void logout();
-        }, SESSION_TIMEOUT_MS);
-
-        const reset = () => {
-            window.clearTimeout(timeoutId);
-            timeoutId = window.setTimeout(() => {
-                void logout();
-            }, SESSION_TIMEOUT_MS);
-        };
-
-        const activityEvents: Array<keyof WindowEventMap> = ['mousemove', 'keydown', 'click', 'scroll', 'touchstart'];
-        for (const eventName of activityEvents) {
-            window.addEventListener(eventName, reset, { passive: true });
+    // Shared devices: wipe the local keys well before sign-out; the PIN (or password) reopens them
+    const idleLockMinutes = getIdleLockMinutes(organization);
+    useEffect(() => {
+        if (!user || idleLockMinutes <= 0) {
+            return;
         }
-
-        return () => {
-            window.clearTimeout(timeoutId);
-            for (const eventName of activityEvents) {
-                window.removeEventListener(eventName, reset);
-            }
-        };
-    }, [user, logout]);
+        return watchInactivity(idleLockMinutes * 60 * 1000, lockEncryption);
+    }, [user, idleLockMinutes, lockEncryption]);
 
     // Demo only: override role
     const [demoRole, setDemoRole] = useState<'manager' | 'bcba' | 'rbt' | null>(null);
@@ -0,0 +1,114 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { behaviorEventRepository, db, sessionNoteRepository, skillTrialRepository } from './db';
+import { useEncryptionStore } from '../stores/encryptionStore';
+
+const createdAt = new Date('2026-02-05T14:00:00.000Z');
+
+describe('encrypted repositories', () => {
+  beforeEach(async () => {
+    await useEncryptionStore.getState().initializeWithPassword('TestPass123!', 'U3RhdGljU2FsdDEyMw==');
+    await Promise.all([db.behaviorEvents.clear(), db.skillTrials.clear(), db.sessionNotes.clear(), db.syncQueue.clear(), db.sessions.clear()]);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('adds a batch with only index fields in plaintext and queues each row', async () => {
+    const ids = await skillTrialRepository.bulkAdd(['clap hands', 'touch nose'].map((target) => ({
+      sessionId: 1,
+      skillName: 'Imitation',
+      target,
+      promptLevel: 'verbal',
+      response: 'correct',
+      reinforcementDelivered: true,
+      timestamp: createdAt,
+      createdAt,
+      synced: false,
+    })));
+
+    expect(ids).toHaveLength(2);
+    const rows = await db.skillTrials.toArray();
+    expect(Object.keys(rows[0]).sort()).toEqual(['createdAt', 'encryptedData', 'id', 'searchKeyId', 'searchTokens', 'sessionId', 'signature', 'synced', 'timestamp', 'uuid']);
+    expect(JSON.stringify(rows)).not.toContain('clap hands');
+    expect((await db.syncQueue.toArray()).map((item) => [item.entityId, item.action])).toEqual(ids.map((id) => [id, 'create']));
+    expect((await skillTrialRepository.listUnsynced()).map((trial) => trial.target).sort()).toEqual(['clap hands', 'touch nose']);
+  });
+
+  it('re-encrypts updates and bumps the edit time of entities keyed by updatedAt', async () => {
+    const id = await sessionNoteRepository.add({
+      sessionId: 1,
+      section: 'summary',
+      content: 'Calm session.',
+      isAutoGenerated: true,
+      editHistory: [],
+      createdAt,
+      updatedAt: createdAt,
+      synced: true,
+    });
+    const before = await db.sessionNotes.get(id);
+
+    await sessionNoteRepository.update(id, { content: 'Calm session with one prompt.' });
+
+    const note = await sessionNoteRepository.get(id);
+    expect(note).toMatchObject({ content: 'Calm session with one prompt.', isAutoGenerated: true, synced: false });
+    expect(note!.updatedAt.getTime()).toBeGreaterThan(createdAt.getTime());
+    expect((await db.sessionNotes.get(id))!.signature).not.toBe(before!.signature);
+    expect((await db.syncQueue.toArray()).map((item) => item.action)).toEqual(['update']);
+  });
+
+  it('records field edit times for field-merged entities and rejects tampered rows', async () => {
+    const id = await behaviorEventRepository.add({ sessionId: 1, behaviorType: 'tantrum', count: 1, timestamp: createdAt, createdAt, synced: false });
+    await behaviorEventRepository.update(id, { intervention: 'planned ignoring' });
+
+    const event = await behaviorEventRepository.get(id);
+    expect(event).toMatchObject({ behaviorType: 'tantrum', intervention: 'planned ignoring' });
+    expect(Object.keys(event!.fieldUpdatedAt ?? {})).toEqual(['intervention']);
+
+    const row = await db.behaviorEvents.get(id);
+    await db.behaviorEvents.update(id, { signature: row!.signature!.replace(/^./, (char) => (char === 'A' ? 'B' : 'A')) });
+    await expect(behaviorEventRepository.get(id)).rejects.toThrow('Data integrity check failed');
+    expect(await behaviorEventRepository.listBySession(1)).toEqual([]);
+  });
+
+  it('serves repeat reads from the decrypted-row cache until a row changes or the keys are locked', async () => {
+    const ids = await behaviorEventRepository.bulkAdd(['tantrum', 'elopement', 'SIB'].map((behaviorType) => (
+      { sessionId: 1, behaviorType, count: 1, timestamp: createdAt, createdAt, synced: false }
+    )));
+    const decryptData = vi.spyOn(useEncryptionStore.getState(), 'decryptData');
+
+    expect(await behaviorEventRepository.listBySession(1)).toHaveLength(3);
+    expect(decryptData).toHaveBeenCalledTimes(3);
+    await behaviorEventRepository.listBySession(1);
+    expect(decryptData).toHaveBeenCalledTimes(3);
+
+    await behaviorEventRepository.update(ids[0], { intervention: 'redirect' });
+    decryptData.mockClear();
+    expect((await behaviorEventRepository.listBySession(1)).map((event) => event.intervention)).toEqual([undefined, undefined, 'redirect']);
+    expect(decryptData).toHaveBeenCalledTimes(1);
+
+    useEncryptionStore.getState().lock();
+    await useEncryptionStore.getState().initializeWithPassword('TestPass123!', 'U3RhdGljU2FsdDEyMw==');
+    decryptData.mockClear();
+    await behaviorEventRepository.listBySession(1);
+    expect(decryptData).toHaveBeenCalledTimes(3);
+  });
+
+  it('reads a learner history across sessions newest first', async () => {
+    const sessions = await db.sessions.bulkAdd([
+      { clientId: 'learner-history', clientName: 'Learner', status: 'in-progress', startTime: new Date('2026-01-05T14:00:00.000Z'), createdAt, updatedAt: createdAt },
+      { clientId: 'learner-history', clientName: 'Learner', status: 'in-progress', startTime: new Date('2026-01-20T14:00:00.000Z'), createdAt, updatedAt: createdAt },
+      { clientId: 'other-learner', clientName: 'Learner', status: 'in-progress', startTime: new Date('2026-01-20T14:00:00.000Z'), createdAt, updatedAt: createdAt },
+    ], { allKeys: true }) as number[];
+    await behaviorEventRepository.bulkAdd(sessions.map((sessionId, index) => ({
+      sessionId,
+      behaviorType: `behavior-${index}`,
+      timestamp: new Date(Date.UTC(2026, 0, 5 + index * 15)),
+      createdAt,
+      synced: true,
+    })));
+
+    expect((await behaviorEventRepository.listByLearner('learner-history')).map((event) => event.behaviorType)).toEqual(['behavior-1', 'behavior-0']);
+    expect((await behaviorEventRepository.listByLearner('learner-history', new Date('2026-01-10T00:00:00.000Z'))).map((event) => event.behaviorType)).toEqual(['behavior-1']);
+  });
+});
@@ -0,0 +1,89 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import {
+  addBehaviorEvent,
+  addSessionNote,
+  db,
+  getBehaviorEventsBySession,
+  getLastIntegrityReport,
+  getQuarantinedRows,
+  runIntegrityScan,
+} from './db';
+import { useEncryptionStore } from '../stores/encryptionStore';
+
+const SALT = 'U3RhdGljU2FsdDEyMw==';
+const OTHER_SALT = 'T3RoZXJTYWx0MTIzNDU=';
+
+async function addTantrum(): Promise<number> {
+  const createdAt = new Date('2026-02-05T14:00:00.000Z');
+  return addBehaviorEvent({ sessionId: 1, behaviorType: 'tantrum', count: 1, timestamp: createdAt, createdAt, synced: false });
+}
+
+async function unlock(password: string, salt: string) {
+  useEncryptionStore.getState().clear();
+  await useEncryptionStore.getState().initializeWithPassword(password, salt);
+}
+
+describe('db integrity scan', () => {
+  beforeEach(async () => {
+    useEncryptionStore.getState().clear();
+    await Promise.all([
+      db.keyring.clear(),
+      db.behaviorEvents.clear(),
+      db.sessionNotes.clear(),
+      db.syncQueue.clear(),
+      db.syncState.clear(),
+      db.quarantine.clear(),
+    ]);
+    await unlock('TestPass123!', SALT);
+  });
+
+  it('quarantines rows whose signature no longer matches and reports them', async () => {
+    const kept = await addTantrum();
+    const tampered = await addTantrum();
+    const row = await db.behaviorEvents.get(tampered);
+    await db.behaviorEvents.update(tampered, { signature: `${row!.signature!.slice(0, -4)}AAA=` });
+
+    const report = await runIntegrityScan();
+
+    expect(report.tables.behaviorEvents).toEqual({ scanned: 2, verified: 1, quarantined: 1, unattributed: 0 });
+    expect(report.quarantined).toEqual([
+      expect.objectContaining({ tableName: 'behaviorEvents', rowId: tampered, uuid: row!.uuid, reason: 'signature-mismatch', recordedAt: '2026-02-05T14:00:00.000Z' }),
+    ]);
+    expect(report.quarantined[0]).not.toHaveProperty('row');
+    expect((await getBehaviorEventsBySession(1)).map((event) => event.id)).toEqual([kept]);
+    expect(await db.syncQueue.where('entityId').equals(tampered).count()).toBe(0);
+    expect((await getQuarantinedRows())[0].row).toMatchObject({ encryptedData: row!.encryptedData });
+    expect(await getLastIntegrityReport()).toEqual(report);
+  });
+
+  it('quarantines unsigned and undecryptable rows on a single-user device', async () => {
+    const unsigned = await addTantrum();
+    await db.behaviorEvents.update(unsigned, { signature: undefined });
+
+    // Written under keys this device no longer holds
+    await unlock('OtherPass456!', OTHER_SALT);
+    const now = new Date();
+    await addSessionNote({ sessionId: 1, section: 'summary', content: 'Calm session', isAutoGenerated: false, editHistory: [], createdAt: now, updatedAt: now, synced: false });
+    await db.keyring.where('salt').equals(OTHER_SALT).delete();
+    await unlock('TestPass123!', SALT);
+
+    const report = await runIntegrityScan();
+
+    expect(report.quarantined.map((entry) => [entry.tableName, entry.reason])).toEqual([
+      ['behaviorEvents', 'missing-signature'],
+      ['sessionNotes', 'undecryptable'],
+    ]);
+  });
+
+  it('counts rows of other users on a shared device without moving them', async () => {
+    await unlock('OtherPass456!', OTHER_SALT);
+    await addTantrum();
+    await unlock('TestPass123!', SALT);
+    await addTantrum();
+
+    const report = await runIntegrityScan();
+
+    expect(report.tables.behaviorEvents).toEqual({ scanned: 2, verified: 1, quarantined: 0, unattributed: 1 });
+    expect(await db.behaviorEvents.count()).toBe(2);
+  });
+});
@@ -0,0 +1,70 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { addBehaviorEvent, addSessionNote, db, refreshSearchIndex, searchSessionHistory } from './db';
+import { tokenizeForSearch } from './searchTokens';
+import { useEncryptionStore } from '../stores/encryptionStore';
+
+const PASSWORD = 'TestPass123!';
+const SALT = 'U3RhdGljU2FsdDEyMw==';
+
+async function addSession(clientId: string, startTime: Date): Promise<number> {
+  return db.sessions.add({ clientId, clientName: clientId, status: 'in-progress', startTime, createdAt: startTime, updatedAt: startTime }) as Promise<number>;
+}
+
+async function addElopement(sessionId: number, timestamp: Date, antecedent: string) {
+  return addBehaviorEvent({ sessionId, behaviorType: 'elopement', antecedent, count: 1, timestamp, createdAt: timestamp, synced: true });
+}
+
+describe('encrypted history search', () => {
+  beforeEach(async () => {
+    useEncryptionStore.getState().clear();
+    await Promise.all([db.keyring.clear(), db.sessions.clear(), db.behaviorEvents.clear(), db.sessionNotes.clear(), db.syncQueue.clear()]);
+    await useEncryptionStore.getState().initializeWithPassword(PASSWORD, SALT);
+  });
+
+  it('normalizes words the same way for records and queries', () => {
+    expect(tokenizeForSearch('Every elopement after Transitions, café')).toEqual(['elopement', 'after', 'transition', 'cafe']);
+  });
+
+  it('finds records containing every query word without storing the words', async () => {
+    const early = await addSession('learner-a', new Date('2026-01-05T14:00:00.000Z'));
+    const late = await addSession('learner-a', new Date('2026-01-19T14:00:00.000Z'));
+    const other = await addSession('learner-b', new Date('2026-01-19T14:00:00.000Z'));
+    await addElopement(early, new Date('2026-01-05T14:10:00.000Z'), 'transition to table work');
+    await addElopement(late, new Date('2026-01-19T14:20:00.000Z'), 'after transitions between rooms');
+    await addElopement(late, new Date('2026-01-19T14:30:00.000Z'), 'denied access to tablet');
+    await addElopement(other, new Date('2026-01-19T14:40:00.000Z'), 'transition to recess');
+    await addSessionNote({
+      sessionId: late,
+      section: 'summary',
+      content: 'Two elopements, both following transitions.',
+      isAutoGenerated: false,
+      editHistory: [],
+      createdAt: new Date('2026-01-19T15:00:00.000Z'),
+      updatedAt: new Date('2026-01-19T15:00:00.000Z'),
+      synced: true,
+    });
+
+    const results = await searchSessionHistory('every elopement after transitions', { clientIds: ['learner-a'] });
+
+    expect(results.map((result) => [result.entityType, result.session.id])).toEqual([['behavior', late]]);
+    expect(results[0]).toMatchObject({ title: 'elopement', excerpt: 'after transitions between rooms' });
+    expect((await searchSessionHistory('elopement transition', { clientIds: ['learner-a'] })).map((result) => result.entityType))
+      .toEqual(['note', 'behavior', 'behavior']);
+    expect(JSON.stringify(await db.behaviorEvents.toArray())).not.toMatch(/elopement|transition/);
+  });
+
+  it('re-indexes rows after the signing key is rotated', async () => {
+    const sessionId = await addSession('learner-a', new Date('2026-01-05T14:00:00.000Z'));
+    const id = await addElopement(sessionId, new Date('2026-01-05T14:10:00.000Z'), 'transition to table work');
+    await db.behaviorEvents.update(id, { searchTokens: undefined, searchKeyId: undefined });
+    expect(await searchSessionHistory('transition')).toEqual([]);
+
+    expect(await refreshSearchIndex()).toBe(1);
+    expect(await searchSessionHistory('transition')).toHaveLength(1);
+
+    await useEncryptionStore.getState().rotateDataKey();
+    await refreshSearchIndex();
+    expect((await searchSessionHistory('table transition')).map((result) => result.id)).toEqual([id]);
+    expect(await refreshSearchIndex()).toBe(0);
+  });
+});
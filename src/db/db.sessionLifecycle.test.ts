@@ -0,0 +1,85 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import {
+  addBehaviorEvent,
+  db,
+  endSession,
+  getActiveSessionForClient,
+  getSessionElapsedMs,
+  pauseSession,
+  resumeSession,
+  startSession,
+} from './db';
+import { useEncryptionStore } from '../stores/encryptionStore';
+
+describe('db session lifecycle', () => {
+  beforeEach(async () => {
+    await useEncryptionStore.getState().initializeWithPassword('TestPass123!', 'U3RhdGljU2FsdDEyMw==');
+    await db.sessions.clear();
+    await db.behaviorEvents.clear();
+  });
+
+  it('starts a session bound to the learner, location and service code', async () => {
+    const session = await startSession({
+      clientId: 'learner-1',
+      clientName: 'Alex B.',
+      location: 'Clinic',
+      serviceCode: '97153',
+    });
+
+    expect(session.id).toBeTypeOf('number');
+    expect(session.status).toBe('in-progress');
+
+    const active = await getActiveSessionForClient('learner-1');
+    expect(active?.id).toBe(session.id);
+    expect(active?.location).toBe('Clinic');
+    expect(active?.serviceCode).toBe('97153');
+    expect(await getActiveSessionForClient('learner-2')).toBeUndefined();
+  });
+
+  it('rejects a second in-progress session for the same learner', async () => {
+    await startSession({ clientId: 'learner-1', clientName: 'Alex B.' });
+    await expect(startSession({ clientId: 'learner-1', clientName: 'Alex B.' })).rejects.toThrow('already in progress');
+  });
+
+  it('excludes paused time from the elapsed session time', async () => {
+    const session = await startSession({ clientId: 'learner-1', clientName: 'Alex B.' });
+    const start = session.startTime.getTime();
+
+    expect(getSessionElapsedMs(session, new Date(start + 60_000))).toBe(60_000);
+
+    const paused = await pauseSession(session.id!);
+    expect(paused.pausedAt).toBeInstanceOf(Date);
+
+    const resumed = await resumeSession(session.id!);
+    expect(resumed.pausedAt).toBeUndefined();
+    expect(resumed.pausedDurationMs).toBeGreaterThanOrEqual(0);
+
+    const withPause = { ...resumed, pausedDurationMs: 30_000 };
+    expect(getSessionElapsedMs(withPause, new Date(start + 60_000))).toBe(30_000);
+  });
+
+  it('freezes clinical data once the session is completed', async () => {
+    const session = await startSession({ clientId: 'learner-1', clientName: 'Alex B.' });
+    const now = new Date();
+    await addBehaviorEvent({
+      sessionId: session.id!,
+      behaviorType: 'tantrum',
+      timestamp: now,
+      createdAt: now,
+      synced: false,
+    });
+
+    const completed = await endSession(session.id!);
+    expect(completed.status).toBe('completed');
+    expect(completed.endTime).toBeInstanceOf(Date);
+    expect(await getActiveSessionForClient('learner-1')).toBeUndefined();
+
+    await expect(addBehaviorEvent({
+      sessionId: session.id!,
+      behaviorType: 'tantrum',
+      timestamp: now,
+      createdAt: now,
+      synced: false,
+    })).rejects.toThrow('completed');
+  });
+});
@@ -0,0 +1,130 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import {
+  addBehaviorEvent,
+  addSessionNote,
+  countOpenSyncConflicts,
+  db,
+  getOpenSyncConflicts,
+  getUnsyncedBehaviorEvents,
+  getUnsyncedSessionNotes,
+  markBehaviorEventSynced,
+  mergeFieldsLastWriterWins,
+  reconcileSyncConflict,
+  resolveSyncConflict,
+  updateBehaviorEventIntervention,
+} from './db';
+import { useEncryptionStore } from '../stores/encryptionStore';
+import type { SyncConflict } from '../types/sync';
+
+function conflictFor(id: string, entityType: SyncConflict['entityType'], data: Record<string, unknown>): SyncConflict {
+  return {
+    id,
+    entityType,
+    clientRevision: 1,
+    serverRevision: 2,
+    serverDocument: {
+      id,
+      entityType,
+      sessionId: 1,
+      orgId: 'org-1',
+      syncedBy: 'user-2',
+      syncedAt: new Date().toISOString(),
+      revision: 2,
+      data,
+    },
+  };
+}
+
+describe('db sync conflicts', () => {
+  beforeEach(async () => {
+    await useEncryptionStore.getState().initializeWithPassword('TestPass123!', 'U3RhdGljU2FsdDEyMw==');
+    await Promise.all([
+      db.behaviorEvents.clear(),
+      db.sessionNotes.clear(),
+      db.syncConflicts.clear(),
+    ]);
+  });
+
+  it('merges fields by last writer, preferring the server on ties', () => {
+    const createdAt = new Date('2026-02-05T14:00:00.000Z');
+    const merged = mergeFieldsLastWriterWins(
+      { intervention: 'Block', count: 1, fieldUpdatedAt: { intervention: '2026-02-05T15:00:00.000Z' } },
+      createdAt,
+      { intervention: 'Redirect', count: 3, fieldUpdatedAt: { intervention: '2026-02-05T14:30:00.000Z' } },
+      createdAt,
+    );
+
+    expect(merged.intervention).toBe('Block');
+    expect(merged.count).toBe(3);
+    expect(merged.fieldUpdatedAt?.intervention).toBe('2026-02-05T15:00:00.000Z');
+  });
+
+  it('re-queues edited behavior events and merges them against a newer server copy', async () => {
+    const createdAt = new Date('2026-02-05T14:00:00.000Z');
+    const id = await addBehaviorEvent({
+      sessionId: 1,
+      behaviorType: 'tantrum',
+      count: 1,
+      timestamp: createdAt,
+      createdAt,
+      synced: false,
+    });
+    await markBehaviorEventSynced(id, `behavior-${id}`, 1);
+
+    await updateBehaviorEventIntervention(id, 'FCR');
+    const [pending] = await getUnsyncedBehaviorEvents();
+    expect(pending.intervention).toBe('FCR');
+    expect(pending.revision).toBe(1);
+
+    const outcome = await reconcileSyncConflict(conflictFor(`behavior-${id}`, 'behavior', {
+      behaviorType: 'tantrum',
+      count: 4,
+      intervention: 'Block',
+      createdAt,
+      fieldUpdatedAt: { count: '2026-02-05T14:10:00.000Z' },
+    }), id);
+
+    expect(outcome).toBe('merged');
+    const [merged] = await getUnsyncedBehaviorEvents();
+    expect(merged.intervention).toBe('FCR');
+    expect(merged.count).toBe(4);
+    expect(merged.revision).toBe(2);
+  });
+
+  it('parks note conflicts for manual review and withholds them from sync', async () => {
+    const now = new Date();
+    const id = await addSessionNote({
+      sessionId: 1,
+      section: 'summary',
+      content: 'Local summary',
+      isAutoGenerated: false,
+      editHistory: [],
+      createdAt: now,
+      updatedAt: now,
+      synced: false,
+    });
+
+    const outcome = await reconcileSyncConflict(conflictFor(`note-${id}`, 'note', {
+      section: 'summary',
+      content: 'Server summary',
+      isAutoGenerated: false,
+      editHistory: [],
+      createdAt: now,
+      updatedAt: now,
+    }), id);
+
+    expect(outcome).toBe('needs-review');
+    expect(await countOpenSyncConflicts()).toBe(1);
+    expect(await getUnsyncedSessionNotes()).toHaveLength(0);
+
+    const [conflict] = await getOpenSyncConflicts();
+    expect(conflict.local?.content).toBe('Local summary');
+    expect(conflict.server.content).toBe('Server summary');
+
+    await resolveSyncConflict(conflict.id, 'local');
+    expect(await countOpenSyncConflicts()).toBe(0);
+    const [requeued] = await getUnsyncedSessionNotes();
+    expect(requeued.content).toBe('Local summary');
+    expect(requeued.revision).toBe(2);
+  });
+});
@@ -0,0 +1,168 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import {
+  addBehaviorEvent,
+  buildSyncDocument,
+  completeSyncQueueItem,
+  db,
+  deleteBehaviorEvent,
+  failSyncQueueItem,
+  getDueSyncQueueItems,
+  getSyncRetryDelayMs,
+  getUnsyncedCount,
+  MAX_SYNC_ATTEMPTS,
+  mergePulledDocuments,
+  updateBehaviorEventIntervention,
+} from './db';
+import { useEncryptionStore } from '../stores/encryptionStore';
+
+async function addTantrum(): Promise<number> {
+  const createdAt = new Date('2026-02-05T14:00:00.000Z');
+  return addBehaviorEvent({
+    sessionId: 1,
+    behaviorType: 'tantrum',
+    count: 1,
+    timestamp: createdAt,
+    createdAt,
+    synced: false,
+  });
+}
+
+async function uuidOf(id: number): Promise<string | undefined> {
+  return (await db.behaviorEvents.get(id))?.uuid;
+}
+
+async function acknowledge(id: number, revision: number): Promise<void> {
+  const [item] = await db.syncQueue.where('entityId').equals(id).toArray();
+  await completeSyncQueueItem(item, await buildSyncDocument(item), revision);
+}
+
+describe('db sync queue', () => {
+  beforeEach(async () => {
+    await useEncryptionStore.getState().initializeWithPassword('TestPass123!', 'U3RhdGljU2FsdDEyMw==');
+    await Promise.all([
+      db.sessions.clear(),
+      db.behaviorEvents.clear(),
+      db.syncQueue.clear(),
+      db.syncConflicts.clear(),
+    ]);
+  });
+
+  it('queues creates and coalesces corrections made before the first upload', async () => {
+    const id = await addTantrum();
+    await updateBehaviorEventIntervention(id, 'Block');
+
+    const items = await db.syncQueue.toArray();
+    expect(items).toHaveLength(1);
+    expect(items[0]).toMatchObject({ entityType: 'behavior', entityId: id, action: 'create', status: 'pending' });
+
+    const document = await buildSyncDocument(items[0]);
+    expect(document.id).toBe(await uuidOf(id));
+    expect(document.data.uuid).toBe(document.id);
+    expect(document.data.intervention).toBe('Block');
+    expect(items[0].payload).not.toContain('tantrum');
+  });
+
+  it('queues corrections to uploaded rows as updates at the acknowledged revision', async () => {
+    const id = await addTantrum();
+    await acknowledge(id, 1);
+    expect(await db.syncQueue.count()).toBe(0);
+    expect((await db.behaviorEvents.get(id))?.synced).toBe(true);
+
+    await updateBehaviorEventIntervention(id, 'Redirect');
+
+    const [item] = await db.syncQueue.toArray();
+    expect(item.action).toBe('update');
+    const document = await buildSyncDocument(item);
+    expect(document).toMatchObject({ id: await uuidOf(id), revision: 1 });
+  });
+
+  it('sends tombstones for uploaded rows and drops never-uploaded ones', async () => {
+    const localOnly = await addTantrum();
+    await deleteBehaviorEvent(localOnly);
+    expect(await db.syncQueue.count()).toBe(0);
+
+    const uploaded = await addTantrum();
+    const uploadedUuid = await uuidOf(uploaded);
+    await acknowledge(uploaded, 3);
+    await deleteBehaviorEvent(uploaded);
+
+    expect(await db.behaviorEvents.get(uploaded)).toBeUndefined();
+    const [item] = await db.syncQueue.toArray();
+    expect(item.action).toBe('delete');
+    expect(await buildSyncDocument(item)).toMatchObject({
+      id: uploadedUuid,
+      revision: 3,
+      deleted: true,
+      data: {},
+    });
+  });
+
+  it('keeps a newer coalesced change queued when an older upload is acknowledged', async () => {
+    const id = await addTantrum();
+    const [sent] = await db.syncQueue.toArray();
+    const document = await buildSyncDocument(sent);
+
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    await updateBehaviorEventIntervention(id, 'Block');
+    await completeSyncQueueItem(sent, document, 1);
+
+    const row = await db.behaviorEvents.get(id);
+    expect(row).toMatchObject({ synced: false, revision: 1, remoteId: row?.uuid });
+    expect(await getUnsyncedCount()).toBe(1);
+  });
+
+  it('backs off exponentially and parks items that keep failing', async () => {
+    await addTantrum();
+    const now = new Date('2026-02-05T15:00:00.000Z');
+
+    expect(getSyncRetryDelayMs(1)).toBe(30_000);
+    expect(getSyncRetryDelayMs(3)).toBe(120_000);
+    expect(getSyncRetryDelayMs(20)).toBe(60 * 60 * 1000);
+
+    let [item] = await db.syncQueue.toArray();
+    await failSyncQueueItem(item, 'Sync API error: 503', now);
+    [item] = await db.syncQueue.toArray();
+    expect(item.attempts).toBe(1);
+    expect(item.nextAttemptAt?.getTime()).toBe(now.getTime() + 30_000);
+    expect(await getDueSyncQueueItems(now)).toHaveLength(0);
+    expect(await getDueSyncQueueItems(new Date(now.getTime() + 30_000))).toHaveLength(1);
+
+    for (let attempt = 1; attempt < MAX_SYNC_ATTEMPTS; attempt++) {
+      [item] = await db.syncQueue.toArray();
+      await failSyncQueueItem(item, 'Sync API error: 503', now);
+    }
+
+    [item] = await db.syncQueue.toArray();
+    expect(item.status).toBe('parked');
+    expect(item.parkedReason).toContain('Sync API error: 503');
+    expect(await getUnsyncedCount()).toBe(0);
+  });
+
+  it('matches a pulled copy of our own record by uuid instead of duplicating it', async () => {
+    const id = await addTantrum();
+    const uuid = (await uuidOf(id))!;
+
+    await mergePulledDocuments([{
+      id: uuid,
+      sessionId: 1,
+      entityType: 'behavior',
+      clientId: 'learner-1',
+      orgId: 'org-1',
+      syncedBy: 'user-1',
+      syncedAt: '2026-02-05T14:05:00.000Z',
+      revision: 1,
+      data: {
+        id,
+        uuid,
+        sessionId: 1,
+        behaviorType: 'tantrum',
+        count: 1,
+        timestamp: '2026-02-05T14:00:00.000Z',
+        createdAt: '2026-02-05T14:00:00.000Z',
+      },
+    }]);
+
+    expect(await db.behaviorEvents.count()).toBe(1);
+    expect(await db.behaviorEvents.get(id)).toMatchObject({ uuid, remoteId: uuid, revision: 1 });
+  });
+});
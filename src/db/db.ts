@@ -1,8 +1,15 @@
 import Dexie, { type EntityTable } from 'dexie';
-import type { EncryptedData } from '../services/encryptionService';
+import { decryptJson, encryptJson, type DataKeys, type EncryptedData, type WrappedDataKeys } from '../services/encryptionService';
+import { signData, verifySignature } from '../services/integrityService';
+import type { PulledDocument, SyncableDocument, SyncConflict } from '../types/sync';
+import { LruCache } from './lruCache';
+import { tokenizeForSearch } from './searchTokens';
 import { useEncryptionStore } from '../stores/encryptionStore';
 
 // Types for our data models
+/** ISO timestamps keyed by field name, recording when each field was last edited. */
+export type FieldTimestamps = Record<string, string>;
+
 export interface Session {
     id?: number;
     clientId: string;
@@ -11,29 +18,40 @@ export interface Session {
     endTime?: Date;
     status: 'in-progress' | 'completed';
     location?: string;
+    serviceCode?: string; // e.g., CPT 97153
+    pausedAt?: Date; // set while the session clock is paused
+    pausedDurationMs?: number; // accumulated paused time, excluded from session length
+    remoteKey?: string; // `${syncedBy}:${sessionId}` for sessions reconstructed from pulled records
     createdAt: Date;
     updatedAt: Date;
 }
 
 export interface BehaviorEvent {
     id?: number;
+    uuid?: string; // client-generated at creation; stable sync id across devices
     sessionId: number;
     behaviorType: string; // e.g., 'elopement', 'tantrum', 'aggression', 'SIB'
     count?: number;
     duration?: number; // in seconds
+    latency?: number; // seconds from the cue (startedAt) to the response (endedAt)
+    startedAt?: Date; // exact start of a timed measurement
+    endedAt?: Date;
     antecedent?: string;
     consequent?: string;
     functionGuess?: 'escape' | 'tangible' | 'attention' | 'automatic' | 'unsure';
     intervention?: string;
     intensity?: 1 | 2 | 3; // Low, Moderate, High
     notes?: string;
+    fieldUpdatedAt?: FieldTimestamps; // per-field edit times for last-writer-wins merges
     timestamp: Date;
     createdAt: Date;
     synced: boolean;
+    revision?: number; // server revision this copy is based on
 }
 
 export interface SkillTrial {
     id?: number;
+    uuid?: string; // client-generated at creation; stable sync id across devices
     sessionId: number;
     skillName: string;
     target: string;
@@ -42,13 +60,64 @@ export interface SkillTrial {
     reinforcementDelivered: boolean;
     reinforcementType?: string;
     notes?: string;
+    fieldUpdatedAt?: FieldTimestamps;
+    timestamp: Date;
+    createdAt: Date;
+    synced: boolean;
+    revision?: number;
+}
+
+/** Partial-interval, whole-interval or momentary time sampling. */
+export type IntervalMethod = 'partial-interval' | 'whole-interval' | 'momentary-time-sampling';
+
+/**
+ * One behavior target sampled in fixed intervals. `intervals` holds one score per interval since
+ * `timestamp`: true when the behavior was scored as occurring, null when the interval was not scored.
+ */
+export interface IntervalRecording {
+    id?: number;
+    uuid?: string; // client-generated at creation; stable sync id across devices
+    sessionId: number;
+    behaviorType: string;
+    method: IntervalMethod;
+    intervalSeconds: number;
+    intervals: (boolean | null)[];
+    notes?: string;
+    fieldUpdatedAt?: FieldTimestamps;
+    timestamp: Date; // start of the first interval
+    createdAt: Date;
+    synced: boolean;
+    revision?: number;
+}
+
+/** Forward, backward or total task chaining. */
+export type ChainingMethod = 'forward' | 'backward' | 'total-task';
+
+export interface TaskAnalysisStep {
+    step: string;
+    /** Prompt level the step needed; null when the learner did not perform it (staff completed it). */
+    promptLevel: SkillTrial['promptLevel'] | null;
+}
+
+/** One run through a task analysis (e.g. handwashing), scored step by step in task order. */
+export interface TaskAnalysisRun {
+    id?: number;
+    uuid?: string; // client-generated at creation; stable sync id across devices
+    sessionId: number;
+    taskName: string;
+    chainingMethod: ChainingMethod;
+    steps: TaskAnalysisStep[];
+    notes?: string;
+    fieldUpdatedAt?: FieldTimestamps;
     timestamp: Date;
     createdAt: Date;
     synced: boolean;
+    revision?: number;
 }
 
 export interface SessionNote {
     id?: number;
+    uuid?: string; // client-generated at creation; stable sync id across devices
     sessionId: number;
     section: string; // e.g., 'summary', 'behaviors', 'skills', 'recommendations'
     content: string;
@@ -57,10 +126,12 @@ export interface SessionNote {
     createdAt: Date;
     updatedAt: Date;
     synced: boolean;
+    revision?: number;
 }
 
 export interface Incident {
     id?: number;
+    uuid?: string; // client-generated at creation; stable sync id across devices
     sessionId: number;
     incidentType: 'injury' | 'restraint' | 'property-destruction' | 'elopement-serious' | 'other';
     description: string;
@@ -73,17 +144,161 @@ export interface Incident {
     timestamp: Date;
     createdAt: Date;
     synced: boolean;
+    revision?: number;
 }
 
 export interface SyncQueueItem {
     id?: number;
-    entityType: 'behavior' | 'skillTrial' | 'note' | 'incident' | 'session';
+    entityType: 'behavior' | 'skillTrial' | 'note' | 'incident' | 'interval' | 'taskAnalysis' | 'session';
     entityId: number;
     action: 'create' | 'update' | 'delete';
-    payload: string; // JSON stringified data
+    payload: string; // JSON stringified metadata only (e.g. tombstone target); clinical data stays in the encrypted row
     attempts: number;
     lastAttempt?: Date;
     createdAt: Date;
+    updatedAt?: Date; // bumped whenever a newer change is coalesced into the item
+    status?: 'pending' | 'parked';
+    nextAttemptAt?: Date; // backoff: the item is not retried before this time
+    lastError?: string;
+    parkedReason?: string; // why the item was taken out of rotation
+}
+
+/** Queue payload for deletes: enough to address the server copy once the row itself is gone. */
+interface TombstonePayload {
+    remoteId: string;
+    revision: number;
+    sessionId: number;
+}
+
+/**
+ * A server copy that could not be merged automatically (notes and incidents).
+ * The server payload is PHI, so it is stored encrypted like the entity rows.
+ */
+export interface SyncConflictRow {
+    id?: number;
+    entityType: SyncEntityType;
+    localId: number;
+    remoteId: string;
+    serverRevision: number;
+    encryptedServerData: EncryptedData;
+    signature: string;
+    serverDeleted?: boolean; // the server copy is a tombstone
+    status: 'open' | 'resolved';
+    resolution?: 'local' | 'server';
+    createdAt: Date;
+    resolvedAt?: Date;
+}
+
+export interface SyncStateEntry {
+    key: string;
+    value: string;
+    updatedAt: Date;
+}
+
+/**
+ * One user's data keys on this device, wrapped by a key derived from their password.
+ * Rows are encrypted under the data keys, so a password change only re-wraps this entry.
+ */
+export interface KeyringEntry {
+    id: string;
+    salt: string; // encryption salt the wrapping key was derived with
+    wrapped: WrappedDataKeys;
+    retired?: WrappedDataKeys; // previous keys, kept until their rows are re-encrypted
+    origin: 'random' | 'password'; // 'password': adopted from rows written before the keyring existed
+    keyVersion: number;
+    escrow?: KeyringEscrow;
+    recoveryRequest?: KeyringRecoveryRequest;
+    pin?: KeyringPin;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+/** The current data keys encrypted to the org recovery key, so a manager can restore them after a password reset. */
+export interface KeyringEscrow {
+    keys: WrappedDataKeys;
+    recoveryKeyVersion: number;
+    recoveryPublicKey: JsonWebKey;
+}
+
+/** A pending recovery: the one-time private key that receives the data keys, encrypted under the new password's account key. */
+export interface KeyringRecoveryRequest {
+    encryptedPrivateKey: EncryptedData;
+    requestedAt: Date;
+}
+
+/**
+ * The data keys wrapped again under a short device PIN, so an idle-locked device reopens without the
+ * password. The password and the account key it derives are never stored.
+ */
+export interface KeyringPin {
+    salt: string;
+    wrapped: WrappedDataKeys;
+    retired?: WrappedDataKeys;
+    keyVersion: number; // the entry's keyVersion when set; a PIN for replaced keys no longer opens
+    failedAttempts: number;
+}
+
+/** Why the integrity scan took a row out of its table. */
+export type IntegrityFailure = 'malformed' | 'missing-signature' | 'signature-mismatch' | 'undecryptable';
+
+export type IntegrityTableName = EncryptedTableName | 'syncConflicts' | 'behaviorTimers' | 'targetCatalogs';
+
+/**
+ * A row the integrity scan moved out of its table, or a pulled document that never reached one. The
+ * original row or document is kept as it was, ciphertext and signature included, so the failure can still be examined.
+ */
+export interface QuarantinedRow {
+    id?: number;
+    tableName: IntegrityTableName;
+    rowId: number; // 0 for a pulled document
+    uuid?: string;
+    sessionId?: number;
+    remoteId?: string; // set when the server still holds a copy
+    reason: IntegrityFailure;
+    row: Record<string, unknown>;
+    recordedAt: Date; // the row's own timestamp
+    quarantinedAt: Date;
+}
+
+export interface IntegrityTableSummary {
+    scanned: number;
+    verified: number;
+    quarantined: number; // moved by this scan
+    unattributed: number; // does not open with this user's keys and another user shares the device
+}
+
+export type QuarantineReportEntry = Omit<QuarantinedRow, 'row' | 'recordedAt' | 'quarantinedAt'> & {
+    recordedAt: string;
+    quarantinedAt: string;
+};
+
+/** Result of `runIntegrityScan`. Row metadata only, no clinical content, so it can be exported as-is. */
+export interface IntegrityReport {
+    generatedAt: string;
+    tables: Record<IntegrityTableName, IntegrityTableSummary>;
+    /** Everything in quarantine, including rows moved by earlier scans. */
+    quarantined: QuarantineReportEntry[];
+}
+
+/** Rows removed from this device by a retention purge or a wipe. */
+export interface LocalPurgeSummary {
+    records: number;
+    sessions: number;
+    chatMessages: number;
+    conflicts: number;
+}
+
+/**
+ * A purge or wipe waiting to be reported to the server audit log. Counts only, no clinical
+ * content, so it is stored in plaintext and survives the wipe it records.
+ */
+export interface DeviceAuditEvent {
+    id?: number;
+    uuid: string;
+    action: 'purge_local_data' | 'wipe_device';
+    userId?: string;
+    occurredAt: Date;
+    details: Record<string, number>;
 }
 
 export interface ChatMessage {
@@ -96,6 +311,27 @@ export interface ChatMessage {
     timestamp: Date;
 }
 
+/**
+ * A duration or latency timer. Kept on the device (encrypted) so it survives a reload; a stopped
+ * timer stays until the behavior event it measured is confirmed and written, or it is discarded.
+ */
+export interface BehaviorTimer {
+    id?: number;
+    sessionId: number;
+    kind: 'duration' | 'latency';
+    label: string; // the behavior, or for latency the response being timed
+    startedAt: Date;
+    endedAt?: Date; // set once stopped
+}
+
+export interface EncryptedBehaviorTimer {
+    id?: number;
+    sessionId: number;
+    timestamp: Date; // the start time
+    encryptedData: EncryptedData;
+    signature?: string;
+}
+
 export interface Learner {
     id: string;
     orgId: string;
@@ -108,26 +344,114 @@ export interface Learner {
     createdAt: string;
 }
 
+/** A target is mastered at `percentCorrect` independent correct or better in `consecutiveSessions` sessions in a row. */
+export interface MasteryCriterion {
+    percentCorrect: number;
+    consecutiveSessions: number;
+    /** Sessions with fewer trials of a target do not count toward its mastery. */
+    minTrialsPerSession: number;
+}
+
+/** A skill acquisition program a BCBA wrote for one learner, as served by `/api/programs`. */
+export interface SkillProgram {
+    id: string;
+    orgId: string;
+    learnerId: string;
+    /** Recorded as the skill name of the program's trials. */
+    name: string;
+    /** Targets in teaching order. */
+    targets: string[];
+    /** Prompt levels in use, least intrusive first. */
+    promptHierarchy: SkillTrial['promptLevel'][];
+    masteryCriterion: MasteryCriterion;
+    /** A target without a new best score in this many sessions is flagged as stalled. */
+    stallAfterSessions: number;
+    status: 'active' | 'archived';
+    createdBy: string;
+    createdAt: string;
+    updatedAt: string;
+}
+
+/** A behavior as the learner's team defines it, with the words staff use for it. */
+export interface BehaviorDefinition {
+    name: string;
+    /** The operational definition. */
+    definition?: string;
+    synonyms: string[];
+}
+
+export interface SkillTargetList {
+    skill: string;
+    targets: string[];
+}
+
+/** The behaviors, skill targets and reinforcers defined for one learner, as served by `/api/target-catalog`. */
+export interface TargetCatalog {
+    learnerId: string;
+    behaviors: BehaviorDefinition[];
+    skills: SkillTargetList[];
+    reinforcers: string[];
+    updatedAt: string | null;
+}
+
+/** The last catalog fetched for a learner, kept so the parser has it offline. */
+export interface EncryptedTargetCatalog {
+    id?: number;
+    learnerId: string;
+    timestamp: Date; // when it was fetched
+    encryptedData: EncryptedData;
+    signature?: string;
+}
+
 // Encrypted Entity Types
 export interface EncryptedEntityRow {
     id?: number;
+    uuid?: string; // plaintext so rows can be matched across devices without decrypting
     sessionId: number;
     timestamp: Date;
     createdAt: Date;
     synced: boolean;
     encryptedData: EncryptedData; // { ciphertext, iv }
     signature?: string;
+    remoteId?: string; // Cosmos document id once the row has been pushed or pulled
+    revision?: number; // server revision the local ciphertext is based on
+    searchTokens?: string[]; // blind (keyed HMAC) tokens of searchable words, never the words themselves
+    searchKeyId?: string; // identifies the signing key the tokens were made with
 }
 
 export type EncryptedBehaviorEvent = EncryptedEntityRow;
 export type EncryptedSkillTrial = EncryptedEntityRow;
 export type EncryptedSessionNote = EncryptedEntityRow;
 export type EncryptedIncident = EncryptedEntityRow;
+export type EncryptedIntervalRecording = EncryptedEntityRow;
+export type EncryptedTaskAnalysisRun = EncryptedEntityRow;
+
+/** Common shape of the clinical entities stored in encrypted tables. */
+export interface EncryptedEntityBase {
+    id?: number;
+    uuid?: string;
+    sessionId: number;
+    createdAt: Date;
+    synced: boolean;
+    revision?: number;
+}
+
+/** Plaintext columns of an encrypted row: indexes and sync metadata. */
+const PLAINTEXT_ENTITY_FIELDS = new Set(['id', 'uuid', 'sessionId', 'timestamp', 'createdAt', 'updatedAt', 'synced', 'revision']);
 
-type BehaviorSensitive = Omit<BehaviorEvent, 'id' | 'sessionId' | 'timestamp' | 'createdAt' | 'synced'>;
-type SkillTrialSensitive = Omit<SkillTrial, 'id' | 'sessionId' | 'timestamp' | 'createdAt' | 'synced'>;
-type SessionNoteSensitive = Omit<SessionNote, 'id' | 'sessionId' | 'createdAt' | 'updatedAt' | 'synced'>;
-type IncidentSensitive = Omit<Incident, 'id' | 'sessionId' | 'timestamp' | 'createdAt' | 'synced'>;
+/** The fields of an entity that are encrypted and signed. */
+export type SensitiveFields<T> = Omit<T, 'id' | 'uuid' | 'sessionId' | 'timestamp' | 'createdAt' | 'updatedAt' | 'synced' | 'revision'>;
+
+export type SyncEntityType = SyncableDocument['entityType'];
+export type EncryptedTableName = 'behaviorEvents' | 'skillTrials' | 'sessionNotes' | 'incidents' | 'intervalRecordings' | 'taskAnalyses';
+
+/** The clinical tables of schema versions 3 to 6, for their upgrades. Later code uses `CLINICAL_TABLES`. */
+const SYNC_ID_PREFIXES: [EncryptedTableName, SyncEntityType][] = [
+    ['behaviorEvents', 'behavior'],
+    ['skillTrials', 'skillTrial'],
+    ['sessionNotes', 'note'],
+    ['incidents', 'incident']
+];
 
 // Create the database
 /**
@@ -140,8 +464,17 @@ class SessionCoPilotDB extends Dexie {
     skillTrials!: EntityTable<EncryptedEntityRow, 'id'>;
     sessionNotes!: EntityTable<EncryptedEntityRow, 'id'>;
     incidents!: EntityTable<EncryptedEntityRow, 'id'>;
+    intervalRecordings!: EntityTable<EncryptedEntityRow, 'id'>;
+    taskAnalyses!: EntityTable<EncryptedEntityRow, 'id'>;
+    behaviorTimers!: EntityTable<EncryptedBehaviorTimer, 'id'>;
+    targetCatalogs!: EntityTable<EncryptedTargetCatalog, 'id'>;
     syncQueue!: EntityTable<SyncQueueItem, 'id'>;
     chatMessages!: EntityTable<ChatMessage, 'id'>;
+    syncState!: EntityTable<SyncStateEntry, 'key'>;
+    syncConflicts!: EntityTable<SyncConflictRow, 'id'>;
+    keyring!: EntityTable<KeyringEntry, 'id'>;
+    quarantine!: EntityTable<QuarantinedRow, 'id'>;
+    deviceAudit!: EntityTable<DeviceAuditEvent, 'id'>;
 
     constructor() {
         super('SessionCoPilotDB');
@@ -171,6 +504,136 @@ class SessionCoPilotDB extends Dexie {
             await transaction.table('sessionNotes').clear();
             await transaction.table('incidents').clear();
         });
+
+        // Pull support: track which Cosmos document each local row corresponds to.
+        this.version(3).stores({
+            sessions: '++id, clientId, status, startTime, remoteKey',
+            behaviorEvents: '++id, sessionId, synced, timestamp, remoteId',
+            skillTrials: '++id, sessionId, synced, timestamp, remoteId',
+            sessionNotes: '++id, sessionId, synced, timestamp, remoteId',
+            incidents: '++id, sessionId, synced, timestamp, remoteId',
+            syncQueue: '++id, entityType, entityId, action, createdAt',
+            chatMessages: '++id, sessionId, role, timestamp',
+            syncState: 'key'
+        }).upgrade(async (transaction) => {
+            // Rows pushed before v3 used `${entityType}-${id}` as their document id.
+            for (const [tableName, prefix] of SYNC_ID_PREFIXES) {
+                await transaction.table(tableName).toCollection().modify((row: EncryptedEntityRow) => {
+                    if (row.synced && !row.remoteId && typeof row.id === 'number') {
+                        row.remoteId = `${prefix}-${row.id}`;
+                    }
+                });
+            }
+        });
+
+        // Conflict resolution: server copies awaiting manual review.
+        this.version(4).stores({
+            syncConflicts: '++id, entityType, localId, status'
+        });
+
+        // Queue-driven sync: every local change is queued; failed items back off, poison items are parked.
+        this.version(5).stores({
+            syncQueue: '++id, entityType, entityId, action, createdAt, status, nextAttemptAt'
+        }).upgrade(async (transaction) => {
+            const queue = transaction.table('syncQueue');
+            await queue.toCollection().modify((item: SyncQueueItem) => {
+                item.status = item.status ?? 'pending';
+                item.updatedAt = item.updatedAt ?? item.createdAt;
+            });
+
+            // Rows written before v5 were only tracked by their `synced` flag
+            const now = new Date();
+            for (const [tableName, entityType] of SYNC_ID_PREFIXES) {
+                const rows = await transaction.table(tableName).filter((row: EncryptedEntityRow) => !row.synced).toArray() as EncryptedEntityRow[];
+                for (const row of rows) {
+                    if (typeof row.id !== 'number') continue;
+                    const queued = await queue.where('entityId').equals(row.id)
+                        .filter((item: SyncQueueItem) => item.entityType === entityType)
+                        .count();
+                    if (queued === 0) {
+                        await queue.add({
+                            entityType,
+                            entityId: row.id,
+                            action: row.remoteId ? 'update' : 'create',
+                            payload: '{}',
+                            attempts: 0,
+                            createdAt: now,
+                            updatedAt: now,
+                            status: 'pending'
+                        } satisfies SyncQueueItem);
+                    }
+                }
+            }
+        });
+
+        // Stable ids: every clinical row gets a client-generated UUID used as its sync document id.
+        this.version(6).stores({
+            behaviorEvents: '++id, sessionId, synced, timestamp, remoteId, &uuid',
+            skillTrials: '++id, sessionId, synced, timestamp, remoteId, &uuid',
+            sessionNotes: '++id, sessionId, synced, timestamp, remoteId, &uuid',
+            incidents: '++id, sessionId, synced, timestamp, remoteId, &uuid'
+        }).upgrade(async (transaction) => {
+            // Rows already on the server keep their existing document id (remoteId)
+            for (const [tableName] of SYNC_ID_PREFIXES) {
+                await transaction.table(tableName).toCollection().modify((row: EncryptedEntityRow) => {
+                    if (!row.uuid) {
+                        row.uuid = crypto.randomUUID();
+                    }
+                });
+            }
+        });
+
+        // Key hierarchy: random data keys wrapped by the password-derived key, one entry per user.
+        this.version(7).stores({
+            keyring: 'id, salt'
+        });
+
+        // Integrity: rows that fail verification are moved aside instead of being skipped on read.
+        this.version(8).stores({
+            quarantine: '++id, tableName, rowId, quarantinedAt'
+        });
+
+        // Encrypted search: each row carries blind word tokens in a multi-entry index.
+        this.version(9).stores({
+            behaviorEvents: '++id, sessionId, synced, timestamp, remoteId, &uuid, *searchTokens',
+            skillTrials: '++id, sessionId, synced, timestamp, remoteId, &uuid, *searchTokens',
+            sessionNotes: '++id, sessionId, synced, timestamp, remoteId, &uuid, *searchTokens',
+            incidents: '++id, sessionId, synced, timestamp, remoteId, &uuid, *searchTokens'
+        });
+
+        // Retention: purges and wipes are queued here until the server audit log accepts them.
+        this.version(10).stores({
+            deviceAudit: '++id, occurredAt'
+        });
+
+        // Interval data collection: one encrypted row per behavior target sampled in a session.
+        this.version(11).stores({
+            intervalRecordings: '++id, sessionId, synced, timestamp, remoteId, &uuid, *searchTokens'
+        });
+
+        // Task analysis data collection: one encrypted row per run through a chained task.
+        this.version(12).stores({
+            taskAnalyses: '++id, sessionId, synced, timestamp, remoteId, &uuid, *searchTokens'
+        });
+
+        // Duration and latency timers running on this device; never synced.
+        this.version(13).stores({
+            behaviorTimers: '++id, sessionId'
+        });
+
+        // Learner target catalogs, cached from the server for offline parsing.
+        this.version(14).stores({
+            targetCatalogs: '++id, &learnerId'
+        });
+
+        // Device PINs wrap the data keys instead of encrypting the password secret; older PINs are dropped.
+        this.version(15).stores({}).upgrade(async (transaction) => {
+            await transaction.table('keyring').toCollection().modify((entry: KeyringEntry) => {
+                if (entry.pin && !entry.pin.wrapped) {
+                    delete entry.pin;
+                }
+            });
+        });
     }
 }
 
@@ -224,583 +687,1847 @@ function isEncryptedData(value: unknown): value is EncryptedData {
     );
 }
 
-export async function addBehaviorEvent(event: Omit<BehaviorEvent, 'id'>): Promise<number> {
-    const sensitive: BehaviorSensitive = {
-        behaviorType: event.behaviorType,
-        count: event.count,
-        duration: event.duration,
-        antecedent: event.antecedent,
-        consequent: event.consequent,
-        functionGuess: event.functionGuess,
-        intervention: event.intervention,
-        intensity: event.intensity,
-        notes: event.notes
-    };
+export interface StartSessionInput {
+    clientId: string;
+    clientName: string;
+    location?: string;
+    serviceCode?: string;
+}
 
-    const encryptedData = await encryptEntity(sensitive);
-    const signature = await signEncryptedData(encryptedData);
-    const id = await db.behaviorEvents.add({
-        sessionId: event.sessionId,
-        timestamp: event.timestamp,
-        createdAt: event.createdAt,
-        synced: event.synced,
-        encryptedData,
-        signature
-    });
-    if (typeof id !== 'number') {
-        throw new Error('Failed to create behavior event');
+/**
+ * Completed sessions are frozen: no clinical rows may be added or edited afterwards.
+ * Rows without a session record (legacy data) remain writable.
+ */
+async function assertSessionWritable(sessionId: number): Promise<void> {
+    const session = await db.sessions.get(sessionId);
+    if (session?.status === 'completed') {
+        throw new Error(`Session ${sessionId} is completed and can no longer be modified`);
     }
-    return id;
 }
 
-export async function updateBehaviorEventIntervention(id: number, intervention: string): Promise<void> {
-    requireEncryptionReadiness();
-    const row = await db.behaviorEvents.get(id);
-    if (!row) {
-        throw new Error(`Behavior event ${id} not found`);
+async function requireSession(sessionId: number): Promise<Session> {
+    const session = await db.sessions.get(sessionId);
+    if (!session) {
+        throw new Error(`Session ${sessionId} not found`);
     }
+    return session;
+}
 
-    const isValid = await verifyEncryptedData(row.encryptedData, assertSignature(row));
-    if (!isValid) {
-        throw new Error(`Data integrity check failed for behavior event ${id}`);
+/**
+ * Starts a new session for a learner. Only one session per learner may be in progress.
+ */
+export async function startSession(input: StartSessionInput): Promise<Session> {
+    const existing = await getActiveSessionForClient(input.clientId);
+    if (existing) {
+        throw new Error(`A session for ${input.clientName} is already in progress`);
     }
 
-    const sensitive = await decryptEntity<BehaviorSensitive>(row.encryptedData);
-    const updatedSensitive: BehaviorSensitive = {
-        ...sensitive,
-        intervention
-    };
-
-    const encryptedData = await encryptEntity(updatedSensitive);
-    const signature = await signEncryptedData(encryptedData);
-    await db.behaviorEvents.update(id, { encryptedData, signature });
-}
-
-export async function addSkillTrial(trial: Omit<SkillTrial, 'id'>): Promise<number> {
-    const sensitive: SkillTrialSensitive = {
-        skillName: trial.skillName,
-        target: trial.target,
-        promptLevel: trial.promptLevel,
-        response: trial.response,
-        reinforcementDelivered: trial.reinforcementDelivered,
-        reinforcementType: trial.reinforcementType,
-        notes: trial.notes
+    const now = new Date();
+    const session: Session = {
+        clientId: input.clientId,
+        clientName: input.clientName,
+        startTime: now,
+        status: 'in-progress',
+        location: input.location,
+        serviceCode: input.serviceCode,
+        pausedDurationMs: 0,
+        createdAt: now,
+        updatedAt: now
     };
-
-    const encryptedData = await encryptEntity(sensitive);
-    const signature = await signEncryptedData(encryptedData);
-    const id = await db.skillTrials.add({
-        sessionId: trial.sessionId,
-        timestamp: trial.timestamp,
-        createdAt: trial.createdAt,
-        synced: trial.synced,
-        encryptedData,
-        signature
-    });
+    const id = await db.sessions.add(session);
     if (typeof id !== 'number') {
-        throw new Error('Failed to create skill trial');
+        throw new Error('Failed to create session');
     }
-    return id;
+    return { ...session, id };
 }
 
-export async function addSessionNote(note: Omit<SessionNote, 'id'>): Promise<number> {
-    const sensitive: SessionNoteSensitive = {
-        section: note.section,
-        content: note.content,
-        isAutoGenerated: note.isAutoGenerated,
-        editHistory: note.editHistory
-    };
-
-    const encryptedData = await encryptEntity(sensitive);
-    const signature = await signEncryptedData(encryptedData);
-    const id = await db.sessionNotes.add({
-        sessionId: note.sessionId,
-        timestamp: note.updatedAt,
-        createdAt: note.createdAt,
-        synced: note.synced,
-        encryptedData,
-        signature
-    });
-    if (typeof id !== 'number') {
-        throw new Error('Failed to create session note');
+export async function pauseSession(sessionId: number): Promise<Session> {
+    const session = await requireSession(sessionId);
+    if (session.status === 'completed') {
+        throw new Error(`Session ${sessionId} is already completed`);
+    }
+    if (session.pausedAt) {
+        return session;
     }
-    return id;
-}
 
-export async function addIncident(incident: Omit<Incident, 'id'>): Promise<number> {
-    const sensitive: IncidentSensitive = {
-        incidentType: incident.incidentType,
-        description: incident.description,
-        staffInvolved: incident.staffInvolved,
-        actionsToken: incident.actionsToken,
-        witnesses: incident.witnesses,
-        injuries: incident.injuries,
-        parentNotified: incident.parentNotified,
-        supervisorNotified: incident.supervisorNotified
-    };
+    const now = new Date();
+    await db.sessions.update(sessionId, { pausedAt: now, updatedAt: now });
+    return { ...session, pausedAt: now, updatedAt: now };
+}
 
-    const encryptedData = await encryptEntity(sensitive);
-    const signature = await signEncryptedData(encryptedData);
-    const id = await db.incidents.add({
-        sessionId: incident.sessionId,
-        timestamp: incident.timestamp,
-        createdAt: incident.createdAt,
-        synced: incident.synced,
-        encryptedData,
-        signature
-    });
-    if (typeof id !== 'number') {
-        throw new Error('Failed to create incident');
+export async function resumeSession(sessionId: number): Promise<Session> {
+    const session = await requireSession(sessionId);
+    if (session.status === 'completed') {
+        throw new Error(`Session ${sessionId} is already completed`);
+    }
+    if (!session.pausedAt) {
+        return session;
     }
-    return id;
-}
 
-export async function getBehaviorEventsBySession(sessionId: number, limit = 500): Promise<BehaviorEvent[]> {
-    requireEncryptionReadiness();
-    const rows = await db.behaviorEvents.where('sessionId').equals(sessionId).reverse().limit(limit).toArray();
+    const now = new Date();
+    const pausedDurationMs = (session.pausedDurationMs ?? 0) + (now.getTime() - session.pausedAt.getTime());
+    await db.sessions.update(sessionId, { pausedAt: undefined, pausedDurationMs, updatedAt: now });
+    return { ...session, pausedAt: undefined, pausedDurationMs, updatedAt: now };
+}
 
-    const results: BehaviorEvent[] = [];
-    for (const row of rows) {
-        try {
-            const isValid = await verifyEncryptedData(row.encryptedData, assertSignature(row));
-            if (!isValid) {
-                console.warn(`Data integrity check failed for behavior event ${row.id ?? 'unknown'} - skipping`);
-                continue;
-            }
-            const sensitive = await decryptEntity<BehaviorSensitive>(row.encryptedData);
-            results.push({
-                id: row.id,
-                sessionId: row.sessionId,
-                timestamp: row.timestamp,
-                createdAt: row.createdAt,
-                synced: row.synced,
-                ...sensitive
-            } satisfies BehaviorEvent);
-        } catch (error) {
-            console.warn(`Failed to decrypt behavior event ${row.id ?? 'unknown'}: `, error);
-        }
-    }
+/**
+ * Completes a session. A paused session is resumed first so the paused span is not billed.
+ */
+export async function endSession(sessionId: number): Promise<Session> {
+    const session = await resumeSession(sessionId);
+    const now = new Date();
+    await db.sessions.update(sessionId, { status: 'completed', endTime: now, updatedAt: now });
+    return { ...session, status: 'completed', endTime: now, updatedAt: now };
+}
 
-    return results;
+export async function getSession(sessionId: number): Promise<Session | undefined> {
+    return db.sessions.get(sessionId);
 }
 
-export async function getSkillTrialsBySession(sessionId: number, limit = 500): Promise<SkillTrial[]> {
-    requireEncryptionReadiness();
-    const rows = await db.skillTrials.where('sessionId').equals(sessionId).reverse().limit(limit).toArray();
+export async function getActiveSessionForClient(clientId: string): Promise<Session | undefined> {
+    return db.sessions
+        .where('clientId').equals(clientId)
+        .filter((session) => session.status === 'in-progress')
+        .first();
+}
 
-    const results: SkillTrial[] = [];
-    for (const row of rows) {
-        try {
-            const isValid = await verifyEncryptedData(row.encryptedData, assertSignature(row));
-            if (!isValid) {
-                console.warn(`Data integrity check failed for skill trial ${row.id ?? 'unknown'} - skipping`);
-                continue;
-            }
-            const sensitive = await decryptEntity<SkillTrialSensitive>(row.encryptedData);
-            results.push({
-                id: row.id,
-                sessionId: row.sessionId,
-                timestamp: row.timestamp,
-                createdAt: row.createdAt,
-                synced: row.synced,
-                ...sensitive
-            } satisfies SkillTrial);
-        } catch (error) {
-            console.warn(`Failed to decrypt skill trial ${row.id ?? 'unknown'}: `, error);
-        }
-    }
+/**
+ * Elapsed session time in milliseconds, excluding paused spans.
+ */
+export function getSessionElapsedMs(session: Session, now: Date = new Date()): number {
+    const end = session.endTime ?? session.pausedAt ?? now;
+    return Math.max(0, end.getTime() - session.startTime.getTime() - (session.pausedDurationMs ?? 0));
+}
 
-    return results;
+/**
+ * How an entity is stored in its encrypted table. The plaintext columns (`PLAINTEXT_ENTITY_FIELDS`)
+ * hold indexes and sync metadata; every other field of the entity is encrypted and signed.
+ */
+export interface EncryptedEntitySchema<T extends EncryptedEntityBase> {
+    table: EncryptedTableName;
+    entityType: SyncEntityType;
+    /** Singular name for errors and warnings, e.g. 'behavior event'. */
+    label: string;
+    /** The entity's time field; stored in the row's indexed `timestamp` column. */
+    timeField: 'timestamp' | 'updatedAt';
+    /** Fields whose words go into the encrypted search index. The first one titles search results. */
+    searchFields: SearchField<T>[];
+    /** Reads the sensitive fields from untrusted input (legacy plaintext rows, pulled documents); null when required fields are missing. */
+    parse: (row: Record<string, unknown>) => SensitiveFields<T> | null;
 }
 
-export async function getSessionNotesBySession(sessionId: number, limit = 500): Promise<SessionNote[]> {
-    requireEncryptionReadiness();
-    const rows = await db.sessionNotes.where('sessionId').equals(sessionId).reverse().limit(limit).toArray();
+/** A sensitive field name; any field name for code that handles every entity type. */
+type SearchField<T> = [keyof SensitiveFields<T>] extends [never] ? string : keyof SensitiveFields<T> & string;
+
+/** Ciphertext, signature and search index of one row. */
+type SealedEntity = Pick<EncryptedEntityRow, 'encryptedData' | 'signature' | 'searchTokens' | 'searchKeyId'>;
+
+/** Typed access to one encrypted table: encrypt and sign on write, verify and decrypt on read, sync queue upkeep. */
+export interface EncryptedRepository<T extends EncryptedEntityBase> {
+    schema: EncryptedEntitySchema<T>;
+    add: (entity: Omit<T, 'id'>) => Promise<number>;
+    bulkAdd: (entities: Omit<T, 'id'>[]) => Promise<number[]>;
+    /** Throws when the row fails its integrity check. */
+    get: (id: number) => Promise<T | undefined>;
+    /** Re-encrypts the row with `changes` applied and queues the correction for upload. */
+    update: (id: number, changes: Partial<SensitiveFields<T>>) => Promise<void>;
+    /** Removes the row and queues a tombstone if it ever reached the server. */
+    delete: (id: number) => Promise<void>;
+    /** Newest first. Rows that fail verification are skipped (the integrity scan quarantines them). */
+    listBySession: (sessionId: number, limit?: number) => Promise<T[]>;
+    /** A learner's rows across sessions started at or after `since`, newest first. */
+    listByLearner: (clientId: string, since?: Date) => Promise<T[]>;
+    /** Rows whose search index holds every one of `blindTokens`, newest first. */
+    findByTokens: (blindTokens: string[]) => Promise<T[]>;
+    /** Unsynced rows, except those held back by an open sync conflict. */
+    listUnsynced: () => Promise<T[]>;
+    markSynced: (id: number, remoteId?: string, revision?: number) => Promise<void>;
+    /** Encrypts, signs and indexes decrypted fields, e.g. the result of a merge. */
+    seal: (sensitive: Record<string, unknown>) => Promise<SealedEntity>;
+    /** Builds an encrypted row from a legacy plaintext row or a pulled document. */
+    toEncryptedRow: (row: Record<string, unknown>) => Promise<EncryptedEntityRow | null>;
+    /** The row and its decrypted fields, for merges and uploads. Throws when the integrity check fails. */
+    readVerified: (id: number) => Promise<{ row: EncryptedEntityRow; data: MergeableRecord } | null>;
+}
 
-    const results: SessionNote[] = [];
-    for (const row of rows) {
-        try {
-            const isValid = await verifyEncryptedData(row.encryptedData, assertSignature(row));
-            if (!isValid) {
-                console.warn(`Data integrity check failed for session note ${row.id ?? 'unknown'} - skipping`);
-                continue;
-            }
-            const sensitive = await decryptEntity<SessionNoteSensitive>(row.encryptedData);
-            results.push({
-                id: row.id,
-                sessionId: row.sessionId,
-                createdAt: row.createdAt,
-                updatedAt: row.timestamp,
-                synced: row.synced,
-                ...sensitive
-            } satisfies SessionNote);
-        } catch (error) {
-            console.warn(`Failed to decrypt session note ${row.id ?? 'unknown'}: `, error);
-        }
-    }
+/** Rows verified and decrypted concurrently per chunk; WebCrypto does the work off the main thread. */
+const DECRYPT_BATCH_SIZE = 64;
+const DECRYPTED_ROW_CACHE_SIZE = 5000;
 
-    return results;
+interface DecryptedRowCacheEntry {
+    signature: string;
+    data: unknown;
 }
 
-export async function getUnsyncedBehaviorEvents(): Promise<BehaviorEvent[]> {
-    requireEncryptionReadiness();
-    const rows = await db.behaviorEvents.filter((item) => !item.synced).toArray();
+/**
+ * Decrypted sensitive fields by table and row id. An entry only answers for the signature it was
+ * verified with, writes drop it, and it is emptied whenever the data keys change (lock, sign-out, rotation).
+ */
+const decryptedRows = new LruCache<string, DecryptedRowCacheEntry>(DECRYPTED_ROW_CACHE_SIZE);
+let isCacheWatchingKeys = false;
 
-    const results: BehaviorEvent[] = [];
-    for (const row of rows) {
-        try {
-            const isValid = await verifyEncryptedData(row.encryptedData, assertSignature(row));
-            if (!isValid) {
-                console.warn(`Data integrity check failed for behavior event ${row.id ?? 'unknown'} - skipping`);
-                continue;
-            }
-            const sensitive = await decryptEntity<BehaviorSensitive>(row.encryptedData);
-            results.push({
-                id: row.id,
-                sessionId: row.sessionId,
-                timestamp: row.timestamp,
-                createdAt: row.createdAt,
-                synced: row.synced,
-                ...sensitive
-            } satisfies BehaviorEvent);
-        } catch (error) {
-            console.warn(`Failed to decrypt behavior event ${row.id ?? 'unknown'}: `, error);
+function decryptedRowKey(table: EncryptedTableName, id: number | undefined): string {
+    return `${table}:${id ?? 'unknown'}`;
+}
+
+/** Subscribed on first use: the store and this module import each other. */
+function watchKeysForDecryptedRows(): void {
+    if (isCacheWatchingKeys) return;
+    isCacheWatchingKeys = true;
+    useEncryptionStore.subscribe((state, previous) => {
+        if (state.key !== previous.key) {
+            decryptedRows.clear();
         }
-    }
+    });
+}
 
-    return results;
+/** Everything of an entity that is not a plaintext column. */
+function sensitiveFieldsOf<T extends EncryptedEntityBase>(entity: Omit<T, 'id'> | Partial<SensitiveFields<T>>): SensitiveFields<T> {
+    return Object.fromEntries(
+        Object.entries(entity).filter(([field]) => !PLAINTEXT_ENTITY_FIELDS.has(field))
+    ) as SensitiveFields<T>;
 }
 
-export async function getUnsyncedSkillTrials(): Promise<SkillTrial[]> {
+/** Length of a stored search token (base64 HMAC prefix, 128 bits). */
+const SEARCH_TOKEN_LENGTH = 22;
+
+/** Keyed HMAC of a search word: equal words give equal tokens under one signing key and reveal nothing else. */
+async function blindSearchToken(word: string): Promise<string> {
     requireEncryptionReadiness();
-    const rows = await db.skillTrials.filter((item) => !item.synced).toArray();
+    return (await getEncryptionStore().signPayload(`search:${word}`)).slice(0, SEARCH_TOKEN_LENGTH);
+}
 
-    const results: SkillTrial[] = [];
-    for (const row of rows) {
-        try {
-            const isValid = await verifyEncryptedData(row.encryptedData, assertSignature(row));
-            if (!isValid) {
-                console.warn(`Data integrity check failed for skill trial ${row.id ?? 'unknown'} - skipping`);
-                continue;
-            }
-            const sensitive = await decryptEntity<SkillTrialSensitive>(row.encryptedData);
-            results.push({
-                id: row.id,
-                sessionId: row.sessionId,
-                timestamp: row.timestamp,
-                createdAt: row.createdAt,
-                synced: row.synced,
-                ...sensitive
-            } satisfies SkillTrial);
-        } catch (error) {
-            console.warn(`Failed to decrypt skill trial ${row.id ?? 'unknown'}: `, error);
-        }
-    }
+/** Tokens are only comparable under one key; rows indexed under another one are re-indexed. */
+async function currentSearchKeyId(): Promise<string> {
+    return blindSearchToken('\u0000index');
+}
 
-    return results;
+async function searchIndexOf(sensitive: Record<string, unknown>, searchFields: string[]): Promise<Pick<EncryptedEntityRow, 'searchTokens' | 'searchKeyId'>> {
+    const text = searchFields.map((field) => sensitive[field]).filter((value) => typeof value === 'string').join(' ');
+    return {
+        searchTokens: await Promise.all(tokenizeForSearch(text).map(blindSearchToken)),
+        searchKeyId: await currentSearchKeyId()
+    };
 }
 
-export async function getUnsyncedSessionNotes(): Promise<SessionNote[]> {
-    requireEncryptionReadiness();
-    const rows = await db.sessionNotes.filter((item) => !item.synced).toArray();
+async function sealSensitive(sensitive: Record<string, unknown>, searchFields: string[]): Promise<SealedEntity> {
+    const encryptedData = await encryptEntity(sensitive);
+    return {
+        encryptedData,
+        signature: await signEncryptedData(encryptedData),
+        ...await searchIndexOf(sensitive, searchFields)
+    };
+}
 
-    const results: SessionNote[] = [];
-    for (const row of rows) {
+/**
+ * Creates the repository for one encrypted entity. New clinical data types only need an entity
+ * interface, a table in the schema and a `parse` for untrusted input.
+ */
+export function defineEncryptedEntity<T extends EncryptedEntityBase>(schema: EncryptedEntitySchema<T>): EncryptedRepository<T> {
+    const { entityType, label, timeField } = schema;
+    const table = () => db[schema.table];
+    const seal = (sensitive: Record<string, unknown>) => sealSensitive(sensitive, schema.searchFields);
+
+    const toEntity = (row: EncryptedEntityRow, sensitive: SensitiveFields<T>): T => ({
+        id: row.id,
+        uuid: row.uuid,
+        sessionId: row.sessionId,
+        [timeField]: row.timestamp,
+        createdAt: row.createdAt,
+        synced: row.synced,
+        revision: row.revision,
+        ...sensitive
+    }) as unknown as T;
+
+    const decryptRow = async (row: EncryptedEntityRow): Promise<T | null> => {
         try {
-            const isValid = await verifyEncryptedData(row.encryptedData, assertSignature(row));
+            const signature = assertSignature(row);
+            const cacheKey = decryptedRowKey(schema.table, row.id);
+            const cached = decryptedRows.get(cacheKey);
+            if (cached?.signature === signature) {
+                return toEntity(row, cached.data as SensitiveFields<T>);
+            }
+            const isValid = await verifyEncryptedData(row.encryptedData, signature);
             if (!isValid) {
-                console.warn(`Data integrity check failed for session note ${row.id ?? 'unknown'} - skipping`);
-                continue;
+                console.warn(`Data integrity check failed for ${label} ${row.id ?? 'unknown'} - skipping`);
+                return null;
             }
-            const sensitive = await decryptEntity<SessionNoteSensitive>(row.encryptedData);
-            results.push({
-                id: row.id,
-                sessionId: row.sessionId,
-                createdAt: row.createdAt,
-                updatedAt: row.timestamp,
-                synced: row.synced,
-                ...sensitive
-            } satisfies SessionNote);
+            const data = await decryptEntity<SensitiveFields<T>>(row.encryptedData);
+            if (row.id !== undefined) {
+                decryptedRows.set(cacheKey, { signature, data });
+            }
+            return toEntity(row, data);
         } catch (error) {
-            console.warn(`Failed to decrypt session note ${row.id ?? 'unknown'}: `, error);
+            console.warn(`Failed to decrypt ${label} ${row.id ?? 'unknown'}: `, error);
+            return null;
         }
-    }
+    };
 
-    return results;
-}
+    const decryptRows = async (rows: EncryptedEntityRow[]): Promise<T[]> => {
+        watchKeysForDecryptedRows();
+        const results: T[] = [];
+        for (let start = 0; start < rows.length; start += DECRYPT_BATCH_SIZE) {
+            const batch = await Promise.all(rows.slice(start, start + DECRYPT_BATCH_SIZE).map(decryptRow)) as (T | null)[];
+            results.push(...batch.filter((entity): entity is T => entity !== null));
+        }
+        return results;
+    };
 
-export async function getUnsyncedIncidents(): Promise<Incident[]> {
-    requireEncryptionReadiness();
-    const rows = await db.incidents.filter((item) => !item.synced).toArray();
+    const readVerified = async (id: number) => {
+        const row = await table().get(id);
+        if (!row) {
+            return null;
+        }
+        const isValid = await verifyEncryptedData(row.encryptedData, assertSignature(row));
+        if (!isValid) {
+            throw new Error(`Data integrity check failed for ${schema.table} row ${id}`);
+        }
+        return { row, data: await decryptEntity<MergeableRecord>(row.encryptedData) };
+    };
 
-    const results: Incident[] = [];
-    for (const row of rows) {
-        try {
-            const isValid = await verifyEncryptedData(row.encryptedData, assertSignature(row));
-            if (!isValid) {
-                console.warn(`Data integrity check failed for incident ${row.id ?? 'unknown'} - skipping`);
-                continue;
+    const bulkAdd = async (entities: Omit<T, 'id'>[]): Promise<number[]> => {
+        for (const sessionId of new Set(entities.map((entity) => entity.sessionId))) {
+            await assertSessionWritable(sessionId);
+        }
+        const rows: EncryptedEntityRow[] = [];
+        for (const entity of entities) {
+            rows.push({
+                uuid: entity.uuid ?? crypto.randomUUID(),
+                sessionId: entity.sessionId,
+                timestamp: (entity as Record<string, unknown>)[timeField] as Date,
+                createdAt: entity.createdAt,
+                synced: entity.synced,
+                ...await seal(sensitiveFieldsOf<T>(entity))
+            });
+        }
+
+        const ids = await db.transaction('rw', table(), db.syncQueue, async () => {
+            const rowIds = await table().bulkAdd(rows, { allKeys: true });
+            for (const [index, rowId] of rowIds.entries()) {
+                if (typeof rowId === 'number' && !rows[index].synced) {
+                    await addToSyncQueue(entityType, rowId, 'create');
+                }
             }
-            const sensitive = await decryptEntity<IncidentSensitive>(row.encryptedData);
-            results.push({
-                id: row.id,
-                sessionId: row.sessionId,
-                timestamp: row.timestamp,
-                createdAt: row.createdAt,
-                synced: row.synced,
-                ...sensitive
-            } satisfies Incident);
-        } catch (error) {
-            console.warn(`Failed to decrypt incident ${row.id ?? 'unknown'}: `, error);
+            return rowIds;
+        });
+        if (ids.some((id) => typeof id !== 'number')) {
+            throw new Error(`Failed to create ${label}`);
         }
-    }
+        return ids as number[];
+    };
 
-    return results;
-}
+    return {
+        schema,
+        add: async (entity) => (await bulkAdd([entity]))[0],
+        bulkAdd,
+        get: async (id) => {
+            requireEncryptionReadiness();
+            const local = await readVerified(id);
+            return local ? toEntity(local.row, local.data as SensitiveFields<T>) : undefined;
+        },
+        update: async (id, changes) => {
+            requireEncryptionReadiness();
+            const local = await readVerified(id);
+            if (!local) {
+                throw new Error(`${label} ${id} not found`);
+            }
+            await assertSessionWritable(local.row.sessionId);
 
-export async function markBehaviorEventSynced(id: number): Promise<void> {
-    await db.behaviorEvents.update(id, { synced: true });
+            const now = new Date();
+            const updated: MergeableRecord = { ...local.data, ...sensitiveFieldsOf<T>(changes) };
+            if (FIELD_MERGE_ENTITY_TYPES.has(entityType)) {
+                const editedAt = Object.fromEntries(Object.keys(changes).map((field) => [field, now.toISOString()]));
+                updated.fieldUpdatedAt = { ...local.data.fieldUpdatedAt, ...editedAt };
+            }
+            const sealed = await seal(updated);
+            // Edits must leave the device again, so the row goes back to unsynced
+            await db.transaction('rw', table(), db.syncQueue, async () => {
+                await table().update(id, { ...sealed, synced: false, ...(timeField === 'updatedAt' ? { timestamp: now } : {}) });
+                await addToSyncQueue(entityType, id, 'update');
+            });
+            decryptedRows.delete(decryptedRowKey(schema.table, id));
+        },
+        delete: async (id) => {
+            const row = await table().get(id);
+            if (!row) {
+                throw new Error(`${entityType} ${id} not found`);
+            }
+            await assertSessionWritable(row.sessionId);
+
+            await db.transaction('rw', table(), db.syncQueue, async () => {
+                await table().delete(id);
+                if (row.remoteId) {
+                    await addToSyncQueue(entityType, id, 'delete', {
+                        remoteId: row.remoteId,
+                        revision: row.revision ?? 0,
+                        sessionId: row.sessionId
+                    } satisfies TombstonePayload);
+                } else {
+                    await removeQueuedChanges(entityType, id);
+                }
+            });
+            decryptedRows.delete(decryptedRowKey(schema.table, id));
+        },
+        listBySession: async (sessionId, limit) => {
+            requireEncryptionReadiness();
+            const rows = table().where('sessionId').equals(sessionId).reverse();
+            return decryptRows(await (limit === undefined ? rows : rows.limit(limit)).toArray());
+        },
+        listByLearner: async (clientId, since) => {
+            requireEncryptionReadiness();
+            const sessionIds = await db.sessions.where('clientId').equals(clientId)
+                .filter((session) => !since || session.startTime >= since)
+                .primaryKeys();
+            const rows = await table().where('sessionId').anyOf(sessionIds.filter((id) => id !== undefined)).toArray();
+            rows.sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
+            return decryptRows(rows);
+        },
+        findByTokens: async (blindTokens) => {
+            requireEncryptionReadiness();
+            let ids: number[] | null = null;
+            for (const token of blindTokens) {
+                const matches = new Set(await table().where('searchTokens').equals(token).primaryKeys());
+                ids = (ids ?? [...matches]).filter((id): id is number => id !== undefined && matches.has(id));
+                if (ids.length === 0) break;
+            }
+            const rows = (await table().bulkGet(ids ?? [])).filter((row): row is EncryptedEntityRow => row !== undefined);
+            rows.sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
+            return decryptRows(rows);
+        },
+        listUnsynced: async () => {
+            requireEncryptionReadiness();
+            const blocked = await getConflictedLocalIds(entityType);
+            return decryptRows(await table().filter((row) => !row.synced && !blocked.has(row.id ?? -1)).toArray());
+        },
+        markSynced: async (id, remoteId, revision) => {
+            await table().update(id, { synced: true, ...(remoteId ? { remoteId } : {}), ...(revision !== undefined ? { revision } : {}) });
+        },
+        seal,
+        toEncryptedRow: async (row) => {
+            let sealed: SealedEntity;
+            if (isEncryptedData(row.encryptedData)) {
+                // Already encrypted: keep the index it has; refreshSearchIndex fills in a missing one
+                sealed = {
+                    encryptedData: row.encryptedData,
+                    signature: typeof row.signature === 'string' ? row.signature : await signEncryptedData(row.encryptedData),
+                    searchTokens: Array.isArray(row.searchTokens) ? row.searchTokens as string[] : undefined,
+                    searchKeyId: optionalString(row.searchKeyId)
+                };
+            } else {
+                const sensitive = schema.parse(row);
+                if (!sensitive) {
+                    return null;
+                }
+                sealed = await seal(sensitive);
+            }
+            return {
+                id: typeof row.id === 'number' ? row.id : undefined,
+                sessionId: Number(row.sessionId ?? 0),
+                timestamp: toDate(row.timestamp ?? row[timeField]),
+                createdAt: toDate(row.createdAt),
+                synced: Boolean(row.synced),
+                ...sealed
+            };
+        },
+        readVerified
+    };
 }
 
-export async function markSkillTrialSynced(id: number): Promise<void> {
-    await db.skillTrials.update(id, { synced: true });
+function isFieldTimestamps(value: unknown): value is FieldTimestamps {
+    return Boolean(value) && typeof value === 'object' && !Array.isArray(value) &&
+        Object.values(value as Record<string, unknown>).every((entry) => typeof entry === 'string');
 }
 
-export async function markSessionNoteSynced(id: number): Promise<void> {
-    await db.sessionNotes.update(id, { synced: true });
+function toDate(value: unknown): Date {
+    return value instanceof Date ? value : new Date(String(value ?? new Date().toISOString()));
 }
 
-export async function markIncidentSynced(id: number): Promise<void> {
-    await db.incidents.update(id, { synced: true });
+function optionalString(value: unknown): string | undefined {
+    return typeof value === 'string' ? value : undefined;
 }
 
-function toDate(value: unknown): Date {
-    return value instanceof Date ? value : new Date(String(value ?? new Date().toISOString()));
+function optionalDate(value: unknown): Date | undefined {
+    const date = value instanceof Date ? value : typeof value === 'string' ? new Date(value) : undefined;
+    return date && !Number.isNaN(date.getTime()) ? date : undefined;
 }
 
-async function migrateBehaviorRow(row: Record<string, unknown>): Promise<EncryptedEntityRow | null> {
-    if (isEncryptedData(row.encryptedData)) {
-        const signature = typeof row.signature === 'string' ? row.signature : await signEncryptedData(row.encryptedData);
+export const behaviorEventRepository = defineEncryptedEntity<BehaviorEvent>({
+    table: 'behaviorEvents',
+    entityType: 'behavior',
+    label: 'behavior event',
+    timeField: 'timestamp',
+    searchFields: ['behaviorType', 'antecedent', 'consequent', 'intervention', 'notes'],
+    parse: (row) => {
+        if (typeof row.behaviorType !== 'string') return null;
         return {
-            id: typeof row.id === 'number' ? row.id : undefined,
-            sessionId: Number(row.sessionId ?? 0),
-            timestamp: toDate(row.timestamp),
-            createdAt: toDate(row.createdAt),
-            synced: Boolean(row.synced),
-            encryptedData: row.encryptedData,
-            signature
+            behaviorType: row.behaviorType,
+            count: typeof row.count === 'number' ? row.count : undefined,
+            duration: typeof row.duration === 'number' ? row.duration : undefined,
+            latency: typeof row.latency === 'number' ? row.latency : undefined,
+            startedAt: optionalDate(row.startedAt),
+            endedAt: optionalDate(row.endedAt),
+            antecedent: optionalString(row.antecedent),
+            consequent: optionalString(row.consequent),
+            functionGuess: optionalString(row.functionGuess) as BehaviorEvent['functionGuess'],
+            intervention: optionalString(row.intervention),
+            intensity: typeof row.intensity === 'number' ? row.intensity as BehaviorEvent['intensity'] : undefined,
+            notes: optionalString(row.notes),
+            fieldUpdatedAt: isFieldTimestamps(row.fieldUpdatedAt) ? row.fieldUpdatedAt : undefined
         };
     }
-
-    if (typeof row.behaviorType !== 'string') {
-        return null;
+});
+
+export const skillTrialRepository = defineEncryptedEntity<SkillTrial>({
+    table: 'skillTrials',
+    entityType: 'skillTrial',
+    label: 'skill trial',
+    timeField: 'timestamp',
+    searchFields: ['skillName', 'target', 'notes'],
+    parse: (row) => {
+        if (typeof row.skillName !== 'string' || typeof row.target !== 'string') return null;
+        return {
+            skillName: row.skillName,
+            target: row.target,
+            promptLevel: (optionalString(row.promptLevel) ?? 'independent') as SkillTrial['promptLevel'],
+            response: (optionalString(row.response) ?? 'correct') as SkillTrial['response'],
+            reinforcementDelivered: Boolean(row.reinforcementDelivered),
+            reinforcementType: optionalString(row.reinforcementType),
+            notes: optionalString(row.notes),
+            fieldUpdatedAt: isFieldTimestamps(row.fieldUpdatedAt) ? row.fieldUpdatedAt : undefined
+        };
     }
+});
+
+export const sessionNoteRepository = defineEncryptedEntity<SessionNote>({
+    table: 'sessionNotes',
+    entityType: 'note',
+    label: 'session note',
+    timeField: 'updatedAt',
+    searchFields: ['section', 'content'],
+    parse: (row) => {
+        if (typeof row.section !== 'string' || typeof row.content !== 'string') return null;
+        return {
+            section: row.section,
+            content: row.content,
+            isAutoGenerated: Boolean(row.isAutoGenerated),
+            editHistory: Array.isArray(row.editHistory) ? row.editHistory as SessionNote['editHistory'] : []
+        };
+    }
+});
+
+const INTERVAL_METHODS: IntervalMethod[] = ['partial-interval', 'whole-interval', 'momentary-time-sampling'];
+
+export const intervalRecordingRepository = defineEncryptedEntity<IntervalRecording>({
+    table: 'intervalRecordings',
+    entityType: 'interval',
+    label: 'interval recording',
+    timeField: 'timestamp',
+    searchFields: ['behaviorType', 'notes'],
+    parse: (row) => {
+        if (typeof row.behaviorType !== 'string' || !INTERVAL_METHODS.includes(row.method as IntervalMethod) ||
+            typeof row.intervalSeconds !== 'number') return null;
+        return {
+            behaviorType: row.behaviorType,
+            method: row.method as IntervalMethod,
+            intervalSeconds: row.intervalSeconds,
+            intervals: Array.isArray(row.intervals)
+                ? row.intervals.map((score) => (typeof score === 'boolean' ? score : null))
+                : [],
+            notes: optionalString(row.notes),
+            fieldUpdatedAt: isFieldTimestamps(row.fieldUpdatedAt) ? row.fieldUpdatedAt : undefined
+        };
+    }
+});
+
+const CHAINING_METHODS: ChainingMethod[] = ['forward', 'backward', 'total-task'];
+const PROMPT_LEVELS: SkillTrial['promptLevel'][] = ['independent', 'verbal', 'gestural', 'model', 'partial-physical', 'full-physical'];
+
+export const taskAnalysisRepository = defineEncryptedEntity<TaskAnalysisRun>({
+    table: 'taskAnalyses',
+    entityType: 'taskAnalysis',
+    label: 'task analysis',
+    timeField: 'timestamp',
+    searchFields: ['taskName', 'notes'],
+    parse: (row) => {
+        if (typeof row.taskName !== 'string' || !CHAINING_METHODS.includes(row.chainingMethod as ChainingMethod) ||
+            !Array.isArray(row.steps)) return null;
+        return {
+            taskName: row.taskName,
+            chainingMethod: row.chainingMethod as ChainingMethod,
+            steps: row.steps
+                .filter((step): step is Record<string, unknown> => Boolean(step) && typeof step === 'object' && typeof step.step === 'string')
+                .map((step) => ({
+                    step: step.step as string,
+                    promptLevel: PROMPT_LEVELS.includes(step.promptLevel as SkillTrial['promptLevel'])
+                        ? step.promptLevel as SkillTrial['promptLevel']
+                        : null
+                })),
+            notes: optionalString(row.notes),
+            fieldUpdatedAt: isFieldTimestamps(row.fieldUpdatedAt) ? row.fieldUpdatedAt : undefined
+        };
+    }
+});
+
+export const incidentRepository = defineEncryptedEntity<Incident>({
+    table: 'incidents',
+    entityType: 'incident',
+    label: 'incident',
+    timeField: 'timestamp',
+    searchFields: ['incidentType', 'description', 'injuries'],
+    parse: (row) => {
+        if (typeof row.incidentType !== 'string' || typeof row.description !== 'string') return null;
+        return {
+            incidentType: row.incidentType as Incident['incidentType'],
+            description: row.description,
+            staffInvolved: Array.isArray(row.staffInvolved) ? row.staffInvolved as string[] : [],
+            actionsToken: Array.isArray(row.actionsToken) ? row.actionsToken as string[] : [],
+            witnesses: Array.isArray(row.witnesses) ? row.witnesses as string[] : undefined,
+            injuries: optionalString(row.injuries),
+            parentNotified: Boolean(row.parentNotified),
+            supervisorNotified: Boolean(row.supervisorNotified)
+        };
+    }
+});
+
+/** The repository behind each synced entity type, for code that handles rows without knowing their entity. */
+export const ENTITY_REPOSITORIES: Record<SyncEntityType, Pick<EncryptedRepository<EncryptedEntityBase>, 'schema' | 'findByTokens' | 'seal' | 'toEncryptedRow' | 'readVerified'>> = {
+    behavior: behaviorEventRepository,
+    skillTrial: skillTrialRepository,
+    note: sessionNoteRepository,
+    incident: incidentRepository,
+    interval: intervalRecordingRepository,
+    taskAnalysis: taskAnalysisRepository
+};
+
+/** Every encrypted clinical table with the entity type it syncs as. */
+const CLINICAL_TABLES: [EncryptedTableName, SyncEntityType][] = Object.values(ENTITY_REPOSITORIES)
+    .map((repository) => [repository.schema.table, repository.schema.entityType]);
+
+export const addBehaviorEvent = behaviorEventRepository.add;
+export const addSkillTrial = skillTrialRepository.add;
+export const addSessionNote = sessionNoteRepository.add;
+export const addIncident = incidentRepository.add;
+export const addIntervalRecordings = intervalRecordingRepository.bulkAdd;
+export const addTaskAnalysisRun = taskAnalysisRepository.add;
+
+export async function updateIntervalScores(id: number, intervals: IntervalRecording['intervals']): Promise<void> {
+    await intervalRecordingRepository.update(id, { intervals });
+}
 
-    const sensitive: BehaviorSensitive = {
-        behaviorType: row.behaviorType,
-        count: typeof row.count === 'number' ? row.count : undefined,
-        duration: typeof row.duration === 'number' ? row.duration : undefined,
-        antecedent: typeof row.antecedent === 'string' ? row.antecedent : undefined,
-        consequent: typeof row.consequent === 'string' ? row.consequent : undefined,
-        functionGuess: typeof row.functionGuess === 'string' ? row.functionGuess as BehaviorEvent['functionGuess'] : undefined,
-        intervention: typeof row.intervention === 'string' ? row.intervention : undefined,
-        intensity: typeof row.intensity === 'number' ? row.intensity as BehaviorEvent['intensity'] : undefined,
-        notes: typeof row.notes === 'string' ? row.notes : undefined
-    };
-
-    const encryptedData = await encryptEntity(sensitive);
-    return {
-        id: typeof row.id === 'number' ? row.id : undefined,
-        sessionId: Number(row.sessionId ?? 0),
-        timestamp: toDate(row.timestamp),
-        createdAt: toDate(row.createdAt),
-        synced: Boolean(row.synced),
+/** Starts a timer; its label is encrypted like any other clinical field. */
+export async function startBehaviorTimer(timer: Omit<BehaviorTimer, 'id'>): Promise<number> {
+    await assertSessionWritable(timer.sessionId);
+    const encryptedData = await encryptEntity({ kind: timer.kind, label: timer.label });
+    const id = await db.behaviorTimers.add({
+        sessionId: timer.sessionId,
+        timestamp: timer.startedAt,
         encryptedData,
         signature: await signEncryptedData(encryptedData)
-    };
+    });
+    if (typeof id !== 'number') {
+        throw new Error('Failed to start timer');
+    }
+    return id;
 }
 
-async function migrateSkillTrialRow(row: Record<string, unknown>): Promise<EncryptedEntityRow | null> {
-    if (isEncryptedData(row.encryptedData)) {
-        const signature = typeof row.signature === 'string' ? row.signature : await signEncryptedData(row.encryptedData);
-        return {
-            id: typeof row.id === 'number' ? row.id : undefined,
-            sessionId: Number(row.sessionId ?? 0),
-            timestamp: toDate(row.timestamp),
-            createdAt: toDate(row.createdAt),
-            synced: Boolean(row.synced),
-            encryptedData: row.encryptedData,
-            signature
-        };
+/** The session's running timers, oldest first. Rows that fail verification are left to the integrity scan. */
+export async function getBehaviorTimers(sessionId: number): Promise<BehaviorTimer[]> {
+    const rows = await db.behaviorTimers.where('sessionId').equals(sessionId).sortBy('timestamp');
+    const timers: BehaviorTimer[] = [];
+    for (const row of rows) {
+        if (!row.signature || !await verifyEncryptedData(row.encryptedData, row.signature)) continue;
+        const data = await decryptEntity<{ kind?: unknown; label?: unknown; endedAt?: unknown }>(row.encryptedData).catch(() => null);
+        if (!data || (data.kind !== 'duration' && data.kind !== 'latency') || typeof data.label !== 'string') continue;
+        timers.push({
+            id: row.id,
+            sessionId: row.sessionId,
+            kind: data.kind,
+            label: data.label,
+            startedAt: row.timestamp,
+            endedAt: data.endedAt instanceof Date ? data.endedAt : undefined
+        });
     }
+    return timers;
+}
 
-    if (typeof row.skillName !== 'string' || typeof row.target !== 'string') {
-        return null;
+/** Records the stop time of a timer; the row is kept until its measurement is written. */
+export async function stopBehaviorTimer(timer: BehaviorTimer & { id: number }, endedAt: Date): Promise<void> {
+    const encryptedData = await encryptEntity({ kind: timer.kind, label: timer.label, endedAt });
+    await db.behaviorTimers.update(timer.id, { encryptedData, signature: await signEncryptedData(encryptedData) });
+}
+
+export async function deleteBehaviorTimer(id: number): Promise<void> {
+    await db.behaviorTimers.delete(id);
+}
+
+/** Replaces the cached catalog of `catalog.learnerId`. */
+export async function cacheTargetCatalog(catalog: TargetCatalog): Promise<void> {
+    const encryptedData = await encryptEntity(catalog);
+    const signature = await signEncryptedData(encryptedData);
+    await db.transaction('rw', db.targetCatalogs, async () => {
+        const existing = await db.targetCatalogs.where('learnerId').equals(catalog.learnerId).first();
+        await db.targetCatalogs.put({ id: existing?.id, learnerId: catalog.learnerId, timestamp: new Date(), encryptedData, signature });
+    });
+}
+
+/** The cached catalog of a learner, or null when none was fetched or it fails verification. */
+export async function getCachedTargetCatalog(learnerId: string): Promise<TargetCatalog | null> {
+    const row = await db.targetCatalogs.where('learnerId').equals(learnerId).first();
+    if (!row?.signature || !await verifyEncryptedData(row.encryptedData, row.signature)) return null;
+    const catalog = await decryptEntity<Omit<TargetCatalog, 'updatedAt'> & { updatedAt: string | Date | null }>(row.encryptedData).catch(() => null);
+    if (catalog?.learnerId !== learnerId) return null;
+    // Decryption revives ISO strings as dates; the catalog keeps the server's string
+    const updatedAt = catalog.updatedAt instanceof Date ? catalog.updatedAt.toISOString() : catalog.updatedAt;
+    return { ...catalog, updatedAt };
+}
+
+export async function updateBehaviorEventIntervention(id: number, intervention: string): Promise<void> {
+    await behaviorEventRepository.update(id, { intervention });
+}
+
+export const deleteBehaviorEvent = behaviorEventRepository.delete;
+export const deleteSkillTrial = skillTrialRepository.delete;
+export const deleteSessionNote = sessionNoteRepository.delete;
+export const deleteIncident = incidentRepository.delete;
+export const deleteIntervalRecording = intervalRecordingRepository.delete;
+export const deleteTaskAnalysisRun = taskAnalysisRepository.delete;
+
+export const getBehaviorEventsBySession = behaviorEventRepository.listBySession;
+export const getSkillTrialsBySession = skillTrialRepository.listBySession;
+export const getSessionNotesBySession = sessionNoteRepository.listBySession;
+export const getIntervalRecordingsBySession = intervalRecordingRepository.listBySession;
+export const getTaskAnalysisRunsBySession = taskAnalysisRepository.listBySession;
+export const getBehaviorEventsByLearner = behaviorEventRepository.listByLearner;
+export const getSkillTrialsByLearner = skillTrialRepository.listByLearner;
+export const getIntervalRecordingsByLearner = intervalRecordingRepository.listByLearner;
+export const getTaskAnalysisRunsByLearner = taskAnalysisRepository.listByLearner;
+
+export const getUnsyncedBehaviorEvents = behaviorEventRepository.listUnsynced;
+export const getUnsyncedSkillTrials = skillTrialRepository.listUnsynced;
+export const getUnsyncedSessionNotes = sessionNoteRepository.listUnsynced;
+export const getUnsyncedIncidents = incidentRepository.listUnsynced;
+export const getUnsyncedIntervalRecordings = intervalRecordingRepository.listUnsynced;
+export const getUnsyncedTaskAnalysisRuns = taskAnalysisRepository.listUnsynced;
+
+export const markBehaviorEventSynced = behaviorEventRepository.markSynced;
+export const markSkillTrialSynced = skillTrialRepository.markSynced;
+export const markSessionNoteSynced = sessionNoteRepository.markSynced;
+export const markIncidentSynced = incidentRepository.markSynced;
+export const markIntervalRecordingSynced = intervalRecordingRepository.markSynced;
+export const markTaskAnalysisRunSynced = taskAnalysisRepository.markSynced;
+
+export interface HistorySearchResult {
+    entityType: SyncEntityType;
+    id: number;
+    session: Session;
+    timestamp: Date;
+    /** The entity's first search field, e.g. the behavior type or skill name. */
+    title: string;
+    /** Its other searchable fields. */
+    excerpt: string;
+}
+
+export interface HistorySearchOptions {
+    /** Only sessions of these learners. */
+    clientIds?: string[];
+    limit?: number;
+}
+
+/**
+ * Finds records across past sessions that contain every word of `query` (after stop words), e.g.
+ * "elopement transitions". Matching runs on blind tokens; only the matching rows are decrypted.
+ */
+export async function searchSessionHistory(query: string, options: HistorySearchOptions = {}): Promise<HistorySearchResult[]> {
+    requireEncryptionReadiness();
+    const words = tokenizeForSearch(query);
+    if (words.length === 0) {
+        return [];
+    }
+    const blindTokens = await Promise.all(words.map(blindSearchToken));
+
+    const results: HistorySearchResult[] = [];
+    for (const repository of Object.values(ENTITY_REPOSITORIES)) {
+        const { entityType, timeField, searchFields } = repository.schema;
+        const entities = await repository.findByTokens(blindTokens) as (EncryptedEntityBase & Record<string, unknown>)[];
+        const sessions = await db.sessions.bulkGet([...new Set(entities.map((entity) => entity.sessionId))]);
+        const sessionsById = new Map(sessions.filter((session): session is Session => session !== undefined).map((session) => [session.id, session]));
+
+        for (const entity of entities) {
+            const session = sessionsById.get(entity.sessionId);
+            if (entity.id === undefined || !session || (options.clientIds && !options.clientIds.includes(session.clientId))) {
+                continue;
+            }
+            const [title, ...details] = searchFields.map((field) => entity[field]);
+            results.push({
+                entityType,
+                id: entity.id,
+                session,
+                timestamp: entity[timeField] as Date,
+                title: String(title ?? ''),
+                excerpt: details.filter((value) => typeof value === 'string' && value).join(' · ')
+            });
+        }
     }
 
-    const sensitive: SkillTrialSensitive = {
-        skillName: row.skillName,
-        target: row.target,
-        promptLevel: (typeof row.promptLevel === 'string' ? row.promptLevel : 'independent') as SkillTrial['promptLevel'],
-        response: (typeof row.response === 'string' ? row.response : 'correct') as SkillTrial['response'],
-        reinforcementDelivered: Boolean(row.reinforcementDelivered),
-        reinforcementType: typeof row.reinforcementType === 'string' ? row.reinforcementType : undefined,
-        notes: typeof row.notes === 'string' ? row.notes : undefined
-    };
+    results.sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
+    return results.slice(0, options.limit ?? 50);
+}
 
-    const encryptedData = await encryptEntity(sensitive);
+/**
+ * Indexes rows that have no search tokens yet (written before search existed, or pulled as ciphertext)
+ * or were indexed under an earlier signing key. Rows this user cannot open are left alone.
+ * @returns The number of rows indexed.
+ */
+export async function refreshSearchIndex(): Promise<number> {
+    requireEncryptionReadiness();
+    const searchKeyId = await currentSearchKeyId();
+    let indexed = 0;
+
+    for (const repository of Object.values(ENTITY_REPOSITORIES)) {
+        const table = db[repository.schema.table];
+        const stale = await table.filter((row) => row.searchKeyId !== searchKeyId).toArray();
+        for (let start = 0; start < stale.length; start += REENCRYPTION_BATCH_SIZE) {
+            const updates = await Promise.all(stale.slice(start, start + REENCRYPTION_BATCH_SIZE).map(async (row) => {
+                try {
+                    if (!row.signature || !await verifyEncryptedData(row.encryptedData, row.signature)) {
+                        return null;
+                    }
+                    const data = await decryptEntity<Record<string, unknown>>(row.encryptedData);
+                    return { row, index: await searchIndexOf(data, repository.schema.searchFields) };
+                } catch {
+                    return null;
+                }
+            }));
+
+            await db.transaction('rw', table, async () => {
+                for (const update of updates) {
+                    if (!update || update.row.id === undefined) continue;
+                    // A row rewritten meanwhile was indexed by its writer
+                    const current = await table.get(update.row.id);
+                    if (current?.signature === update.row.signature) {
+                        await table.update(update.row.id, update.index);
+                        indexed += 1;
+                    }
+                }
+            });
+        }
+    }
+    return indexed;
+}
+
+/** Carries plaintext sync metadata over to a re-encrypted row so migration does not detach it from the server copy. */
+function withRowMetadata(row: Record<string, unknown>, migrated: EncryptedEntityRow): EncryptedEntityRow {
     return {
-        id: typeof row.id === 'number' ? row.id : undefined,
-        sessionId: Number(row.sessionId ?? 0),
-        timestamp: toDate(row.timestamp),
-        createdAt: toDate(row.createdAt),
-        synced: Boolean(row.synced),
-        encryptedData,
-        signature: await signEncryptedData(encryptedData)
+        ...migrated,
+        uuid: typeof row.uuid === 'string' ? row.uuid : crypto.randomUUID(),
+        remoteId: typeof row.remoteId === 'string' ? row.remoteId : undefined,
+        revision: typeof row.revision === 'number' ? row.revision : undefined
     };
 }
 
-async function migrateSessionNoteRow(row: Record<string, unknown>): Promise<EncryptedEntityRow | null> {
-    if (isEncryptedData(row.encryptedData)) {
-        const signature = typeof row.signature === 'string' ? row.signature : await signEncryptedData(row.encryptedData);
-        return {
-            id: typeof row.id === 'number' ? row.id : undefined,
-            sessionId: Number(row.sessionId ?? 0),
-            timestamp: toDate(row.timestamp),
-            createdAt: toDate(row.createdAt),
-            synced: Boolean(row.synced),
-            encryptedData: row.encryptedData,
-            signature
-        };
+/**
+ * Migration utility to convert legacy plaintext data to encrypted format.
+ * Rows are encrypted first and written in one transaction per table.
+ */
+export async function migrateLegacyPlaintextData(): Promise<void> {
+    requireEncryptionReadiness();
+
+    for (const repository of Object.values(ENTITY_REPOSITORIES)) {
+        const table = db[repository.schema.table];
+        const rows = await table.toArray() as unknown as Record<string, unknown>[];
+        const migrated: EncryptedEntityRow[] = [];
+        for (const row of rows) {
+            const encrypted = await repository.toEncryptedRow(row);
+            if (encrypted) {
+                migrated.push(withRowMetadata(row, encrypted));
+            }
+        }
+        await db.transaction('rw', table, async () => {
+            await table.bulkPut(migrated);
+        });
     }
+}
 
-    if (typeof row.section !== 'string' || typeof row.content !== 'string') {
-        return null;
+/** Whether any clinical row on this device was signed with `signingKey`. */
+export async function hasRowsSignedBy(signingKey: CryptoKey): Promise<boolean> {
+    for (const [tableName] of CLINICAL_TABLES) {
+        const rows = await db.table(tableName).toArray() as EncryptedEntityRow[];
+        for (const row of rows) {
+            if (row.signature && isEncryptedData(row.encryptedData) && await verifySignature(row.encryptedData, row.signature, signingKey)) {
+                return true;
+            }
+        }
     }
+    return false;
+}
 
-    const sensitive: SessionNoteSensitive = {
-        section: row.section,
-        content: row.content,
-        isAutoGenerated: Boolean(row.isAutoGenerated),
-        editHistory: Array.isArray(row.editHistory) ? row.editHistory as SessionNote['editHistory'] : []
-    };
+const REENCRYPTION_BATCH_SIZE = 50;
+
+// Every table holding ciphertext, with the field it lives in (signed alongside `signature`)
+const CIPHERTEXT_FIELDS: Record<IntegrityTableName, 'encryptedData' | 'encryptedServerData'> = {
+    behaviorEvents: 'encryptedData',
+    skillTrials: 'encryptedData',
+    sessionNotes: 'encryptedData',
+    incidents: 'encryptedData',
+    intervalRecordings: 'encryptedData',
+    taskAnalyses: 'encryptedData',
+    behaviorTimers: 'encryptedData',
+    targetCatalogs: 'encryptedData',
+    syncConflicts: 'encryptedServerData'
+};
+
+interface ReencryptedRow {
+    id: number;
+    previous: EncryptedData;
+    encrypted: EncryptedData;
+    signature: string;
+}
 
-    const encryptedData = await encryptEntity(sensitive);
-    return {
-        id: typeof row.id === 'number' ? row.id : undefined,
-        sessionId: Number(row.sessionId ?? 0),
-        timestamp: toDate(row.timestamp ?? row.updatedAt),
-        createdAt: toDate(row.createdAt),
-        synced: Boolean(row.synced),
-        encryptedData,
-        signature: await signEncryptedData(encryptedData)
-    };
+async function reencryptRow(row: Record<string, unknown>, field: string, from: DataKeys, to: DataKeys): Promise<ReencryptedRow | null> {
+    const previous = row[field];
+    const { id, signature } = row;
+    if (typeof id !== 'number' || !isEncryptedData(previous) || typeof signature !== 'string') return null;
+    if (await verifySignature(previous, signature, to.signingKey)) return null; // written since the rotation started
+    // Rows under neither key belong to another user of this device
+    if (!await verifySignature(previous, signature, from.signingKey)) return null;
+
+    const encrypted = await encryptJson(await decryptJson<unknown>(previous, from.key), to.key);
+    return { id, previous, encrypted, signature: await signData(encrypted, to.signingKey) };
 }
 
-async function migrateIncidentRow(row: Record<string, unknown>): Promise<EncryptedEntityRow | null> {
-    if (isEncryptedData(row.encryptedData)) {
-        const signature = typeof row.signature === 'string' ? row.signature : await signEncryptedData(row.encryptedData);
-        return {
-            id: typeof row.id === 'number' ? row.id : undefined,
-            sessionId: Number(row.sessionId ?? 0),
-            timestamp: toDate(row.timestamp),
-            createdAt: toDate(row.createdAt),
-            synced: Boolean(row.synced),
-            encryptedData: row.encryptedData,
-            signature
-        };
+/**
+ * Re-encrypts every row still under `from` to `to`, one batch per transaction.
+ * Crypto runs between transactions; rows changed meanwhile are left to the writer.
+ * @returns The number of rows re-encrypted.
+ */
+export async function reencryptLocalData(
+    from: DataKeys,
+    to: DataKeys,
+    onProgress?: (processed: number, total: number) => void
+): Promise<number> {
+    const tableNames = Object.keys(CIPHERTEXT_FIELDS) as (keyof typeof CIPHERTEXT_FIELDS)[];
+    const counts = await Promise.all(tableNames.map((tableName) => db.table(tableName).count()));
+    let total = counts.reduce((sum, count) => sum + count, 0);
+    let processed = 0;
+    let reencrypted = 0;
+    onProgress?.(processed, total);
+
+    for (const tableName of tableNames) {
+        const table = db.table(tableName);
+        const field = CIPHERTEXT_FIELDS[tableName];
+        let lastId = 0;
+        for (;;) {
+            const batch = await table.where(':id').above(lastId).limit(REENCRYPTION_BATCH_SIZE).toArray() as Record<string, unknown>[];
+            if (batch.length === 0) break;
+            lastId = batch[batch.length - 1].id as number;
+
+            const updates: ReencryptedRow[] = [];
+            for (const row of batch) {
+                const update = await reencryptRow(row, field, from, to);
+                if (update) updates.push(update);
+            }
+
+            await db.transaction('rw', table, async () => {
+                for (const update of updates) {
+                    const current = await table.get(update.id) as Record<string, unknown> | undefined;
+                    if ((current?.[field] as EncryptedData | undefined)?.ciphertext !== update.previous.ciphertext) continue;
+                    await table.update(update.id, { [field]: update.encrypted, signature: update.signature });
+                    reencrypted += 1;
+                }
+            });
+
+            processed += batch.length;
+            total = Math.max(total, processed);
+            onProgress?.(processed, total);
+        }
     }
+    return reencrypted;
+}
 
-    if (typeof row.incidentType !== 'string' || typeof row.description !== 'string') {
-        return null;
+export const INTEGRITY_REPORT_KEY = 'integrityReport';
+
+async function classifyRow(
+    row: Record<string, unknown>,
+    field: string,
+    hasOtherUsers: boolean
+): Promise<IntegrityFailure | 'verified' | 'unattributed'> {
+    const encrypted = row[field];
+    if (!isEncryptedData(encrypted)) return 'malformed';
+    if (typeof row.signature !== 'string' || !row.signature) return 'missing-signature';
+
+    const isReadable = await decryptEntity<unknown>(encrypted).then(() => true, () => false);
+    if (await verifyEncryptedData(encrypted, row.signature)) {
+        return isReadable ? 'verified' : 'undecryptable';
     }
+    if (isReadable) return 'signature-mismatch';
+    // Other users' rows do not open with these keys either; on a single-user device nothing else explains it
+    return hasOtherUsers ? 'unattributed' : 'undecryptable';
+}
 
-    const sensitive: IncidentSensitive = {
-        incidentType: row.incidentType as Incident['incidentType'],
-        description: row.description,
-        staffInvolved: Array.isArray(row.staffInvolved) ? row.staffInvolved as string[] : [],
-        actionsToken: Array.isArray(row.actionsToken) ? row.actionsToken as string[] : [],
-        witnesses: Array.isArray(row.witnesses) ? row.witnesses as string[] : undefined,
-        injuries: typeof row.injuries === 'string' ? row.injuries : undefined,
-        parentNotified: Boolean(row.parentNotified),
-        supervisorNotified: Boolean(row.supervisorNotified)
+function toQuarantinedRow(tableName: IntegrityTableName, row: Record<string, unknown>, reason: IntegrityFailure): QuarantinedRow {
+    return {
+        tableName,
+        rowId: row.id as number,
+        uuid: typeof row.uuid === 'string' ? row.uuid : undefined,
+        sessionId: typeof row.sessionId === 'number' ? row.sessionId : undefined,
+        remoteId: typeof row.remoteId === 'string' ? row.remoteId : undefined,
+        reason,
+        row,
+        recordedAt: toDate(row.timestamp ?? row.createdAt),
+        quarantinedAt: new Date()
     };
+}
 
-    const encryptedData = await encryptEntity(sensitive);
+function toReportEntry(entry: QuarantinedRow): QuarantineReportEntry {
     return {
-        id: typeof row.id === 'number' ? row.id : undefined,
-        sessionId: Number(row.sessionId ?? 0),
-        timestamp: toDate(row.timestamp),
-        createdAt: toDate(row.createdAt),
-        synced: Boolean(row.synced),
-        encryptedData,
-        signature: await signEncryptedData(encryptedData)
+        id: entry.id,
+        tableName: entry.tableName,
+        rowId: entry.rowId,
+        uuid: entry.uuid,
+        sessionId: entry.sessionId,
+        remoteId: entry.remoteId,
+        reason: entry.reason,
+        recordedAt: entry.recordedAt.toISOString(),
+        quarantinedAt: entry.quarantinedAt.toISOString()
     };
 }
 
+/** Moves rows into quarantine unless they changed since they were scanned. Returns how many moved. */
+async function quarantineRows(tableName: IntegrityTableName, entries: QuarantinedRow[]): Promise<number> {
+    if (entries.length === 0) return 0;
+    const table = db.table(tableName);
+    const field = CIPHERTEXT_FIELDS[tableName];
+    const entityType = CLINICAL_TABLES.find(([name]) => name === tableName)?.[1];
+
+    return db.transaction('rw', table, db.quarantine, db.syncQueue, async () => {
+        let moved = 0;
+        for (const entry of entries) {
+            const current = await table.get(entry.rowId) as Record<string, unknown> | undefined;
+            if (!current || current.signature !== entry.row.signature ||
+                JSON.stringify(current[field]) !== JSON.stringify(entry.row[field])) continue;
+            await table.delete(entry.rowId);
+            await db.quarantine.add(entry);
+            // Queued uploads would fail without the row; a server copy, if any, is left alone
+            if (entityType) {
+                await removeQueuedChanges(entityType, entry.rowId);
+            }
+            moved += 1;
+        }
+        return moved;
+    });
+}
+
 /**
- * Migration utility to convert legacy plaintext data to encrypted format.
- * Runs inside a transaction to ensure atomicity.
+ * Verifies every encrypted row on this device and moves rows that fail into `quarantine`, so a
+ * record missing from a session can be explained rather than silently skipped. Rows these keys
+ * cannot open are only counted, not moved, when another user shares the device.
+ * The report is also saved for `getLastIntegrityReport`.
  */
-export async function migrateLegacyPlaintextData(): Promise<void> {
+export async function runIntegrityScan(): Promise<IntegrityReport> {
     requireEncryptionReadiness();
+    const hasOtherUsers = await db.keyring.count() > 1;
+    const tables = {} as Record<IntegrityTableName, IntegrityTableSummary>;
+
+    for (const tableName of Object.keys(CIPHERTEXT_FIELDS) as IntegrityTableName[]) {
+        const table = db.table(tableName);
+        const summary: IntegrityTableSummary = { scanned: 0, verified: 0, quarantined: 0, unattributed: 0 };
+        let lastId = 0;
+        for (;;) {
+            const batch = await table.where(':id').above(lastId).limit(REENCRYPTION_BATCH_SIZE).toArray() as Record<string, unknown>[];
+            if (batch.length === 0) break;
+            lastId = batch[batch.length - 1].id as number;
+
+            const failures: QuarantinedRow[] = [];
+            for (const row of batch) {
+                const result = await classifyRow(row, CIPHERTEXT_FIELDS[tableName], hasOtherUsers);
+                summary.scanned += 1;
+                if (result === 'verified') {
+                    summary.verified += 1;
+                } else if (result === 'unattributed') {
+                    summary.unattributed += 1;
+                } else {
+                    failures.push(toQuarantinedRow(tableName, row, result));
+                }
+            }
+            summary.quarantined += await quarantineRows(tableName, failures);
+        }
+        tables[tableName] = summary;
+    }
 
-    await db.transaction('rw', db.behaviorEvents, db.skillTrials, db.sessionNotes, db.incidents, async () => {
-        const behaviorRows = await db.behaviorEvents.toArray() as unknown as Record<string, unknown>[];
-        for (const row of behaviorRows) {
-            const migrated = await migrateBehaviorRow(row);
-            if (migrated) {
-                await db.behaviorEvents.put(migrated);
+    const report: IntegrityReport = {
+        generatedAt: new Date().toISOString(),
+        tables,
+        quarantined: (await getQuarantinedRows()).map(toReportEntry)
+    };
+    await setSyncStateValue(INTEGRITY_REPORT_KEY, JSON.stringify(report));
+    return report;
+}
+
+/**
+ * Records a pulled end-to-end document that did not open, so the record missing from this device
+ * shows in the integrity report. The pull cursor moves past it either way; a document seen again
+ * replaces its earlier entry.
+ */
+export async function quarantinePulledDocument(document: PulledDocument, reason: IntegrityFailure): Promise<void> {
+    const tableName = ENTITY_REPOSITORIES[document.entityType]?.schema.table;
+    if (!tableName) return;
+
+    await db.transaction('rw', db.quarantine, db.syncState, async () => {
+        const previous = await db.quarantine.where('tableName').equals(tableName)
+            .filter((entry) => entry.rowId === 0 && entry.remoteId === document.id)
+            .primaryKeys();
+        await db.quarantine.bulkDelete(previous);
+        await db.quarantine.add({
+            tableName,
+            rowId: 0,
+            sessionId: document.sessionId,
+            remoteId: document.id,
+            reason,
+            row: { ...document },
+            recordedAt: toDate(document.syncedAt),
+            quarantinedAt: new Date()
+        });
+
+        const report = await getLastIntegrityReport();
+        if (report) {
+            report.quarantined = (await getQuarantinedRows()).map(toReportEntry);
+            await setSyncStateValue(INTEGRITY_REPORT_KEY, JSON.stringify(report));
+        }
+    });
+}
+
+export async function getQuarantinedRows(): Promise<QuarantinedRow[]> {
+    return db.quarantine.orderBy('quarantinedAt').toArray();
+}
+
+export async function getLastIntegrityReport(): Promise<IntegrityReport | null> {
+    const saved = await getSyncStateValue(INTEGRITY_REPORT_KEY);
+    return saved ? JSON.parse(saved) as IntegrityReport : null;
+}
+
+/** Tables cleared by a device wipe: everything except the pending audit events. */
+const WIPED_TABLES = [
+    'sessions', 'behaviorEvents', 'skillTrials', 'sessionNotes', 'incidents', 'intervalRecordings', 'taskAnalyses', 'behaviorTimers',
+    'targetCatalogs', 'syncQueue', 'chatMessages', 'syncState', 'syncConflicts', 'keyring', 'quarantine'
+] as const;
+
+/**
+ * Removes synced clinical rows recorded before `cutoff`, then the completed sessions left empty
+ * with their chat history and any timer left behind, and conflicts resolved before `cutoff`. Rows with queued changes or an
+ * open conflict, and anything in a session still in progress, are kept. Works on ciphertext only,
+ * so it also covers rows of other users of the device.
+ */
+export async function purgeSyncedLocalData(cutoff: Date): Promise<LocalPurgeSummary> {
+    const summary: LocalPurgeSummary = { records: 0, sessions: 0, chatMessages: 0, conflicts: 0 };
+    const clinicalTables = CLINICAL_TABLES.map(([tableName]) => db[tableName]);
+
+    await db.transaction('rw', [...clinicalTables, db.sessions, db.chatMessages, db.behaviorTimers, db.syncQueue, db.syncConflicts], async () => {
+        const pending = new Set((await db.syncQueue.toArray())
+            .filter((item) => item.action !== 'delete')
+            .map((item) => `${item.entityType}:${item.entityId}`));
+        const conflicted = new Set((await db.syncConflicts.where('status').equals('open').toArray())
+            .map((conflict) => `${conflict.entityType}:${conflict.localId}`));
+        const activeSessions = new Set((await db.sessions.where('status').equals('in-progress').primaryKeys()));
+
+        for (const [tableName, entityType] of CLINICAL_TABLES) {
+            const expired = await db[tableName].where('timestamp').below(cutoff)
+                .filter((row) => row.synced && row.id !== undefined &&
+                    !pending.has(`${entityType}:${row.id}`) &&
+                    !conflicted.has(`${entityType}:${row.id}`) &&
+                    !activeSessions.has(row.sessionId))
+                .primaryKeys();
+            await db[tableName].bulkDelete(expired);
+            for (const id of expired) {
+                decryptedRows.delete(decryptedRowKey(tableName, id));
             }
+            summary.records += expired.length;
+        }
+
+        const endedSessions = await db.sessions.where('status').equals('completed')
+            .filter((session) => (session.endTime ?? session.startTime) < cutoff)
+            .toArray();
+        for (const session of endedSessions) {
+            if (session.id === undefined) continue;
+            const remaining = await Promise.all(clinicalTables.map((table) => table.where('sessionId').equals(session.id!).count()));
+            if (remaining.some((count) => count > 0)) continue;
+            summary.chatMessages += await db.chatMessages.where('sessionId').equals(session.id).delete();
+            await db.behaviorTimers.where('sessionId').equals(session.id).delete();
+            await db.sessions.delete(session.id);
+            summary.sessions += 1;
+        }
+
+        summary.conflicts = await db.syncConflicts.where('status').notEqual('open')
+            .filter((conflict) => (conflict.resolvedAt ?? conflict.createdAt) < cutoff)
+            .delete();
+    });
+    return summary;
+}
+
+/**
+ * Erases every local table, keys included, and queues a `wipe_device` audit event in the same
+ * transaction. The caller is expected to drop the in-memory keys and sign out.
+ * @returns What was erased, including how many changes had not reached the server.
+ */
+export async function wipeLocalData(userId?: string): Promise<LocalPurgeSummary & { unsynced: number }> {
+    const tables = [...WIPED_TABLES.map((tableName) => db.table(tableName)), db.deviceAudit];
+    return db.transaction('rw', tables, async () => {
+        const records = await Promise.all(CLINICAL_TABLES.map(([tableName]) => db[tableName].count()));
+        const summary = {
+            records: records.reduce((sum, count) => sum + count, 0),
+            sessions: await db.sessions.count(),
+            chatMessages: await db.chatMessages.count(),
+            conflicts: await db.syncConflicts.count(),
+            unsynced: await db.syncQueue.count()
+        };
+        await Promise.all(WIPED_TABLES.map((tableName) => db.table(tableName).clear()));
+        decryptedRows.clear();
+        await recordDeviceAuditEvent('wipe_device', summary, userId);
+        return summary;
+    });
+}
+
+/** Queues a device audit event until it is reported to the server. */
+export async function recordDeviceAuditEvent(action: DeviceAuditEvent['action'], details: Record<string, number>, userId?: string): Promise<void> {
+    await db.deviceAudit.add({ uuid: crypto.randomUUID(), action, userId, occurredAt: new Date(), details });
+}
+
+export async function getPendingDeviceAuditEvents(): Promise<DeviceAuditEvent[]> {
+    return db.deviceAudit.orderBy('occurredAt').toArray();
+}
+
+export async function deleteDeviceAuditEvents(ids: number[]): Promise<void> {
+    await db.deviceAudit.bulkDelete(ids);
+}
+
+/**
+ * Finds or creates the local session that holds records pulled from another device.
+ * Session ids are device-local, so pulled records are grouped by author + remote session id.
+ * The learner's name comes from `learnerNames`; when it is not known the name is left empty and
+ * views resolve it from the learner list by `clientId`.
+ */
+async function resolvePulledSessionId(doc: PulledDocument, timestamp: Date, learnerNames: ReadonlyMap<string, string>): Promise<number> {
+    const remoteKey = `${doc.syncedBy}:${doc.sessionId}`;
+    const clientName = doc.clientId ? learnerNames.get(doc.clientId) ?? '' : '';
+    const existing = await db.sessions.where('remoteKey').equals(remoteKey).first();
+    if (existing?.id !== undefined) {
+        const startTime = timestamp < existing.startTime ? timestamp : existing.startTime;
+        const endTime = !existing.endTime || timestamp > existing.endTime ? timestamp : existing.endTime;
+        // Sessions pulled before the name was known (older versions stored the learner id)
+        const needsName = Boolean(clientName) && (!existing.clientName || existing.clientName === existing.clientId);
+        if (startTime !== existing.startTime || endTime !== existing.endTime || needsName) {
+            await db.sessions.update(existing.id, { startTime, endTime, ...(needsName ? { clientName } : {}), updatedAt: new Date() });
         }
+        return existing.id;
+    }
+
+    const now = new Date();
+    const id = await db.sessions.add({
+        clientId: doc.clientId ?? '',
+        clientName,
+        startTime: timestamp,
+        endTime: timestamp,
+        status: 'completed',
+        remoteKey,
+        createdAt: now,
+        updatedAt: now
+    });
+    if (typeof id !== 'number') {
+        throw new Error('Failed to create session for pulled records');
+    }
+    return id;
+}
+
+/**
+ * Merges documents pulled from the server into the encrypted tables.
+ * Incoming plaintext is re-encrypted and signed with the local key. Rows with
+ * unsynced local changes are left untouched so pending edits are not overwritten.
+ * @param learnerNames Learner names by id, for sessions created to hold pulled records.
+ * @returns Number of rows written.
+ */
+export async function mergePulledDocuments(documents: PulledDocument[], learnerNames: ReadonlyMap<string, string> = new Map()): Promise<number> {
+    requireEncryptionReadiness();
+    let merged = 0;
 
-        const skillRows = await db.skillTrials.toArray() as unknown as Record<string, unknown>[];
-        for (const row of skillRows) {
-            const migrated = await migrateSkillTrialRow(row);
-            if (migrated) {
-                await db.skillTrials.put(migrated);
+    for (const doc of documents) {
+        const target = ENTITY_REPOSITORIES[doc.entityType];
+        if (!target || (!doc.data && !doc.deleted)) {
+            continue;
+        }
+        const table = db[target.schema.table];
+
+        // Match on the server id first, then on the UUID (our own record whose acknowledgement was lost)
+        const pulledUuid = typeof doc.data?.uuid === 'string' ? doc.data.uuid : undefined;
+        const existing = await table.where('remoteId').equals(doc.id).first() ??
+            (pulledUuid ? await table.where('uuid').equals(pulledUuid).first() : undefined);
+        if (!existing && await hasPendingTombstone(doc.entityType, doc.id)) {
+            // Deleted here but not yet pushed; the queued tombstone wins
+            continue;
+        }
+        if (existing && !existing.synced) {
+            // Local edits are pending: reconcile only if the server copy moved past our base revision
+            if (existing.id !== undefined && (doc.revision ?? 0) > (existing.revision ?? 0)) {
+                await reconcileSyncConflict({
+                    id: doc.id,
+                    entityType: doc.entityType,
+                    clientRevision: existing.revision ?? 0,
+                    serverRevision: doc.revision ?? 0,
+                    serverDocument: doc
+                }, existing.id);
             }
+            continue;
+        }
+        if (existing && doc.revision !== undefined && existing.revision === doc.revision && !doc.deleted) {
+            // Already merged; the pull feed repeats its newest second
+            continue;
         }
 
-        const noteRows = await db.sessionNotes.toArray() as unknown as Record<string, unknown>[];
-        for (const row of noteRows) {
-            const migrated = await migrateSessionNoteRow(row);
-            if (migrated) {
-                await db.sessionNotes.put(migrated);
+        if (doc.deleted) {
+            if (existing?.id !== undefined) {
+                await table.delete(existing.id);
+                merged += 1;
             }
+            continue;
+        }
+
+        const timestamp = toDate(doc.data.timestamp ?? doc.data.updatedAt);
+        const sessionId = existing?.sessionId ?? await resolvePulledSessionId(doc, timestamp, learnerNames);
+        const row = await target.toEncryptedRow({
+            ...doc.data,
+            id: existing?.id,
+            sessionId,
+            synced: true
+        });
+        if (!row) {
+            console.warn(`Skipping malformed pulled ${doc.entityType} document ${doc.id}`);
+            continue;
         }
 
-        const incidentRows = await db.incidents.toArray() as unknown as Record<string, unknown>[];
-        for (const row of incidentRows) {
-            const migrated = await migrateIncidentRow(row);
-            if (migrated) {
-                await db.incidents.put(migrated);
+        await table.put({
+            ...row,
+            uuid: existing?.uuid ?? pulledUuid ?? crypto.randomUUID(),
+            remoteId: doc.id,
+            revision: doc.revision
+        });
+        merged += 1;
+    }
+
+    return merged;
+}
+
+/** Behavior, skill, interval and task analysis data merge field by field; notes and incidents need a human decision. */
+const FIELD_MERGE_ENTITY_TYPES = new Set<SyncEntityType>(['behavior', 'skillTrial', 'interval', 'taskAnalysis']);
+
+/** Plaintext row metadata that is never part of a field-level merge. */
+const ROW_METADATA_FIELDS = new Set(['id', 'uuid', 'sessionId', 'timestamp', 'createdAt', 'updatedAt', 'synced', 'revision', 'fieldUpdatedAt']);
+
+type MergeableRecord = Record<string, unknown> & { fieldUpdatedAt?: FieldTimestamps };
+
+function fieldTime(record: MergeableRecord, field: string, fallback: Date): number {
+    const value = record.fieldUpdatedAt?.[field];
+    const time = value ? Date.parse(value) : NaN;
+    return Number.isNaN(time) ? fallback.getTime() : time;
+}
+
+/**
+ * Field-level last-writer-wins. Fields without an edit time fall back to the record's creation time;
+ * ties go to the server so every device converges on the same value.
+ */
+export function mergeFieldsLastWriterWins(
+    local: MergeableRecord,
+    localCreatedAt: Date,
+    server: MergeableRecord,
+    serverCreatedAt: Date
+): MergeableRecord {
+    const merged: MergeableRecord = {};
+    const fieldUpdatedAt: FieldTimestamps = {};
+    const fields = new Set([...Object.keys(local), ...Object.keys(server)].filter((field) => !ROW_METADATA_FIELDS.has(field)));
+
+    for (const field of fields) {
+        const localTime = fieldTime(local, field, localCreatedAt);
+        const serverTime = fieldTime(server, field, serverCreatedAt);
+        const useLocal = localTime > serverTime;
+        merged[field] = useLocal ? local[field] : server[field];
+        fieldUpdatedAt[field] = new Date(Math.max(localTime, serverTime)).toISOString();
+    }
+
+    merged.fieldUpdatedAt = fieldUpdatedAt;
+    return merged;
+}
+
+function contentOf(record: MergeableRecord): string {
+    const fields = Object.keys(record).filter((field) => !ROW_METADATA_FIELDS.has(field)).sort();
+    return JSON.stringify(fields.map((field) => [field, record[field]]));
+}
+
+async function getConflictedLocalIds(entityType: SyncEntityType): Promise<Set<number>> {
+    const conflicts = await db.syncConflicts
+        .where('status').equals('open')
+        .filter((conflict) => conflict.entityType === entityType)
+        .toArray();
+    return new Set(conflicts.map((conflict) => conflict.localId));
+}
+
+/**
+ * Applies the merge policy to a write the server rejected as stale.
+ * Behavior and skill rows are merged in place and stay queued for upload at the server's revision;
+ * notes and incidents are parked in `syncConflicts` and withheld from sync until someone resolves them.
+ */
+export async function reconcileSyncConflict(conflict: SyncConflict, localId: number): Promise<'merged' | 'needs-review'> {
+    requireEncryptionReadiness();
+    const target = ENTITY_REPOSITORIES[conflict.entityType];
+    const local = await target.readVerified(localId);
+    if (!local) {
+        return 'merged';
+    }
+
+    const serverDeleted = Boolean(conflict.serverDocument.deleted);
+    const serverData = (conflict.serverDocument.data ?? {}) as MergeableRecord;
+
+    if (serverDeleted && FIELD_MERGE_ENTITY_TYPES.has(conflict.entityType)) {
+        // Nothing left to merge into: the deletion wins over field edits
+        await db.transaction('rw', db[target.schema.table], db.syncQueue, async () => {
+            await db[target.schema.table].delete(localId);
+            await removeQueuedChanges(conflict.entityType, localId);
+        });
+        return 'merged';
+    }
+
+    if (FIELD_MERGE_ENTITY_TYPES.has(conflict.entityType)) {
+        const merged = mergeFieldsLastWriterWins(local.data, local.row.createdAt, serverData, toDate(serverData.createdAt));
+        await db[target.schema.table].update(localId, {
+            ...await target.seal(merged),
+            remoteId: conflict.id,
+            revision: conflict.serverRevision,
+            synced: false
+        });
+        return 'merged';
+    }
+
+    if (!serverDeleted && contentOf(local.data) === contentOf(serverData)) {
+        // Same content on both sides (e.g. our own upload whose acknowledgement was lost): just rebase
+        await db[target.schema.table].update(localId, { remoteId: conflict.id, revision: conflict.serverRevision });
+        return 'merged';
+    }
+
+    const encryptedServerData = await encryptEntity(serverData);
+    const signature = await signEncryptedData(encryptedServerData);
+    const existing = await db.syncConflicts
+        .where('localId').equals(localId)
+        .filter((row) => row.status === 'open' && row.entityType === conflict.entityType)
+        .first();
+
+    if (existing?.id !== undefined) {
+        await db.syncConflicts.update(existing.id, {
+            serverRevision: conflict.serverRevision,
+            encryptedServerData,
+            signature,
+            serverDeleted
+        });
+    } else {
+        await db.syncConflicts.add({
+            entityType: conflict.entityType,
+            localId,
+            remoteId: conflict.id,
+            serverRevision: conflict.serverRevision,
+            encryptedServerData,
+            signature,
+            serverDeleted,
+            status: 'open',
+            createdAt: new Date()
+        });
+    }
+    return 'needs-review';
+}
+
+export interface OpenSyncConflict {
+    id: number;
+    entityType: SyncEntityType;
+    localId: number;
+    remoteId: string;
+    serverRevision: number;
+    createdAt: Date;
+    local: Record<string, unknown> | null;
+    server: Record<string, unknown>;
+    serverDeleted: boolean;
+}
+
+export async function countOpenSyncConflicts(): Promise<number> {
+    return db.syncConflicts.where('status').equals('open').count();
+}
+
+/**
+ * Lists conflicts awaiting manual review with both versions decrypted for display.
+ */
+export async function getOpenSyncConflicts(): Promise<OpenSyncConflict[]> {
+    requireEncryptionReadiness();
+    const rows = await db.syncConflicts.where('status').equals('open').toArray();
+
+    const results: OpenSyncConflict[] = [];
+    for (const row of rows) {
+        if (row.id === undefined) continue;
+        try {
+            const isValid = await verifyEncryptedData(row.encryptedServerData, row.signature);
+            if (!isValid) {
+                console.warn(`Data integrity check failed for sync conflict ${row.id} - skipping`);
+                continue;
             }
+            const server = await decryptEntity<Record<string, unknown>>(row.encryptedServerData);
+            const local = await ENTITY_REPOSITORIES[row.entityType].readVerified(row.localId);
+            results.push({
+                id: row.id,
+                entityType: row.entityType,
+                localId: row.localId,
+                remoteId: row.remoteId,
+                serverRevision: row.serverRevision,
+                createdAt: row.createdAt,
+                local: local?.data ?? null,
+                server,
+                serverDeleted: Boolean(row.serverDeleted)
+            });
+        } catch (error) {
+            console.warn(`Failed to decrypt sync conflict ${row.id}: `, error);
+        }
+    }
+
+    return results;
+}
+
+/**
+ * Resolves a parked conflict. Keeping the local copy rebases it on the server revision so the next
+ * sync overwrites the server; taking the server copy replaces (or, for tombstones, deletes) the local
+ * row and drops its queued changes.
+ */
+export async function resolveSyncConflict(conflictId: number, resolution: 'local' | 'server'): Promise<void> {
+    requireEncryptionReadiness();
+    const conflict = await db.syncConflicts.get(conflictId);
+    if (!conflict || conflict.status !== 'open') {
+        throw new Error(`Sync conflict ${conflictId} not found`);
+    }
+
+    const target = ENTITY_REPOSITORIES[conflict.entityType];
+    const localRow = await db[target.schema.table].get(conflict.localId);
+
+    if (resolution === 'local') {
+        if (localRow) {
+            await db.transaction('rw', db[target.schema.table], db.syncQueue, async () => {
+                await db[target.schema.table].update(conflict.localId, { revision: conflict.serverRevision, synced: false });
+                await addToSyncQueue(conflict.entityType, conflict.localId, 'update');
+            });
+        }
+    } else if (conflict.serverDeleted) {
+        await db.transaction('rw', db[target.schema.table], db.syncQueue, async () => {
+            await db[target.schema.table].delete(conflict.localId);
+            await removeQueuedChanges(conflict.entityType, conflict.localId);
+        });
+    } else {
+        const isValid = await verifyEncryptedData(conflict.encryptedServerData, conflict.signature);
+        if (!isValid) {
+            throw new Error(`Data integrity check failed for sync conflict ${conflictId}`);
+        }
+        const serverData = await decryptEntity<Record<string, unknown>>(conflict.encryptedServerData);
+        const row = await target.toEncryptedRow({
+            ...serverData,
+            id: conflict.localId,
+            sessionId: localRow?.sessionId ?? serverData.sessionId,
+            synced: true
+        });
+        if (!row) {
+            throw new Error(`Server copy for conflict ${conflictId} is malformed`);
+        }
+        await db.transaction('rw', db[target.schema.table], db.syncQueue, async () => {
+            await db[target.schema.table].put({ ...row, uuid: localRow?.uuid, remoteId: conflict.remoteId, revision: conflict.serverRevision });
+            await removeQueuedChanges(conflict.entityType, conflict.localId);
+        });
+    }
+
+    await db.syncConflicts.update(conflictId, { status: 'resolved', resolution, resolvedAt: new Date() });
+}
+
+export async function getSyncStateValue(key: string): Promise<string | undefined> {
+    return (await db.syncState.get(key))?.value;
+}
+
+export async function setSyncStateValue(key: string, value: string): Promise<void> {
+    await db.syncState.put({ key, value, updatedAt: new Date() });
+}
+
+export async function getSessionClientIds(sessionIds: number[]): Promise<Map<number, string>> {
+    const uniqueIds = [...new Set(sessionIds)];
+    const sessions = await db.sessions.bulkGet(uniqueIds);
+    const result = new Map<number, string>();
+    sessions.forEach((session) => {
+        if (session?.id !== undefined) {
+            result.set(session.id, session.clientId);
         }
     });
+    return result;
+}
+
+// Sync queue
+/** Attempts after which a failing item is parked instead of retried. */
+export const MAX_SYNC_ATTEMPTS = 8;
+const SYNC_RETRY_BASE_MS = 30 * 1000;
+const SYNC_RETRY_MAX_MS = 60 * 60 * 1000;
+
+/** Exponential backoff from the attempt count: 30s, 1m, 2m, ... capped at one hour. */
+export function getSyncRetryDelayMs(attempts: number): number {
+    return Math.min(SYNC_RETRY_BASE_MS * 2 ** Math.max(attempts - 1, 0), SYNC_RETRY_MAX_MS);
+}
+
+function parseTombstonePayload(item: SyncQueueItem): TombstonePayload | null {
+    try {
+        const payload = JSON.parse(item.payload) as Partial<TombstonePayload>;
+        if (typeof payload.remoteId !== 'string' || typeof payload.sessionId !== 'number') {
+            return null;
+        }
+        return { remoteId: payload.remoteId, revision: payload.revision ?? 0, sessionId: payload.sessionId };
+    } catch {
+        return null;
+    }
+}
+
+async function findQueuedChange(entityType: SyncQueueItem['entityType'], entityId: number): Promise<SyncQueueItem | undefined> {
+    return db.syncQueue.where('entityId').equals(entityId)
+        .filter((item) => item.entityType === entityType)
+        .first();
+}
+
+async function removeQueuedChanges(entityType: SyncQueueItem['entityType'], entityId: number): Promise<void> {
+    await db.syncQueue.where('entityId').equals(entityId)
+        .filter((item) => item.entityType === entityType)
+        .delete();
 }
 
-// Helper functions
+export async function hasPendingTombstone(entityType: SyncEntityType, remoteId: string): Promise<boolean> {
+    const tombstones = await db.syncQueue.where('action').equals('delete')
+        .filter((item) => item.entityType === entityType)
+        .toArray();
+    return tombstones.some((item) => parseTombstonePayload(item)?.remoteId === remoteId);
+}
+
+/**
+ * Queues a local change for upload, coalescing with any change already queued for the same row:
+ * a create followed by edits is still a create, and anything followed by a delete becomes a delete.
+ * Coalescing resets the retry state, since the content being sent has changed.
+ */
 export async function addToSyncQueue(
     entityType: SyncQueueItem['entityType'],
     entityId: number,
     action: SyncQueueItem['action'],
-    payload: object
+    payload: object = {}
 ) {
+    const now = new Date();
+    const existing = await findQueuedChange(entityType, entityId);
+    if (existing?.id !== undefined) {
+        await db.syncQueue.update(existing.id, {
+            action: existing.action === 'create' && action === 'update' ? 'create' : action,
+            payload: JSON.stringify(payload),
+            attempts: 0,
+            updatedAt: now,
+            status: 'pending',
+            nextAttemptAt: undefined,
+            lastError: undefined,
+            parkedReason: undefined
+        });
+        return;
+    }
+
     await db.syncQueue.add({
         entityType,
         entityId,
         action,
         payload: JSON.stringify(payload),
         attempts: 0,
-        createdAt: new Date()
+        createdAt: now,
+        updatedAt: now,
+        status: 'pending'
+    });
+}
+
+/**
+ * Pending items whose backoff has elapsed, oldest first.
+ * Rows with an open conflict are held back until someone resolves it.
+ */
+export async function getDueSyncQueueItems(now: Date = new Date()): Promise<SyncQueueItem[]> {
+    const openConflicts = await db.syncConflicts.where('status').equals('open').toArray();
+    const blocked = new Set(openConflicts.map((conflict) => `${conflict.entityType}:${conflict.localId}`));
+
+    const items = await db.syncQueue.where('status').equals('pending')
+        .filter((item) => item.entityType !== 'session' &&
+            (!item.nextAttemptAt || item.nextAttemptAt <= now) &&
+            !blocked.has(`${item.entityType}:${item.entityId}`))
+        .toArray();
+    return items.sort((a, b) => (a.id ?? 0) - (b.id ?? 0));
+}
+
+/**
+ * Builds the upload document for a queued change: the decrypted row for creates/updates,
+ * an empty tombstone for deletes. Throws when the item can never succeed (row gone, integrity
+ * failure, malformed payload) so the caller can park it.
+ */
+export async function buildSyncDocument(item: SyncQueueItem): Promise<SyncableDocument> {
+    requireEncryptionReadiness();
+    if (item.entityType === 'session') {
+        throw new Error('Session records are not synced');
+    }
+
+    if (item.action === 'delete') {
+        const tombstone = parseTombstonePayload(item);
+        if (!tombstone) {
+            throw new Error(`Malformed tombstone for ${item.entityType} ${item.entityId}`);
+        }
+        const session = await db.sessions.get(tombstone.sessionId);
+        return {
+            id: tombstone.remoteId,
+            sessionId: tombstone.sessionId,
+            entityType: item.entityType,
+            data: {},
+            syncedAt: new Date().toISOString(),
+            clientId: session?.clientId,
+            revision: tombstone.revision,
+            deleted: true
+        };
+    }
+
+    const local = await ENTITY_REPOSITORIES[item.entityType].readVerified(item.entityId);
+    if (!local) {
+        throw new Error(`${item.entityType} ${item.entityId} no longer exists on this device`);
+    }
+    const { row, data } = local;
+    const session = await db.sessions.get(row.sessionId);
+    return {
+        // Rows pushed before UUIDs existed keep the document id they were stored under
+        id: row.remoteId ?? row.uuid ?? `${item.entityType}-${item.entityId}`,
+        sessionId: row.sessionId,
+        entityType: item.entityType,
+        data: {
+            id: row.id,
+            uuid: row.uuid,
+            sessionId: row.sessionId,
+            // Notes keep their edit time as `updatedAt`; other entities use `timestamp`
+            [ENTITY_REPOSITORIES[item.entityType].schema.timeField]: row.timestamp,
+            createdAt: row.createdAt,
+            synced: row.synced,
+            revision: row.revision,
+            ...data
+        },
+        syncedAt: new Date().toISOString(),
+        clientId: session?.clientId,
+        revision: row.revision ?? 0
+    };
+}
+
+function isSameQueuedChange(current: SyncQueueItem | undefined, sent: SyncQueueItem): current is SyncQueueItem {
+    return Boolean(current) && current?.updatedAt?.getTime() === sent.updatedAt?.getTime();
+}
+
+/**
+ * Records a server acknowledgement. The queue item is removed only if no newer change was
+ * coalesced into it while the upload was in flight; otherwise that change is rebased on the new revision.
+ */
+export async function completeSyncQueueItem(item: SyncQueueItem, document: SyncableDocument, revision: number): Promise<void> {
+    if (item.entityType === 'session') return;
+    const table = db[ENTITY_REPOSITORIES[item.entityType].schema.table];
+
+    await db.transaction('rw', table, db.syncQueue, async () => {
+        const current = item.id !== undefined ? await db.syncQueue.get(item.id) : undefined;
+        if (item.action === 'delete') {
+            if (isSameQueuedChange(current, item) && current.id !== undefined) {
+                await db.syncQueue.delete(current.id);
+            }
+            return;
+        }
+
+        const row = await table.get(item.entityId);
+        if (!row) {
+            // Deleted while the upload was in flight: the copy we just created needs a tombstone
+            await addToSyncQueue(item.entityType, item.entityId, 'delete', {
+                remoteId: document.id,
+                revision,
+                sessionId: document.sessionId
+            } satisfies TombstonePayload);
+            return;
+        }
+
+        if (isSameQueuedChange(current, item) && current.id !== undefined) {
+            await db.syncQueue.delete(current.id);
+            await table.update(item.entityId, { synced: true, remoteId: document.id, revision });
+        } else {
+            await table.update(item.entityId, { remoteId: document.id, revision });
+        }
+    });
+}
+
+/** Re-targets a queued tombstone at the server's current revision; a local delete wins over remote edits. */
+export async function rebaseSyncQueueTombstone(item: SyncQueueItem, serverRevision: number): Promise<void> {
+    const tombstone = parseTombstonePayload(item);
+    if (item.id === undefined || !tombstone) return;
+    await db.syncQueue.update(item.id, { payload: JSON.stringify({ ...tombstone, revision: serverRevision }) });
+}
+
+/** Takes an item out of rotation; it stays visible with its reason until retried. */
+export async function parkSyncQueueItem(item: SyncQueueItem, reason: string): Promise<void> {
+    if (item.id === undefined) return;
+    await db.syncQueue.update(item.id, {
+        status: 'parked',
+        parkedReason: reason,
+        lastError: reason,
+        lastAttempt: new Date(),
+        nextAttemptAt: undefined
+    });
+}
+
+/**
+ * Records a failed upload and schedules the next attempt with exponential backoff.
+ * Items that keep failing are parked after `MAX_SYNC_ATTEMPTS`.
+ */
+export async function failSyncQueueItem(item: SyncQueueItem, reason: string, now: Date = new Date()): Promise<void> {
+    if (item.id === undefined) return;
+    const current = await db.syncQueue.get(item.id);
+    if (!isSameQueuedChange(current, item)) {
+        // A newer change replaced the one that failed; it starts with a fresh retry budget
+        return;
+    }
+
+    const attempts = current.attempts + 1;
+    if (attempts >= MAX_SYNC_ATTEMPTS) {
+        await db.syncQueue.update(item.id, { attempts });
+        await parkSyncQueueItem(item, `Gave up after ${attempts} attempts: ${reason}`);
+        return;
+    }
+
+    await db.syncQueue.update(item.id, {
+        attempts,
+        lastAttempt: now,
+        lastError: reason,
+        nextAttemptAt: new Date(now.getTime() + getSyncRetryDelayMs(attempts))
+    });
+}
+
+/** Earliest time a backed-off item becomes due, if any. */
+export async function getNextSyncRetryTime(): Promise<Date | null> {
+    const pending = await db.syncQueue.where('status').equals('pending')
+        .filter((item) => Boolean(item.nextAttemptAt))
+        .toArray();
+    const times = pending.map((item) => item.nextAttemptAt!.getTime());
+    return times.length > 0 ? new Date(Math.min(...times)) : null;
+}
+
+export async function getParkedSyncQueueItems(): Promise<SyncQueueItem[]> {
+    return db.syncQueue.where('status').equals('parked').toArray();
+}
+
+/** Puts a parked item back in rotation with a fresh retry budget. */
+export async function retryParkedSyncQueueItem(id: number): Promise<void> {
+    await db.syncQueue.update(id, {
+        status: 'pending',
+        attempts: 0,
+        nextAttemptAt: undefined,
+        parkedReason: undefined
     });
 }
 
+/** Changes still waiting to reach the server (parked items excluded). */
 export async function getUnsyncedCount(): Promise<number> {
-    const behaviors = await db.behaviorEvents.filter((item) => !item.synced).count();
-    const trials = await db.skillTrials.filter((item) => !item.synced).count();
-    const notes = await db.sessionNotes.filter((item) => !item.synced).count();
-    const incidents = await db.incidents.filter((item) => !item.synced).count();
-    return behaviors + trials + notes + incidents;
+    return db.syncQueue.where('status').equals('pending').count();
 }
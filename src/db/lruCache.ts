@@ -0,0 +1,39 @@
+/** Map-backed least-recently-used cache; reads refresh an entry and the oldest entry is evicted past `capacity`. */
+export class LruCache<K, V> {
+    private readonly entries = new Map<K, V>();
+    private readonly capacity: number;
+
+    constructor(capacity: number) {
+        this.capacity = capacity;
+    }
+
+    get size(): number {
+        return this.entries.size;
+    }
+
+    get(key: K): V | undefined {
+        if (!this.entries.has(key)) {
+            return undefined;
+        }
+        const value = this.entries.get(key) as V;
+        this.entries.delete(key);
+        this.entries.set(key, value);
+        return value;
+    }
+
+    set(key: K, value: V): void {
+        this.entries.delete(key);
+        this.entries.set(key, value);
+        if (this.entries.size > this.capacity) {
+            this.entries.delete(this.entries.keys().next().value as K);
+        }
+    }
+
+    delete(key: K): void {
+        this.entries.delete(key);
+    }
+
+    clear(): void {
+        this.entries.clear();
+    }
+}
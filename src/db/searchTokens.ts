@@ -0,0 +1,23 @@
+// Words for the encrypted search index. The same normalization runs on stored text and on queries,
+// so "Transitions" in a note matches a search for "transition".
+
+const MIN_TOKEN_LENGTH = 2;
+
+const STOP_WORDS = new Set([
+    'a', 'an', 'and', 'all', 'any', 'are', 'as', 'at', 'be', 'by', 'every', 'for', 'from', 'in', 'is', 'it',
+    'of', 'on', 'or', 'the', 'to', 'was', 'were', 'with'
+]);
+
+/** Lowercase, strip diacritics and a plural `s`. */
+function normalizeWord(word: string): string {
+    const plain = word.normalize('NFKD').replace(/\p{M}/gu, '').toLowerCase();
+    return plain.length > 3 && plain.endsWith('s') && !plain.endsWith('ss') ? plain.slice(0, -1) : plain;
+}
+
+/** Distinct searchable words of `text`, without stop words. */
+export function tokenizeForSearch(text: string): string[] {
+    const words = text.split(/[^\p{L}\p{N}]+/u)
+        .map(normalizeWord)
+        .filter((word) => word.length >= MIN_TOKEN_LENGTH && !STOP_WORDS.has(word));
+    return [...new Set(words)];
+}
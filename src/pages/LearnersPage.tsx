@@ -4,6 +4,8 @@ import { useAuth } from '../hooks/useAuth';
 import { learnerService } from '../services/learnerService';
 import { useNavigate } from 'react-router-dom';
 import { LearnerModal } from '../components/LearnerModal';
+import { ProgramModal } from '../components/ProgramModal';
+import { TargetCatalogModal } from '../components/TargetCatalogModal';
 import './AdminPages.css';
 
 export default function LearnersPage() {
@@ -14,6 +16,8 @@ export default function LearnersPage() {
     const [error, setError] = useState('');
     const [showAddModal, setShowAddModal] = useState(false);
     const [editingLearnerId, setEditingLearnerId] = useState<string | null>(null);
+    const [programsLearnerId, setProgramsLearnerId] = useState<string | null>(null);
+    const [catalogLearnerId, setCatalogLearnerId] = useState<string | null>(null);
 
     useEffect(() => {
         if (isAuthLoading) {
@@ -41,6 +45,8 @@ export default function LearnersPage() {
 
     if (isAuthLoading || isLoading) return <div className="admin-loading">Loading learners...</div>;
     const editingLearner = editingLearnerId ? learners.find((learner) => learner.id === editingLearnerId) ?? null : null;
+    const programsLearner = programsLearnerId ? learners.find((learner) => learner.id === programsLearnerId) ?? null : null;
+    const catalogLearner = catalogLearnerId ? learners.find((learner) => learner.id === catalogLearnerId) ?? null : null;
 
     const canManage = currentUser?.role === 'manager' || currentUser?.role === 'bcba';
 
@@ -111,6 +117,20 @@ export default function LearnersPage() {
                                                 >
                                                     Edit
                                                 </button>
+                                                <button
+                                                    type="button"
+                                                    className="admin-link-btn"
+                                                    onClick={() => setProgramsLearnerId(learner.id)}
+                                                >
+                                                    Programs
+                                                </button>
+                                                <button
+                                                    type="button"
+                                                    className="admin-link-btn"
+                                                    onClick={() => setCatalogLearnerId(learner.id)}
+                                                >
+                                                    Targets
+                                                </button>
                                             </td>
                                         </tr>
                                     ))
@@ -134,6 +154,20 @@ export default function LearnersPage() {
                     onLearnerSaved={loadLearners}
                 />
             )}
+            {programsLearner && (
+                <ProgramModal
+                    isOpen={Boolean(programsLearner)}
+                    learner={programsLearner}
+                    onClose={() => setProgramsLearnerId(null)}
+                />
+            )}
+            {catalogLearner && (
+                <TargetCatalogModal
+                    isOpen={Boolean(catalogLearner)}
+                    learner={catalogLearner}
+                    onClose={() => setCatalogLearnerId(null)}
+                />
+            )}
         </div>
     );
 }
@@ -4,6 +4,10 @@ import { useAuth } from '../hooks/useAuth';
 import { userService } from '../services/userService';
 import { useNavigate } from 'react-router-dom';
 import { UserModal } from '../components/UserModal';
+import { CloudEncryptionPanel } from '../components/CloudEncryptionPanel';
+import { AccountRecoveryPanel } from '../components/AccountRecoveryPanel';
+import { DeviceLockPanel } from '../components/DeviceLockPanel';
+import { LocalRetentionPanel } from '../components/LocalRetentionPanel';
 import './AdminPages.css';
 
 export default function UsersPage() {
@@ -110,6 +114,11 @@ export default function UsersPage() {
                             </tbody>
                         </table>
                     </div>
+
+                    <CloudEncryptionPanel />
+                    <AccountRecoveryPanel />
+                    <DeviceLockPanel />
+                    <LocalRetentionPanel />
                 </div>
             </div>
 
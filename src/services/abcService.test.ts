@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import { addBehaviorEvent, db, getBehaviorEventsByLearner, type BehaviorEvent } from '../db/db';
+import { useEncryptionStore } from '../stores/encryptionStore';
+import { DEFAULT_ANTECEDENTS, DEFAULT_CONSEQUENCES, buildAbcCatalog, isCompleteAbcRecord, summarizeAbc, toAbcBehaviorEvent } from './abcService';
+
+const now = new Date('2026-06-01T12:00:00.000Z');
+
+function event(behaviorType: string, antecedent?: string, consequent?: string, functionGuess?: BehaviorEvent['functionGuess']): BehaviorEvent {
+  return { sessionId: 1, behaviorType, count: 1, antecedent, consequent, functionGuess, timestamp: now, createdAt: now, synced: false };
+}
+
+describe('ABC catalog', () => {
+  it('puts the learner\'s most used entries first and keeps unused defaults after them', () => {
+    const catalog = buildAbcCatalog([
+      event('tantrum', 'Bedtime routine', 'Demand removed'),
+      event('tantrum', 'bedtime routine', 'demand removed'),
+      event('aggression', 'Transition', 'Blocked'),
+    ]);
+
+    expect(catalog.antecedents.slice(0, 2)).toEqual(['Bedtime routine', 'Transition']);
+    expect(catalog.antecedents.filter((label) => label.toLowerCase() === 'transition')).toHaveLength(1);
+    expect(catalog.antecedents).toEqual(expect.arrayContaining(DEFAULT_ANTECEDENTS));
+    expect(catalog.consequences[0]).toBe('Demand removed');
+    expect(catalog.consequences).toHaveLength(DEFAULT_CONSEQUENCES.length);
+    expect(catalog.behaviors[0]).toBe('tantrum');
+  });
+});
+
+describe('ABC records', () => {
+  it('requires all three terms and normalizes them into a behavior event', () => {
+    expect(isCompleteAbcRecord({ behaviorType: 'tantrum', antecedent: 'Transition', consequent: ' ' })).toBe(false);
+
+    const record = { behaviorType: ' tantrum ', antecedent: 'Demand  placed', consequent: 'Attention given', functionGuess: 'attention' as const, notes: '  ' };
+    expect(isCompleteAbcRecord(record)).toBe(true);
+    expect(toAbcBehaviorEvent(record, 7, now)).toEqual({
+      sessionId: 7,
+      behaviorType: 'tantrum',
+      count: 1,
+      antecedent: 'Demand placed',
+      consequent: 'Attention given',
+      functionGuess: 'attention',
+      intensity: undefined,
+      notes: undefined,
+      timestamp: now,
+      createdAt: now,
+      synced: false,
+    });
+  });
+});
+
+describe('ABC summary', () => {
+  it('tallies antecedents, consequences and sequences per behavior', () => {
+    const summaries = summarizeAbc([
+      event('tantrum', 'Demand placed', 'Demand removed', 'escape'),
+      event('tantrum', 'demand placed', 'Demand removed', 'escape'),
+      event('tantrum', 'Transition', undefined),
+      event('aggression', 'Denied access to item', 'Item given', 'tangible'),
+      event('elopement'),
+    ]);
+
+    expect(summaries.map((summary) => summary.behaviorType)).toEqual(['tantrum', 'aggression']);
+    const [tantrum] = summaries;
+    expect(tantrum.total).toBe(3);
+    expect(tantrum.antecedents).toEqual([{ label: 'Demand placed', count: 2 }, { label: 'Transition', count: 1 }]);
+    expect(tantrum.consequences).toEqual([{ label: 'Demand removed', count: 2 }, { label: 'Not recorded', count: 1 }]);
+    expect(tantrum.sequences).toEqual([{ label: 'Demand placed → Demand removed', count: 2 }]);
+    expect(tantrum.functions).toEqual([{ label: 'escape', count: 2 }]);
+  });
+
+  it('reads one learner\'s history across sessions', async () => {
+    useEncryptionStore.getState().clear();
+    await Promise.all([db.keyring.clear(), db.sessions.clear(), db.behaviorEvents.clear(), db.syncQueue.clear()]);
+    await useEncryptionStore.getState().initializeWithPassword('TestPass123!', 'U3RhdGljU2FsdDEyMw==');
+
+    const addSession = (clientId: string) =>
+      db.sessions.add({ clientId, clientName: 'Learner', status: 'in-progress', startTime: now, createdAt: now, updatedAt: now }) as Promise<number>;
+    const first = await addSession('learner-abc');
+    const second = await addSession('learner-abc');
+    const other = await addSession('learner-other');
+
+    await addBehaviorEvent(toAbcBehaviorEvent({ behaviorType: 'tantrum', antecedent: 'Transition', consequent: 'Redirected' }, first, now));
+    await addBehaviorEvent(toAbcBehaviorEvent({ behaviorType: 'tantrum', antecedent: 'Transition', consequent: 'Blocked' }, second, now));
+    await addBehaviorEvent(toAbcBehaviorEvent({ behaviorType: 'elopement', antecedent: 'Transition', consequent: 'Blocked' }, other, now));
+
+    const [summary] = summarizeAbc(await getBehaviorEventsByLearner('learner-abc'));
+    expect(summary).toMatchObject({ behaviorType: 'tantrum', total: 2, antecedents: [{ label: 'Transition', count: 2 }] });
+  });
+});
@@ -0,0 +1,150 @@
+import type { BehaviorEvent } from '../db/db';
+
+// Structured ABC recording: quick-pick catalogs built from a learner's own history, and tallies of
+// antecedent and consequence patterns per behavior for functional assessment.
+
+/** Quick picks offered in front of the defaults, per category. */
+export const ABC_CATALOG_SIZE = 8;
+/** History the catalogs and the summary are drawn from. */
+export const ABC_HISTORY_DAYS = 90;
+
+export const DEFAULT_ABC_BEHAVIORS = ['aggression', 'elopement', 'tantrum', 'SIB', 'property_destruction', 'refusal', 'stereotypy'];
+
+export const DEFAULT_ANTECEDENTS = [
+    'Demand placed',
+    'Transition',
+    'Denied access to item',
+    'Preferred item removed',
+    'Attention diverted',
+    'Unstructured time',
+    'Peer interaction'
+];
+
+export const DEFAULT_CONSEQUENCES = [
+    'Demand removed',
+    'Attention given',
+    'Item given',
+    'Redirected',
+    'Blocked',
+    'Planned ignoring',
+    'Verbal reprimand'
+];
+
+export interface AbcCatalog {
+    behaviors: string[];
+    antecedents: string[];
+    consequences: string[];
+}
+
+/** A complete ABC observation as entered in the recorder. */
+export interface AbcRecord {
+    behaviorType: string;
+    antecedent: string;
+    consequent: string;
+    functionGuess?: BehaviorEvent['functionGuess'];
+    intensity?: BehaviorEvent['intensity'];
+    notes?: string;
+}
+
+export interface AbcPatternCount {
+    label: string;
+    count: number;
+}
+
+export interface AbcBehaviorSummary {
+    behaviorType: string;
+    /** Events of this behavior with an antecedent or a consequence recorded. */
+    total: number;
+    antecedents: AbcPatternCount[];
+    consequences: AbcPatternCount[];
+    /** Most frequent antecedent → consequence sequences. */
+    sequences: AbcPatternCount[];
+    functions: AbcPatternCount[];
+}
+
+const NOT_RECORDED = 'Not recorded';
+
+function normalizeLabel(label: string): string {
+    return label.trim().replace(/\s+/g, ' ');
+}
+
+/** Counts labels case-insensitively, keeping the first spelling seen; most frequent first. */
+function tally(labels: (string | undefined)[]): AbcPatternCount[] {
+    const counts = new Map<string, AbcPatternCount>();
+    for (const raw of labels) {
+        const label = raw ? normalizeLabel(raw) : '';
+        if (!label) continue;
+        const key = label.toLowerCase();
+        const entry = counts.get(key) ?? { label, count: 0 };
+        entry.count += 1;
+        counts.set(key, entry);
+    }
+    return [...counts.values()].sort((a, b) => b.count - a.count || a.label.localeCompare(b.label));
+}
+
+/** The learner's most used entries, then defaults they have not used, without duplicates. */
+function quickPicks(history: (string | undefined)[], defaults: string[]): string[] {
+    const used = tally(history).slice(0, ABC_CATALOG_SIZE).map((entry) => entry.label);
+    const seen = new Set(used.map((label) => label.toLowerCase()));
+    return [...used, ...defaults.filter((label) => !seen.has(label.toLowerCase()))];
+}
+
+/** Quick-pick catalogs for one learner, built from their behavior history. */
+export function buildAbcCatalog(history: BehaviorEvent[]): AbcCatalog {
+    return {
+        behaviors: quickPicks(history.map((event) => event.behaviorType), DEFAULT_ABC_BEHAVIORS),
+        antecedents: quickPicks(history.map((event) => event.antecedent), DEFAULT_ANTECEDENTS),
+        consequences: quickPicks(history.map((event) => event.consequent), DEFAULT_CONSEQUENCES)
+    };
+}
+
+/** Whether an entry has all three terms of the contingency. */
+export function isCompleteAbcRecord(record: Partial<AbcRecord>): record is AbcRecord {
+    return Boolean(record.behaviorType?.trim() && record.antecedent?.trim() && record.consequent?.trim());
+}
+
+/** Normalizes an entry into the behavior event `addBehaviorEvent` stores. */
+export function toAbcBehaviorEvent(record: AbcRecord, sessionId: number, now: Date = new Date()): Omit<BehaviorEvent, 'id'> {
+    return {
+        sessionId,
+        behaviorType: normalizeLabel(record.behaviorType),
+        count: 1,
+        antecedent: normalizeLabel(record.antecedent),
+        consequent: normalizeLabel(record.consequent),
+        functionGuess: record.functionGuess,
+        intensity: record.intensity,
+        notes: record.notes?.trim() || undefined,
+        timestamp: now,
+        createdAt: now,
+        synced: false
+    };
+}
+
+/**
+ * Tallies antecedents, consequences, their sequences and function hypotheses per behavior,
+ * most frequent behavior first. Events with neither an antecedent nor a consequence are left out.
+ */
+export function summarizeAbc(events: BehaviorEvent[]): AbcBehaviorSummary[] {
+    const byBehavior = new Map<string, { behaviorType: string; events: BehaviorEvent[] }>();
+    for (const event of events) {
+        if (!event.antecedent?.trim() && !event.consequent?.trim()) continue;
+        const behaviorType = normalizeLabel(event.behaviorType);
+        const key = behaviorType.toLowerCase();
+        const group = byBehavior.get(key) ?? { behaviorType, events: [] };
+        group.events.push(event);
+        byBehavior.set(key, group);
+    }
+
+    return [...byBehavior.values()]
+        .map(({ behaviorType, events: group }) => ({
+            behaviorType,
+            total: group.length,
+            antecedents: tally(group.map((event) => event.antecedent?.trim() || NOT_RECORDED)),
+            consequences: tally(group.map((event) => event.consequent?.trim() || NOT_RECORDED)),
+            sequences: tally(group
+                .filter((event) => event.antecedent?.trim() && event.consequent?.trim())
+                .map((event) => `${normalizeLabel(event.antecedent!)} → ${normalizeLabel(event.consequent!)}`)),
+            functions: tally(group.map((event) => event.functionGuess))
+        }))
+        .sort((a, b) => b.total - a.total || a.behaviorType.localeCompare(b.behaviorType));
+}
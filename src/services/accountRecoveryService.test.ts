@@ -0,0 +1,138 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { addBehaviorEvent, db, getBehaviorEventsBySession } from '../db/db';
+import { useEncryptionStore } from '../stores/encryptionStore';
+import type { Organization, User } from './authService';
+import {
+  approveAccountRecovery,
+  completeAccountRecovery,
+  ensureRecoveryEscrow,
+  requestAccountRecovery,
+  setupAccountRecovery,
+  type AccountRecoveryRequest,
+} from './accountRecoveryService';
+import { loadOrgEncryption } from './orgEncryptionService';
+
+const MANAGER_SALT = 'TWFuYWdlclNhbHQxMjM0NQ==';
+const RBT_SALT = 'UmJ0U2FsdDEyMzQ1Njc4OQ==';
+
+function jsonResponse(body: unknown): Response {
+  return new Response(JSON.stringify(body), { status: 200, headers: { 'Content-Type': 'application/json' } });
+}
+
+function staff(id: string, role: User['role'], encryptionSalt: string): User {
+  return {
+    id,
+    email: `${id}@example.com`,
+    userType: 'org',
+    orgId: 'org-1',
+    role,
+    name: id,
+    assignedLearnerIds: [],
+    permissions: [],
+    isActive: true,
+    encryptionSalt,
+  };
+}
+
+/** Stubs fetch with an ok response and returns the parsed body of each request. */
+function captureRequests(response: unknown = { ok: true }) {
+  const fetchMock = vi.fn().mockResolvedValue(jsonResponse(response));
+  vi.stubGlobal('fetch', fetchMock);
+  return {
+    fetchMock,
+    body: <T,>(index = 0) => JSON.parse(String(fetchMock.mock.calls[index][1].body)) as T,
+  };
+}
+
+async function unlock(password: string, salt: string) {
+  useEncryptionStore.getState().clear();
+  await useEncryptionStore.getState().initializeWithPassword(password, salt);
+}
+
+describe('account recovery', () => {
+  beforeEach(async () => {
+    useEncryptionStore.getState().clear();
+    await Promise.all([db.keyring.clear(), db.behaviorEvents.clear(), db.syncQueue.clear(), db.syncState.clear()]);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('restores unsynced records on a reset device once another manager approves', async () => {
+    // Manager device: publish a key pair and set up the org recovery key
+    const manager = staff('manager-recovery', 'manager', MANAGER_SALT);
+    await unlock('ManagerPass1!', MANAGER_SALT);
+    const published = captureRequests();
+    await loadOrgEncryption(manager, { id: 'org-1', name: 'Clinic', settings: { defaultSessionDuration: 120, requireSupervisorApproval: false } });
+    const managerKeys = published.body<{ publicKey: JsonWebKey }>();
+
+    const setup = captureRequests({ keyVersion: 1 });
+    await setupAccountRecovery([
+      { userId: manager.id, name: manager.name, email: manager.email, role: 'manager', publicKey: managerKeys.publicKey, hasAccess: false },
+    ]);
+    const { publicKey, encryptedPrivateKey, wrappedKeys } = setup.body<{
+      publicKey: JsonWebKey;
+      encryptedPrivateKey: NonNullable<Organization['recoveryKey']>['encryptedPrivateKey'];
+      wrappedKeys: Record<string, string>;
+    }>();
+    const organization: Organization = {
+      id: 'org-1',
+      name: 'Clinic',
+      settings: { defaultSessionDuration: 120, requireSupervisorApproval: false },
+      recoveryKey: { publicKey, encryptedPrivateKey, keyVersion: 1, wrappedKey: wrappedKeys[manager.id] },
+    };
+    expect(publicKey).not.toHaveProperty('d');
+
+    // RBT device: log a record and escrow the local data keys
+    const rbt = staff('rbt-recovery', 'rbt', RBT_SALT);
+    await unlock('OldPass123!', RBT_SALT);
+    const createdAt = new Date('2026-02-05T14:00:00.000Z');
+    await addBehaviorEvent({ sessionId: 1, behaviorType: 'tantrum', count: 1, timestamp: createdAt, createdAt, synced: false });
+    await ensureRecoveryEscrow(organization);
+
+    // The password is reset: the new one cannot open the keyring
+    useEncryptionStore.getState().clear();
+    await expect(useEncryptionStore.getState().initializeWithPassword('Reset456!', RBT_SALT)).rejects.toThrow('previous password');
+    const requested = captureRequests();
+    await requestAccountRecovery('Reset456!', RBT_SALT);
+    expect(requested.fetchMock.mock.calls[0][0]).toBe('/api/org/recovery/request');
+    const { escrow, requestPublicKey } = requested.body<Pick<AccountRecoveryRequest, 'escrow' | 'requestPublicKey'>>();
+
+    // Manager device approves
+    await unlock('ManagerPass1!', MANAGER_SALT);
+    const approved = captureRequests();
+    await approveAccountRecovery(manager, organization, {
+      userId: rbt.id,
+      name: rbt.name,
+      email: rbt.email,
+      resetBy: manager.id,
+      resetAt: '2026-02-06T09:00:00.000Z',
+      requestedAt: '2026-02-06T09:05:00.000Z',
+      escrow,
+      requestPublicKey,
+    });
+    const { recoveredKeys } = approved.body<{ recoveredKeys: NonNullable<User['recovery']>['recoveredKeys'] }>();
+
+    // RBT device completes with the new password
+    useEncryptionStore.getState().clear();
+    const completed = captureRequests();
+    await completeAccountRecovery({ ...rbt, recovery: { status: 'approved', recoveredKeys } }, 'Reset456!');
+
+    expect(completed.fetchMock.mock.calls[0][0]).toBe('/api/org/recovery/complete');
+    expect((await getBehaviorEventsBySession(1)).map((event) => event.behaviorType)).toEqual(['tantrum']);
+
+    await unlock('Reset456!', RBT_SALT);
+    expect(await getBehaviorEventsBySession(1)).toHaveLength(1);
+  });
+
+  it('refuses to start a recovery on a device without an escrow', async () => {
+    await unlock('OldPass123!', RBT_SALT);
+    useEncryptionStore.getState().clear();
+    const fetchMock = vi.fn();
+    vi.stubGlobal('fetch', fetchMock);
+
+    await expect(requestAccountRecovery('Reset456!', RBT_SALT)).rejects.toThrow('no recoverable local data');
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+});
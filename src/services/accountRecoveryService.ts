@@ -0,0 +1,156 @@
+import { useEncryptionStore } from '../stores/encryptionStore';
+import type { Organization, User } from './authService';
+import {
+    decryptDataKeysWith,
+    decryptJson,
+    deriveRecoveryKeyWrappingKey,
+    encryptDataKeysTo,
+    encryptJson,
+    generateOrgKeyMaterial,
+    generateUserKeyPair,
+    importUserPrivateKey,
+    importUserPublicKey,
+    unwrapOrgKeyMaterial,
+    wrapOrgKeyMaterial,
+    type WrappedDataKeys
+} from './encryptionService';
+import { startKeyringRecovery } from './keyringService';
+import { loadUserPrivateKey, readApiError, type OrgEncryptionMember } from './orgEncryptionService';
+
+// Account recovery for locally encrypted data. Each device escrows its data keys to the org recovery
+// key; after a manager resets a password, another manager opens the escrow and re-encrypts the keys
+// to a one-time key held by the user's device. Neither the service nor the escrow alone reveals them.
+
+const API_BASE = '/api';
+
+export interface AccountRecoveryRequest {
+    userId: string;
+    name: string;
+    email: string;
+    resetBy: string;
+    resetAt: string;
+    requestedAt: string;
+    escrow: WrappedDataKeys & { recoveryKeyVersion: number };
+    requestPublicKey: JsonWebKey;
+}
+
+export interface AccountRecoveryOverview {
+    /** Null until recovery is set up. */
+    keyVersion: number | null;
+    managers: OrgEncryptionMember[];
+    requests: AccountRecoveryRequest[];
+}
+
+async function postRecovery(action: string, body: unknown, fallback: string): Promise<Response> {
+    const response = await fetch(`${API_BASE}/org/recovery/${action}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include', // Important: send HttpOnly cookies
+        body: JSON.stringify(body)
+    });
+    if (!response.ok) {
+        throw new Error(await readApiError(response, fallback));
+    }
+    return response;
+}
+
+/** Escrows this device's data keys once the organization has a recovery key. Requires unlocked encryption. */
+export async function ensureRecoveryEscrow(organization: Organization | null): Promise<void> {
+    const recoveryKey = organization?.recoveryKey;
+    if (!recoveryKey) return;
+    await useEncryptionStore.getState().escrowDataKeys(recoveryKey.publicKey, recoveryKey.keyVersion);
+}
+
+/** Asks a manager to restore this device's data keys after a password reset. `password` is the new one. */
+export async function requestAccountRecovery(password: string, salt: string): Promise<void> {
+    const request = await startKeyringRecovery(password, salt);
+    await postRecovery('request', request, 'Failed to request account recovery');
+}
+
+/** Unlocks local data with the keys a manager approved, then closes the recovery on the server. */
+export async function completeAccountRecovery(user: User, password: string): Promise<void> {
+    const recoveredKeys = user.recovery?.status === 'approved' ? user.recovery.recoveredKeys : undefined;
+    if (!recoveredKeys) {
+        throw new Error('Your recovery has not been approved yet');
+    }
+    await useEncryptionStore.getState().unlockWithRecoveredKeys(password, user.encryptionSalt, recoveredKeys);
+    await postRecovery('complete', {}, 'Failed to complete account recovery');
+}
+
+// Manager actions
+
+export async function fetchAccountRecoveryOverview(): Promise<AccountRecoveryOverview> {
+    const response = await fetch(`${API_BASE}/org/recovery`, {
+        credentials: 'include' // Important: send HttpOnly cookies
+    });
+    if (!response.ok) {
+        throw new Error(await readApiError(response, 'Failed to load account recovery'));
+    }
+    return response.json() as Promise<AccountRecoveryOverview>;
+}
+
+async function wrapForManagers(material: Uint8Array, managers: OrgEncryptionMember[]): Promise<Record<string, string>> {
+    const wrappedKeys: Record<string, string> = {};
+    for (const manager of managers) {
+        if (manager.publicKey) {
+            wrappedKeys[manager.userId] = await wrapOrgKeyMaterial(material, await importUserPublicKey(manager.publicKey));
+        }
+    }
+    return wrappedKeys;
+}
+
+/**
+ * Creates the org recovery key on this device. Its private half is encrypted under random material
+ * wrapped for every manager who has published a key.
+ * @returns The recovery key version.
+ */
+export async function setupAccountRecovery(managers: OrgEncryptionMember[]): Promise<number> {
+    const keyPair = await generateUserKeyPair();
+    const material = generateOrgKeyMaterial();
+    const [publicKey, privateKey] = await Promise.all([
+        crypto.subtle.exportKey('jwk', keyPair.publicKey),
+        crypto.subtle.exportKey('jwk', keyPair.privateKey)
+    ]);
+    const encryptedPrivateKey = await encryptJson(privateKey, await deriveRecoveryKeyWrappingKey(material));
+
+    const response = await postRecovery('setup', {
+        publicKey,
+        encryptedPrivateKey,
+        wrappedKeys: await wrapForManagers(material, managers)
+    }, 'Failed to set up account recovery');
+    const { keyVersion } = await response.json() as { keyVersion: number };
+    return keyVersion;
+}
+
+async function openRecoveryMaterial(manager: User, organization: Organization): Promise<Uint8Array> {
+    const wrappedKey = organization.recoveryKey?.wrappedKey;
+    if (!wrappedKey) {
+        throw new Error('You do not have access to the recovery key');
+    }
+    return unwrapOrgKeyMaterial(wrappedKey, await loadUserPrivateKey(manager));
+}
+
+/** Wraps the recovery key material, opened with this manager's access, for managers who lack it. */
+export async function shareRecoveryKey(manager: User, organization: Organization, managers: OrgEncryptionMember[]): Promise<void> {
+    const material = await openRecoveryMaterial(manager, organization);
+    await postRecovery('share', {
+        wrappedKeys: await wrapForManagers(material, managers.filter((candidate) => !candidate.hasAccess)),
+        keyVersion: organization.recoveryKey?.keyVersion
+    }, 'Failed to share the recovery key');
+}
+
+/** Opens a reset user's escrow and re-encrypts their data keys to the one-time key of their device. */
+export async function approveAccountRecovery(manager: User, organization: Organization, request: AccountRecoveryRequest): Promise<void> {
+    const recoveryKey = organization.recoveryKey;
+    if (!recoveryKey || request.escrow.recoveryKeyVersion !== recoveryKey.keyVersion) {
+        throw new Error('The request was escrowed with a recovery key this organization no longer uses');
+    }
+    const material = await openRecoveryMaterial(manager, organization);
+    const recoveryPrivateKey = await importUserPrivateKey(
+        await decryptJson<JsonWebKey>(recoveryKey.encryptedPrivateKey, await deriveRecoveryKeyWrappingKey(material))
+    );
+
+    const keys = await decryptDataKeysWith(request.escrow, recoveryPrivateKey, true);
+    const recoveredKeys = await encryptDataKeysTo(keys, await importUserPublicKey(request.requestPublicKey));
+    await postRecovery('approve', { userId: request.userId, recoveredKeys }, 'Failed to approve account recovery');
+}
@@ -1,3 +1,5 @@
+import type { DeviceAuditEvent } from '../db/db';
+
 /**
  * Represents a single audit log entry in the system.
  */
@@ -39,3 +41,30 @@ export async function getAuditLogs(limit = 100): Promise<AuditLogEntry[]> {
     return data.logs;
 }
 
+/**
+ * Sends queued local purge and wipe events to the server audit log.
+ *
+ * @param events - Events recorded on this device, oldest first.
+ * @throws Will throw an error if the request fails or response is not OK.
+ */
+export async function reportDeviceAuditEvents(events: DeviceAuditEvent[]): Promise<void> {
+    const response = await fetch('/api/audit/device-events', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({
+            events: events.map(({ uuid, action, userId, occurredAt, details }) => ({
+                uuid,
+                action,
+                userId,
+                occurredAt: occurredAt.toISOString(),
+                details
+            }))
+        })
+    });
+
+    if (!response.ok) {
+        const error = await response.json().catch(() => ({ error: 'Failed to report device audit events' }));
+        throw new Error(error.error || 'Failed to report device audit events');
+    }
+}
@@ -1,6 +1,8 @@
 // Auth service for frontend
 // Handles API calls to authentication endpoints
 
+import type { EncryptedData, WrappedDataKeys } from './encryptionService';
+
 const API_BASE = '/api';
 
 
@@ -54,6 +56,23 @@ export interface User {
     permissions: string[];
     isActive: boolean;
     encryptionSalt: string;
+    /** Only present on the signed-in user's own record. */
+    encryptionKeys?: UserEncryptionKeys;
+    /** Set after a manager resets the password, until this user's device recovers its local data. */
+    recovery?: AccountRecoveryStatus;
+}
+
+export interface AccountRecoveryStatus {
+    status: 'reset' | 'requested' | 'approved';
+    /** Local data keys re-encrypted by the approving manager to this device's request key. */
+    recoveredKeys?: WrappedDataKeys;
+}
+
+export interface UserEncryptionKeys {
+    publicKey: JsonWebKey;
+    /** The RSA private key (JWK), encrypted with the user's password-derived key. */
+    encryptedPrivateKey: EncryptedData;
+    updatedAt: string;
 }
 
 export interface Learner {
@@ -70,7 +89,37 @@ export interface Organization {
     settings: {
         defaultSessionDuration: number;
         requireSupervisorApproval: boolean;
+        /** Minutes without input before devices lock their local keys; 0 turns the lock off. Absent: the client default. */
+        idleLockMinutes?: number;
+        /** Days synced records stay on a device before they are purged; 0 keeps them until the device is wiped. Absent: the client default. */
+        localRetentionDays?: number;
+        /** Years a discharged learner's records are kept on the server before disposal. Absent: the server default. */
+        recordRetentionYears?: number;
     };
+    cloudEncryption?: OrganizationCloudEncryption;
+    /** Null until a manager sets up account recovery. */
+    recoveryKey?: OrganizationRecoveryKey | null;
+}
+
+/** Server features that need readable clinical data; all are off in end-to-end mode. */
+export type PlaintextFeature = 'syncContentValidation' | 'sessionAssistant';
+
+export interface OrganizationCloudEncryption {
+    mode: 'standard' | 'e2e';
+    keyVersion: number;
+    /** The org data key wrapped for this user's public key, once a manager has granted access. */
+    wrappedKey: string | null;
+    disabledFeatures: PlaintextFeature[];
+}
+
+export interface OrganizationRecoveryKey {
+    /** Devices escrow their local data keys to this key. */
+    publicKey: JsonWebKey;
+    /** The private half, encrypted under material only managers can unwrap. */
+    encryptedPrivateKey: EncryptedData;
+    keyVersion: number;
+    /** The material wrapped for this user's public key (managers only). */
+    wrappedKey: string | null;
 }
 
 export interface AuthResponse {
@@ -170,6 +219,61 @@ export async function getMe(): Promise<MeResponse> {
     return data;
 }
 
+/** Idle lock for organizations that have not chosen one. */
+export const DEFAULT_IDLE_LOCK_MINUTES = 5;
+
+/** Minutes without input before this device locks local data; 0 when the organization turned the lock off. */
+export function getIdleLockMinutes(organization: Organization | null): number {
+    return organization?.settings.idleLockMinutes ?? DEFAULT_IDLE_LOCK_MINUTES;
+}
+
+/** Local retention for organizations that have not chosen one. */
+export const DEFAULT_LOCAL_RETENTION_DAYS = 90;
+
+/** Days synced records stay on this device; 0 when the organization keeps them until the device is wiped. */
+export function getLocalRetentionDays(organization: Organization | null): number {
+    return organization?.settings.localRetentionDays ?? DEFAULT_LOCAL_RETENTION_DAYS;
+}
+
+/**
+ * Updates organization settings (managers only).
+ */
+export async function updateOrganizationSettings(settings: { idleLockMinutes?: number; localRetentionDays?: number }): Promise<Organization['settings']> {
+    const response = await fetch(`${API_BASE}/org/settings`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include', // Important: send cookies
+        body: JSON.stringify(settings)
+    });
+
+    if (!response.ok) {
+        throw new Error(await getApiErrorMessage(response, 'Failed to update organization settings'));
+    }
+
+    const data = await parseApiJson<{ settings: Organization['settings'] }>(response);
+    if (!data) {
+        throw new Error('Failed to update organization settings: server returned an invalid response');
+    }
+    return data.settings;
+}
+
+/**
+ * Changes the signed-in user's password. `encryptedPrivateKey` is their private key re-encrypted
+ * with the new password's account key, required once they have published a key pair.
+ */
+export async function changePassword(currentPassword: string, newPassword: string, encryptedPrivateKey?: EncryptedData): Promise<void> {
+    const response = await fetch(`${API_BASE}/auth/password`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include', // Important: send cookies
+        body: JSON.stringify({ currentPassword, newPassword, encryptedPrivateKey })
+    });
+
+    if (!response.ok) {
+        throw new Error(await getApiErrorMessage(response, 'Failed to change password'));
+    }
+}
+
 
 
 /**
@@ -0,0 +1,110 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { db, setSyncStateValue } from '../db/db';
+import { useEncryptionStore } from '../stores/encryptionStore';
+import { useSyncStore } from '../stores/syncStore';
+import {
+  BACKGROUND_SYNC_REPORT_KEY,
+  BACKGROUND_SYNC_TAG,
+  applyStoredBackgroundSyncReport,
+  postKeysToWorker,
+  registerSyncWorker,
+  requestBackgroundSync,
+  startSyncFallbackTimer,
+  type BackgroundSyncRegistration,
+} from './backgroundSync';
+
+function mockServiceWorkerContainer(registration: Partial<BackgroundSyncRegistration>) {
+  const container = {
+    register: vi.fn().mockResolvedValue(registration),
+    ready: Promise.resolve(registration),
+    addEventListener: vi.fn(),
+    removeEventListener: vi.fn(),
+  };
+  Object.defineProperty(navigator, 'serviceWorker', { value: container, configurable: true });
+  return container;
+}
+
+describe('background sync', () => {
+  beforeEach(async () => {
+    await useEncryptionStore.getState().initializeWithPassword('TestPass123!', 'U3RhdGljU2FsdDEyMw==');
+    await Promise.all([db.syncQueue.clear(), db.syncState.clear()]);
+    useSyncStore.setState({ isOnline: true, isSyncing: false, status: 'synced', lastSyncTime: null, unsyncedCount: 0 });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+    Reflect.deleteProperty(navigator, 'serviceWorker');
+  });
+
+  it('registers the worker and requests one-off and periodic sync', async () => {
+    const registration = {
+      sync: { register: vi.fn().mockResolvedValue(undefined) },
+      periodicSync: { register: vi.fn().mockResolvedValue(undefined) },
+    };
+    const container = mockServiceWorkerContainer(registration);
+
+    const registered = await registerSyncWorker();
+    expect(container.register).toHaveBeenCalledWith(expect.any(String), { type: 'module', scope: '/' });
+    expect(registered).toBe(registration);
+
+    expect(await requestBackgroundSync(registered!)).toBe(true);
+    expect(registration.sync.register).toHaveBeenCalledWith(BACKGROUND_SYNC_TAG);
+    expect(registration.periodicSync.register).toHaveBeenCalledWith(BACKGROUND_SYNC_TAG, expect.objectContaining({ minInterval: expect.any(Number) }));
+  });
+
+  it('reports missing Background Sync support so the fallback timer carries the load', async () => {
+    expect(await registerSyncWorker()).toBeNull();
+
+    mockServiceWorkerContainer({});
+    const registration = await registerSyncWorker();
+    expect(await requestBackgroundSync(registration!)).toBe(false);
+  });
+
+  it('arms the worker only while encryption is ready', () => {
+    const worker = { postMessage: vi.fn() } as unknown as ServiceWorker;
+
+    postKeysToWorker(worker);
+    expect(worker.postMessage).toHaveBeenLastCalledWith(expect.objectContaining({ type: 'arm' }));
+
+    useEncryptionStore.getState().clear();
+    postKeysToWorker(worker);
+    expect(worker.postMessage).toHaveBeenLastCalledWith({ type: 'disarm' });
+  });
+
+  it('applies the report the worker stored while the app was closed', async () => {
+    await setSyncStateValue(BACKGROUND_SYNC_REPORT_KEY, JSON.stringify({
+      completedAt: '2026-02-05T15:00:00.000Z',
+      outcome: 'synced',
+      success: 2,
+      failed: 0,
+    }));
+
+    await applyStoredBackgroundSyncReport();
+
+    expect(useSyncStore.getState().lastSyncTime).toEqual(new Date('2026-02-05T15:00:00.000Z'));
+    expect(useSyncStore.getState().status).toBe('synced');
+  });
+
+  it('drains the queue on the fallback interval only when there is something to send', async () => {
+    vi.useFakeTimers();
+    const { syncToCloud: realSyncToCloud } = useSyncStore.getState();
+    const syncToCloud = vi.fn().mockResolvedValue({ success: 0, failed: 0 });
+    useSyncStore.setState({ syncToCloud });
+    const stop = startSyncFallbackTimer(1000);
+
+    vi.advanceTimersByTime(1000);
+    expect(syncToCloud).not.toHaveBeenCalled();
+
+    useSyncStore.setState({ unsyncedCount: 2 });
+    vi.advanceTimersByTime(1000);
+    expect(syncToCloud).toHaveBeenCalledTimes(1);
+
+    useEncryptionStore.getState().clear();
+    vi.advanceTimersByTime(1000);
+    expect(syncToCloud).toHaveBeenCalledTimes(1);
+
+    stop();
+    useSyncStore.setState({ syncToCloud: realSyncToCloud });
+  });
+});
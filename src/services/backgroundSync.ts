@@ -0,0 +1,173 @@
+import { getSyncStateValue } from '../db/db';
+import { useEncryptionStore } from '../stores/encryptionStore';
+import { useSyncStore } from '../stores/syncStore';
+import type { BackgroundSyncReport } from '../types/sync';
+
+export const BACKGROUND_SYNC_TAG = 'session-copilot-sync';
+export const BACKGROUND_SYNC_REPORT_KEY = 'backgroundSyncReport';
+/** How often the in-app fallback drains the queue where Background Sync is unavailable. */
+export const SYNC_FALLBACK_INTERVAL_MS = 5 * 60 * 1000;
+const PERIODIC_SYNC_MIN_INTERVAL_MS = 15 * 60 * 1000;
+
+const SYNC_WORKER_URL = import.meta.env.DEV ? '/src/sw/syncWorker.ts' : '/sync-worker.js';
+
+/** Page → worker. Keys are non-extractable and only ever held in worker memory. */
+export type SyncWorkerMessage =
+    | { type: 'arm'; key: CryptoKey; signingKey: CryptoKey; org: OrgWorkerKeys | null }
+    | { type: 'disarm' };
+
+/** Org data keys for end-to-end organizations, so the worker can seal uploads. */
+export interface OrgWorkerKeys {
+    key: CryptoKey;
+    signingKey: CryptoKey;
+    keyVersion: number;
+}
+
+/** Worker → page: an open page owns the sync state, so the worker asks it to drain the queue. */
+export type SyncPageMessage = { type: 'sync-request' };
+
+// Background Sync and Periodic Background Sync are not in the DOM typings yet
+interface SyncManagerLike {
+    register: (tag: string) => Promise<void>;
+}
+
+interface PeriodicSyncManagerLike {
+    register: (tag: string, options: { minInterval: number }) => Promise<void>;
+}
+
+export type BackgroundSyncRegistration = ServiceWorkerRegistration & {
+    sync?: SyncManagerLike;
+    periodicSync?: PeriodicSyncManagerLike;
+};
+
+/**
+ * Registers the sync service worker. Returns null where service workers are unavailable,
+ * in which case only the in-app fallback timer runs. In dev the worker is served from
+ * `/src/sw/`, which the dev server's `Service-Worker-Allowed` header lets control `/`.
+ */
+export async function registerSyncWorker(): Promise<BackgroundSyncRegistration | null> {
+    if (typeof navigator === 'undefined' || !('serviceWorker' in navigator)) {
+        return null;
+    }
+    try {
+        await navigator.serviceWorker.register(SYNC_WORKER_URL, { type: 'module', scope: '/' });
+        return await navigator.serviceWorker.ready as BackgroundSyncRegistration;
+    } catch (error) {
+        console.warn('[BackgroundSync] Service worker registration failed:', error);
+        return null;
+    }
+}
+
+/**
+ * Asks the browser to wake the worker once connectivity is available.
+ * Periodic sync is best effort: it needs an installed app and permission.
+ * @returns Whether one-off Background Sync is supported.
+ */
+export async function requestBackgroundSync(registration: BackgroundSyncRegistration): Promise<boolean> {
+    if (!registration.sync) {
+        return false;
+    }
+    try {
+        await registration.sync.register(BACKGROUND_SYNC_TAG);
+        await registration.periodicSync?.register(BACKGROUND_SYNC_TAG, { minInterval: PERIODIC_SYNC_MIN_INTERVAL_MS });
+    } catch (error) {
+        console.warn('[BackgroundSync] Sync registration failed:', error);
+    }
+    return true;
+}
+
+/**
+ * Hands the session keys to the worker while unlocked, and takes them back when locked. Keys are
+ * never stored, so once the browser stops the idle worker (typically within minutes of the last
+ * page closing) later wake-ups can only record a deferred report until the app is unlocked again.
+ */
+export function postKeysToWorker(worker: ServiceWorker | null | undefined): void {
+    if (!worker) return;
+    const { isReady, key, signingKey, orgKey, orgSigningKey, orgKeyVersion } = useEncryptionStore.getState();
+    const org = orgKey && orgSigningKey && orgKeyVersion !== null
+        ? { key: orgKey, signingKey: orgSigningKey, keyVersion: orgKeyVersion }
+        : null;
+    const message: SyncWorkerMessage = isReady && key && signingKey
+        ? { type: 'arm', key, signingKey, org }
+        : { type: 'disarm' };
+    worker.postMessage(message);
+}
+
+/** Applies the last report the worker stored while the app was closed. */
+export async function applyStoredBackgroundSyncReport(): Promise<void> {
+    const stored = await getSyncStateValue(BACKGROUND_SYNC_REPORT_KEY);
+    if (!stored) return;
+    try {
+        await useSyncStore.getState().applyBackgroundSyncReport(JSON.parse(stored) as BackgroundSyncReport);
+    } catch (error) {
+        console.warn('[BackgroundSync] Ignoring unreadable background sync report:', error);
+    }
+}
+
+export function handleSyncRequest(message: SyncPageMessage): void {
+    if (message.type === 'sync-request') {
+        void useSyncStore.getState().syncToCloud();
+    }
+}
+
+/**
+ * In-app fallback: drains the queue on an interval while the page is open.
+ * Skips ticks while offline, locked, or with nothing pending.
+ * @returns Cleanup that stops the timer.
+ */
+export function startSyncFallbackTimer(intervalMs: number = SYNC_FALLBACK_INTERVAL_MS): () => void {
+    const timer = setInterval(() => {
+        const { isOnline, isSyncing, unsyncedCount } = useSyncStore.getState();
+        if (!isOnline || isSyncing || unsyncedCount === 0 || !useEncryptionStore.getState().isReady) {
+            return;
+        }
+        void useSyncStore.getState().syncToCloud();
+    }, intervalMs);
+    return () => clearInterval(timer);
+}
+
+/**
+ * Wires background sync for a signed-in user: registers the worker, keeps it armed with the
+ * current keys, requests a sync whenever changes are pending, and starts the fallback timer.
+ * Changes still pending when the page closes are sent by the worker only while it is alive with
+ * the keys; see `postKeysToWorker`.
+ * @returns Cleanup for the subscriptions and timer.
+ */
+export function startBackgroundSync(): () => void {
+    let stopped = false;
+    const cleanups: Array<() => void> = [startSyncFallbackTimer()];
+
+    void applyStoredBackgroundSyncReport();
+
+    void registerSyncWorker().then((registration) => {
+        if (!registration || stopped) return;
+
+        const onMessage = (event: MessageEvent<SyncPageMessage>) => handleSyncRequest(event.data);
+        navigator.serviceWorker.addEventListener('message', onMessage);
+        cleanups.push(() => navigator.serviceWorker.removeEventListener('message', onMessage));
+
+        postKeysToWorker(registration.active);
+        cleanups.push(useEncryptionStore.subscribe((state, previous) => {
+            if (state.isReady !== previous.isReady || state.key !== previous.key || state.orgKey !== previous.orgKey) {
+                postKeysToWorker(registration.active);
+            }
+        }));
+
+        const requestIfPending = (unsyncedCount: number) => {
+            if (unsyncedCount > 0) {
+                void requestBackgroundSync(registration);
+            }
+        };
+        requestIfPending(useSyncStore.getState().unsyncedCount);
+        cleanups.push(useSyncStore.subscribe((state, previous) => {
+            if (state.unsyncedCount !== previous.unsyncedCount) {
+                requestIfPending(state.unsyncedCount);
+            }
+        }));
+    });
+
+    return () => {
+        stopped = true;
+        cleanups.forEach((cleanup) => cleanup());
+    };
+}
@@ -0,0 +1,96 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { addBehaviorEvent, addSkillTrial, behaviorEventRepository, db, getBehaviorTimers, skillTrialRepository, startBehaviorTimer } from '../db/db';
+import { useEncryptionStore } from '../stores/encryptionStore';
+import { BACKUP_FORMAT_VERSION, createBackupArchive, parseBackupArchive, restoreBackupArchive } from './backupService';
+
+const PASSWORD = 'TestPass123!';
+const SALT = 'U3RhdGljU2FsdDEyMw==';
+const startTime = new Date('2026-03-02T14:00:00.000Z');
+
+async function wipeDevice() {
+  useEncryptionStore.getState().clear();
+  await Promise.all([
+    db.keyring.clear(),
+    db.sessions.clear(),
+    db.behaviorEvents.clear(),
+    db.skillTrials.clear(),
+    db.behaviorTimers.clear(),
+    db.syncQueue.clear(),
+    db.chatMessages.clear(),
+    db.syncConflicts.clear(),
+  ]);
+}
+
+async function seedSession() {
+  const sessionId = await db.sessions.add({ clientId: 'learner-backup', clientName: 'Learner', status: 'in-progress', startTime, createdAt: startTime, updatedAt: startTime }) as number;
+  await addBehaviorEvent({ sessionId, behaviorType: 'elopement', antecedent: 'transition', count: 1, timestamp: startTime, createdAt: startTime, synced: false });
+  const trialId = await addSkillTrial({
+    sessionId,
+    skillName: 'Imitation',
+    target: 'clap hands',
+    promptLevel: 'verbal',
+    response: 'correct',
+    reinforcementDelivered: true,
+    timestamp: startTime,
+    createdAt: startTime,
+    synced: true,
+  });
+  await db.skillTrials.update(trialId, { remoteId: 'trial-remote-1', revision: 2 });
+  await db.syncQueue.where('entityType').equals('skillTrial').delete();
+  await db.chatMessages.add({ sessionId, role: 'assistant', content: 'Logged elopement.', isConfirmation: true, timestamp: startTime });
+  await startBehaviorTimer({ sessionId, kind: 'duration', label: 'tantrum', startedAt: startTime });
+  return sessionId;
+}
+
+describe('device backup', () => {
+  beforeEach(async () => {
+    await wipeDevice();
+    await useEncryptionStore.getState().initializeWithPassword(PASSWORD, SALT);
+  });
+
+  it('restores a wiped device from an archive and skips records it already has', async () => {
+    await seedSession();
+    const text = JSON.stringify(await createBackupArchive());
+    expect(text).not.toMatch(/elopement|clap hands|Logged|tantrum/);
+
+    // Same account on a fresh browser profile: new data keys, same password
+    await wipeDevice();
+    await useEncryptionStore.getState().initializeWithPassword(PASSWORD, SALT);
+    const summary = await restoreBackupArchive(parseBackupArchive(text));
+
+    expect(summary).toEqual({ sessions: 1, records: 3, chatMessages: 1, duplicates: 0, skipped: 0 });
+    const [session] = await db.sessions.toArray();
+    expect(session.startTime).toEqual(startTime);
+    expect((await behaviorEventRepository.listBySession(session.id!)).map((event) => event.antecedent)).toEqual(['transition']);
+    const [trial] = await skillTrialRepository.listBySession(session.id!);
+    expect(trial).toMatchObject({ target: 'clap hands', synced: true });
+    expect(await db.skillTrials.get(trial.id!)).toMatchObject({ remoteId: 'trial-remote-1', revision: 2 });
+    expect((await db.syncQueue.toArray()).map((item) => [item.entityType, item.action])).toEqual([['behavior', 'create']]);
+    expect((await db.chatMessages.toArray()).map((message) => message.sessionId)).toEqual([session.id]);
+    expect(await getBehaviorTimers(session.id!)).toMatchObject([{ kind: 'duration', label: 'tantrum', startedAt: startTime }]);
+
+    expect(await restoreBackupArchive(parseBackupArchive(text))).toEqual({ sessions: 0, records: 0, chatMessages: 0, duplicates: 3, skipped: 0 });
+    expect(await db.behaviorEvents.count()).toBe(1);
+  });
+
+  it('asks for the old password when the archive keys were wrapped under it', async () => {
+    await seedSession();
+    const archive = await createBackupArchive();
+
+    await wipeDevice();
+    await useEncryptionStore.getState().initializeWithPassword('NewPass456!', SALT);
+    await expect(restoreBackupArchive(archive)).rejects.toThrow('different password');
+    expect((await restoreBackupArchive(archive, { password: PASSWORD, salt: SALT })).records).toBe(3);
+  });
+
+  it('rejects tampered archives and archives from a newer format', async () => {
+    await seedSession();
+    const archive = await createBackupArchive();
+
+    const tampered = { ...archive, manifest: { ...archive.manifest, schemaVersion: archive.manifest.schemaVersion + 1 } };
+    await expect(restoreBackupArchive(tampered)).rejects.toThrow('integrity check');
+    expect(() => parseBackupArchive(JSON.stringify({ ...archive, manifest: { ...archive.manifest, formatVersion: BACKUP_FORMAT_VERSION + 1 } })))
+      .toThrow('newer version');
+    expect(() => parseBackupArchive('{"hello":"world"}')).toThrow('not a backup archive');
+  });
+});
@@ -0,0 +1,377 @@
+import {
+    addToSyncQueue,
+    db,
+    ENTITY_REPOSITORIES,
+    hasPendingTombstone,
+    type ChatMessage,
+    type EncryptedBehaviorTimer,
+    type EncryptedEntityRow,
+    type EncryptedTableName,
+    type Session,
+    type SyncConflictRow,
+    type SyncEntityType,
+    type SyncQueueItem
+} from '../db/db';
+import { useEncryptionStore } from '../stores/encryptionStore';
+import { decryptJson, type DataKeys, type EncryptedData, type WrappedDataKeys } from './encryptionService';
+import { verifySignature } from './integrityService';
+
+// Whole-device backup. The archive holds every table, encrypted and signed with the device data keys,
+// plus those keys wrapped by the password as in the keyring, so it restores on any device where the
+// same account signs in, including this one after its browser storage was wiped. Left out: the keyring
+// itself, the cached target catalogs (fetched again on the next sign-in) and the pending device audit
+// events (they record this device's purges and wipes, and a restore elsewhere would report them twice).
+
+export const BACKUP_FORMAT = 'session-copilot-backup';
+export const BACKUP_FORMAT_VERSION = 1;
+
+const BACKUP_TABLES = [
+    'sessions',
+    'behaviorEvents',
+    'skillTrials',
+    'sessionNotes',
+    'incidents',
+    'intervalRecordings',
+    'taskAnalyses',
+    'behaviorTimers',
+    'syncQueue',
+    'chatMessages',
+    'syncConflicts',
+    'syncState',
+    'quarantine'
+] as const;
+
+type BackupTableName = typeof BACKUP_TABLES[number];
+type BackupTables = Partial<Record<BackupTableName, Record<string, unknown>[]>>;
+
+export interface BackupManifest {
+    format: typeof BACKUP_FORMAT;
+    formatVersion: number;
+    /** Dexie schema version the rows were written under. */
+    schemaVersion: number;
+    createdAt: string;
+    /** Salt of the password that wraps `keys`. */
+    salt: string;
+    /** Rows per table. */
+    tables: Partial<Record<BackupTableName, number>>;
+}
+
+export interface BackupArchive {
+    manifest: BackupManifest;
+    /** The data keys, wrapped by the password-derived key. */
+    keys: WrappedDataKeys;
+    /** `BackupTables`, encrypted with the data key. */
+    payload: EncryptedData;
+    /** HMAC of manifest, keys and payload under the data signing key. */
+    signature: string;
+}
+
+export interface RestoreSummary {
+    sessions: number;
+    records: number;
+    chatMessages: number;
+    /** Records already on this device (same UUID). */
+    duplicates: number;
+    /** Records that failed verification. */
+    skipped: number;
+}
+
+/**
+ * Upgrades the tables of an archive from one format version to the next. Older rows are otherwise
+ * normalized on restore (missing UUIDs, rows written before encryption), so schema changes only
+ * need an entry here when a table's shape changes.
+ */
+const ARCHIVE_UPGRADES: Record<number, (tables: BackupTables) => BackupTables> = {};
+
+/** Plaintext date columns, which come back from the archive as ISO strings. */
+const DATE_COLUMNS: Partial<Record<BackupTableName, string[]>> = {
+    sessions: ['startTime', 'endTime', 'pausedAt', 'createdAt', 'updatedAt'],
+    behaviorEvents: ['timestamp', 'createdAt'],
+    skillTrials: ['timestamp', 'createdAt'],
+    sessionNotes: ['timestamp', 'createdAt'],
+    incidents: ['timestamp', 'createdAt'],
+    intervalRecordings: ['timestamp', 'createdAt'],
+    taskAnalyses: ['timestamp', 'createdAt'],
+    behaviorTimers: ['timestamp'],
+    syncQueue: ['lastAttempt', 'createdAt', 'updatedAt', 'nextAttemptAt'],
+    chatMessages: ['timestamp'],
+    syncConflicts: ['createdAt', 'resolvedAt']
+};
+
+const CLINICAL_TABLES: [EncryptedTableName, SyncEntityType][] = Object.values(ENTITY_REPOSITORIES)
+    .map((repository) => [repository.schema.table, repository.schema.entityType]);
+
+/** The ciphertext column of tables holding rows of several users, which are exported only for the signed-in one. */
+function ownedRowField(tableName: BackupTableName): string | null {
+    if (tableName === 'syncConflicts') return 'encryptedServerData';
+    if (tableName === 'behaviorTimers' || CLINICAL_TABLES.some(([clinical]) => clinical === tableName)) return 'encryptedData';
+    return null;
+}
+
+function signedContent(archive: Omit<BackupArchive, 'signature'>) {
+    return { manifest: archive.manifest, keys: archive.keys, payload: archive.payload };
+}
+
+function isEncryptedData(value: unknown): value is EncryptedData {
+    const candidate = value as Partial<EncryptedData> | null;
+    return Boolean(candidate) && typeof candidate?.ciphertext === 'string' && typeof candidate.iv === 'string';
+}
+
+async function openSignedRow(row: Record<string, unknown>, field: string, keys: DataKeys): Promise<Record<string, unknown> | null> {
+    const encrypted = row[field];
+    if (!isEncryptedData(encrypted) || typeof row.signature !== 'string') return null;
+    try {
+        if (!await verifySignature(encrypted, row.signature, keys.signingKey)) return null;
+        return await decryptJson<Record<string, unknown>>(encrypted, keys.key);
+    } catch {
+        return null;
+    }
+}
+
+/** Exports this device's database. Clinical rows other users of the device wrote are left out. */
+export async function createBackupArchive(): Promise<BackupArchive> {
+    const store = useEncryptionStore.getState();
+    if (!store.isReady || !store.salt) {
+        throw new Error('Unlock the device before creating a backup');
+    }
+    const keys = await store.getBackupKeys();
+
+    const tables: BackupTables = {};
+    for (const tableName of BACKUP_TABLES) {
+        const rows = await db.table(tableName).toArray() as Record<string, unknown>[];
+        const field = ownedRowField(tableName);
+        if (field) {
+            const own = await Promise.all(rows.map(async (row) => (
+                isEncryptedData(row[field]) && typeof row.signature === 'string' && await store.verifyPayload(row[field], row.signature)
+            )));
+            tables[tableName] = rows.filter((_row, index) => own[index]);
+        } else {
+            tables[tableName] = rows;
+        }
+    }
+
+    const manifest: BackupManifest = {
+        format: BACKUP_FORMAT,
+        formatVersion: BACKUP_FORMAT_VERSION,
+        schemaVersion: db.verno,
+        createdAt: new Date().toISOString(),
+        salt: store.salt,
+        tables: Object.fromEntries(Object.entries(tables).map(([name, rows]) => [name, rows.length]))
+    };
+    const archive = { manifest, keys, payload: await store.encryptData(tables) };
+    return { ...archive, signature: await store.signPayload(signedContent(archive)) };
+}
+
+/** Reads an archive file, rejecting anything that is not a backup this version can restore. */
+export function parseBackupArchive(text: string): BackupArchive {
+    let archive: BackupArchive;
+    try {
+        archive = JSON.parse(text) as BackupArchive;
+    } catch {
+        throw new Error('The file is not a backup archive');
+    }
+    if (archive?.manifest?.format !== BACKUP_FORMAT || !isEncryptedData(archive.payload) || typeof archive.signature !== 'string') {
+        throw new Error('The file is not a backup archive');
+    }
+    if (archive.manifest.formatVersion > BACKUP_FORMAT_VERSION) {
+        throw new Error('This backup was made by a newer version of the app. Update before restoring it.');
+    }
+    return archive;
+}
+
+function upgradeTables(tables: BackupTables, formatVersion: number): BackupTables {
+    let upgraded = tables;
+    for (let version = formatVersion; version < BACKUP_FORMAT_VERSION; version += 1) {
+        upgraded = ARCHIVE_UPGRADES[version]?.(upgraded) ?? upgraded;
+    }
+    for (const [tableName, columns] of Object.entries(DATE_COLUMNS) as [BackupTableName, string[]][]) {
+        for (const row of upgraded[tableName] ?? []) {
+            for (const column of columns) {
+                if (typeof row[column] === 'string') row[column] = new Date(row[column]);
+            }
+        }
+    }
+    return upgraded;
+}
+
+async function findMatchingSession(session: Session): Promise<Session | undefined> {
+    return db.sessions.where('clientId').equals(session.clientId)
+        .filter((candidate) => candidate.startTime.getTime() === session.startTime.getTime())
+        .first();
+}
+
+function chatKey(message: ChatMessage): string {
+    return `${message.sessionId}:${message.timestamp.getTime()}:${message.role}:${message.content}`;
+}
+
+interface PreparedRow {
+    tableName: EncryptedTableName;
+    entityType: SyncEntityType;
+    archivedId: number;
+    archivedSessionId: number;
+    row: EncryptedEntityRow;
+}
+
+/**
+ * Merges an archive into this device. Signatures are checked with the archive's keys, rows are
+ * re-encrypted under this device's keys, and records whose UUID is already here are skipped.
+ * Unsynced records are queued for upload again. Sync cursors and quarantined rows are not restored.
+ * @param previous The password and salt in use when the backup was made, if they changed since.
+ */
+export async function restoreBackupArchive(archive: BackupArchive, previous?: { password: string; salt: string }): Promise<RestoreSummary> {
+    const store = useEncryptionStore.getState();
+    if (!store.isReady) {
+        throw new Error('Unlock the device before restoring a backup');
+    }
+    const keys = await store.openBackupKeys(archive.keys, previous);
+    if (!await verifySignature(signedContent(archive), archive.signature, keys.signingKey)) {
+        throw new Error('The backup failed its integrity check and was not restored');
+    }
+    const tables = upgradeTables(await decryptJson<BackupTables>(archive.payload, keys.key), archive.manifest.formatVersion);
+
+    // Crypto first: Dexie transactions do not survive awaiting WebCrypto
+    const summary: RestoreSummary = { sessions: 0, records: 0, chatMessages: 0, duplicates: 0, skipped: 0 };
+    const prepared: PreparedRow[] = [];
+    for (const [tableName, entityType] of CLINICAL_TABLES) {
+        const repository = ENTITY_REPOSITORIES[entityType];
+        for (const archived of tables[tableName] ?? []) {
+            const uuid = typeof archived.uuid === 'string' ? archived.uuid : crypto.randomUUID();
+            if (await db[tableName].where('uuid').equals(uuid).count() > 0) {
+                summary.duplicates += 1;
+                continue;
+            }
+            // Archives from before encryption hold the fields in plaintext
+            const data = isEncryptedData(archived.encryptedData) ? await openSignedRow(archived, 'encryptedData', keys) : archived;
+            const row = data && await repository.toEncryptedRow({
+                ...data,
+                sessionId: archived.sessionId,
+                timestamp: archived.timestamp,
+                createdAt: archived.createdAt,
+                synced: archived.synced
+            });
+            if (!row) {
+                summary.skipped += 1;
+                continue;
+            }
+            prepared.push({
+                tableName,
+                entityType,
+                archivedId: Number(archived.id),
+                archivedSessionId: Number(archived.sessionId),
+                row: {
+                    ...row,
+                    id: undefined,
+                    uuid,
+                    remoteId: typeof archived.remoteId === 'string' ? archived.remoteId : undefined,
+                    revision: typeof archived.revision === 'number' ? archived.revision : undefined
+                }
+            });
+        }
+    }
+
+    const conflicts: SyncConflictRow[] = [];
+    for (const archived of (tables.syncConflicts ?? []) as unknown as SyncConflictRow[]) {
+        const serverData = archived.status === 'open'
+            ? await openSignedRow(archived as unknown as Record<string, unknown>, 'encryptedServerData', keys)
+            : null;
+        if (serverData) {
+            const encryptedServerData = await store.encryptData(serverData);
+            conflicts.push({ ...archived, id: undefined, encryptedServerData, signature: await store.signPayload(encryptedServerData) });
+        }
+    }
+
+    const timers: EncryptedBehaviorTimer[] = [];
+    for (const archived of (tables.behaviorTimers ?? []) as unknown as EncryptedBehaviorTimer[]) {
+        const data = await openSignedRow(archived as unknown as Record<string, unknown>, 'encryptedData', keys);
+        if (!data) {
+            summary.skipped += 1;
+            continue;
+        }
+        const encryptedData = await store.encryptData(data);
+        timers.push({ ...archived, id: undefined, encryptedData, signature: await store.signPayload(encryptedData) });
+    }
+
+    const writeTables = [db.sessions, db.behaviorEvents, db.skillTrials, db.sessionNotes, db.incidents, db.intervalRecordings, db.taskAnalyses, db.behaviorTimers, db.syncQueue, db.chatMessages, db.syncConflicts];
+    await db.transaction('rw', writeTables, async () => {
+        const sessionIds = new Map<number, number>();
+        for (const archived of (tables.sessions ?? []) as unknown as Session[]) {
+            const existing = await findMatchingSession(archived);
+            if (existing?.id !== undefined) {
+                sessionIds.set(Number(archived.id), existing.id);
+            } else {
+                const id = await db.sessions.add({ ...archived, id: undefined });
+                sessionIds.set(Number(archived.id), id as number);
+                summary.sessions += 1;
+            }
+        }
+        const localSessionId = (archivedId: number) => sessionIds.get(archivedId) ?? archivedId;
+
+        const rowIds = new Map<string, number>();
+        for (const entry of prepared) {
+            const id = await db[entry.tableName].add({ ...entry.row, sessionId: localSessionId(entry.archivedSessionId) });
+            rowIds.set(`${entry.entityType}:${entry.archivedId}`, id as number);
+            if (!entry.row.synced) {
+                await addToSyncQueue(entry.entityType, id as number, entry.row.remoteId ? 'update' : 'create');
+            }
+            summary.records += 1;
+        }
+
+        // Timers have no UUID; one started at the same moment in the same session is the same timer
+        for (const timer of timers) {
+            const sessionId = localSessionId(timer.sessionId);
+            const existing = await db.behaviorTimers.where('sessionId').equals(sessionId)
+                .filter((candidate) => candidate.timestamp.getTime() === timer.timestamp.getTime())
+                .count();
+            if (existing > 0) {
+                summary.duplicates += 1;
+            } else {
+                await db.behaviorTimers.add({ ...timer, sessionId });
+                summary.records += 1;
+            }
+        }
+
+        // Deletions that had not reached the server yet
+        const tombstones = ((tables.syncQueue ?? []) as unknown as SyncQueueItem[]).filter((item) => item.action === 'delete');
+        for (const [index, item] of tombstones.entries()) {
+            let payload: { remoteId?: string; sessionId?: number };
+            try {
+                payload = JSON.parse(item.payload) as typeof payload;
+            } catch {
+                continue;
+            }
+            if (item.entityType === 'session' || !payload.remoteId) continue;
+            if (await hasPendingTombstone(item.entityType, payload.remoteId)) continue;
+            // Pulled again since the backup, so the deletion never reached the server and is moot
+            const { table } = ENTITY_REPOSITORIES[item.entityType].schema;
+            if (await db[table].where('remoteId').equals(payload.remoteId).count() > 0) continue;
+            await db.syncQueue.add({
+                ...item,
+                id: undefined,
+                // The row is gone everywhere; a negative id keeps the tombstone from coalescing with a new row
+                entityId: -(Date.now() + index),
+                payload: JSON.stringify({ ...payload, sessionId: localSessionId(Number(payload.sessionId)) }),
+                status: 'pending',
+                attempts: 0,
+                nextAttemptAt: undefined
+            });
+        }
+
+        for (const conflict of conflicts) {
+            const localId = rowIds.get(`${conflict.entityType}:${conflict.localId}`);
+            if (localId !== undefined) {
+                await db.syncConflicts.add({ ...conflict, localId });
+            }
+        }
+
+        const existingChat = new Set((await db.chatMessages.toArray()).map(chatKey));
+        for (const archived of (tables.chatMessages ?? []) as unknown as ChatMessage[]) {
+            const message = { ...archived, id: undefined, sessionId: localSessionId(archived.sessionId) };
+            if (!existingChat.has(chatKey(message))) {
+                await db.chatMessages.add(message);
+                summary.chatMessages += 1;
+            }
+        }
+    });
+
+    return summary;
+}
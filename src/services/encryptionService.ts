@@ -54,6 +54,37 @@ export function dateReviver(_key: string, value: unknown): unknown {
     return value;
 }
 
+/** The PBKDF2 output behind every password-derived key (the same bits `deriveEncryptionKey` and `deriveSigningKey` yield). */
+async function derivePasswordBits(password: string, saltBase64: string): Promise<ArrayBuffer> {
+    const keyMaterial = await crypto.subtle.importKey(
+        'raw',
+        utf8ToBytes(password) as unknown as BufferSource,
+        'PBKDF2',
+        false,
+        ['deriveBits']
+    );
+
+    return crypto.subtle.deriveBits(
+        {
+            name: 'PBKDF2',
+            salt: base64ToBytes(saltBase64) as unknown as BufferSource,
+            iterations: PBKDF2_ITERATIONS,
+            hash: PBKDF2_HASH
+        },
+        keyMaterial,
+        256
+    );
+}
+
+function hkdfParams(info: string): HkdfParams {
+    return {
+        name: 'HKDF',
+        hash: 'SHA-256',
+        salt: new Uint8Array(0) as unknown as BufferSource,
+        info: utf8ToBytes(info) as unknown as BufferSource
+    };
+}
+
 /**
  * Derives a cryptographic encryption key (AES-GCM) from a password and salt using PBKDF2.
  */
@@ -113,3 +144,198 @@ export async function decryptJson<T>(value: EncryptedData, key: CryptoKey): Prom
     );
     return JSON.parse(bytesToUtf8(plaintextBuffer), dateReviver) as T;
 }
+
+const RSA_OAEP_PARAMS: RsaHashedKeyGenParams = {
+    name: 'RSA-OAEP',
+    modulusLength: 2048,
+    publicExponent: new Uint8Array([1, 0, 1]),
+    hash: 'SHA-256'
+};
+const ORG_KEY_MATERIAL_LENGTH = 32;
+
+/**
+ * Generates a user's key pair for receiving the org data key.
+ * Extractable so the private key can be stored encrypted and restored on other devices.
+ */
+export async function generateUserKeyPair(): Promise<CryptoKeyPair> {
+    return crypto.subtle.generateKey(RSA_OAEP_PARAMS, true, ['encrypt', 'decrypt']);
+}
+
+export async function importUserPublicKey(jwk: JsonWebKey): Promise<CryptoKey> {
+    return crypto.subtle.importKey('jwk', jwk, { name: 'RSA-OAEP', hash: 'SHA-256' }, false, ['encrypt']);
+}
+
+export async function importUserPrivateKey(jwk: JsonWebKey): Promise<CryptoKey> {
+    return crypto.subtle.importKey('jwk', jwk, { name: 'RSA-OAEP', hash: 'SHA-256' }, false, ['decrypt']);
+}
+
+/** Random secret from which the org's encryption and signing keys are derived. */
+export function generateOrgKeyMaterial(): Uint8Array {
+    return crypto.getRandomValues(new Uint8Array(ORG_KEY_MATERIAL_LENGTH));
+}
+
+/** Encrypts org key material to one user's public key (RSA-OAEP). */
+export async function wrapOrgKeyMaterial(material: Uint8Array, publicKey: CryptoKey): Promise<string> {
+    const wrapped = await crypto.subtle.encrypt({ name: 'RSA-OAEP' }, publicKey, material as unknown as BufferSource);
+    return bytesToBase64(new Uint8Array(wrapped));
+}
+
+export async function unwrapOrgKeyMaterial(wrappedBase64: string, privateKey: CryptoKey): Promise<Uint8Array> {
+    const material = await crypto.subtle.decrypt(
+        { name: 'RSA-OAEP' },
+        privateKey,
+        base64ToBytes(wrappedBase64) as unknown as BufferSource
+    );
+    return new Uint8Array(material);
+}
+
+/**
+ * Derives the org's AES-GCM data key and HMAC signing key from the shared material (HKDF-SHA-256).
+ * Both are non-extractable.
+ */
+export async function deriveOrgKeys(material: Uint8Array): Promise<{ key: CryptoKey; signingKey: CryptoKey }> {
+    const baseKey = await crypto.subtle.importKey('raw', material as unknown as BufferSource, 'HKDF', false, ['deriveKey']);
+    const [key, signingKey] = await Promise.all([
+        crypto.subtle.deriveKey(hkdfParams('session-copilot/org-data/encrypt'), baseKey, { name: 'AES-GCM', length: 256 }, false, ['encrypt', 'decrypt']),
+        crypto.subtle.deriveKey(hkdfParams('session-copilot/org-data/sign'), baseKey, { name: 'HMAC', hash: 'SHA-256', length: 256 }, false, ['sign', 'verify'])
+    ]);
+    return { key, signingKey };
+}
+
+// Local keyring: rows are encrypted under random data keys, which are stored wrapped by a password-derived key.
+
+const DATA_KEY_ALGORITHM: AesKeyGenParams = { name: 'AES-GCM', length: 256 };
+const DATA_SIGNING_KEY_ALGORITHM: HmacKeyGenParams = { name: 'HMAC', hash: 'SHA-256', length: 256 };
+
+/** The AES-GCM key and HMAC key that protect local rows. */
+export interface DataKeys {
+    key: CryptoKey;
+    signingKey: CryptoKey;
+}
+
+/** Data keys wrapped (base64): AES-KW under a password-derived key, or RSA-OAEP to a public key. */
+export interface WrappedDataKeys {
+    wrappedKey: string;
+    wrappedSigningKey: string;
+}
+
+export interface PasswordKeys {
+    /** Same key as `deriveEncryptionKey`; protects values that must open on any device, such as the user's private key. */
+    accountKey: CryptoKey;
+    /** Wraps this device's data keys. */
+    keyWrappingKey: CryptoKey;
+}
+
+/** Derives the account key and the key-wrapping key with a single PBKDF2 run. */
+export async function derivePasswordKeys(password: string, saltBase64: string): Promise<PasswordKeys> {
+    const bits = await derivePasswordBits(password, saltBase64);
+    const baseKey = await crypto.subtle.importKey('raw', bits, 'HKDF', false, ['deriveKey']);
+    const [accountKey, keyWrappingKey] = await Promise.all([
+        crypto.subtle.importKey('raw', bits, 'AES-GCM', false, ['encrypt', 'decrypt']),
+        crypto.subtle.deriveKey(hkdfParams('session-copilot/local-keyring/wrap'), baseKey, { name: 'AES-KW', length: 256 }, false, ['wrapKey', 'unwrapKey'])
+    ]);
+    return { accountKey, keyWrappingKey };
+}
+
+/** Random base64 salt for PBKDF2. */
+export function generateSalt(): string {
+    return bytesToBase64(crypto.getRandomValues(new Uint8Array(16)));
+}
+
+/** Derives the AES-KW key a device PIN wraps the data keys with. */
+export async function derivePinKey(pin: string, saltBase64: string): Promise<CryptoKey> {
+    const bits = await derivePasswordBits(pin, saltBase64);
+    return crypto.subtle.importKey('raw', bits, 'AES-KW', false, ['wrapKey', 'unwrapKey']);
+}
+
+/**
+ * The keys rows were encrypted and signed with before the keyring existed (`deriveEncryptionKey`
+ * and `deriveSigningKey`), extractable so they can be adopted into the keyring.
+ */
+export async function deriveLegacyDataKeys(password: string, saltBase64: string): Promise<DataKeys> {
+    const bits = await derivePasswordBits(password, saltBase64);
+    const [key, signingKey] = await Promise.all([
+        crypto.subtle.importKey('raw', bits, 'AES-GCM', true, ['encrypt', 'decrypt']),
+        crypto.subtle.importKey('raw', bits, { name: 'HMAC', hash: 'SHA-256' }, true, ['sign', 'verify'])
+    ]);
+    return { key, signingKey };
+}
+
+/** Fresh random data keys, extractable only so they can be wrapped. */
+export async function generateDataKeys(): Promise<DataKeys> {
+    const [key, signingKey] = await Promise.all([
+        crypto.subtle.generateKey(DATA_KEY_ALGORITHM, true, ['encrypt', 'decrypt']),
+        crypto.subtle.generateKey(DATA_SIGNING_KEY_ALGORITHM, true, ['sign', 'verify'])
+    ]);
+    return { key, signingKey };
+}
+
+export async function wrapDataKeys(keys: DataKeys, keyWrappingKey: CryptoKey): Promise<WrappedDataKeys> {
+    const [wrappedKey, wrappedSigningKey] = await Promise.all([
+        crypto.subtle.wrapKey('raw', keys.key, keyWrappingKey, 'AES-KW'),
+        crypto.subtle.wrapKey('raw', keys.signingKey, keyWrappingKey, 'AES-KW')
+    ]);
+    return {
+        wrappedKey: bytesToBase64(new Uint8Array(wrappedKey)),
+        wrappedSigningKey: bytesToBase64(new Uint8Array(wrappedSigningKey))
+    };
+}
+
+/**
+ * Unwraps data keys. Throws when `keyWrappingKey` is not the key they were wrapped with.
+ * @param extractable Only needed to re-wrap the keys under another password.
+ */
+export async function unwrapDataKeys(wrapped: WrappedDataKeys, keyWrappingKey: CryptoKey, extractable = false): Promise<DataKeys> {
+    const [key, signingKey] = await Promise.all([
+        crypto.subtle.unwrapKey(
+            'raw',
+            base64ToBytes(wrapped.wrappedKey) as unknown as BufferSource,
+            keyWrappingKey,
+            'AES-KW',
+            'AES-GCM',
+            extractable,
+            ['encrypt', 'decrypt']
+        ),
+        crypto.subtle.unwrapKey(
+            'raw',
+            base64ToBytes(wrapped.wrappedSigningKey) as unknown as BufferSource,
+            keyWrappingKey,
+            'AES-KW',
+            { name: 'HMAC', hash: 'SHA-256' },
+            extractable,
+            ['sign', 'verify']
+        )
+    ]);
+    return { key, signingKey };
+}
+
+/** Encrypts extractable data keys to a public key (RSA-OAEP), e.g. the org recovery key. */
+export async function encryptDataKeysTo(keys: DataKeys, publicKey: CryptoKey): Promise<WrappedDataKeys> {
+    const [rawKey, rawSigningKey] = await Promise.all([
+        crypto.subtle.exportKey('raw', keys.key),
+        crypto.subtle.exportKey('raw', keys.signingKey)
+    ]);
+    const [wrappedKey, wrappedSigningKey] = await Promise.all([
+        wrapOrgKeyMaterial(new Uint8Array(rawKey), publicKey),
+        wrapOrgKeyMaterial(new Uint8Array(rawSigningKey), publicKey)
+    ]);
+    return { wrappedKey, wrappedSigningKey };
+}
+
+export async function decryptDataKeysWith(wrapped: WrappedDataKeys, privateKey: CryptoKey, extractable = false): Promise<DataKeys> {
+    const [rawKey, rawSigningKey] = await Promise.all([
+        unwrapOrgKeyMaterial(wrapped.wrappedKey, privateKey),
+        unwrapOrgKeyMaterial(wrapped.wrappedSigningKey, privateKey)
+    ]);
+    const [key, signingKey] = await Promise.all([
+        crypto.subtle.importKey('raw', rawKey as unknown as BufferSource, 'AES-GCM', extractable, ['encrypt', 'decrypt']),
+        crypto.subtle.importKey('raw', rawSigningKey as unknown as BufferSource, { name: 'HMAC', hash: 'SHA-256' }, extractable, ['sign', 'verify'])
+    ]);
+    return { key, signingKey };
+}
+
+/** AES-GCM key protecting the org recovery private key, derived from material wrapped for each manager. */
+export async function deriveRecoveryKeyWrappingKey(material: Uint8Array): Promise<CryptoKey> {
+    const baseKey = await crypto.subtle.importKey('raw', material as unknown as BufferSource, 'HKDF', false, ['deriveKey']);
+    return crypto.subtle.deriveKey(hkdfParams('session-copilot/org-recovery/wrap'), baseKey, { name: 'AES-GCM', length: 256 }, false, ['encrypt', 'decrypt']);
+}
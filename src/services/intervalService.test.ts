@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { addIntervalRecordings, buildSyncDocument, db, getIntervalRecordingsBySession, updateIntervalScores, type IntervalRecording } from '../db/db';
+import { useEncryptionStore } from '../stores/encryptionStore';
+import {
+  closeIntervals,
+  countClosedIntervals,
+  lastIntervalConfigs,
+  nextIntervalScore,
+  setIntervalScore,
+  summarizeIntervalRecordings,
+} from './intervalService';
+
+const startedAt = new Date('2026-06-01T12:00:00.000Z');
+
+function recording(behaviorType: string, method: IntervalRecording['method'], intervals: IntervalRecording['intervals'], timestamp = startedAt): IntervalRecording {
+  return { sessionId: 1, behaviorType, method, intervalSeconds: 10, intervals, timestamp, createdAt: timestamp, synced: false };
+}
+
+describe('interval bookkeeping', () => {
+  it('closes unmarked intervals as non-occurrence, except momentary samples nobody took', () => {
+    expect(countClosedIntervals(startedAt, 10, new Date('2026-06-01T12:00:35.000Z'))).toBe(3);
+    expect(closeIntervals([true], 'partial-interval', 3)).toEqual([true, false, false]);
+    expect(closeIntervals([true], 'whole-interval', 3)).toEqual([true, false, false]);
+    expect(closeIntervals([true], 'momentary-time-sampling', 3)).toEqual([true, null, null]);
+    // A score already given to the open interval is kept
+    expect(closeIntervals([false, true], 'partial-interval', 1)).toEqual([false, true]);
+  });
+
+  it('cycles a corrected cell and fills gaps as unscored', () => {
+    expect(nextIntervalScore(undefined, 'partial-interval')).toBe(true);
+    expect(nextIntervalScore(true, 'partial-interval')).toBe(false);
+    expect(nextIntervalScore(false, 'partial-interval')).toBe(true);
+    expect(nextIntervalScore(false, 'momentary-time-sampling')).toBeNull();
+    expect(setIntervalScore([true], 3, true)).toEqual([true, null, null, true]);
+  });
+
+  it('remembers the latest configuration per behavior', () => {
+    const configs = lastIntervalConfigs([
+      { ...recording('stereotypy', 'partial-interval', []), intervalSeconds: 15 },
+      { ...recording('Stereotypy', 'momentary-time-sampling', [], new Date('2026-06-02T12:00:00.000Z')), intervalSeconds: 30 },
+    ]);
+    expect(configs).toEqual([{ behaviorType: 'Stereotypy', method: 'momentary-time-sampling', intervalSeconds: 30 }]);
+  });
+});
+
+describe('interval summaries', () => {
+  it('reports percent of scored intervals per behavior, method and interval length', () => {
+    const summaries = summarizeIntervalRecordings([
+      recording('stereotypy', 'partial-interval', [true, false, false, true]),
+      recording('stereotypy', 'partial-interval', [false, false, false, true]),
+      recording('on-task', 'momentary-time-sampling', [true, null, false, true]),
+      recording('elopement', 'whole-interval', []),
+    ]);
+    expect(summaries).toEqual([
+      { behaviorType: 'stereotypy', method: 'partial-interval', intervalSeconds: 10, scored: 8, occurred: 3, percent: 38 },
+      { behaviorType: 'on-task', method: 'momentary-time-sampling', intervalSeconds: 10, scored: 3, occurred: 2, percent: 67 },
+    ]);
+  });
+
+  it('stores recordings encrypted and syncs their scores', async () => {
+    useEncryptionStore.getState().clear();
+    await Promise.all([db.keyring.clear(), db.sessions.clear(), db.intervalRecordings.clear(), db.syncQueue.clear()]);
+    await useEncryptionStore.getState().initializeWithPassword('TestPass123!', 'U3RhdGljU2FsdDEyMw==');
+
+    const [id] = await addIntervalRecordings([recording('stereotypy', 'partial-interval', [])]);
+    await updateIntervalScores(id, [true, false, true]);
+
+    const row = await db.intervalRecordings.get(id);
+    expect(JSON.stringify(row)).not.toContain('stereotypy');
+    const [stored] = await getIntervalRecordingsBySession(1);
+    expect(stored.intervals).toEqual([true, false, true]);
+
+    const items = await db.syncQueue.toArray();
+    expect(items).toEqual([expect.objectContaining({ entityType: 'interval', entityId: id, action: 'create' })]);
+    const document = await buildSyncDocument(items[0]);
+    expect(document).toMatchObject({ entityType: 'interval', id: row?.uuid, data: { behaviorType: 'stereotypy', intervals: [true, false, true] } });
+  });
+});
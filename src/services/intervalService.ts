@@ -0,0 +1,132 @@
+import type { IntervalMethod, IntervalRecording } from '../db/db';
+
+// Interval data collection: per-target configuration, interval bookkeeping against a shared clock,
+// percent-of-intervals summaries, and the audible/vibration cue at each interval boundary.
+
+export const INTERVAL_METHOD_LABELS: Record<IntervalMethod, string> = {
+    'partial-interval': 'Partial interval',
+    'whole-interval': 'Whole interval',
+    'momentary-time-sampling': 'Momentary time sampling'
+};
+
+export const DEFAULT_INTERVAL_SECONDS = 10;
+export const MIN_INTERVAL_SECONDS = 5;
+export const MAX_INTERVAL_SECONDS = 30 * 60;
+
+/** How one behavior target is sampled. */
+export interface IntervalTargetConfig {
+    behaviorType: string;
+    method: IntervalMethod;
+    intervalSeconds: number;
+}
+
+/** Percent of scored intervals in which a behavior target was scored as occurring. */
+export interface IntervalSummary extends IntervalTargetConfig {
+    scored: number;
+    occurred: number;
+    percent: number;
+}
+
+export interface IntervalCueOptions {
+    sound: boolean;
+    vibrate: boolean;
+}
+
+/** Whole intervals elapsed since `startedAt`. */
+export function countClosedIntervals(startedAt: Date, intervalSeconds: number, now: Date = new Date()): number {
+    return Math.max(0, Math.floor((now.getTime() - startedAt.getTime()) / (intervalSeconds * 1000)));
+}
+
+/**
+ * Extends the scores to `closed` intervals. Partial- and whole-interval intervals the observer did
+ * not mark close as non-occurrence; a momentary sample nobody took stays unscored (null).
+ */
+export function closeIntervals(intervals: IntervalRecording['intervals'], method: IntervalMethod, closed: number): IntervalRecording['intervals'] {
+    if (intervals.length >= closed) return intervals;
+    const fill = method === 'momentary-time-sampling' ? null : false;
+    return [...intervals, ...Array.from({ length: closed - intervals.length }, () => fill)];
+}
+
+/** Next value when an interval cell is tapped: occurred, not occurred, and back to unscored for momentary samples. */
+export function nextIntervalScore(score: boolean | null | undefined, method: IntervalMethod): boolean | null {
+    if (score === true) return false;
+    if (score === false && method === 'momentary-time-sampling') return null;
+    return true;
+}
+
+/** Sets the score of interval `index`, filling any gap before it as unscored. */
+export function setIntervalScore(intervals: IntervalRecording['intervals'], index: number, score: boolean | null): IntervalRecording['intervals'] {
+    const next = [...intervals];
+    while (next.length < index) next.push(null);
+    next[index] = score;
+    return next;
+}
+
+/** Configurations from the learner's latest recording of each behavior, newest first. */
+export function lastIntervalConfigs(history: IntervalRecording[]): IntervalTargetConfig[] {
+    const latest = new Map<string, IntervalTargetConfig>();
+    for (const recording of [...history].sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime())) {
+        const key = recording.behaviorType.trim().toLowerCase();
+        if (!latest.has(key)) {
+            latest.set(key, { behaviorType: recording.behaviorType, method: recording.method, intervalSeconds: recording.intervalSeconds });
+        }
+    }
+    return [...latest.values()];
+}
+
+export function isValidIntervalSeconds(seconds: number): boolean {
+    return Number.isInteger(seconds) && seconds >= MIN_INTERVAL_SECONDS && seconds <= MAX_INTERVAL_SECONDS;
+}
+
+/**
+ * Percent of intervals per behavior target, combining recordings of the same behavior, method and
+ * interval length. Unscored intervals are left out of the denominator.
+ */
+export function summarizeIntervalRecordings(recordings: IntervalRecording[]): IntervalSummary[] {
+    const summaries = new Map<string, IntervalSummary>();
+    for (const recording of recordings) {
+        const key = `${recording.behaviorType.trim().toLowerCase()}|${recording.method}|${recording.intervalSeconds}`;
+        const summary = summaries.get(key) ?? {
+            behaviorType: recording.behaviorType.trim(),
+            method: recording.method,
+            intervalSeconds: recording.intervalSeconds,
+            scored: 0,
+            occurred: 0,
+            percent: 0
+        };
+        for (const score of recording.intervals) {
+            if (score === null) continue;
+            summary.scored += 1;
+            if (score) summary.occurred += 1;
+        }
+        summaries.set(key, summary);
+    }
+    return [...summaries.values()]
+        .filter((summary) => summary.scored > 0)
+        .map((summary) => ({ ...summary, percent: Math.round((summary.occurred / summary.scored) * 100) }));
+}
+
+let cueAudioContext: AudioContext | null = null;
+
+/** A short beep and/or vibration marking an interval boundary. Silently does nothing where unsupported. */
+export function playIntervalCue(options: IntervalCueOptions): void {
+    if (options.vibrate && typeof navigator !== 'undefined' && typeof navigator.vibrate === 'function') {
+        navigator.vibrate(200);
+    }
+    if (!options.sound || typeof AudioContext === 'undefined') {
+        return;
+    }
+    try {
+        cueAudioContext = cueAudioContext ?? new AudioContext();
+        const oscillator = cueAudioContext.createOscillator();
+        const gain = cueAudioContext.createGain();
+        oscillator.frequency.value = 880;
+        gain.gain.setValueAtTime(0.2, cueAudioContext.currentTime);
+        gain.gain.exponentialRampToValueAtTime(0.001, cueAudioContext.currentTime + 0.25);
+        oscillator.connect(gain).connect(cueAudioContext.destination);
+        oscillator.start();
+        oscillator.stop(cueAudioContext.currentTime + 0.25);
+    } catch (error) {
+        console.warn('[Intervals] Interval cue could not be played:', error);
+    }
+}
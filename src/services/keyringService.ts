@@ -0,0 +1,426 @@
+import { db, hasRowsSignedBy, type KeyringEntry, type KeyringEscrow } from '../db/db';
+import {
+    decryptDataKeysWith,
+    decryptJson,
+    deriveLegacyDataKeys,
+    derivePasswordKeys,
+    derivePinKey,
+    encryptDataKeysTo,
+    encryptJson,
+    generateDataKeys,
+    generateSalt,
+    generateUserKeyPair,
+    importUserPrivateKey,
+    importUserPublicKey,
+    unwrapDataKeys,
+    wrapDataKeys,
+    type DataKeys,
+    type PasswordKeys,
+    type WrappedDataKeys
+} from './encryptionService';
+
+// Local key hierarchy: the password only wraps this device's random data keys, so changing it
+// (or the server regenerating the salt) re-wraps one keyring entry instead of orphaning every row.
+
+/** Wrong PINs allowed before the PIN is removed and only the password unlocks. */
+const MAX_PIN_ATTEMPTS = 5;
+
+export interface OpenedKeyring {
+    entryId: string;
+    origin: KeyringEntry['origin'];
+    keys: DataKeys;
+    /** Keys being rotated out; rows still under them are re-encrypted by `reencryptLocalData`. */
+    retiredKeys: DataKeys | null;
+    /** Null when opened with the device PIN: the account key and re-wrapping wait for the password. */
+    passwordKeys: PasswordKeys | null;
+}
+
+/** The user's entry exists but was wrapped with an earlier password. */
+export class PreviousPasswordRequiredError extends Error {
+    constructor() {
+        super('Local data is locked with a previous password. Enter it to unlock this device.');
+        this.name = 'PreviousPasswordRequiredError';
+    }
+}
+
+async function tryUnwrap(wrapped: WrappedDataKeys, keyWrappingKey: CryptoKey, extractable = false): Promise<DataKeys | null> {
+    try {
+        return await unwrapDataKeys(wrapped, keyWrappingKey, extractable);
+    } catch {
+        return null;
+    }
+}
+
+async function openEntry(entry: KeyringEntry, passwordKeys: PasswordKeys): Promise<OpenedKeyring | null> {
+    const keys = await tryUnwrap(entry.wrapped, passwordKeys.keyWrappingKey);
+    if (!keys) return null;
+    return {
+        entryId: entry.id,
+        origin: entry.origin,
+        keys,
+        retiredKeys: entry.retired ? await tryUnwrap(entry.retired, passwordKeys.keyWrappingKey) : null,
+        passwordKeys
+    };
+}
+
+/** Re-wraps an entry under another password and/or salt. Returns null when `from` does not open it. */
+async function rewrapEntry(entry: KeyringEntry, from: PasswordKeys, to: PasswordKeys, salt: string): Promise<OpenedKeyring | null> {
+    const keys = await tryUnwrap(entry.wrapped, from.keyWrappingKey, true);
+    if (!keys) return null;
+    const retiredKeys = entry.retired ? await tryUnwrap(entry.retired, from.keyWrappingKey, true) : null;
+
+    const rewrapped: KeyringEntry = {
+        ...entry,
+        salt,
+        wrapped: await wrapDataKeys(keys, to.keyWrappingKey),
+        retired: retiredKeys ? await wrapDataKeys(retiredKeys, to.keyWrappingKey) : undefined,
+        pin: undefined, // set under the old password; choose it again with the new one
+        updatedAt: new Date()
+    };
+    await db.keyring.put(rewrapped);
+    return openEntry(rewrapped, to);
+}
+
+/** Creates the user's entry: adopts the password-derived keys if this device holds rows under them, otherwise random keys. */
+async function createEntry(password: string, salt: string, passwordKeys: PasswordKeys): Promise<OpenedKeyring> {
+    const legacyKeys = await deriveLegacyDataKeys(password, salt);
+    const adopt = await hasRowsSignedBy(legacyKeys.signingKey);
+    const now = new Date();
+    const entry: KeyringEntry = {
+        id: crypto.randomUUID(),
+        salt,
+        wrapped: await wrapDataKeys(adopt ? legacyKeys : await generateDataKeys(), passwordKeys.keyWrappingKey),
+        origin: adopt ? 'password' : 'random',
+        keyVersion: 1,
+        createdAt: now,
+        updatedAt: now
+    };
+    await db.keyring.add(entry);
+
+    const opened = await openEntry(entry, passwordKeys);
+    if (!opened) {
+        throw new Error('Failed to open the new local keyring entry');
+    }
+    return opened;
+}
+
+/**
+ * Opens this user's data keys with their password, creating the keyring entry on first sign-in.
+ * An entry wrapped under an older salt (regenerated by the server) is re-wrapped under `salt`.
+ * Throws `PreviousPasswordRequiredError` when the entry for `salt` was wrapped with a different
+ * password; `changeKeyringPassword` with the previous password recovers it.
+ */
+export async function openLocalKeyring(password: string, salt: string): Promise<OpenedKeyring> {
+    const passwordKeys = await derivePasswordKeys(password, salt);
+    const entries = await db.keyring.toArray();
+
+    const current = entries.filter((entry) => entry.salt === salt);
+    for (const entry of current) {
+        const opened = await openEntry(entry, passwordKeys);
+        if (opened) return opened;
+    }
+    if (current.length > 0) {
+        throw new PreviousPasswordRequiredError();
+    }
+
+    // Other users' entries fail to open; this user's entry under a regenerated salt does not
+    for (const entry of entries) {
+        const opened = await rewrapEntry(entry, await derivePasswordKeys(password, entry.salt), passwordKeys, salt);
+        if (opened) return opened;
+    }
+
+    return createEntry(password, salt, passwordKeys);
+}
+
+/**
+ * Re-wraps the data keys under a new password (and salt) without touching any rows.
+ * Also works from the locked state, as long as `currentPassword` is the one the entry was wrapped with.
+ */
+export async function changeKeyringPassword(
+    currentPassword: string,
+    currentSalt: string,
+    newPassword: string,
+    newSalt: string
+): Promise<OpenedKeyring> {
+    const [from, to] = await Promise.all([
+        derivePasswordKeys(currentPassword, currentSalt),
+        derivePasswordKeys(newPassword, newSalt)
+    ]);
+    const entries = await db.keyring.where('salt').equals(currentSalt).toArray();
+    for (const entry of entries) {
+        const opened = await rewrapEntry(entry, from, to, newSalt);
+        if (opened) return opened;
+    }
+    throw new Error('Current password does not unlock local data');
+}
+
+/** Device PINs are 4 to 8 digits. */
+export function isValidPin(pin: string): boolean {
+    return /^\d{4,8}$/.test(pin);
+}
+
+/** A PIN set before the entry's data keys were replaced would open keys rows no longer use. */
+const hasCurrentPin = (entry: KeyringEntry) => entry.pin?.keyVersion === entry.keyVersion;
+
+/** Whether a device PIN can unlock the entry for `salt`. */
+export async function hasKeyringPin(salt: string): Promise<boolean> {
+    const entries = await db.keyring.where('salt').equals(salt).toArray();
+    return entries.some(hasCurrentPin);
+}
+
+/**
+ * Lets a short device PIN stand in for the password on this device: the entry's data keys are
+ * wrapped again under a PIN-derived key. The password is required to set it and is not stored, so a
+ * guessed PIN opens this device's rows but not the account key (and with it the org keys).
+ */
+export async function setKeyringPin(entryId: string, password: string, salt: string, pin: string): Promise<void> {
+    if (!isValidPin(pin)) {
+        throw new Error('PIN must be 4 to 8 digits');
+    }
+    const entry = await db.keyring.get(entryId);
+    if (!entry) {
+        throw new Error('Local keyring entry not found');
+    }
+    const passwordKeys = await derivePasswordKeys(password, salt);
+    const keys = await tryUnwrap(entry.wrapped, passwordKeys.keyWrappingKey, true);
+    if (!keys) {
+        throw new Error('Password does not unlock local data');
+    }
+    const retiredKeys = entry.retired ? await tryUnwrap(entry.retired, passwordKeys.keyWrappingKey, true) : null;
+
+    const pinSalt = generateSalt();
+    const pinKey = await derivePinKey(pin, pinSalt);
+    await db.keyring.update(entryId, {
+        pin: {
+            salt: pinSalt,
+            wrapped: await wrapDataKeys(keys, pinKey),
+            retired: retiredKeys ? await wrapDataKeys(retiredKeys, pinKey) : undefined,
+            keyVersion: entry.keyVersion,
+            failedAttempts: 0
+        },
+        updatedAt: new Date()
+    });
+}
+
+/** The password keys for an entry opened with the PIN, once the password is shown to still wrap it. */
+export async function confirmKeyringPassword(entryId: string, password: string, salt: string): Promise<PasswordKeys> {
+    const entry = await db.keyring.get(entryId);
+    if (!entry) {
+        throw new Error('Local keyring entry not found');
+    }
+    const passwordKeys = await derivePasswordKeys(password, salt);
+    if (!await tryUnwrap(entry.wrapped, passwordKeys.keyWrappingKey)) {
+        throw new Error('Password does not unlock local data');
+    }
+    return passwordKeys;
+}
+
+export async function removeKeyringPin(entryId: string): Promise<void> {
+    await db.keyring.where('id').equals(entryId).modify((entry: KeyringEntry) => {
+        delete entry.pin;
+        entry.updatedAt = new Date();
+    });
+}
+
+async function tryOpenWithPin(entry: KeyringEntry, pin: string): Promise<OpenedKeyring | null> {
+    const pinKey = await derivePinKey(pin, entry.pin!.salt);
+    const keys = await tryUnwrap(entry.pin!.wrapped, pinKey);
+    if (!keys) return null;
+    return {
+        entryId: entry.id,
+        origin: entry.origin,
+        keys,
+        retiredKeys: entry.retired && entry.pin!.retired ? await tryUnwrap(entry.pin!.retired, pinKey) : null,
+        passwordKeys: null
+    };
+}
+
+/**
+ * Opens the data keys for `salt` with the device PIN. Every wrong PIN counts against the entry;
+ * after `MAX_PIN_ATTEMPTS` the PIN is removed, since a short PIN must not be open to guessing.
+ */
+export async function openKeyringWithPin(salt: string, pin: string): Promise<OpenedKeyring> {
+    const candidates = await db.keyring.where('salt').equals(salt).toArray();
+    for (const stale of candidates.filter((entry) => entry.pin && !hasCurrentPin(entry))) {
+        await removeKeyringPin(stale.id);
+    }
+    const entries = candidates.filter(hasCurrentPin);
+    if (entries.length === 0) {
+        throw new Error('No PIN is set on this device. Unlock with your password.');
+    }
+
+    for (const entry of entries) {
+        const opened = await tryOpenWithPin(entry, pin);
+        if (opened) {
+            if (entry.pin!.failedAttempts > 0) {
+                await db.keyring.put({ ...entry, pin: { ...entry.pin!, failedAttempts: 0 } });
+            }
+            return opened;
+        }
+    }
+
+    let attemptsLeft = 0;
+    for (const entry of entries) {
+        const failedAttempts = entry.pin!.failedAttempts + 1;
+        attemptsLeft = Math.max(attemptsLeft, MAX_PIN_ATTEMPTS - failedAttempts);
+        await db.keyring.put({
+            ...entry,
+            pin: failedAttempts < MAX_PIN_ATTEMPTS ? { ...entry.pin!, failedAttempts } : undefined,
+            updatedAt: new Date()
+        });
+    }
+    throw new Error(attemptsLeft > 0
+        ? `Incorrect PIN. ${attemptsLeft} attempt${attemptsLeft === 1 ? '' : 's'} left.`
+        : 'Too many incorrect PIN attempts. Unlock with your password.');
+}
+
+async function escrowFor(keys: DataKeys, recoveryPublicKey: JsonWebKey, recoveryKeyVersion: number): Promise<KeyringEscrow> {
+    return {
+        keys: await encryptDataKeysTo(keys, await importUserPublicKey(recoveryPublicKey)),
+        recoveryKeyVersion,
+        recoveryPublicKey
+    };
+}
+
+/** Escrows the entry's current data keys to the org recovery key, unless already escrowed to this version. */
+export async function escrowDataKeys(
+    entryId: string,
+    passwordKeys: PasswordKeys,
+    recoveryPublicKey: JsonWebKey,
+    recoveryKeyVersion: number
+): Promise<void> {
+    const entry = await db.keyring.get(entryId);
+    if (!entry || entry.escrow?.recoveryKeyVersion === recoveryKeyVersion) return;
+    const keys = await unwrapDataKeys(entry.wrapped, passwordKeys.keyWrappingKey, true);
+    const escrow = await escrowFor(keys, recoveryPublicKey, recoveryKeyVersion);
+    await db.keyring.update(entryId, { escrow, updatedAt: new Date() });
+}
+
+/** The entry's wrapped data keys, for a backup archive that opens with the same password. */
+export async function getBackupKeys(entryId: string): Promise<WrappedDataKeys> {
+    const entry = await db.keyring.get(entryId);
+    if (!entry) {
+        throw new Error('Keyring entry not found');
+    }
+    if (entry.retired) {
+        throw new Error('Local data is still being re-encrypted. Try the backup again once it finishes.');
+    }
+    return entry.wrapped;
+}
+
+/** Opens the data keys stored in a backup with the password keys it was made under. */
+export async function openBackupKeys(wrapped: WrappedDataKeys, passwordKeys: PasswordKeys): Promise<DataKeys> {
+    const keys = await tryUnwrap(wrapped, passwordKeys.keyWrappingKey);
+    if (!keys) {
+        throw new Error('This backup was made under a different password. Enter the password that was in use then.');
+    }
+    return keys;
+}
+
+/** The escrowed entry for `salt` that `password` no longer opens (the password was reset). */
+async function findEntryToRecover(passwordKeys: PasswordKeys, salt: string): Promise<KeyringEntry> {
+    const entries = await db.keyring.where('salt').equals(salt).toArray();
+    for (const entry of entries) {
+        if (entry.escrow && !await tryUnwrap(entry.wrapped, passwordKeys.keyWrappingKey)) {
+            return entry;
+        }
+    }
+    throw new Error('This device has no recoverable local data for your account');
+}
+
+export interface RecoveryRequestPayload {
+    escrow: WrappedDataKeys & { recoveryKeyVersion: number };
+    requestPublicKey: JsonWebKey;
+}
+
+/**
+ * Prepares a recovery request after a password reset: a one-time key pair whose private half is kept
+ * on this device under the new password, plus the escrow a manager will open.
+ */
+export async function startKeyringRecovery(password: string, salt: string): Promise<RecoveryRequestPayload> {
+    const passwordKeys = await derivePasswordKeys(password, salt);
+    const entry = await findEntryToRecover(passwordKeys, salt);
+    const { keys, recoveryKeyVersion } = entry.escrow!;
+
+    const keyPair = await generateUserKeyPair();
+    const [requestPublicKey, privateKey] = await Promise.all([
+        crypto.subtle.exportKey('jwk', keyPair.publicKey),
+        crypto.subtle.exportKey('jwk', keyPair.privateKey)
+    ]);
+    await db.keyring.update(entry.id, {
+        recoveryRequest: { encryptedPrivateKey: await encryptJson(privateKey, passwordKeys.accountKey), requestedAt: new Date() },
+        updatedAt: new Date()
+    });
+    return { escrow: { ...keys, recoveryKeyVersion }, requestPublicKey };
+}
+
+/** Opens the data keys a manager re-encrypted to this device's request key and re-wraps them under the new password. */
+export async function completeKeyringRecovery(password: string, salt: string, recoveredKeys: WrappedDataKeys): Promise<OpenedKeyring> {
+    const passwordKeys = await derivePasswordKeys(password, salt);
+    const entry = await findEntryToRecover(passwordKeys, salt);
+    if (!entry.recoveryRequest) {
+        throw new Error('No recovery was requested from this device');
+    }
+
+    const privateKey = await importUserPrivateKey(await decryptJson<JsonWebKey>(entry.recoveryRequest.encryptedPrivateKey, passwordKeys.accountKey));
+    const keys = await decryptDataKeysWith(recoveredKeys, privateKey, true);
+    // Rows under retired keys were not escrowed and cannot be recovered
+    const recovered: KeyringEntry = {
+        ...entry,
+        wrapped: await wrapDataKeys(keys, passwordKeys.keyWrappingKey),
+        retired: undefined,
+        recoveryRequest: undefined,
+        pin: undefined,
+        updatedAt: new Date()
+    };
+    await db.keyring.put(recovered);
+
+    const opened = await openEntry(recovered, passwordKeys);
+    if (!opened) {
+        throw new Error('Failed to open the recovered local keyring entry');
+    }
+    return opened;
+}
+
+/**
+ * Generates new data keys for an entry and keeps the old ones as `retired` until their rows are
+ * re-encrypted. If a rotation is already pending, the entry is returned unchanged.
+ */
+export async function beginDataKeyRotation(entryId: string, passwordKeys: PasswordKeys): Promise<OpenedKeyring> {
+    const entry = await db.keyring.get(entryId);
+    if (!entry) {
+        throw new Error('Local keyring entry not found');
+    }
+
+    let rotating = entry;
+    if (!entry.retired) {
+        const keys = await generateDataKeys();
+        rotating = {
+            ...entry,
+            wrapped: await wrapDataKeys(keys, passwordKeys.keyWrappingKey),
+            retired: entry.wrapped,
+            origin: 'random',
+            keyVersion: entry.keyVersion + 1,
+            pin: undefined, // wraps the keys being replaced
+            // Escrow the new keys straight away so a reset during re-encryption stays recoverable
+            escrow: entry.escrow ? await escrowFor(keys, entry.escrow.recoveryPublicKey, entry.escrow.recoveryKeyVersion) : undefined,
+            updatedAt: new Date()
+        };
+        await db.keyring.put(rotating);
+    }
+
+    const opened = await openEntry(rotating, passwordKeys);
+    if (!opened?.retiredKeys) {
+        throw new Error('Failed to open the rotated local keyring entry');
+    }
+    return opened;
+}
+
+/** Drops the retired keys once no row depends on them. */
+export async function finishDataKeyRotation(entryId: string): Promise<void> {
+    await db.keyring.where('id').equals(entryId).modify((entry: KeyringEntry) => {
+        delete entry.retired;
+        delete entry.pin?.retired;
+        entry.updatedAt = new Date();
+    });
+}
@@ -1,4 +1,19 @@
 // Session assistant client with GPT-5 backend + offline fallback.
+import { useEncryptionStore } from '../stores/encryptionStore';
+import type { TargetCatalog } from '../db/db';
+import { formatClockTime, formatSeconds } from './timerService';
+import {
+    applyTargetCatalog,
+    catalogBehaviorWords,
+    matchCatalogBehaviors,
+    matchCatalogReinforcers,
+    matchCatalogSkill,
+    mentions,
+    resolveBehaviorName,
+    toParseCatalog,
+    type TargetCatalogFields
+} from './targetCatalogService';
+
 const SESSION_ASSISTANT_ENDPOINT = '/api/llm/session-assistant';
 const REMOTE_LLM_TIMEOUT_MS = 4200;
 const REMOTE_LLM_BACKOFF_MS = 2 * 60 * 1000;
@@ -9,6 +24,9 @@ export interface ParsedInput {
         type: string;
         count?: number;
         duration?: number; // in seconds
+        latency?: number; // seconds from the cue to the response
+        startedAt?: Date; // exact timestamps when measured with a timer
+        endedAt?: Date;
     }[];
     antecedent?: string;
     functionGuess?: 'escape' | 'tangible' | 'attention' | 'automatic';
@@ -40,18 +58,29 @@ export interface ConfirmationResponse {
 interface ParseTaskRequest {
     task: 'parse';
     message: string;
+    catalog?: TargetCatalogFields;
 }
 
 interface ParseTaskResponse {
     parsed: unknown;
 }
 
+/** Percent of intervals for one behavior target, as reported in the note. */
+export interface NoteIntervalData {
+    behavior: string;
+    method: string;
+    intervalSeconds: number;
+    percent: number;
+    intervals: number;
+}
+
 interface NoteTaskRequest {
     task: 'note';
     clientName: string;
-    behaviors: { type: string; count?: number; duration?: number; antecedent?: string; function?: string; intervention?: string }[];
+    behaviors: { type: string; count?: number; duration?: number; latency?: number; antecedent?: string; function?: string; intervention?: string }[];
     skillTrials: { skill: string; target: string; response: string }[];
     reinforcements: string[];
+    intervals: NoteIntervalData[];
 }
 
 interface NoteTaskResponse {
@@ -82,6 +111,10 @@ const shouldUseRemoteLlm = (): boolean => {
     if (typeof navigator !== 'undefined' && navigator.onLine === false) {
         return false;
     }
+    // The session assistant needs plaintext, which end-to-end organizations never send to the server
+    if (useEncryptionStore.getState().cloudMode === 'e2e') {
+        return false;
+    }
     const configuredFlag = String(import.meta.env.VITE_ENABLE_REMOTE_LLM ?? '').trim().toLowerCase();
     const explicitlyDisabled = configuredFlag === 'false' || configuredFlag === '0';
     return !explicitlyDisabled && Date.now() >= remoteLlmDisabledUntilMs;
@@ -212,23 +245,25 @@ const sanitizeParsedInput = (candidate: unknown): ParsedInput => {
  * Falls back to regex-based mock parsing if no API token is configured.
  * 
  * @param userMessage - The raw text input from the user (e.g., "Client hit peer 3 times").
+ * @param catalog - The learner's defined behaviors, skill targets and reinforcers, which parsed output is mapped onto.
  * @returns Structured data matching ParsedInput interface.
  */
-export async function parseUserInput(userMessage: string): Promise<ParsedInput> {
-    if (!shouldUseRemoteLlm()) return mockParseInput(userMessage);
+export async function parseUserInput(userMessage: string, catalog?: TargetCatalog | null): Promise<ParsedInput> {
+    if (!shouldUseRemoteLlm()) return mockParseInput(userMessage, catalog);
 
     try {
         const response = await requestSessionAssistant<ParseTaskResponse>({
             task: 'parse',
             message: userMessage,
+            ...(catalog ? { catalog: toParseCatalog(catalog) } : {}),
         });
-        return sanitizeParsedInput(response.parsed);
+        return applyTargetCatalog(sanitizeParsedInput(response.parsed), catalog);
     } catch (error) {
         setRemoteLlmBackoff();
         console.error('Error calling session assistant parse:', error);
     }
 
-    return mockParseInput(userMessage);
+    return mockParseInput(userMessage, catalog);
 }
 
 /**
@@ -238,15 +273,17 @@ export async function parseUserInput(userMessage: string): Promise<ParsedInput>
  * @param skillTrials - Array of skill trials conducted.
  * @param clientName - Name of the learner.
  * @param reinforcements - List of reinforcements delivered.
+ * @param intervals - Percent of intervals per interval-recorded behavior target.
  * @returns A string containing the drafted narrative note.
  */
 export async function generateNoteDraft(
-    behaviors: { type: string; count?: number; duration?: number; antecedent?: string; function?: string; intervention?: string }[],
+    behaviors: { type: string; count?: number; duration?: number; latency?: number; antecedent?: string; function?: string; intervention?: string }[],
     skillTrials: { skill: string; target: string; response: string }[],
     clientName: string,
-    reinforcements: string[] = []
+    reinforcements: string[] = [],
+    intervals: NoteIntervalData[] = []
 ): Promise<string> {
-    if (!shouldUseRemoteLlm()) return mockGenerateNote(behaviors, skillTrials, clientName, reinforcements);
+    if (!shouldUseRemoteLlm()) return mockGenerateNote(behaviors, skillTrials, clientName, reinforcements, intervals);
 
     try {
         const response = await requestSessionAssistant<NoteTaskResponse>({
@@ -254,14 +291,15 @@ export async function generateNoteDraft(
             clientName,
             behaviors,
             skillTrials,
-            reinforcements
+            reinforcements,
+            intervals
         });
         const note = toNonEmptyString(response.note);
-        return note || mockGenerateNote(behaviors, skillTrials, clientName, reinforcements);
+        return note || mockGenerateNote(behaviors, skillTrials, clientName, reinforcements, intervals);
     } catch (error) {
         setRemoteLlmBackoff();
         console.error('Error generating note with session assistant:', error);
-        return mockGenerateNote(behaviors, skillTrials, clientName, reinforcements);
+        return mockGenerateNote(behaviors, skillTrials, clientName, reinforcements, intervals);
     }
 }
 
@@ -284,7 +322,7 @@ export async function generateSessionChatReply(message: string, context?: Sessio
 }
 
 // Mock functions for demo mode (no API key)
-function mockParseInput(input: string): ParsedInput {
+function mockParseInput(input: string, catalog?: TargetCatalog | null): ParsedInput {
     const lowerInput = input.toLowerCase();
     const behaviors: ParsedInput['behaviors'] = [];
     const skillTrials: ParsedInput['skillTrials'] = [];
@@ -330,6 +368,9 @@ function mockParseInput(input: string): ParsedInput {
         if (disallowedPatterns.some((pattern) => pattern.test(normalized))) {
             return false;
         }
+        if (catalog && catalogBehaviorWords(catalog).some((word) => includesKeyword(normalized, word))) {
+            return false;
+        }
 
         const fillerWords = new Set(['the', 'a', 'an', 'and', 'with', 'on', 'for', 'of']);
         const tokens = normalized
@@ -356,25 +397,37 @@ function mockParseInput(input: string): ParsedInput {
         { type: 'stereotypy', keywords: ['stereotypy', 'stimming', 'hand flap', 'rocking'] }
     ];
 
+    const pushBehavior = (type: string) => {
+        if (behaviors.some((behavior) => behavior.type === type)) return;
+
+        // Duration Check
+        let duration = 0;
+        const secMatch = input.match(/(\d+)\s*(sec|s\b|second)/i);
+        const minMatch = input.match(/(\d+)\s*(min|m\b|minute)/i);
+        if (secMatch) duration += parseInt(secMatch[1]);
+        if (minMatch) duration += parseInt(minMatch[1]) * 60;
+
+        // Count Check
+        const countMatch = input.match(/(\d+|once|twice|two|three|four|five)\s*times?/i);
+        const count = countMatch ? parseCount(countMatch[1]) : 1;
+
+        behaviors.push({
+            type,
+            count: duration > 0 ? undefined : count,
+            duration: duration > 0 ? duration : undefined
+        });
+    };
+
+    // The learner's defined behaviors come first; built-in types are renamed to a defined behavior
+    // when the catalog lists them, and skipped when only a catalog word triggered them.
+    const mentionedCatalogWords = catalog ? catalogBehaviorWords(catalog).filter((word) => mentions(input, word)) : [];
+    if (catalog) matchCatalogBehaviors(input, catalog).forEach(pushBehavior);
+
     behaviorPatterns.forEach(pattern => {
-        if (pattern.keywords.some(k => lowerInput.includes(k))) {
-            // Duration Check
-            let duration = 0;
-            const secMatch = input.match(/(\d+)\s*(sec|s\b|second)/i);
-            const minMatch = input.match(/(\d+)\s*(min|m\b|minute)/i);
-            if (secMatch) duration += parseInt(secMatch[1]);
-            if (minMatch) duration += parseInt(minMatch[1]) * 60;
-
-            // Count Check
-            const countMatch = input.match(/(\d+|once|twice|two|three|four|five)\s*times?/i);
-            const count = countMatch ? parseCount(countMatch[1]) : 1;
-
-            behaviors.push({
-                type: pattern.type,
-                count: duration > 0 ? undefined : count,
-                duration: duration > 0 ? duration : undefined
-            });
-        }
+        const matched = pattern.keywords.filter(k => lowerInput.includes(k));
+        if (matched.length === 0) return;
+        if (matched.every((keyword) => mentionedCatalogWords.some((word) => word.includes(keyword)))) return;
+        pushBehavior(catalog ? resolveBehaviorName(pattern.type, catalog) : pattern.type);
     });
 
     // --- Skill Trial Detection ---
@@ -382,7 +435,8 @@ function mockParseInput(input: string): ParsedInput {
     const skillKeywords = ['trial', 'tr', 'skill', 'dtt', 'matching', 'imitation', 'labeling', 'label', 'mand', 'tact', 'tried', 'practiced', 'worked on'];
     const shorthandMatch = input.match(/\btr\b(?=\s+[a-z0-9])/i);
     const labelAliasMatch = /\blabel(?:ed|ing|s)?\b/i.test(input);
-    const hasSkillKeyword = skillKeywords.some((k) => includesKeyword(lowerInput, k)) || !!shorthandMatch || labelAliasMatch;
+    const catalogSkill = catalog ? matchCatalogSkill(input, catalog) : null;
+    const hasSkillKeyword = skillKeywords.some((k) => includesKeyword(lowerInput, k)) || !!shorthandMatch || labelAliasMatch || !!catalogSkill?.skillNamed;
 
     if (hasSkillKeyword) {
         let skill = 'Unknown Skill';
@@ -549,6 +603,13 @@ function mockParseInput(input: string): ParsedInput {
             target = extractedTarget;
         }
 
+        // A defined skill or target outranks whatever the patterns above guessed
+        if (catalogSkill) {
+            skill = catalogSkill.skill;
+            target = catalogSkill.target ?? target;
+            shouldCreateSkillTrial = true;
+        }
+
         if (shouldCreateSkillTrial) {
             skillTrials.push({ skill, target, response, promptLevel });
         }
@@ -557,7 +618,8 @@ function mockParseInput(input: string): ParsedInput {
     // --- Reinforcement Detection ---
     const reinforcementVerbPattern = /\b(gave|give|delivered|deliver|provided|provide|earned|reinforced|rewarded)\b/i;
     const reinforcementItemPattern = /\b(token|praise|sticker|candy|reward|reinforcement|preferred item|ipad|break)\b/i;
-    if (reinforcementVerbPattern.test(input) && reinforcementItemPattern.test(input)) {
+    const catalogReinforcers = catalog ? matchCatalogReinforcers(input, catalog) : [];
+    if (reinforcementVerbPattern.test(input) && (reinforcementItemPattern.test(input) || catalogReinforcers.length > 0)) {
         const reinforcementTypes: string[] = [];
         if (/\btoken\b/i.test(input)) reinforcementTypes.push('Token');
         if (/\bpraise\b/i.test(input)) reinforcementTypes.push('Praise');
@@ -565,8 +627,10 @@ function mockParseInput(input: string): ParsedInput {
         if (/\bcandy\b/i.test(input)) reinforcementTypes.push('Candy');
         if (/\bipad\b/i.test(input)) reinforcementTypes.push('iPad');
         if (/\bbreak\b/i.test(input)) reinforcementTypes.push('Break');
+        // The learner's own list names what was delivered when it covers it
+        const types = catalogReinforcers.length > 0 ? catalogReinforcers : reinforcementTypes;
         reinforcement = {
-            type: reinforcementTypes.length > 0 ? reinforcementTypes.join(' + ') : 'Reinforcement',
+            type: types.length > 0 ? types.join(' + ') : 'Reinforcement',
             delivered: true,
             details: input.trim()
         };
@@ -640,10 +704,11 @@ function generateNarrativeFragment(
 }
 
 function mockGenerateNote(
-    behaviors: { type: string; count?: number; duration?: number; antecedent?: string; function?: string; intervention?: string }[],
+    behaviors: { type: string; count?: number; duration?: number; latency?: number; antecedent?: string; function?: string; intervention?: string }[],
     skillTrials: { skill: string; target: string; response: string }[],
     clientName: string,
-    reinforcements: string[] = []
+    reinforcements: string[] = [],
+    intervals: NoteIntervalData[] = []
 ): string {
     const parts: string[] = [];
 
@@ -652,6 +717,7 @@ function mockGenerateNote(
             let desc = b.type;
             if (b.count && b.count > 1) desc = `${b.count} instances of ${desc}`;
             if (b.duration) desc += ` (${b.duration}s duration)`;
+            if (b.latency !== undefined) desc += ` (latency ${b.latency}s)`;
             return desc;
         });
         parts.push(`${clientName} engaged in ${behaviorDescs.join(', ')}.`);
@@ -674,6 +740,13 @@ function mockGenerateNote(
         parts.push(`Skill trials: ${trialSummary}.`);
     }
 
+    if (intervals.length > 0) {
+        const intervalSummary = intervals.map(i =>
+            `${i.behavior} occurred in ${i.percent}% of ${i.intervals} intervals (${i.method}, ${i.intervalSeconds}s)`
+        ).join('; ');
+        parts.push(`Interval data: ${intervalSummary}.`);
+    }
+
     if (reinforcements.length > 0) {
         parts.push(`Reinforcement delivered: ${reinforcements.join('; ')}.`);
     }
@@ -697,6 +770,18 @@ function mockSessionChatReply(message: string, context?: SessionChatContext): st
     );
 }
 
+/** Whether a function still has to be picked: latency measures a response to an instruction, not a behavior with a function. */
+export function needsFunctionGuess(parsed: ParsedInput): boolean {
+    return !parsed.functionGuess && parsed.behaviors.some((b) => b.latency === undefined);
+}
+
+function formatTimedBehavior(b: ParsedInput['behaviors'][number]): string | null {
+    if (!b.startedAt || !b.endedAt) return null;
+    const span = `${formatClockTime(b.startedAt)} to ${formatClockTime(b.endedAt)}`;
+    if (b.latency !== undefined) return `latency to ${b.type}: ${formatSeconds(b.latency)} (cue ${span})`;
+    return `${b.type} (${formatSeconds(b.duration ?? 0)}, ${span})`;
+}
+
 export function generateConfirmation(parsed: ParsedInput): ConfirmationResponse {
     if (parsed.needsClarification) {
         return {
@@ -709,6 +794,8 @@ export function generateConfirmation(parsed: ParsedInput): ConfirmationResponse
     }
 
     const behaviorSummary = parsed.behaviors.map(b => {
+        const timed = formatTimedBehavior(b);
+        if (timed) return timed;
         if (b.duration) return `${b.type} (${b.duration}s)`;
         if (b.count && b.count > 1) return `${b.count}x ${b.type}`;
         return b.type;
@@ -735,7 +822,7 @@ export function generateConfirmation(parsed: ParsedInput): ConfirmationResponse
     ];
 
     const followUpQuestions: string[] = [];
-    if (!parsed.functionGuess) {
+    if (needsFunctionGuess(parsed)) {
         followUpQuestions.push('What was the likely function?');
     }
     if (!parsed.intervention) {
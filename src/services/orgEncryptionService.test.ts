@@ -0,0 +1,174 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { db, getSyncStateValue } from '../db/db';
+import { useEncryptionStore } from '../stores/encryptionStore';
+import type { SyncableDocument } from '../types/sync';
+import type { Organization, User } from './authService';
+import { decryptJson, derivePasswordKeys, encryptJson, generateUserKeyPair } from './encryptionService';
+import {
+  CLOUD_ENCRYPTION_MODE_KEY,
+  changeAccountPassword,
+  enableOrgEncryption,
+  loadOrgEncryption,
+  loadUserPrivateKey,
+  openSyncDocument,
+  sealSyncDocument,
+  type OrgEncryptionMember,
+} from './orgEncryptionService';
+
+function jsonResponse(body: unknown): Response {
+  return new Response(JSON.stringify(body), { status: 200, headers: { 'Content-Type': 'application/json' } });
+}
+
+function staff(id: string, role: User['role']): User {
+  return {
+    id,
+    email: `${id}@example.com`,
+    userType: 'org',
+    orgId: 'org-1',
+    role,
+    name: id,
+    assignedLearnerIds: [],
+    permissions: [],
+    isActive: true,
+    encryptionSalt: 'U3RhdGljU2FsdDEyMw==',
+  };
+}
+
+function organization(cloudEncryption?: Organization['cloudEncryption']): Organization {
+  return {
+    id: 'org-1',
+    name: 'Clinic',
+    settings: { defaultSessionDuration: 120, requireSupervisorApproval: false },
+    cloudEncryption,
+  };
+}
+
+const behaviorDocument: SyncableDocument = {
+  id: '0b5e3f0c-7f5e-4a1c-9a53-2f1f3b0d6c11',
+  sessionId: 4,
+  entityType: 'behavior',
+  clientId: 'learner-1',
+  syncedAt: '2026-02-05T14:00:00.000Z',
+  revision: 0,
+  data: { uuid: '0b5e3f0c-7f5e-4a1c-9a53-2f1f3b0d6c11', sessionId: 4, behaviorType: 'elopement', count: 1 },
+};
+
+/** Signs users in for the first time and captures the key pairs they publish (ids must be unique per test). */
+async function publishKeys(users: User[]): Promise<User[]> {
+  const fetchMock = vi.fn().mockResolvedValue(jsonResponse({ ok: true }));
+  vi.stubGlobal('fetch', fetchMock);
+  for (const person of users) {
+    await loadOrgEncryption(person, organization());
+  }
+  return users.map((person, index) => {
+    const body = JSON.parse(String(fetchMock.mock.calls[index][1].body));
+    return { ...person, encryptionKeys: { ...body, updatedAt: '2026-02-05T14:00:00.000Z' } };
+  });
+}
+
+describe('org end-to-end encryption', () => {
+  beforeEach(async () => {
+    await useEncryptionStore.getState().initializeWithPassword('TestPass123!', 'U3RhdGljU2FsdDEyMw==');
+    await db.syncState.clear();
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('publishes a key pair without sharing the private key in the clear', async () => {
+    const [manager] = await publishKeys([staff('manager-1', 'manager')]);
+
+    expect(manager.encryptionKeys?.publicKey).toMatchObject({ kty: 'RSA' });
+    expect(manager.encryptionKeys?.publicKey).not.toHaveProperty('d');
+    expect(manager.encryptionKeys?.encryptedPrivateKey).toMatchObject({ algorithm: 'AES-GCM' });
+    expect(useEncryptionStore.getState().cloudMode).toBe('standard');
+    expect(await getSyncStateValue(CLOUD_ENCRYPTION_MODE_KEY)).toBe('standard');
+  });
+
+  it('lets a member open records sealed by the manager with the key wrapped for them', async () => {
+    const [manager, rbt] = await publishKeys([staff('manager-2', 'manager'), staff('rbt-2', 'rbt')]);
+    const members: OrgEncryptionMember[] = [manager, rbt].map((person) => ({
+      userId: person.id,
+      name: person.name,
+      email: person.email,
+      role: person.role,
+      publicKey: person.encryptionKeys!.publicKey,
+      hasAccess: false,
+    }));
+
+    const enableMock = vi.fn().mockResolvedValue(jsonResponse({ mode: 'e2e', keyVersion: 1 }));
+    vi.stubGlobal('fetch', enableMock);
+    await enableOrgEncryption(members);
+    const { wrappedKeys } = JSON.parse(String(enableMock.mock.calls[0][1].body)) as { wrappedKeys: Record<string, string> };
+    expect(Object.keys(wrappedKeys)).toEqual(['manager-2', 'rbt-2']);
+
+    const sealed = await sealSyncDocument(behaviorDocument);
+    expect(sealed.data).toEqual({});
+    expect(JSON.stringify(sealed)).not.toContain('elopement');
+
+    // The RBT's device: a fresh session that only has its own wrapped copy of the org key
+    useEncryptionStore.getState().setOrgEncryption({ cloudMode: 'standard', orgKey: null, orgSigningKey: null, orgKeyVersion: null });
+    await loadOrgEncryption(rbt, organization({ mode: 'e2e', keyVersion: 1, wrappedKey: wrappedKeys['rbt-2'], disabledFeatures: ['syncContentValidation', 'sessionAssistant'] }));
+
+    expect(useEncryptionStore.getState()).toMatchObject({ cloudMode: 'e2e', orgKeyVersion: 1 });
+    expect(await openSyncDocument(sealed)).toEqual(behaviorDocument);
+  });
+
+  it('rejects ciphertext moved to another record', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(jsonResponse({ mode: 'e2e', keyVersion: 1 })));
+    await enableOrgEncryption([]);
+
+    const sealed = await sealSyncDocument(behaviorDocument);
+    const moved = { ...sealed, id: 'c7a0c7f4-3e0b-4a8e-8a55-0d7c2b6b9e42', clientId: 'learner-2' };
+
+    await expect(openSyncDocument(moved)).rejects.toThrow('Signature check failed');
+    expect(await openSyncDocument(sealed)).toEqual(behaviorDocument);
+  });
+});
+
+describe('password change', () => {
+  beforeEach(async () => {
+    useEncryptionStore.getState().clear();
+    await db.keyring.clear();
+    await useEncryptionStore.getState().initializeWithPassword('TestPass123!', 'U3RhdGljU2FsdDEyMw==');
+  });
+
+  afterEach(async () => {
+    vi.unstubAllGlobals();
+    useEncryptionStore.getState().clear();
+    await db.keyring.clear();
+  });
+
+  it('uploads the private key re-encrypted under the new password so org access survives', async () => {
+    const keyPair = await generateUserKeyPair();
+    const [publicKey, privateKey] = await Promise.all([
+      crypto.subtle.exportKey('jwk', keyPair.publicKey),
+      crypto.subtle.exportKey('jwk', keyPair.privateKey),
+    ]);
+    const rbt: User = {
+      ...staff('rbt-4', 'rbt'),
+      encryptionKeys: {
+        publicKey,
+        encryptedPrivateKey: await encryptJson(privateKey, useEncryptionStore.getState().getAccountKey()),
+        updatedAt: '2026-02-05T14:00:00.000Z',
+      },
+    };
+
+    const fetchMock = vi.fn().mockResolvedValue(jsonResponse({ ok: true }));
+    vi.stubGlobal('fetch', fetchMock);
+    await changeAccountPassword(rbt, 'TestPass123!', 'NewPass456!');
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(fetchMock.mock.calls[0][0]).toBe('/api/auth/password');
+    const body = JSON.parse(String(fetchMock.mock.calls[0][1].body));
+    expect(body).toMatchObject({ currentPassword: 'TestPass123!', newPassword: 'NewPass456!' });
+    const { accountKey } = await derivePasswordKeys('NewPass456!', rbt.encryptionSalt);
+    expect(await decryptJson<JsonWebKey>(body.encryptedPrivateKey, accountKey)).toMatchObject({ d: privateKey.d });
+
+    // The next sign-in opens the same key pair instead of publishing a new one
+    const changed: User = { ...rbt, encryptionKeys: { ...rbt.encryptionKeys!, encryptedPrivateKey: body.encryptedPrivateKey } };
+    await loadUserPrivateKey(changed);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+});
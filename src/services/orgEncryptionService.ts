@@ -0,0 +1,300 @@
+import { getSyncStateValue, setSyncStateValue, type IntegrityFailure } from '../db/db';
+import { useEncryptionStore, type CloudEncryptionMode } from '../stores/encryptionStore';
+import type { SyncableDocument } from '../types/sync';
+import { changePassword, type Organization, type PlaintextFeature, type User } from './authService';
+import {
+    decryptJson,
+    deriveOrgKeys,
+    derivePasswordKeys,
+    encryptJson,
+    generateOrgKeyMaterial,
+    generateUserKeyPair,
+    importUserPrivateKey,
+    importUserPublicKey,
+    unwrapOrgKeyMaterial,
+    wrapOrgKeyMaterial,
+    type EncryptedData
+} from './encryptionService';
+import { signData, verifySignature } from './integrityService';
+
+// End-to-end encrypted cloud storage. Each staff member has an RSA key pair whose private half is
+// stored encrypted with their password-derived account key (not the device's data keys, so it opens on
+// every device they sign in on); the org data key is wrapped to each public key.
+
+const API_BASE = '/api';
+
+/**
+ * Last known org mode, cached locally so a sync never sends plaintext before the
+ * current mode has been fetched (including syncs run by the service worker).
+ */
+export const CLOUD_ENCRYPTION_MODE_KEY = 'cloudEncryptionMode';
+
+export interface OrgEncryptionMember {
+    userId: string;
+    name: string;
+    email: string;
+    role: User['role'];
+    publicKey: JsonWebKey | null;
+    hasAccess: boolean;
+}
+
+export interface OrgEncryptionStatus {
+    mode: CloudEncryptionMode;
+    keyVersion: number;
+    disabledFeatures: PlaintextFeature[];
+    members: OrgEncryptionMember[];
+}
+
+export async function getCachedCloudEncryptionMode(): Promise<CloudEncryptionMode> {
+    return (await getSyncStateValue(CLOUD_ENCRYPTION_MODE_KEY)) === 'e2e' ? 'e2e' : 'standard';
+}
+
+export async function readApiError(response: Response, fallback: string): Promise<string> {
+    try {
+        const body = await response.json() as { error?: string };
+        return body.error || fallback;
+    } catch {
+        return fallback;
+    }
+}
+
+async function publishUserKeys(publicKey: JsonWebKey, encryptedPrivateKey: EncryptedData): Promise<void> {
+    const response = await fetch(`${API_BASE}/org/encryption/user-key`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include', // Important: send HttpOnly cookies
+        body: JSON.stringify({ publicKey, encryptedPrivateKey })
+    });
+    if (!response.ok) {
+        throw new Error(await readApiError(response, 'Failed to publish encryption key'));
+    }
+}
+
+// Keys published during this page's lifetime, until the refreshed user record carries them
+const publishedPrivateKeys = new Map<string, CryptoKey>();
+
+/**
+ * Opens the user's private key, creating and publishing a key pair on first use so
+ * a manager can grant this user access to the org data key. After a password reset the
+ * stored key no longer opens, so a new pair is published and access must be granted again.
+ * Throws while local data is open with the device PIN only.
+ */
+export async function loadUserPrivateKey(user: User): Promise<CryptoKey> {
+    const published = publishedPrivateKeys.get(user.id);
+    if (published) return published;
+    const accountKey = useEncryptionStore.getState().getAccountKey();
+    if (user.encryptionKeys) {
+        try {
+            const jwk = await decryptJson<JsonWebKey>(user.encryptionKeys.encryptedPrivateKey, accountKey);
+            return await importUserPrivateKey(jwk);
+        } catch (error) {
+            console.warn('Stored private key does not open with the current password; publishing a new key pair', error);
+        }
+    }
+
+    const keyPair = await generateUserKeyPair();
+    const [publicKey, privateKey] = await Promise.all([
+        crypto.subtle.exportKey('jwk', keyPair.publicKey),
+        crypto.subtle.exportKey('jwk', keyPair.privateKey)
+    ]);
+    await publishUserKeys(publicKey, await encryptJson(privateKey, accountKey));
+    publishedPrivateKeys.set(user.id, keyPair.privateKey);
+    return keyPair.privateKey;
+}
+
+/** The user's private key moved from one account key to another; undefined before a pair is published. */
+async function reencryptUserPrivateKey(user: User, currentKey: CryptoKey, newKey: CryptoKey): Promise<EncryptedData | undefined> {
+    const published = publishedPrivateKeys.get(user.id);
+    if (published) {
+        return encryptJson(await crypto.subtle.exportKey('jwk', published), newKey);
+    }
+    if (!user.encryptionKeys) return undefined;
+    let jwk: JsonWebKey;
+    try {
+        jwk = await decryptJson<JsonWebKey>(user.encryptionKeys.encryptedPrivateKey, currentKey);
+    } catch {
+        throw new Error('Current password is incorrect');
+    }
+    return encryptJson(jwk, newKey);
+}
+
+/**
+ * Changes the signed-in user's password. The private key is re-encrypted under the new password and
+ * uploaded with the change, so access to the org data key survives; then this device's keyring is
+ * re-wrapped, and with `reencrypt` its data keys are replaced as well.
+ */
+export async function changeAccountPassword(user: User, currentPassword: string, newPassword: string, options: { reencrypt?: boolean } = {}): Promise<void> {
+    // Derived from the passwords rather than taken from the store, which has no account key after a PIN unlock
+    const [current, next] = await Promise.all([
+        derivePasswordKeys(currentPassword, user.encryptionSalt),
+        derivePasswordKeys(newPassword, user.encryptionSalt)
+    ]);
+    await changePassword(currentPassword, newPassword, await reencryptUserPrivateKey(user, current.accountKey, next.accountKey));
+    // Should this fail, the next unlock asks for the previous password and re-wraps the keyring then
+    await useEncryptionStore.getState().changePassword(currentPassword, newPassword, user.encryptionSalt, options);
+}
+
+async function openOrgKeyMaterial(user: User, organization: Organization): Promise<Uint8Array | null> {
+    const wrappedKey = organization.cloudEncryption?.wrappedKey;
+    const privateKey = await loadUserPrivateKey(user);
+    return wrappedKey ? unwrapOrgKeyMaterial(wrappedKey, privateKey) : null;
+}
+
+async function applyOrgKeyMaterial(material: Uint8Array, keyVersion: number): Promise<void> {
+    const { key, signingKey } = await deriveOrgKeys(material);
+    useEncryptionStore.getState().setOrgEncryption({ cloudMode: 'e2e', orgKey: key, orgSigningKey: signingKey, orgKeyVersion: keyVersion });
+}
+
+/**
+ * Loads the organization's cloud mode and, in end-to-end mode, the org data keys for this user.
+ * Requires unlocked local encryption. Users without granted access stay in 'e2e' without keys,
+ * which holds back uploads and pulls until a manager grants access.
+ */
+export async function loadOrgEncryption(user: User, organization: Organization | null): Promise<void> {
+    const encryption = useEncryptionStore.getState();
+    if (user.userType !== 'org' || !organization) {
+        encryption.setOrgEncryption({ cloudMode: 'standard', orgKey: null, orgSigningKey: null, orgKeyVersion: null });
+        return;
+    }
+
+    const cloudEncryption = organization.cloudEncryption;
+    const mode = cloudEncryption?.mode ?? 'standard';
+    await setSyncStateValue(CLOUD_ENCRYPTION_MODE_KEY, mode);
+
+    // Unlocked with the device PIN: the org keys stay closed (and e2e sync held) until the password is entered
+    if (!encryption.accountKey) {
+        encryption.setOrgEncryption({ cloudMode: mode, orgKey: null, orgSigningKey: null, orgKeyVersion: null });
+        return;
+    }
+
+    // Always open (or publish) the key pair, so members are ready before a manager enables the mode
+    const material = await openOrgKeyMaterial(user, organization);
+    if (mode === 'e2e' && material && cloudEncryption) {
+        await applyOrgKeyMaterial(material, cloudEncryption.keyVersion);
+    } else {
+        encryption.setOrgEncryption({ cloudMode: mode, orgKey: null, orgSigningKey: null, orgKeyVersion: null });
+    }
+}
+
+/** What the signature covers: the ciphertext and where it belongs. */
+function signedContent(document: SyncableDocument, payload: EncryptedData, keyVersion: number) {
+    return {
+        id: document.id,
+        entityType: document.entityType,
+        sessionId: document.sessionId,
+        clientId: document.clientId ?? null,
+        keyVersion,
+        payload
+    };
+}
+
+/** Replaces a document's readable `data` with ciphertext under the org data key. Tombstones pass through. */
+export async function sealSyncDocument(document: SyncableDocument): Promise<SyncableDocument> {
+    if (document.deleted) return document;
+    const { orgKey, orgSigningKey, orgKeyVersion } = useEncryptionStore.getState();
+    if (!orgKey || !orgSigningKey || orgKeyVersion === null) {
+        throw new Error('Organization encryption key is not available');
+    }
+    const payload = await encryptJson(document.data, orgKey);
+    const signature = await signData(signedContent(document, payload, orgKeyVersion), orgSigningKey);
+    return { ...document, data: {}, encrypted: { payload, signature, keyVersion: orgKeyVersion } };
+}
+
+/** An end-to-end document that did not open on this device, with the integrity failure it counts as. */
+export class SyncDocumentIntegrityError extends Error {
+    readonly reason: IntegrityFailure;
+
+    constructor(message: string, reason: IntegrityFailure) {
+        super(message);
+        this.name = 'SyncDocumentIntegrityError';
+        this.reason = reason;
+    }
+}
+
+/**
+ * Verifies and decrypts an end-to-end document back into readable `data`.
+ * Plaintext documents (stored before the org switched modes) are returned unchanged.
+ * @throws SyncDocumentIntegrityError when the key version is unavailable, the signature fails or the payload does not decrypt.
+ */
+export async function openSyncDocument<T extends SyncableDocument>(document: T): Promise<T> {
+    if (!document.encrypted) return document;
+    const { orgKey, orgSigningKey, orgKeyVersion } = useEncryptionStore.getState();
+    const { payload, signature, keyVersion } = document.encrypted;
+    if (!orgKey || !orgSigningKey || keyVersion !== orgKeyVersion) {
+        throw new SyncDocumentIntegrityError(`Organization encryption key version ${keyVersion} is not available`, 'undecryptable');
+    }
+    if (!await verifySignature(signedContent(document, payload, keyVersion), signature, orgSigningKey)) {
+        throw new SyncDocumentIntegrityError(`Signature check failed for document ${document.id}`, 'signature-mismatch');
+    }
+    const data = await decryptJson<Record<string, unknown>>(payload, orgKey).catch(() => {
+        throw new SyncDocumentIntegrityError(`Document ${document.id} does not decrypt`, 'undecryptable');
+    });
+    const { encrypted: _, ...rest } = document; // eslint-disable-line @typescript-eslint/no-unused-vars
+    return { ...rest, data } as T;
+}
+
+// Manager actions
+
+export async function fetchOrgEncryptionStatus(): Promise<OrgEncryptionStatus> {
+    const response = await fetch(`${API_BASE}/org/encryption`, {
+        credentials: 'include' // Important: send HttpOnly cookies
+    });
+    if (!response.ok) {
+        throw new Error(await readApiError(response, 'Failed to load organization encryption'));
+    }
+    return response.json() as Promise<OrgEncryptionStatus>;
+}
+
+async function wrapForMember(material: Uint8Array, member: OrgEncryptionMember): Promise<string> {
+    if (!member.publicKey) {
+        throw new Error(`${member.name} has not signed in since encryption keys were introduced`);
+    }
+    return wrapOrgKeyMaterial(material, await importUserPublicKey(member.publicKey));
+}
+
+/**
+ * Switches the organization to end-to-end mode: generates the org data key on this device and
+ * wraps it for every member who has published a key. Members without one are granted later.
+ * @returns The new key version.
+ */
+export async function enableOrgEncryption(members: OrgEncryptionMember[]): Promise<number> {
+    const material = generateOrgKeyMaterial();
+    const wrappedKeys: Record<string, string> = {};
+    for (const member of members.filter((candidate) => candidate.publicKey)) {
+        wrappedKeys[member.userId] = await wrapForMember(material, member);
+    }
+
+    const response = await fetch(`${API_BASE}/org/encryption/enable`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include', // Important: send HttpOnly cookies
+        body: JSON.stringify({ wrappedKeys })
+    });
+    if (!response.ok) {
+        throw new Error(await readApiError(response, 'Failed to enable end-to-end encryption'));
+    }
+
+    const { keyVersion } = await response.json() as { keyVersion: number };
+    await setSyncStateValue(CLOUD_ENCRYPTION_MODE_KEY, 'e2e');
+    await applyOrgKeyMaterial(material, keyVersion);
+    return keyVersion;
+}
+
+/** Wraps the org data key, opened with the manager's own access, for one more member. */
+export async function grantOrgKeyAccess(manager: User, organization: Organization, member: OrgEncryptionMember): Promise<void> {
+    const material = await openOrgKeyMaterial(manager, organization);
+    const keyVersion = organization.cloudEncryption?.keyVersion;
+    if (!material || !keyVersion) {
+        throw new Error('You do not have access to the organization encryption key');
+    }
+
+    const response = await fetch(`${API_BASE}/org/encryption/grant`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include', // Important: send HttpOnly cookies
+        body: JSON.stringify({ userId: member.userId, wrappedKey: await wrapForMember(material, member), keyVersion })
+    });
+    if (!response.ok) {
+        throw new Error(await readApiError(response, 'Failed to grant access'));
+    }
+}
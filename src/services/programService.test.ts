@@ -0,0 +1,104 @@
+import { describe, expect, it } from 'vitest';
+import type { SkillProgram, SkillTrial } from '../db/db';
+import { evaluateProgram, suggestPromptLevel, toProgramTrial } from './programService';
+
+const day = (n: number) => new Date(Date.UTC(2026, 5, n, 12));
+
+const program: SkillProgram = {
+  id: 'program-1',
+  orgId: 'org-1',
+  learnerId: 'learner-1',
+  name: 'Receptive ID',
+  targets: ['Cup', 'Ball', 'Shoe'],
+  promptHierarchy: ['independent', 'gestural', 'model', 'full-physical'],
+  masteryCriterion: { percentCorrect: 80, consecutiveSessions: 2, minTrialsPerSession: 5 },
+  stallAfterSessions: 2,
+  status: 'active',
+  createdBy: 'bcba-1',
+  createdAt: day(1).toISOString(),
+  updatedAt: day(1).toISOString(),
+};
+
+/** `correct` of `total` trials of one target in session `sessionId`, the correct ones independent. */
+function session(sessionId: number, target: string, correct: number, total: number, skillName = 'Receptive ID'): SkillTrial[] {
+  return Array.from({ length: total }, (_, index) => ({
+    sessionId,
+    skillName,
+    target,
+    promptLevel: index < correct ? 'independent' as const : 'model' as const,
+    response: 'correct' as const,
+    reinforcementDelivered: true,
+    timestamp: new Date(day(sessionId).getTime() + index * 1000),
+    createdAt: day(sessionId),
+    synced: false,
+  }));
+}
+
+describe('program mastery', () => {
+  it('masters a target after consecutive sessions at criterion and moves on to the next', () => {
+    const progress = evaluateProgram(program, [
+      ...session(1, 'Cup', 5, 5),
+      ...session(2, 'cup', 3, 5),
+      ...session(3, 'Cup', 4, 5),
+      ...session(4, 'CUP ', 5, 5, 'receptive id'),
+      ...session(4, 'Ball', 1, 2),
+    ]);
+
+    expect(progress.targets[0]).toMatchObject({ status: 'mastered', masteredAt: day(4) });
+    expect(progress.targets[0].sessions.map((score) => score.percent)).toEqual([100, 60, 80, 100]);
+    expect(progress.targets[1]).toMatchObject({ status: 'in-progress', sessions: [] });
+    expect(progress.targets[2].status).toBe('not-started');
+    expect(progress.currentTarget).toBe('Ball');
+  });
+
+  it('ignores short sessions, other skills and prompted responses', () => {
+    const progress = evaluateProgram(program, [
+      ...session(1, 'Cup', 4, 4),
+      ...session(2, 'Cup', 5, 5, 'Expressive ID'),
+      ...session(3, 'Cup', 0, 5),
+      ...session(4, 'Cup', 5, 5),
+    ]);
+    expect(progress.targets[0].status).toBe('in-progress');
+    expect(progress.currentTarget).toBe('Cup');
+  });
+
+  it('flags a target with no new best in its recent sessions as stalled', () => {
+    const stalled = evaluateProgram(program, [
+      ...session(1, 'Cup', 3, 5),
+      ...session(2, 'Cup', 2, 5),
+      ...session(3, 'Cup', 3, 5),
+    ]);
+    expect(stalled.targets[0].stalled).toBe(true);
+
+    const improving = evaluateProgram(program, [
+      ...session(1, 'Cup', 2, 5),
+      ...session(2, 'Cup', 2, 5),
+      ...session(3, 'Cup', 3, 5),
+    ]);
+    expect(improving.targets[0].stalled).toBe(false);
+  });
+});
+
+describe('program trials', () => {
+  it('steps through the prompt hierarchy and records trials under the program name', () => {
+    const hierarchy = program.promptHierarchy;
+    expect(suggestPromptLevel(hierarchy)).toBe('independent');
+    expect(suggestPromptLevel(hierarchy, { response: 'incorrect', promptLevel: 'independent' })).toBe('gestural');
+    expect(suggestPromptLevel(hierarchy, { response: 'no-response', promptLevel: 'full-physical' })).toBe('full-physical');
+    expect(suggestPromptLevel(hierarchy, { response: 'correct', promptLevel: 'model' })).toBe('gestural');
+    expect(suggestPromptLevel(hierarchy, { response: 'correct', promptLevel: 'verbal' })).toBe('independent');
+
+    const now = day(2);
+    expect(toProgramTrial({ skillName: 'Receptive ID', target: 'Cup', promptLevel: 'gestural', response: 'correct', reinforcementDelivered: true }, 7, now)).toEqual({
+      sessionId: 7,
+      skillName: 'Receptive ID',
+      target: 'Cup',
+      promptLevel: 'gestural',
+      response: 'correct',
+      reinforcementDelivered: true,
+      timestamp: now,
+      createdAt: now,
+      synced: false,
+    });
+  });
+});
@@ -0,0 +1,217 @@
+import type { MasteryCriterion, SkillProgram, SkillTrial } from '../db/db';
+import { readApiError } from './orgEncryptionService';
+
+// Skill acquisition programs: the API client BCBAs author programs through, and progress toward
+// mastery computed on the device from the learner's skill trials.
+
+export type PromptLevel = SkillTrial['promptLevel'];
+
+/** Every prompt level, least intrusive first. */
+export const PROMPT_LEVELS: PromptLevel[] = ['independent', 'verbal', 'gestural', 'model', 'partial-physical', 'full-physical'];
+
+export const PROMPT_LEVEL_LABELS: Record<PromptLevel, string> = {
+    independent: 'Independent',
+    verbal: 'Verbal',
+    gestural: 'Gestural',
+    model: 'Model',
+    'partial-physical': 'Partial physical',
+    'full-physical': 'Full physical'
+};
+
+export const DEFAULT_MASTERY_CRITERION: MasteryCriterion = { percentCorrect: 80, consecutiveSessions: 3, minTrialsPerSession: 5 };
+export const DEFAULT_STALL_AFTER_SESSIONS = 5;
+
+export type ProgramFields = Pick<SkillProgram, 'name' | 'targets' | 'promptHierarchy' | 'masteryCriterion' | 'stallAfterSessions' | 'status'>;
+
+export interface CreateProgramRequest extends ProgramFields {
+    learnerId: string;
+}
+
+export interface UpdateProgramRequest extends Partial<ProgramFields> {
+    id: string;
+    learnerId: string;
+}
+
+export interface ProgramService {
+    getPrograms: (learnerId: string) => Promise<SkillProgram[]>;
+    createProgram: (data: CreateProgramRequest) => Promise<SkillProgram>;
+    updateProgram: (data: UpdateProgramRequest) => Promise<SkillProgram>;
+}
+
+const API_BASE = '/api';
+
+async function sendProgram(method: 'POST' | 'PUT', data: CreateProgramRequest | UpdateProgramRequest, fallback: string): Promise<SkillProgram> {
+    const response = await fetch(`${API_BASE}/programs`, {
+        method,
+        headers: {
+            'Content-Type': 'application/json'
+        },
+        credentials: 'include',
+        body: JSON.stringify(data)
+    });
+
+    if (!response.ok) {
+        throw new Error(await readApiError(response, fallback));
+    }
+
+    return response.json();
+}
+
+export const programService: ProgramService = {
+    getPrograms: async (learnerId: string) => {
+        const response = await fetch(`${API_BASE}/programs?learnerId=${encodeURIComponent(learnerId)}`, {
+            credentials: 'include'
+        });
+
+        if (!response.ok) {
+            throw new Error(await readApiError(response, 'Failed to fetch programs'));
+        }
+
+        return response.json();
+    },
+
+    createProgram: (data: CreateProgramRequest) => sendProgram('POST', data, 'Failed to create program'),
+
+    updateProgram: (data: UpdateProgramRequest) => sendProgram('PUT', data, 'Failed to update program')
+};
+
+/** One session's trials of one target. */
+export interface TargetSessionScore {
+    sessionId: number;
+    /** Time of the session's first trial of the target. */
+    startedAt: Date;
+    trials: number;
+    independentCorrect: number;
+    percent: number;
+}
+
+export interface TargetProgress {
+    target: string;
+    status: 'mastered' | 'in-progress' | 'not-started';
+    /** Sessions with at least the criterion's minimum number of trials, oldest first. */
+    sessions: TargetSessionScore[];
+    /** The session that completed the mastery criterion. */
+    masteredAt?: Date;
+    /** Not mastered, and none of its last `stallAfterSessions` sessions beat its best score before them. */
+    stalled: boolean;
+}
+
+export interface ProgramProgress {
+    targets: TargetProgress[];
+    /** The first target in teaching order that is not mastered; null once all are. */
+    currentTarget: string | null;
+}
+
+const normalizeLabel = (value: string) => value.trim().toLowerCase();
+
+/** Trials that count toward mastery: correct with no prompt. */
+export function isIndependentCorrect(trial: Pick<SkillTrial, 'response' | 'promptLevel'>): boolean {
+    return trial.response === 'correct' && trial.promptLevel === 'independent';
+}
+
+/** Per-session scores of one target, oldest session first. */
+export function scoreTargetSessions(trials: SkillTrial[]): TargetSessionScore[] {
+    const sessions = new Map<number, TargetSessionScore>();
+    for (const trial of [...trials].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime())) {
+        const session = sessions.get(trial.sessionId) ?? {
+            sessionId: trial.sessionId,
+            startedAt: trial.timestamp,
+            trials: 0,
+            independentCorrect: 0,
+            percent: 0
+        };
+        session.trials += 1;
+        if (isIndependentCorrect(trial)) session.independentCorrect += 1;
+        session.percent = Math.round((session.independentCorrect / session.trials) * 100);
+        sessions.set(trial.sessionId, session);
+    }
+    return [...sessions.values()];
+}
+
+function evaluateTarget(target: string, trials: SkillTrial[], program: SkillProgram): TargetProgress {
+    const { percentCorrect, consecutiveSessions, minTrialsPerSession } = program.masteryCriterion;
+    const sessions = scoreTargetSessions(trials).filter((session) => session.trials >= minTrialsPerSession);
+
+    let run = 0;
+    let masteredAt: Date | undefined;
+    for (const session of sessions) {
+        run = session.percent >= percentCorrect ? run + 1 : 0;
+        if (run >= consecutiveSessions) {
+            masteredAt = session.startedAt;
+            break;
+        }
+    }
+
+    const recent = program.stallAfterSessions;
+    const bestOf = (scores: TargetSessionScore[]) => Math.max(...scores.map((session) => session.percent));
+    const stalled = !masteredAt && sessions.length > recent &&
+        bestOf(sessions.slice(-recent)) <= bestOf(sessions.slice(0, -recent));
+
+    return {
+        target,
+        status: masteredAt ? 'mastered' : trials.length > 0 ? 'in-progress' : 'not-started',
+        sessions,
+        masteredAt,
+        stalled
+    };
+}
+
+/**
+ * Progress of every target of `program` from the learner's skill trials. Trials belong to the program
+ * when their skill name is the program name; both it and the target are matched case-insensitively.
+ */
+export function evaluateProgram(program: SkillProgram, trials: SkillTrial[]): ProgramProgress {
+    const skill = normalizeLabel(program.name);
+    const byTarget = new Map<string, SkillTrial[]>();
+    for (const trial of trials) {
+        if (normalizeLabel(trial.skillName) !== skill) continue;
+        const key = normalizeLabel(trial.target);
+        byTarget.set(key, [...(byTarget.get(key) ?? []), trial]);
+    }
+
+    const targets = program.targets.map((target) => evaluateTarget(target, byTarget.get(normalizeLabel(target)) ?? [], program));
+    return {
+        targets,
+        currentTarget: targets.find((progress) => progress.status !== 'mastered')?.target ?? null
+    };
+}
+
+/**
+ * Prompt level for the next trial of a target: the least intrusive level to start, one level more
+ * intrusive after an error or no response, and one level less after a correct response.
+ */
+export function suggestPromptLevel(hierarchy: PromptLevel[], lastTrial?: Pick<SkillTrial, 'response' | 'promptLevel'>): PromptLevel {
+    const levels = hierarchy.length > 0 ? hierarchy : ['independent' as const];
+    const index = lastTrial ? levels.indexOf(lastTrial.promptLevel) : -1;
+    if (!lastTrial || index === -1) return levels[0];
+    const step = lastTrial.response === 'incorrect' || lastTrial.response === 'no-response' ? 1 : -1;
+    return levels[Math.min(levels.length - 1, Math.max(0, index + step))];
+}
+
+export function formatMasteryCriterion(criterion: MasteryCriterion): string {
+    const sessions = criterion.consecutiveSessions === 1 ? '1 session' : `${criterion.consecutiveSessions} consecutive sessions`;
+    return `${criterion.percentCorrect}% independent across ${sessions} (min ${criterion.minTrialsPerSession} trials)`;
+}
+
+/** One trial run from a program. */
+export interface ProgramTrialRecord {
+    skillName: string;
+    target: string;
+    promptLevel: PromptLevel;
+    response: 'correct' | 'incorrect' | 'no-response';
+    reinforcementDelivered: boolean;
+}
+
+export function toProgramTrial(record: ProgramTrialRecord, sessionId: number, now: Date = new Date()): Omit<SkillTrial, 'id'> {
+    return {
+        sessionId,
+        skillName: record.skillName,
+        target: record.target,
+        promptLevel: record.promptLevel,
+        response: record.response,
+        reinforcementDelivered: record.reinforcementDelivered,
+        timestamp: now,
+        createdAt: now,
+        synced: false
+    };
+}
@@ -0,0 +1,84 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { addBehaviorEvent, behaviorEventRepository, db } from '../db/db';
+import { useEncryptionStore } from '../stores/encryptionStore';
+import { applyLocalRetention, flushDeviceAuditEvents, wipeDevice } from './retentionService';
+
+const now = new Date('2026-06-01T12:00:00.000Z');
+const old = new Date('2026-01-10T14:00:00.000Z');
+const recent = new Date('2026-05-25T14:00:00.000Z');
+
+async function addSession(startTime: Date): Promise<number> {
+  return db.sessions.add({ clientId: 'learner-retention', clientName: 'Learner', status: 'in-progress', startTime, createdAt: startTime, updatedAt: startTime }) as Promise<number>;
+}
+
+async function addEvent(sessionId: number, timestamp: Date, synced: boolean) {
+  const id = await addBehaviorEvent({ sessionId, behaviorType: 'tantrum', count: 1, timestamp, createdAt: timestamp, synced });
+  if (synced) {
+    await db.syncQueue.where('entityId').equals(id).delete();
+  }
+  return id;
+}
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+}
+
+describe('local retention', () => {
+  beforeEach(async () => {
+    useEncryptionStore.getState().clear();
+    await Promise.all([
+      db.keyring.clear(), db.sessions.clear(), db.behaviorEvents.clear(), db.syncQueue.clear(),
+      db.chatMessages.clear(), db.syncConflicts.clear(), db.deviceAudit.clear(),
+    ]);
+    await useEncryptionStore.getState().initializeWithPassword('TestPass123!', 'U3RhdGljU2FsdDEyMw==');
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('purges old synced records and emptied sessions but never unsynced or active ones', async () => {
+    const emptied = await addSession(old);
+    const mixed = await addSession(old);
+    const active = await addSession(old);
+    await addEvent(emptied, old, true);
+    await db.chatMessages.add({ sessionId: emptied, role: 'user', content: 'tantrum', isConfirmation: false, timestamp: old });
+    const unsynced = await addEvent(mixed, old, false);
+    const kept = await addEvent(active, old, true);
+    const fresh = await addEvent(mixed, recent, true);
+    await db.sessions.where('id').anyOf([emptied, mixed]).modify({ status: 'completed', endTime: old });
+    const fetchMock = vi.fn().mockResolvedValue(jsonResponse({ accepted: 1 }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const summary = await applyLocalRetention(30, 'user-retention', now);
+
+    expect(summary).toEqual({ records: 1, sessions: 1, chatMessages: 1, conflicts: 0 });
+    expect((await db.behaviorEvents.toArray()).map((row) => row.id).sort()).toEqual([unsynced, kept, fresh].sort());
+    expect((await db.sessions.toArray()).map((session) => session.id)).toEqual([mixed, active]);
+    expect(await behaviorEventRepository.get(unsynced)).toMatchObject({ synced: false });
+    const [, request] = fetchMock.mock.calls[0] as [string, RequestInit];
+    expect(JSON.parse(request.body as string).events).toMatchObject([
+      { action: 'purge_local_data', userId: 'user-retention', details: { records: 1, sessions: 1, chatMessages: 1, retentionDays: 30 } },
+    ]);
+    expect(await db.deviceAudit.count()).toBe(0);
+    expect(await applyLocalRetention(0, 'user-retention', now)).toBeNull();
+  });
+
+  it('wipes records, chat and keys, keeping the audit event until the server accepts it', async () => {
+    const sessionId = await addSession(recent);
+    await addEvent(sessionId, recent, false);
+    await db.chatMessages.add({ sessionId, role: 'user', content: 'tantrum', isConfirmation: false, timestamp: recent });
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(jsonResponse({ error: 'offline' }, 503)));
+
+    expect(await wipeDevice('user-retention')).toMatchObject({ records: 1, sessions: 1, chatMessages: 1, unsynced: 1 });
+
+    expect(useEncryptionStore.getState().isReady).toBe(false);
+    expect(await Promise.all([db.sessions.count(), db.behaviorEvents.count(), db.chatMessages.count(), db.syncQueue.count(), db.keyring.count()]))
+      .toEqual([0, 0, 0, 0, 0]);
+    expect((await db.deviceAudit.toArray()).map((event) => event.action)).toEqual(['wipe_device']);
+
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(jsonResponse({ accepted: 1 })));
+    expect(await flushDeviceAuditEvents()).toBe(1);
+    expect(await db.deviceAudit.count()).toBe(0);
+  });
+});
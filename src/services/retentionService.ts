@@ -0,0 +1,63 @@
+import {
+    deleteDeviceAuditEvents,
+    getPendingDeviceAuditEvents,
+    purgeSyncedLocalData,
+    recordDeviceAuditEvent,
+    wipeLocalData,
+    type LocalPurgeSummary
+} from '../db/db';
+import { useEncryptionStore } from '../stores/encryptionStore';
+import { useSessionStore } from '../stores/sessionStore';
+import { reportDeviceAuditEvents } from './auditService';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+/** The server accepts at most this many events per request. */
+const MAX_REPORTED_EVENTS = 50;
+
+/**
+ * Applies the organization's retention policy to this device: synced records older than
+ * `retentionDays` are purged, unsynced ones never are. Each purge that removes anything is audited.
+ * @returns What was purged, or null when the policy keeps records until the device is wiped.
+ */
+export async function applyLocalRetention(retentionDays: number, userId?: string, now: Date = new Date()): Promise<LocalPurgeSummary | null> {
+    if (retentionDays <= 0) {
+        return null;
+    }
+    const summary = await purgeSyncedLocalData(new Date(now.getTime() - retentionDays * DAY_MS));
+    if (Object.values(summary).some((count) => count > 0)) {
+        await recordDeviceAuditEvent('purge_local_data', { ...summary, retentionDays }, userId);
+    }
+    await flushDeviceAuditEvents();
+    return summary;
+}
+
+/**
+ * Erases all local data and keys from this device, including changes that were never synced,
+ * and drops the in-memory keys. The audit event is sent now if online, otherwise after the next sign-in.
+ */
+export async function wipeDevice(userId?: string): Promise<LocalPurgeSummary & { unsynced: number }> {
+    const summary = await wipeLocalData(userId);
+    useEncryptionStore.getState().clear();
+    useSessionStore.getState().clearSession();
+    await flushDeviceAuditEvents();
+    return summary;
+}
+
+/**
+ * Reports queued purge and wipe events to the server audit log. Events stay queued when offline.
+ * @returns Number of events reported.
+ */
+export async function flushDeviceAuditEvents(): Promise<number> {
+    const events = (await getPendingDeviceAuditEvents()).slice(0, MAX_REPORTED_EVENTS);
+    if (events.length === 0) {
+        return 0;
+    }
+    try {
+        await reportDeviceAuditEvents(events);
+    } catch (error) {
+        console.warn('[Retention] Device audit events not reported yet:', error);
+        return 0;
+    }
+    await deleteDeviceAuditEvents(events.flatMap((event) => (event.id !== undefined ? [event.id] : [])));
+    return events.length;
+}
@@ -0,0 +1,108 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { db, getCachedTargetCatalog, type TargetCatalog } from '../db/db';
+import { useEncryptionStore } from '../stores/encryptionStore';
+import { parseUserInput } from './llmService';
+import { applyTargetCatalog, syncTargetCatalog } from './targetCatalogService';
+
+const catalog: TargetCatalog = {
+  learnerId: 'learner-1',
+  behaviors: [
+    { name: 'Tantrum', definition: 'Drops to the floor and screams for 5s or more', synonyms: ['dropping', 'meltdown'] },
+    { name: 'Physical aggression', synonyms: ['hitting', 'hit'] },
+  ],
+  skills: [
+    { skill: 'Receptive ID', targets: ['cup', 'ball', 'shoe'] },
+    { skill: 'Manding', targets: ['bubbles', 'juice'] },
+  ],
+  reinforcers: ['Bubbles', 'Dinosaur figure'],
+  updatedAt: '2026-10-01T12:00:00.000Z',
+};
+
+describe('parsing against a target catalog', () => {
+  beforeEach(() => {
+    vi.restoreAllMocks();
+    vi.stubGlobal('fetch', vi.fn().mockRejectedValue(new Error('Offline mode for testing')));
+  });
+
+  it('maps synonyms to the defined behavior instead of a built-in type', async () => {
+    const result = await parseUserInput('He was dropping during circle 2 times', catalog);
+
+    expect(result.behaviors).toEqual([{ type: 'Tantrum', count: 2, duration: undefined }]);
+  });
+
+  it('renames a built-in type to the behavior the catalog defines for it', async () => {
+    const result = await parseUserInput('She hit a peer 3 times', catalog);
+
+    expect(result.behaviors.map((behavior) => behavior.type)).toEqual(['Physical aggression']);
+  });
+
+  it('keeps built-in types the catalog does not define', async () => {
+    const withoutCatalog = await parseUserInput('He ran away for 2 minutes');
+    const withCatalog = await parseUserInput('He ran away for 2 minutes', catalog);
+
+    expect(withCatalog.behaviors).toEqual(withoutCatalog.behaviors);
+  });
+
+  it('logs a named skill with its defined target', async () => {
+    const result = await parseUserInput('Receptive ID ball correct independent', catalog);
+
+    expect(result.skillTrials).toEqual([
+      { skill: 'Receptive ID', target: 'ball', response: 'Correct', promptLevel: 'independent' },
+    ]);
+  });
+
+  it('uses a defined target once the input is known to be a trial', async () => {
+    const result = await parseUserInput('trial on juice, prompted with a model', catalog);
+
+    expect(result.skillTrials?.[0]).toMatchObject({ skill: 'Manding', target: 'juice', response: 'Incorrect' });
+  });
+
+  it('names delivered reinforcers from the learner list', async () => {
+    const result = await parseUserInput('Gave the dinosaur figure after the trial', catalog);
+
+    expect(result.reinforcement?.type).toBe('Dinosaur figure');
+  });
+
+  it('maps remote parse output onto the catalog spelling', () => {
+    const mapped = applyTargetCatalog({
+      behaviors: [{ type: 'meltdown', count: 1 }, { type: 'elopement', count: 1 }],
+      skillTrials: [{ skill: 'receptive id', target: 'CUP', response: 'Correct' }],
+      reinforcement: { type: 'bubbles', delivered: true },
+      needsClarification: false,
+      narrativeFragment: '',
+    }, catalog);
+
+    expect(mapped.behaviors.map((behavior) => behavior.type)).toEqual(['Tantrum', 'elopement']);
+    expect(mapped.skillTrials).toEqual([{ skill: 'Receptive ID', target: 'cup', response: 'Correct' }]);
+    expect(mapped.reinforcement?.type).toBe('Bubbles');
+  });
+});
+
+describe('target catalog cache', () => {
+  beforeEach(async () => {
+    await useEncryptionStore.getState().initializeWithPassword('TestPass123!', 'U3RhdGljU2FsdDEyMw==');
+    await db.targetCatalogs.clear();
+  });
+
+  it('caches the synced catalog encrypted and serves it when the server is unreachable', async () => {
+    await expect(syncTargetCatalog('learner-1', async () => catalog)).resolves.toEqual(catalog);
+
+    const stored = await db.targetCatalogs.toArray();
+    expect(stored).toHaveLength(1);
+    expect(stored[0].encryptedData).not.toContain('dropping');
+
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    await expect(syncTargetCatalog('learner-1', async () => {
+      throw new Error('offline');
+    })).resolves.toEqual(catalog);
+    await expect(getCachedTargetCatalog('learner-2')).resolves.toBeNull();
+  });
+
+  it('replaces the cached copy when the catalog changes', async () => {
+    await syncTargetCatalog('learner-1', async () => catalog);
+    await syncTargetCatalog('learner-1', async () => ({ ...catalog, reinforcers: ['Stickers'] }));
+
+    expect(await db.targetCatalogs.count()).toBe(1);
+    expect((await getCachedTargetCatalog('learner-1'))?.reinforcers).toEqual(['Stickers']);
+  });
+});
@@ -0,0 +1,158 @@
+import { cacheTargetCatalog, getCachedTargetCatalog, type TargetCatalog } from '../db/db';
+import type { ParsedInput } from './llmService';
+import { readApiError } from './orgEncryptionService';
+
+// Learner target catalogs: the API client BCBAs define behaviors, skill targets and reinforcers
+// through, the copy each device caches for offline use, and matching free text onto the catalog.
+
+export type TargetCatalogFields = Pick<TargetCatalog, 'behaviors' | 'skills' | 'reinforcers'>;
+
+export interface TargetCatalogService {
+    getCatalog: (learnerId: string) => Promise<TargetCatalog>;
+    saveCatalog: (learnerId: string, fields: TargetCatalogFields) => Promise<TargetCatalog>;
+}
+
+const API_BASE = '/api';
+
+/** Only the catalog fields the client uses, whatever else the server stores with them. */
+function toCatalog(value: TargetCatalog): TargetCatalog {
+    return {
+        learnerId: value.learnerId,
+        behaviors: value.behaviors ?? [],
+        skills: value.skills ?? [],
+        reinforcers: value.reinforcers ?? [],
+        updatedAt: value.updatedAt ?? null
+    };
+}
+
+export const targetCatalogService: TargetCatalogService = {
+    getCatalog: async (learnerId: string) => {
+        const response = await fetch(`${API_BASE}/target-catalog?learnerId=${encodeURIComponent(learnerId)}`, {
+            credentials: 'include'
+        });
+
+        if (!response.ok) {
+            throw new Error(await readApiError(response, 'Failed to fetch target catalog'));
+        }
+
+        return toCatalog(await response.json());
+    },
+
+    saveCatalog: async (learnerId: string, fields: TargetCatalogFields) => {
+        const response = await fetch(`${API_BASE}/target-catalog`, {
+            method: 'PUT',
+            headers: {
+                'Content-Type': 'application/json'
+            },
+            credentials: 'include',
+            body: JSON.stringify({ learnerId, ...fields })
+        });
+
+        if (!response.ok) {
+            throw new Error(await readApiError(response, 'Failed to save target catalog'));
+        }
+
+        return toCatalog(await response.json());
+    }
+};
+
+/**
+ * The learner's catalog from the server, cached encrypted on the device; the cached copy when the
+ * server cannot be reached, and null when there is neither.
+ */
+export async function syncTargetCatalog(learnerId: string, fetchCatalog: TargetCatalogService['getCatalog'] = targetCatalogService.getCatalog): Promise<TargetCatalog | null> {
+    try {
+        const catalog = await fetchCatalog(learnerId);
+        await cacheTargetCatalog(catalog);
+        return catalog;
+    } catch (error) {
+        console.warn('Using the cached target catalog:', error);
+        return getCachedTargetCatalog(learnerId);
+    }
+}
+
+const normalize = (value: string) => value.trim().toLowerCase();
+const escapeRegex = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/** Whether `text` contains `phrase` as whole words, ignoring case and spacing. */
+export function mentions(text: string, phrase: string): boolean {
+    const words = normalize(phrase).split(/\s+/).filter(Boolean).map(escapeRegex);
+    if (words.length === 0) return false;
+    return new RegExp(`(?:^|[^\\p{L}\\p{N}])${words.join('\\s+')}(?=$|[^\\p{L}\\p{N}])`, 'iu').test(text);
+}
+
+/** Every name and synonym of the learner's behaviors, lowercased. */
+export function catalogBehaviorWords(catalog: TargetCatalog): string[] {
+    return catalog.behaviors.flatMap((behavior) => [behavior.name, ...behavior.synonyms]).map(normalize);
+}
+
+/** The defined behaviors `text` refers to by name or synonym, in catalog order. */
+export function matchCatalogBehaviors(text: string, catalog: TargetCatalog): string[] {
+    return catalog.behaviors
+        .filter((behavior) => [behavior.name, ...behavior.synonyms].some((word) => mentions(text, word)))
+        .map((behavior) => behavior.name);
+}
+
+/** The defined name for a behavior type that is a name or synonym in the catalog; otherwise the type itself. */
+export function resolveBehaviorName(type: string, catalog: TargetCatalog): string {
+    const key = normalize(type);
+    return catalog.behaviors.find((behavior) => [behavior.name, ...behavior.synonyms].some((word) => normalize(word) === key))?.name ?? type;
+}
+
+export interface CatalogSkillMatch {
+    skill: string;
+    target?: string;
+    /** The skill itself was named, which makes the input a skill trial by itself. */
+    skillNamed: boolean;
+}
+
+/**
+ * The defined skill and target `text` refers to. A skill named together with one of its targets
+ * wins, then a named skill, then a target alone (only trusted once the input is known to be a trial).
+ */
+export function matchCatalogSkill(text: string, catalog: TargetCatalog): CatalogSkillMatch | null {
+    let named: CatalogSkillMatch | null = null;
+    let targetOnly: CatalogSkillMatch | null = null;
+    for (const entry of catalog.skills) {
+        const target = entry.targets.find((candidate) => mentions(text, candidate));
+        if (mentions(text, entry.skill)) {
+            if (target) return { skill: entry.skill, target, skillNamed: true };
+            named ??= { skill: entry.skill, skillNamed: true };
+        } else if (target) {
+            targetOnly ??= { skill: entry.skill, target, skillNamed: false };
+        }
+    }
+    return named ?? targetOnly;
+}
+
+/** The defined reinforcers `text` mentions, in catalog order. */
+export function matchCatalogReinforcers(text: string, catalog: TargetCatalog): string[] {
+    return catalog.reinforcers.filter((reinforcer) => mentions(text, reinforcer));
+}
+
+const findLabel = (labels: string[], value: string) => labels.find((label) => normalize(label) === normalize(value));
+
+/**
+ * Maps what the remote parser returned onto the catalog: behavior synonyms to their defined name,
+ * and skills, targets and reinforcers to the catalog's spelling. Anything undefined is left as is.
+ */
+export function applyTargetCatalog(parsed: ParsedInput, catalog: TargetCatalog | null | undefined): ParsedInput {
+    if (!catalog) return parsed;
+
+    const behaviors = parsed.behaviors.map((behavior) => ({ ...behavior, type: resolveBehaviorName(behavior.type, catalog) }));
+    const skillTrials = parsed.skillTrials?.map((trial) => {
+        const entry = catalog.skills.find((candidate) => normalize(candidate.skill) === normalize(trial.skill));
+        const target = findLabel(entry?.targets ?? catalog.skills.flatMap((candidate) => candidate.targets), trial.target);
+        return { ...trial, skill: entry?.skill ?? trial.skill, target: target ?? trial.target };
+    });
+    const reinforcement = parsed.reinforcement && {
+        ...parsed.reinforcement,
+        type: findLabel(catalog.reinforcers, parsed.reinforcement.type) ?? parsed.reinforcement.type
+    };
+    return { ...parsed, behaviors, skillTrials, reinforcement };
+}
+
+/** The part of a catalog sent with a remote parse request. */
+export function toParseCatalog(catalog: TargetCatalog): TargetCatalogFields {
+    return { behaviors: catalog.behaviors, skills: catalog.skills, reinforcers: catalog.reinforcers };
+}
@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import { addTaskAnalysisRun, buildSyncDocument, db, getTaskAnalysisRunsBySession, type TaskAnalysisRun } from '../db/db';
+import { useEncryptionStore } from '../stores/encryptionStore';
+import {
+  isCompleteRun,
+  lastTaskDefinitions,
+  learnerStepRange,
+  percentIndependent,
+  suggestTrainingStep,
+  summarizeTaskAnalyses,
+  toTaskAnalysisRun,
+} from './taskAnalysisService';
+
+const day = (n: number) => new Date(Date.UTC(2026, 5, n, 12));
+const handwashing = { taskName: 'Handwashing', chainingMethod: 'total-task' as const, steps: ['Turn on water', 'Wet hands', 'Soap', 'Rinse'] };
+
+function run(levels: TaskAnalysisRun['steps'][number]['promptLevel'][], timestamp: Date, steps = handwashing.steps): TaskAnalysisRun {
+  return {
+    ...toTaskAnalysisRun({ ...handwashing, steps }, levels, [0, steps.length], 1, timestamp),
+    steps: steps.map((step, index) => ({ step, promptLevel: levels[index] ?? null })),
+  };
+}
+
+describe('chaining', () => {
+  it('limits the learner to the chained steps and scores only those', () => {
+    expect(learnerStepRange('forward', 4, 1)).toEqual([0, 2]);
+    expect(learnerStepRange('backward', 4, 2)).toEqual([2, 4]);
+    expect(learnerStepRange('total-task', 4, 2)).toEqual([0, 4]);
+    expect(learnerStepRange('forward', 4, 9)).toEqual([0, 4]);
+
+    expect(isCompleteRun(['independent', null], [0, 2])).toBe(false);
+    expect(isCompleteRun([null, null, 'model', 'independent'], [2, 4])).toBe(true);
+
+    const backward = toTaskAnalysisRun({ ...handwashing, chainingMethod: 'backward' }, [null, 'verbal', 'model', 'independent'], [2, 4], 3, day(1));
+    expect(backward.steps.map((step) => step.promptLevel)).toEqual([null, null, 'model', 'independent']);
+    expect(percentIndependent(backward.steps)).toBe(50);
+  });
+
+  it('suggests the next step to train from the last run', () => {
+    expect(suggestTrainingStep('forward', 4)).toBe(0);
+    expect(suggestTrainingStep('backward', 4)).toBe(3);
+    expect(suggestTrainingStep('forward', 4, { steps: run(['independent', 'gestural', null, null], day(1)).steps })).toBe(1);
+    expect(suggestTrainingStep('forward', 4, { steps: run(['independent', 'independent', null, null], day(1)).steps })).toBe(2);
+    expect(suggestTrainingStep('backward', 4, { steps: run([null, null, 'independent', 'independent'], day(1)).steps })).toBe(1);
+    expect(suggestTrainingStep('backward', 4, { steps: run(['independent', 'independent', 'independent', 'independent'], day(1)).steps })).toBe(0);
+  });
+});
+
+describe('task analysis history', () => {
+  it('charts percent independent per run and flags the lowest steps as bottlenecks', () => {
+    const history = [
+      run(['independent', 'independent', 'model', 'verbal'], day(1)),
+      run(['independent', 'independent', 'model', 'independent'], day(2)),
+      run(['independent', 'independent', 'gestural', 'independent'], day(3)),
+    ];
+    expect(lastTaskDefinitions(history)).toEqual([handwashing]);
+
+    const [summary] = summarizeTaskAnalyses(history);
+    expect(summary.runs.map((entry) => entry.percent)).toEqual([50, 75, 75]);
+    expect(summary.stepSummaries.map((step) => [step.percent, step.isBottleneck])).toEqual([
+      [100, false],
+      [100, false],
+      [0, true],
+      [67, false],
+    ]);
+    expect(summary.stepSummaries[2].commonPrompt).toBe('model');
+  });
+
+  it('stores runs encrypted and syncs their steps', async () => {
+    useEncryptionStore.getState().clear();
+    await Promise.all([db.keyring.clear(), db.sessions.clear(), db.taskAnalyses.clear(), db.syncQueue.clear()]);
+    await useEncryptionStore.getState().initializeWithPassword('TestPass123!', 'U3RhdGljU2FsdDEyMw==');
+
+    const id = await addTaskAnalysisRun(run(['independent', 'verbal', 'model', 'independent'], day(1)));
+
+    const row = await db.taskAnalyses.get(id);
+    expect(JSON.stringify(row)).not.toContain('Handwashing');
+    const [stored] = await getTaskAnalysisRunsBySession(1);
+    expect(stored.steps[1]).toEqual({ step: 'Wet hands', promptLevel: 'verbal' });
+
+    const items = await db.syncQueue.toArray();
+    expect(items).toEqual([expect.objectContaining({ entityType: 'taskAnalysis', entityId: id, action: 'create' })]);
+    const document = await buildSyncDocument(items[0]);
+    expect(document).toMatchObject({ entityType: 'taskAnalysis', id: row?.uuid, data: { taskName: 'Handwashing', chainingMethod: 'total-task' } });
+  });
+});
@@ -0,0 +1,177 @@
+import type { ChainingMethod, SkillTrial, TaskAnalysisRun, TaskAnalysisStep } from '../db/db';
+
+// Task analysis data collection: which steps of a chain the learner performs under each chaining
+// method, the next step to train, percent independent per run, and per-step history across runs.
+
+export const CHAINING_METHOD_LABELS: Record<ChainingMethod, string> = {
+    forward: 'Forward chaining',
+    backward: 'Backward chaining',
+    'total-task': 'Total task'
+};
+
+/** Days of a learner's task analysis runs read for suggestions and history. */
+export const TASK_ANALYSIS_HISTORY_DAYS = 90;
+
+/** A task as the recorder sets it up: its steps in order and how they are chained. */
+export interface TaskDefinition {
+    taskName: string;
+    chainingMethod: ChainingMethod;
+    steps: string[];
+}
+
+/** One step of a task across the learner's runs. */
+export interface TaskStepSummary {
+    step: string;
+    /** Runs in which the learner performed the step. */
+    scored: number;
+    independent: number;
+    /** Percent of scored runs performed independently; null when never scored. */
+    percent: number | null;
+    /** The prompt level the step most often needed when it was not independent. */
+    commonPrompt?: SkillTrial['promptLevel'];
+    /** Among the lowest-scoring steps, below 100%: the steps holding up acquisition. */
+    isBottleneck: boolean;
+}
+
+export interface TaskAnalysisSummary extends TaskDefinition {
+    /** Percent independent of each run, oldest first. */
+    runs: { timestamp: Date; percent: number }[];
+    stepSummaries: TaskStepSummary[];
+}
+
+/**
+ * Indexes `[start, end)` of the steps the learner performs. Forward chaining runs from the first
+ * step through the training step, backward chaining from the training step to the last; staff
+ * complete the rest. Total task covers every step.
+ */
+export function learnerStepRange(method: ChainingMethod, stepCount: number, trainingStep: number): [number, number] {
+    const step = Math.min(Math.max(trainingStep, 0), Math.max(stepCount - 1, 0));
+    if (method === 'forward') return [0, step + 1];
+    if (method === 'backward') return [step, stepCount];
+    return [0, stepCount];
+}
+
+/**
+ * The step to train next from the learner's last run of the task: the first step in chain order the
+ * learner did not perform independently, or the next step into the chain once every performed step
+ * was independent. Only meaningful for forward and backward chaining.
+ */
+export function suggestTrainingStep(method: ChainingMethod, stepCount: number, lastRun?: Pick<TaskAnalysisRun, 'steps'>): number {
+    if (stepCount === 0 || method === 'total-task') return 0;
+    const order = Array.from({ length: stepCount }, (_, index) => (method === 'forward' ? index : stepCount - 1 - index));
+    if (!lastRun) return order[0];
+
+    let reached = -1;
+    for (const [position, index] of order.entries()) {
+        const level = lastRun.steps[index]?.promptLevel ?? null;
+        if (level === null) break;
+        if (level !== 'independent') return index;
+        reached = position;
+    }
+    return order[Math.min(reached + 1, stepCount - 1)];
+}
+
+/** Steps the learner performed independently, as a percent of the steps they performed; null when none were. */
+export function percentIndependent(steps: TaskAnalysisStep[]): number | null {
+    const scored = steps.filter((step) => step.promptLevel !== null);
+    if (scored.length === 0) return null;
+    return Math.round((scored.filter((step) => step.promptLevel === 'independent').length / scored.length) * 100);
+}
+
+const normalizeLabel = (value: string) => value.trim().toLowerCase();
+
+function byTimestamp(runs: TaskAnalysisRun[]): TaskAnalysisRun[] {
+    return [...runs].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+}
+
+/** The latest definition of each task the learner has run, most recent first. */
+export function lastTaskDefinitions(history: TaskAnalysisRun[]): TaskDefinition[] {
+    const latest = new Map<string, TaskDefinition>();
+    for (const run of byTimestamp(history).reverse()) {
+        const key = normalizeLabel(run.taskName);
+        if (!latest.has(key)) {
+            latest.set(key, { taskName: run.taskName, chainingMethod: run.chainingMethod, steps: run.steps.map((step) => step.step) });
+        }
+    }
+    return [...latest.values()];
+}
+
+/**
+ * Per-task history: percent independent per run, and per step how often the learner performed it
+ * independently. Steps follow the task's latest definition and are matched by name, so runs from
+ * before a step was renamed or added do not count toward it.
+ */
+export function summarizeTaskAnalyses(history: TaskAnalysisRun[]): TaskAnalysisSummary[] {
+    const runsByTask = new Map<string, TaskAnalysisRun[]>();
+    for (const run of byTimestamp(history)) {
+        const key = normalizeLabel(run.taskName);
+        runsByTask.set(key, [...(runsByTask.get(key) ?? []), run]);
+    }
+
+    return lastTaskDefinitions(history).map((definition) => {
+        const runs = runsByTask.get(normalizeLabel(definition.taskName)) ?? [];
+        const stepSummaries = definition.steps.map((step): TaskStepSummary => {
+            const prompts = new Map<SkillTrial['promptLevel'], number>();
+            let scored = 0;
+            let independent = 0;
+            for (const run of runs) {
+                const level = run.steps.find((candidate) => normalizeLabel(candidate.step) === normalizeLabel(step))?.promptLevel ?? null;
+                if (level === null) continue;
+                scored += 1;
+                if (level === 'independent') {
+                    independent += 1;
+                } else {
+                    prompts.set(level, (prompts.get(level) ?? 0) + 1);
+                }
+            }
+            const commonPrompt = [...prompts.entries()].sort((a, b) => b[1] - a[1])[0]?.[0];
+            const percent = scored > 0 ? Math.round((independent / scored) * 100) : null;
+            return { step, scored, independent, percent, commonPrompt, isBottleneck: false };
+        });
+
+        const lowest = Math.min(...stepSummaries.map((summary) => summary.percent ?? 100));
+        for (const summary of stepSummaries) {
+            summary.isBottleneck = summary.percent !== null && summary.percent < 100 && summary.percent === lowest;
+        }
+
+        return {
+            ...definition,
+            runs: runs.flatMap((run) => {
+                const percent = percentIndependent(run.steps);
+                return percent === null ? [] : [{ timestamp: run.timestamp, percent }];
+            }),
+            stepSummaries
+        };
+    });
+}
+
+/** Whether every step the learner performs, `range` of `levels`, has been scored. */
+export function isCompleteRun(levels: (SkillTrial['promptLevel'] | null)[], range: [number, number]): boolean {
+    if (range[1] <= range[0]) return false;
+    for (let index = range[0]; index < range[1]; index += 1) {
+        if (!levels[index]) return false;
+    }
+    return true;
+}
+
+/** A run of `definition` scored with `levels` (one per step); steps outside `range` are left to staff. */
+export function toTaskAnalysisRun(
+    definition: TaskDefinition,
+    levels: (SkillTrial['promptLevel'] | null)[],
+    range: [number, number],
+    sessionId: number,
+    now: Date = new Date()
+): Omit<TaskAnalysisRun, 'id'> {
+    return {
+        sessionId,
+        taskName: definition.taskName.trim(),
+        chainingMethod: definition.chainingMethod,
+        steps: definition.steps.map((step, index) => ({
+            step: step.trim(),
+            promptLevel: index >= range[0] && index < range[1] ? levels[index] ?? null : null
+        })),
+        timestamp: now,
+        createdAt: now,
+        synced: false
+    };
+}
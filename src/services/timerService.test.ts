@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { db, getBehaviorTimers, startBehaviorTimer, stopBehaviorTimer } from '../db/db';
+import { useEncryptionStore } from '../stores/encryptionStore';
+import { generateConfirmation, needsFunctionGuess } from './llmService';
+import { behaviorTimestamp, elapsedSeconds, formatSeconds, formatTimerClock, toTimedInput } from './timerService';
+
+const startedAt = new Date('2026-06-01T12:00:00.000Z');
+const after = (ms: number) => new Date(startedAt.getTime() + ms);
+
+describe('timer arithmetic', () => {
+  it('measures to a tenth of a second and formats for the confirmation and the live clock', () => {
+    expect(elapsedSeconds(startedAt, after(42_460))).toBe(42.5);
+    expect(elapsedSeconds(startedAt, after(-500))).toBe(0);
+    expect(formatSeconds(42.5)).toBe('42.5s');
+    expect(formatSeconds(134.2)).toBe('2m 14s');
+    expect(formatSeconds(3_790)).toBe('1h 03m');
+    expect(formatTimerClock(startedAt, after(65_900))).toBe('1:05');
+    expect(formatTimerClock(startedAt, after(3_729_000))).toBe('1:02:09');
+  });
+});
+
+describe('stopped timers', () => {
+  it('hands a duration to the confirmation step with its exact timestamps', () => {
+    const parsed = toTimedInput({ kind: 'duration', label: 'tantrum', startedAt }, after(134_200));
+    expect(parsed.behaviors).toEqual([{ type: 'tantrum', duration: 134.2, startedAt, endedAt: after(134_200) }]);
+    expect(behaviorTimestamp(parsed.behaviors[0])).toEqual(startedAt);
+    expect(needsFunctionGuess(parsed)).toBe(true);
+
+    const confirmation = generateConfirmation(parsed);
+    expect(confirmation.message).toMatch(/^Logging: tantrum \(2m 14s, \d{1,2}:\d{2}:\d{2} [AP]M to \d{1,2}:\d{2}:\d{2} [AP]M\)\. Is this correct\?$/);
+    expect(confirmation.followUpQuestions).toContain('What was the likely function?');
+  });
+
+  it('records latency at the response and asks for no function', () => {
+    const parsed = toTimedInput({ kind: 'latency', label: 'sitting at the table', startedAt }, after(12_400));
+    expect(parsed.behaviors[0]).toEqual({ type: 'sitting at the table', latency: 12.4, startedAt, endedAt: after(12_400) });
+    expect(behaviorTimestamp(parsed.behaviors[0])).toEqual(after(12_400));
+    expect(needsFunctionGuess(parsed)).toBe(false);
+    expect(generateConfirmation(parsed).message).toContain('latency to sitting at the table: 12.4s');
+  });
+
+  it('keeps running timers encrypted on the device', async () => {
+    useEncryptionStore.getState().clear();
+    await Promise.all([db.keyring.clear(), db.sessions.clear(), db.behaviorTimers.clear(), db.syncQueue.clear()]);
+    await useEncryptionStore.getState().initializeWithPassword('TestPass123!', 'U3RhdGljU2FsdDEyMw==');
+
+    const id = await startBehaviorTimer({ sessionId: 1, kind: 'duration', label: 'elopement', startedAt });
+    expect(JSON.stringify(await db.behaviorTimers.get(id))).not.toContain('elopement');
+    expect(await getBehaviorTimers(1)).toEqual([{ id, sessionId: 1, kind: 'duration', label: 'elopement', startedAt }]);
+    expect(await getBehaviorTimers(2)).toEqual([]);
+    // Timers are local state, not clinical records: nothing is queued for sync
+    expect(await db.syncQueue.count()).toBe(0);
+  });
+
+  it('keeps a stopped timer with its stop time until it is logged', async () => {
+    useEncryptionStore.getState().clear();
+    await Promise.all([db.keyring.clear(), db.sessions.clear(), db.behaviorTimers.clear(), db.syncQueue.clear()]);
+    await useEncryptionStore.getState().initializeWithPassword('TestPass123!', 'U3RhdGljU2FsdDEyMw==');
+
+    const id = await startBehaviorTimer({ sessionId: 1, kind: 'latency', label: 'sitting at the table', startedAt });
+    const [timer] = await getBehaviorTimers(1);
+    await stopBehaviorTimer({ ...timer, id }, after(12_400));
+
+    expect(await getBehaviorTimers(1)).toEqual([{ ...timer, endedAt: after(12_400) }]);
+  });
+});
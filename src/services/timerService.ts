@@ -0,0 +1,58 @@
+import { format } from 'date-fns';
+import type { BehaviorEvent, BehaviorTimer } from '../db/db';
+import type { ParsedInput } from './llmService';
+
+// Duration and latency timers: elapsed time from exact start and stop timestamps, and the parsed
+// input a stopped timer hands to the confirmation step.
+
+export const TIMER_KIND_LABELS: Record<BehaviorTimer['kind'], string> = {
+    duration: 'Duration',
+    latency: 'Latency'
+};
+
+/** Seconds between two timestamps, to a tenth of a second. */
+export function elapsedSeconds(startedAt: Date, endedAt: Date): number {
+    return Math.max(0, Math.round((endedAt.getTime() - startedAt.getTime()) / 100) / 10);
+}
+
+/** `42.5s` under a minute, then `2m 14s` and `1h 03m`. */
+export function formatSeconds(seconds: number): string {
+    if (seconds < 60) return `${seconds}s`;
+    const whole = Math.round(seconds);
+    const hours = Math.floor(whole / 3600);
+    const minutes = Math.floor((whole % 3600) / 60);
+    if (hours > 0) return `${hours}h ${String(minutes).padStart(2, '0')}m`;
+    return `${minutes}m ${String(whole % 60).padStart(2, '0')}s`;
+}
+
+/** Live clock for a running timer: `0:42`, `12:05`, `1:02:09`. */
+export function formatTimerClock(startedAt: Date, now: Date = new Date()): string {
+    const whole = Math.floor(elapsedSeconds(startedAt, now));
+    const hours = Math.floor(whole / 3600);
+    const minutes = Math.floor((whole % 3600) / 60);
+    const seconds = String(whole % 60).padStart(2, '0');
+    return hours > 0 ? `${hours}:${String(minutes).padStart(2, '0')}:${seconds}` : `${minutes}:${seconds}`;
+}
+
+export const formatClockTime = (date: Date) => format(date, 'h:mm:ss a');
+
+/**
+ * The behavior a stopped timer measured, ready for `generateConfirmation`. Duration runs from
+ * onset to offset of the behavior; latency from the cue to the start of the response.
+ */
+export function toTimedInput(timer: Pick<BehaviorTimer, 'kind' | 'label' | 'startedAt'>, endedAt: Date): ParsedInput {
+    const seconds = elapsedSeconds(timer.startedAt, endedAt);
+    const measured = timer.kind === 'duration' ? { duration: seconds } : { latency: seconds };
+    return {
+        behaviors: [{ type: timer.label, ...measured, startedAt: timer.startedAt, endedAt }],
+        needsClarification: false,
+        narrativeFragment: timer.kind === 'duration'
+            ? `Client engaged in ${timer.label} lasting ${formatSeconds(seconds)}.`
+            : `Client began ${timer.label} ${formatSeconds(seconds)} after the instruction.`
+    };
+}
+
+/** When a logged behavior happened: its onset for a duration, the response for a latency, otherwise now. */
+export function behaviorTimestamp(behavior: ParsedInput['behaviors'][number], now: Date = new Date()): BehaviorEvent['timestamp'] {
+    return (behavior.latency !== undefined ? behavior.endedAt : behavior.startedAt) ?? now;
+}
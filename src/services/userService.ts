@@ -21,6 +21,8 @@ export interface UpdateUserRequest {
     role?: 'manager' | 'bcba' | 'rbt';
     isActive?: boolean;
     assignedLearnerIds?: string[];
+    /** Resets the password; the user's device then needs a manager-approved recovery to reopen local data. */
+    password?: string;
 }
 
 const API_BASE = '/api';
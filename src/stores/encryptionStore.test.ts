@@ -0,0 +1,189 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { addBehaviorEvent, db, getBehaviorEventsBySession } from '../db/db';
+import { decryptJson, deriveEncryptionKey, encryptJson } from '../services/encryptionService';
+import { deriveSigningKey, signData, verifySignature } from '../services/integrityService';
+import { useEncryptionStore } from './encryptionStore';
+
+const PASSWORD = 'TestPass123!';
+const SALT = 'U3RhdGljU2FsdDEyMw==';
+const NEW_SALT = 'TmV3U3RhdGljU2FsdDE=';
+
+async function addTantrum(): Promise<number> {
+  const createdAt = new Date('2026-02-05T14:00:00.000Z');
+  return addBehaviorEvent({ sessionId: 1, behaviorType: 'tantrum', count: 1, timestamp: createdAt, createdAt, synced: true });
+}
+
+async function readBehaviorTypes(): Promise<string[]> {
+  return (await getBehaviorEventsBySession(1)).map((event) => event.behaviorType);
+}
+
+describe('encryption store keyring', () => {
+  beforeEach(async () => {
+    useEncryptionStore.getState().clear();
+    await Promise.all([db.keyring.clear(), db.behaviorEvents.clear(), db.syncQueue.clear()]);
+  });
+
+  it('keeps local rows readable after a password change', async () => {
+    await useEncryptionStore.getState().initializeWithPassword(PASSWORD, SALT);
+    await addTantrum();
+
+    await useEncryptionStore.getState().changePassword(PASSWORD, 'NewPass456!', SALT);
+    useEncryptionStore.getState().clear();
+
+    await expect(useEncryptionStore.getState().initializeWithPassword(PASSWORD, SALT)).rejects.toThrow('previous password');
+    expect(useEncryptionStore.getState().needsPreviousPassword).toBe(true);
+
+    await useEncryptionStore.getState().initializeWithPassword('NewPass456!', SALT);
+    expect(await readBehaviorTypes()).toEqual(['tantrum']);
+  });
+
+  it('recovers rows when the password changed on another device', async () => {
+    await useEncryptionStore.getState().initializeWithPassword(PASSWORD, SALT);
+    await addTantrum();
+    useEncryptionStore.getState().clear();
+
+    await expect(useEncryptionStore.getState().initializeWithPassword('NewPass456!', SALT)).rejects.toThrow();
+    await useEncryptionStore.getState().unlockWithPreviousPassword(PASSWORD, 'NewPass456!', SALT);
+
+    expect(useEncryptionStore.getState()).toMatchObject({ isReady: true, needsPreviousPassword: false });
+    expect(await readBehaviorTypes()).toEqual(['tantrum']);
+  });
+
+  it('re-wraps the keyring entry when the server regenerates the salt', async () => {
+    await useEncryptionStore.getState().initializeWithPassword(PASSWORD, SALT);
+    await addTantrum();
+    useEncryptionStore.getState().clear();
+
+    await useEncryptionStore.getState().initializeWithPassword(PASSWORD, NEW_SALT);
+
+    expect(await readBehaviorTypes()).toEqual(['tantrum']);
+    expect((await db.keyring.toArray()).map((entry) => entry.salt)).toEqual([NEW_SALT]);
+  });
+
+  it('adopts password-derived keys from older rows and rotates them to random keys', async () => {
+    const [legacyKey, legacySigningKey] = await Promise.all([deriveEncryptionKey(PASSWORD, SALT), deriveSigningKey(PASSWORD, SALT)]);
+    const encryptedData = await encryptJson({ behaviorType: 'elopement', count: 1 }, legacyKey);
+    const createdAt = new Date('2026-02-05T14:00:00.000Z');
+    const id = await db.behaviorEvents.add({
+      uuid: crypto.randomUUID(),
+      sessionId: 1,
+      timestamp: createdAt,
+      createdAt,
+      synced: true,
+      encryptedData,
+      signature: await signData(encryptedData, legacySigningKey),
+    });
+
+    await useEncryptionStore.getState().initializeWithPassword(PASSWORD, SALT);
+    expect(await readBehaviorTypes()).toEqual(['elopement']);
+    await useEncryptionStore.getState().rotateDataKey();
+
+    const row = await db.behaviorEvents.get(id);
+    expect(row?.encryptedData.ciphertext).not.toBe(encryptedData.ciphertext);
+    expect(await verifySignature(row!.encryptedData, row!.signature!, legacySigningKey)).toBe(false);
+    expect(await readBehaviorTypes()).toEqual(['elopement']);
+
+    const [entry] = await db.keyring.toArray();
+    expect(entry).toMatchObject({ origin: 'random', keyVersion: 2 });
+    expect(entry.retired).toBeUndefined();
+  });
+
+  it('re-encrypts rows in batches with progress when rotating the data key', async () => {
+    await useEncryptionStore.getState().initializeWithPassword(PASSWORD, SALT);
+    const previousKey = useEncryptionStore.getState().key;
+    for (let index = 0; index < 3; index += 1) {
+      await addTantrum();
+    }
+
+    const progress: number[] = [];
+    const unsubscribe = useEncryptionStore.subscribe((state) => progress.push(state.rotation.processed));
+    await useEncryptionStore.getState().rotateDataKey();
+    unsubscribe();
+
+    expect(useEncryptionStore.getState().key).not.toBe(previousKey);
+    expect(useEncryptionStore.getState().rotation).toMatchObject({ phase: 'idle', processed: 3, total: 3 });
+    expect(progress).toContain(3);
+    expect(await readBehaviorTypes()).toEqual(['tantrum', 'tantrum', 'tantrum']);
+
+    useEncryptionStore.getState().clear();
+    await useEncryptionStore.getState().initializeWithPassword(PASSWORD, SALT);
+    expect(await readBehaviorTypes()).toHaveLength(3);
+  });
+
+  it('wipes the keys when locked and reopens them with the device PIN', async () => {
+    await useEncryptionStore.getState().initializeWithPassword(PASSWORD, SALT);
+    await addTantrum();
+    await useEncryptionStore.getState().setPin(PASSWORD, '4821');
+
+    useEncryptionStore.getState().lock();
+    expect(useEncryptionStore.getState()).toMatchObject({ isLocked: true, isReady: false, key: null, accountKey: null });
+    expect(() => useEncryptionStore.getState().getKey()).toThrow('not initialized');
+
+    await useEncryptionStore.getState().unlockWithPin(SALT, '4821');
+    expect(useEncryptionStore.getState()).toMatchObject({ isLocked: false, isReady: true });
+    expect(await readBehaviorTypes()).toEqual(['tantrum']);
+  });
+
+  it('keeps the account key closed after a PIN unlock until the password is entered', async () => {
+    await useEncryptionStore.getState().initializeWithPassword(PASSWORD, SALT);
+    const accountKey = useEncryptionStore.getState().getAccountKey();
+    const privateKey = await encryptJson({ kty: 'RSA' }, accountKey);
+    await useEncryptionStore.getState().setPin(PASSWORD, '4821');
+
+    // Only data keys wrapped under the PIN are stored, nothing derived from the password itself
+    const [entry] = await db.keyring.toArray();
+    expect(entry.pin).toMatchObject({ keyVersion: entry.keyVersion, failedAttempts: 0 });
+    expect(entry.pin).not.toHaveProperty('encryptedSecret');
+    expect(entry.pin!.wrapped).not.toEqual(entry.wrapped);
+
+    useEncryptionStore.getState().lock();
+    await useEncryptionStore.getState().unlockWithPin(SALT, '4821');
+    expect(useEncryptionStore.getState().accountKey).toBeNull();
+    expect(() => useEncryptionStore.getState().getAccountKey()).toThrow('not initialized');
+
+    await expect(useEncryptionStore.getState().confirmPassword('WrongPass1!')).rejects.toThrow('does not unlock');
+    await useEncryptionStore.getState().confirmPassword(PASSWORD);
+    expect(await decryptJson(privateKey, useEncryptionStore.getState().getAccountKey())).toEqual({ kty: 'RSA' });
+  });
+
+  it('removes the PIN after too many wrong attempts', async () => {
+    await useEncryptionStore.getState().initializeWithPassword(PASSWORD, SALT);
+    await useEncryptionStore.getState().setPin(PASSWORD, '4821');
+    useEncryptionStore.getState().lock();
+
+    await expect(useEncryptionStore.getState().unlockWithPin(SALT, '0000')).rejects.toThrow('4 attempts left');
+    for (let attempt = 2; attempt < 5; attempt += 1) {
+      await expect(useEncryptionStore.getState().unlockWithPin(SALT, '0000')).rejects.toThrow('Incorrect PIN');
+    }
+    await expect(useEncryptionStore.getState().unlockWithPin(SALT, '0000')).rejects.toThrow('Too many incorrect PIN attempts');
+    await expect(useEncryptionStore.getState().unlockWithPin(SALT, '4821')).rejects.toThrow('No PIN is set');
+
+    await useEncryptionStore.getState().initializeWithPassword(PASSWORD, SALT);
+    expect(useEncryptionStore.getState().isLocked).toBe(false);
+  });
+
+  it('drops the PIN when the password changes', async () => {
+    await useEncryptionStore.getState().initializeWithPassword(PASSWORD, SALT);
+    await expect(useEncryptionStore.getState().setPin(PASSWORD, '12')).rejects.toThrow('4 to 8 digits');
+    await expect(useEncryptionStore.getState().setPin('WrongPass1!', '4821')).rejects.toThrow('does not unlock');
+    await useEncryptionStore.getState().setPin(PASSWORD, '4821');
+
+    await useEncryptionStore.getState().changePassword(PASSWORD, 'NewPass456!', SALT);
+    useEncryptionStore.getState().lock();
+
+    await expect(useEncryptionStore.getState().unlockWithPin(SALT, '4821')).rejects.toThrow('No PIN is set');
+  });
+
+  it('drops the PIN when the data keys are replaced', async () => {
+    await useEncryptionStore.getState().initializeWithPassword(PASSWORD, SALT);
+    await addTantrum();
+    await useEncryptionStore.getState().setPin(PASSWORD, '4821');
+
+    await useEncryptionStore.getState().rotateDataKey();
+    useEncryptionStore.getState().lock();
+
+    await expect(useEncryptionStore.getState().unlockWithPin(SALT, '4821')).rejects.toThrow('No PIN is set');
+    await useEncryptionStore.getState().initializeWithPassword(PASSWORD, SALT);
+    expect(await readBehaviorTypes()).toEqual(['tantrum']);
+  });
+});
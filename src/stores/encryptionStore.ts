@@ -1,74 +1,350 @@
 import { create } from 'zustand';
-import { decryptJson, deriveEncryptionKey, encryptJson, type EncryptedData } from '../services/encryptionService';
-import { deriveSigningKey, signData, verifySignature } from '../services/integrityService';
+import { reencryptLocalData, refreshSearchIndex } from '../db/db';
+import { decryptJson, derivePasswordKeys, encryptJson, type DataKeys, type EncryptedData, type WrappedDataKeys } from '../services/encryptionService';
+import { signData, verifySignature } from '../services/integrityService';
+import {
+    beginDataKeyRotation,
+    changeKeyringPassword,
+    completeKeyringRecovery,
+    confirmKeyringPassword,
+    escrowDataKeys,
+    finishDataKeyRotation,
+    getBackupKeys,
+    openBackupKeys,
+    openKeyringWithPin,
+    openLocalKeyring,
+    PreviousPasswordRequiredError,
+    removeKeyringPin,
+    setKeyringPin,
+    type OpenedKeyring
+} from '../services/keyringService';
 
 /**
  * State manager for client-side encryption keys.
- * Handles key derivation (PBKDF2) and crypto operations (AES-GCM, HMAC).
+ * Unlocks the local keyring (PBKDF2 + AES-KW) and runs crypto operations (AES-GCM, HMAC).
  */
 interface EncryptionState {
+    /** This device's data keys, unwrapped from the local keyring. */
     key: CryptoKey | null;
     signingKey: CryptoKey | null;
+    /** Password-derived key for values shared across devices (the user's private key). Null after a PIN unlock. */
+    accountKey: CryptoKey | null;
     salt: string | null;
     isReady: boolean;
     error: string | null;
-    /** Derives keys from password and salt. */
+    /** The keyring entry was wrapped with an earlier password; unlock with `unlockWithPreviousPassword`. */
+    needsPreviousPassword: boolean;
+    /** The keys were wiped after inactivity; `unlockWithPin` or `initializeWithPassword` reopens them. */
+    isLocked: boolean;
+    rotation: KeyRotationStatus;
+    /** Organization cloud mode; in 'e2e' records leave the device only under the org data key. */
+    cloudMode: CloudEncryptionMode;
+    /** Org data keys, present once a manager has granted this user access. */
+    orgKey: CryptoKey | null;
+    orgSigningKey: CryptoKey | null;
+    orgKeyVersion: number | null;
+    /** Opens the local keyring with password and salt, resuming any unfinished rotation. */
     initializeWithPassword: (password: string, salt: string) => Promise<void>;
     initialize: (password: string, salt: string) => Promise<void>;
+    /** Re-wraps the data keys after the account password changed on this or another device. */
+    unlockWithPreviousPassword: (previousPassword: string, password: string, salt: string) => Promise<void>;
+    /** Re-wraps the data keys under a new password; `reencrypt` also rotates them and re-encrypts every row. */
+    changePassword: (currentPassword: string, newPassword: string, newSalt: string, options?: { reencrypt?: boolean }) => Promise<void>;
+    /** Replaces the data keys and re-encrypts local rows in batches, reporting progress in `rotation`. */
+    rotateDataKey: () => Promise<void>;
+    /** Unlocks with data keys a manager recovered after a password reset (see accountRecoveryService). */
+    unlockWithRecoveredKeys: (password: string, salt: string, recoveredKeys: WrappedDataKeys) => Promise<void>;
+    /** Escrows the current data keys to the org recovery key. */
+    escrowDataKeys: (recoveryPublicKey: JsonWebKey, recoveryKeyVersion: number) => Promise<void>;
+    /** The data keys wrapped as in the keyring, for a backup archive. Waits for a running rotation. */
+    getBackupKeys: () => Promise<WrappedDataKeys>;
+    /** Opens a backup's data keys with the current password, or with the one in use when it was made. */
+    openBackupKeys: (wrapped: WrappedDataKeys, previous?: { password: string; salt: string }) => Promise<DataKeys>;
+    /** Wipes the keys from memory, as `clear` does, but keeps the device unlockable with the PIN. */
+    lock: () => void;
+    /** Opens the data keys with the device PIN; the account key stays closed until `confirmPassword`. */
+    unlockWithPin: (salt: string, pin: string) => Promise<void>;
+    /** After a PIN unlock, restores the account key (and pending key rotations) from the password. */
+    confirmPassword: (password: string) => Promise<void>;
+    /** Sets the device PIN for the unlocked keyring entry; the password proves ownership. */
+    setPin: (password: string, pin: string) => Promise<void>;
+    removePin: () => Promise<void>;
     clear: () => void;
+    setOrgEncryption: (state: OrgEncryptionState) => void;
     getKey: () => CryptoKey;
     getSigningKey: () => CryptoKey;
+    getAccountKey: () => CryptoKey;
     encryptData: <T>(value: T) => Promise<EncryptedData>;
     decryptData: <T>(value: EncryptedData) => Promise<T>;
     signPayload: (value: unknown) => Promise<string>;
     verifyPayload: (value: unknown, signature: string) => Promise<boolean>;
 }
 
-export const useEncryptionStore = create<EncryptionState>((set, get) => ({
-    key: null,
-    signingKey: null,
-    salt: null,
-    isReady: false,
-    error: null,
-    initializeWithPassword: async (password: string, salt: string) => {
+export type CloudEncryptionMode = 'standard' | 'e2e';
+
+export interface OrgEncryptionState {
+    cloudMode: CloudEncryptionMode;
+    orgKey: CryptoKey | null;
+    orgSigningKey: CryptoKey | null;
+    orgKeyVersion: number | null;
+}
+
+export interface KeyRotationStatus {
+    phase: 'idle' | 'reencrypting' | 'failed';
+    processed: number;
+    total: number;
+    error: string | null;
+}
+
+const NO_ORG_ENCRYPTION: OrgEncryptionState = { cloudMode: 'standard', orgKey: null, orgSigningKey: null, orgKeyVersion: null };
+const IDLE_ROTATION: KeyRotationStatus = { phase: 'idle', processed: 0, total: 0, error: null };
+
+// Keys only live in memory; the keyring entry and wrapping key stay module-private
+let unlocked: OpenedKeyring | null = null;
+let activeRotation: Promise<void> | null = null;
+
+export const useEncryptionStore = create<EncryptionState>((set, get) => {
+    const applyKeyring = (opened: OpenedKeyring, salt: string) => {
+        unlocked = opened;
+        set({
+            key: opened.keys.key,
+            signingKey: opened.keys.signingKey,
+            accountKey: opened.passwordKeys?.accountKey ?? null,
+            salt,
+            isReady: true,
+            error: null,
+            needsPreviousPassword: false,
+            isLocked: false
+        });
+        // Rows adopted from password-derived keys, or a rotation interrupted by a reload
+        if (opened.passwordKeys && (opened.retiredKeys || opened.origin === 'password')) {
+            void get().rotateDataKey().catch((error) => {
+                console.warn('Local data key rotation did not finish', error);
+            });
+        }
+    };
+
+    const runRotation = async () => {
+        const opened = unlocked;
+        if (!opened) {
+            throw new Error('Encryption key is not initialized');
+        }
+        set({ rotation: { ...IDLE_ROTATION, phase: 'reencrypting' } });
         try {
-            const key = await deriveEncryptionKey(password, salt);
-            const signingKey = await deriveSigningKey(password, salt);
-            set({ key, signingKey, salt, isReady: true, error: null });
+            if (!opened.passwordKeys) {
+                throw new Error('Enter your password to replace the data keys on this device');
+            }
+            // New writes use the new keys straight away; reads fall back to the retired ones until done
+            const rotating = await beginDataKeyRotation(opened.entryId, opened.passwordKeys);
+            // Locked or signed out meanwhile: finish re-encrypting without bringing the keys back
+            if (unlocked === opened) {
+                unlocked = rotating;
+                set({ key: rotating.keys.key, signingKey: rotating.keys.signingKey });
+            }
+
+            await reencryptLocalData(rotating.retiredKeys!, rotating.keys, (processed, total) => {
+                set({ rotation: { phase: 'reencrypting', processed, total, error: null } });
+            });
+            await finishDataKeyRotation(rotating.entryId);
+            if (unlocked === rotating) {
+                unlocked = { ...rotating, origin: 'random', retiredKeys: null };
+            }
+            set((state) => ({ rotation: { ...state.rotation, phase: 'idle', error: null } }));
+            // Search tokens are keyed by the signing key that was just replaced
+            if (unlocked) {
+                void refreshSearchIndex().catch((error) => console.warn('Search index refresh did not finish', error));
+            }
         } catch (error) {
-            const message = error instanceof Error ? error.message : 'Failed to initialize encryption';
-            set({ key: null, signingKey: null, salt: null, isReady: false, error: message });
+            const message = error instanceof Error ? error.message : 'Key rotation failed';
+            set((state) => ({ rotation: { ...state.rotation, phase: 'failed', error: message } }));
             throw error;
         }
-    },
-    initialize: async (password: string, salt: string) => {
-        await get().initializeWithPassword(password, salt);
-    },
-    clear: () => set({ key: null, signingKey: null, salt: null, isReady: false, error: null }),
-    getKey: () => {
-        const key = get().key;
-        if (!key) {
-            throw new Error('Encryption key is not initialized');
-        }
-        return key;
-    },
-    getSigningKey: () => {
-        const signingKey = get().signingKey;
-        if (!signingKey) {
-            throw new Error('Integrity key is not initialized');
+    };
+
+    const retiredKeys = () => unlocked?.retiredKeys ?? null;
+
+    return {
+        key: null,
+        signingKey: null,
+        accountKey: null,
+        salt: null,
+        isReady: false,
+        error: null,
+        needsPreviousPassword: false,
+        isLocked: false,
+        rotation: IDLE_ROTATION,
+        ...NO_ORG_ENCRYPTION,
+        initializeWithPassword: async (password: string, salt: string) => {
+            try {
+                applyKeyring(await openLocalKeyring(password, salt), salt);
+            } catch (error) {
+                const message = error instanceof Error ? error.message : 'Failed to initialize encryption';
+                unlocked = null;
+                set({
+                    key: null,
+                    signingKey: null,
+                    accountKey: null,
+                    salt: null,
+                    isReady: false,
+                    error: message,
+                    needsPreviousPassword: error instanceof PreviousPasswordRequiredError
+                });
+                throw error;
+            }
+        },
+        initialize: async (password: string, salt: string) => {
+            await get().initializeWithPassword(password, salt);
+        },
+        unlockWithPreviousPassword: async (previousPassword: string, password: string, salt: string) => {
+            applyKeyring(await changeKeyringPassword(previousPassword, salt, password, salt), salt);
+        },
+        changePassword: async (currentPassword: string, newPassword: string, newSalt: string, options = {}) => {
+            const salt = get().salt;
+            if (!get().isReady || !salt) {
+                throw new Error('Encryption key is not initialized');
+            }
+            await activeRotation;
+            applyKeyring(await changeKeyringPassword(currentPassword, salt, newPassword, newSalt), newSalt);
+            if (options.reencrypt) {
+                await get().rotateDataKey();
+            }
+        },
+        rotateDataKey: () => {
+            if (!activeRotation) {
+                activeRotation = runRotation().finally(() => {
+                    activeRotation = null;
+                });
+            }
+            return activeRotation;
+        },
+        unlockWithRecoveredKeys: async (password: string, salt: string, recoveredKeys: WrappedDataKeys) => {
+            applyKeyring(await completeKeyringRecovery(password, salt, recoveredKeys), salt);
+        },
+        escrowDataKeys: async (recoveryPublicKey: JsonWebKey, recoveryKeyVersion: number) => {
+            if (!unlocked) {
+                throw new Error('Encryption key is not initialized');
+            }
+            // Opened with the PIN: the keys are escrowed after the next password unlock
+            if (!unlocked.passwordKeys) return;
+            await activeRotation?.catch(() => undefined);
+            await escrowDataKeys(unlocked.entryId, unlocked.passwordKeys, recoveryPublicKey, recoveryKeyVersion);
+        },
+        getBackupKeys: async () => {
+            if (!unlocked) {
+                throw new Error('Encryption key is not initialized');
+            }
+            await activeRotation?.catch(() => undefined);
+            return getBackupKeys(unlocked.entryId);
+        },
+        openBackupKeys: async (wrapped: WrappedDataKeys, previous?: { password: string; salt: string }) => {
+            if (!unlocked) {
+                throw new Error('Encryption key is not initialized');
+            }
+            const passwordKeys = previous ? await derivePasswordKeys(previous.password, previous.salt) : unlocked.passwordKeys;
+            if (!passwordKeys) {
+                throw new Error('Unlocked with the device PIN. Enter your password to restore a backup.');
+            }
+            return openBackupKeys(wrapped, passwordKeys);
+        },
+        lock: () => {
+            if (!get().isReady) return;
+            unlocked = null;
+            set({
+                key: null,
+                signingKey: null,
+                accountKey: null,
+                salt: null,
+                isReady: false,
+                error: null,
+                isLocked: true,
+                ...NO_ORG_ENCRYPTION
+            });
+        },
+        unlockWithPin: async (salt: string, pin: string) => {
+            applyKeyring(await openKeyringWithPin(salt, pin), salt);
+        },
+        confirmPassword: async (password: string) => {
+            const salt = get().salt;
+            if (!unlocked || !salt) {
+                throw new Error('Encryption key is not initialized');
+            }
+            if (unlocked.passwordKeys) return;
+            const opened = unlocked;
+            const passwordKeys = await confirmKeyringPassword(opened.entryId, password, salt);
+            // Locked again meanwhile: the password only counts for the unlock it was entered for
+            if (unlocked === opened) {
+                applyKeyring({ ...opened, passwordKeys }, salt);
+            }
+        },
+        setPin: async (password: string, pin: string) => {
+            const salt = get().salt;
+            if (!unlocked || !salt) {
+                throw new Error('Encryption key is not initialized');
+            }
+            await setKeyringPin(unlocked.entryId, password, salt, pin);
+        },
+        removePin: async () => {
+            if (!unlocked) {
+                throw new Error('Encryption key is not initialized');
+            }
+            await removeKeyringPin(unlocked.entryId);
+        },
+        clear: () => {
+            unlocked = null;
+            set({
+                key: null,
+                signingKey: null,
+                accountKey: null,
+                salt: null,
+                isReady: false,
+                error: null,
+                needsPreviousPassword: false,
+                isLocked: false,
+                rotation: IDLE_ROTATION,
+                ...NO_ORG_ENCRYPTION
+            });
+        },
+        setOrgEncryption: (state: OrgEncryptionState) => set(state),
+        getKey: () => {
+            const key = get().key;
+            if (!key) {
+                throw new Error('Encryption key is not initialized');
+            }
+            return key;
+        },
+        getSigningKey: () => {
+            const signingKey = get().signingKey;
+            if (!signingKey) {
+                throw new Error('Integrity key is not initialized');
+            }
+            return signingKey;
+        },
+        getAccountKey: () => {
+            const accountKey = get().accountKey;
+            if (!accountKey) {
+                throw new Error('Account key is not initialized');
+            }
+            return accountKey;
+        },
+        encryptData: async <T,>(value: T) => {
+            return encryptJson(value, get().getKey());
+        },
+        decryptData: async <T,>(value: EncryptedData) => {
+            try {
+                return await decryptJson<T>(value, get().getKey());
+            } catch (error) {
+                const retired = retiredKeys();
+                if (!retired) throw error;
+                return decryptJson<T>(value, retired.key);
+            }
+        },
+        signPayload: async (value: unknown) => {
+            return signData(value, get().getSigningKey());
+        },
+        verifyPayload: async (value: unknown, signature: string) => {
+            if (await verifySignature(value, signature, get().getSigningKey())) return true;
+            const retired = retiredKeys();
+            return retired ? verifySignature(value, signature, retired.signingKey) : false;
         }
-        return signingKey;
-    },
-    encryptData: async <T,>(value: T) => {
-        return encryptJson(value, get().getKey());
-    },
-    decryptData: async <T,>(value: EncryptedData) => {
-        return decryptJson<T>(value, get().getKey());
-    },
-    signPayload: async (value: unknown) => {
-        return signData(value, get().getSigningKey());
-    },
-    verifyPayload: async (value: unknown, signature: string) => {
-        return verifySignature(value, signature, get().getSigningKey());
-    }
-}));
+    };
+});
@@ -1,8 +1,27 @@
 import { create } from 'zustand';
-import type { Session } from '../db/db';
+import {
+    endSession as endSessionRecord,
+    pauseSession as pauseSessionRecord,
+    resumeSession as resumeSessionRecord,
+    startSession as startSessionRecord,
+    type Session,
+    type StartSessionInput
+} from '../db/db';
+
+export type SessionPhase = 'idle' | 'in-progress' | 'paused' | 'completed';
+
+/**
+ * Derives the UI phase of a session from its persisted record.
+ */
+export function getSessionPhase(session: Session | null): SessionPhase {
+    if (!session) return 'idle';
+    if (session.status === 'completed') return 'completed';
+    return session.pausedAt ? 'paused' : 'in-progress';
+}
 
 /**
  * Global UI state for the active session and drawer visibility.
+ * Lifecycle actions persist to the `sessions` table before updating state.
  */
 interface SessionState {
     currentSession: Session | null;
@@ -15,9 +34,15 @@ interface SessionState {
     toggleDrawer: () => void;
     setDrawerOpen: (open: boolean) => void;
     clearSession: () => void;
+    /** Creates an in-progress session bound to the given learner and makes it current. */
+    startSession: (input: StartSessionInput) => Promise<Session>;
+    pauseSession: () => Promise<void>;
+    resumeSession: () => Promise<void>;
+    /** Completes the current session; its data is frozen from this point on. */
+    endSession: () => Promise<Session | null>;
 }
 
-export const useSessionStore = create<SessionState>((set) => ({
+export const useSessionStore = create<SessionState>((set, get) => ({
     currentSession: null,
     noteDraft: '',
     isDrawerOpen: false,
@@ -34,4 +59,32 @@ export const useSessionStore = create<SessionState>((set) => ({
         currentSession: null,
         noteDraft: ''
     }),
+
+    startSession: async (input) => {
+        const session = await startSessionRecord(input);
+        set({ currentSession: session, noteDraft: '' });
+        return session;
+    },
+
+    pauseSession: async () => {
+        const sessionId = get().currentSession?.id;
+        if (typeof sessionId !== 'number') return;
+        const session = await pauseSessionRecord(sessionId);
+        set({ currentSession: session });
+    },
+
+    resumeSession: async () => {
+        const sessionId = get().currentSession?.id;
+        if (typeof sessionId !== 'number') return;
+        const session = await resumeSessionRecord(sessionId);
+        set({ currentSession: session });
+    },
+
+    endSession: async () => {
+        const sessionId = get().currentSession?.id;
+        if (typeof sessionId !== 'number') return null;
+        const session = await endSessionRecord(sessionId);
+        set({ currentSession: session });
+        return session;
+    },
 }));
@@ -0,0 +1,261 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { addBehaviorEvent, db, deleteBehaviorEvent, getBehaviorEventsBySession, getQuarantinedRows, getSyncStateValue, setSyncStateValue } from '../db/db';
+import { deriveOrgKeys } from '../services/encryptionService';
+import { CLOUD_ENCRYPTION_MODE_KEY, sealSyncDocument } from '../services/orgEncryptionService';
+import { useEncryptionStore } from './encryptionStore';
+import { useSyncStore } from './syncStore';
+import type { PulledDocument, SyncableDocument } from '../types/sync';
+
+function jsonResponse(body: unknown): Response {
+  return new Response(JSON.stringify(body), {
+    status: 200,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+function behaviorDoc(id: string, remoteSessionId: number, behaviorType: string): PulledDocument {
+  return {
+    id,
+    sessionId: remoteSessionId,
+    entityType: 'behavior',
+    clientId: 'learner-1',
+    orgId: 'org-1',
+    syncedBy: 'user-2',
+    syncedAt: '2026-02-05T14:30:00.000Z',
+    data: {
+      id: 7,
+      sessionId: remoteSessionId,
+      behaviorType,
+      count: 1,
+      timestamp: '2026-02-05T14:30:00.000Z',
+      createdAt: '2026-02-05T14:30:00.000Z',
+      synced: false,
+    },
+  };
+}
+
+describe('syncStore pullFromCloud', () => {
+  beforeEach(async () => {
+    await useEncryptionStore.getState().initializeWithPassword('TestPass123!', 'U3RhdGljU2FsdDEyMw==');
+    await Promise.all([db.sessions.clear(), db.behaviorEvents.clear(), db.syncState.clear(), db.quarantine.clear()]);
+    useEncryptionStore.getState().setOrgEncryption({ cloudMode: 'standard', orgKey: null, orgSigningKey: null, orgKeyVersion: null });
+    useSyncStore.setState({ isOnline: true, isPulling: false });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('pages through the pull endpoint and re-encrypts records locally', async () => {
+    const fetchMock = vi.fn()
+      .mockResolvedValueOnce(jsonResponse({
+        documents: [behaviorDoc('behavior-a', 3, 'tantrum')],
+        cursor: 'page-2',
+        hasMore: true,
+      }))
+      .mockResolvedValueOnce(jsonResponse({
+        documents: [behaviorDoc('behavior-b', 3, 'elopement')],
+        cursor: 'done',
+        hasMore: false,
+      }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const result = await useSyncStore.getState().pullFromCloud([{ id: 'learner-1', name: 'Alex B.' }]);
+
+    expect(result).toEqual({ pulled: 2, merged: 2 });
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(String(fetchMock.mock.calls[1][0])).toContain('cursor=page-2');
+    expect(await getSyncStateValue('pullCursor')).toBe('done');
+
+    const sessions = await db.sessions.toArray();
+    expect(sessions).toHaveLength(1);
+    expect(sessions[0].clientId).toBe('learner-1');
+    expect(sessions[0].clientName).toBe('Alex B.');
+    expect(sessions[0].remoteKey).toBe('user-2:3');
+
+    const rows = await db.behaviorEvents.toArray();
+    expect(rows.every((row) => row.synced && row.encryptedData.ciphertext)).toBe(true);
+
+    const events = await getBehaviorEventsBySession(sessions[0].id!);
+    expect(events.map((event) => event.behaviorType).sort()).toEqual(['elopement', 'tantrum']);
+  });
+
+  it('resumes from the stored cursor and updates existing rows in place', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(jsonResponse({
+      documents: [behaviorDoc('behavior-a', 3, 'tantrum')],
+      cursor: 'first',
+      hasMore: false,
+    })));
+    await useSyncStore.getState().pullFromCloud();
+
+    const fetchMock = vi.fn().mockResolvedValue(jsonResponse({
+      documents: [behaviorDoc('behavior-a', 3, 'aggression')],
+      cursor: 'second',
+      hasMore: false,
+    }));
+    vi.stubGlobal('fetch', fetchMock);
+    await useSyncStore.getState().pullFromCloud();
+
+    expect(String(fetchMock.mock.calls[0][0])).toContain('cursor=first');
+    expect(await db.behaviorEvents.count()).toBe(1);
+    const [session] = await db.sessions.toArray();
+    const [event] = await getBehaviorEventsBySession(session.id!);
+    expect(event.behaviorType).toBe('aggression');
+  });
+
+  it('skips revisions it already holds when the feed repeats its newest second', async () => {
+    const page = jsonResponse({
+      documents: [{ ...behaviorDoc('behavior-a', 3, 'tantrum'), revision: 2 }],
+      cursor: 'first',
+      hasMore: false,
+    });
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValueOnce(page).mockResolvedValueOnce(page.clone()));
+
+    expect(await useSyncStore.getState().pullFromCloud()).toEqual({ pulled: 1, merged: 1 });
+    expect(await useSyncStore.getState().pullFromCloud()).toEqual({ pulled: 1, merged: 0 });
+
+    // Without a learner list the name is left for views to resolve, never the learner id
+    const [session] = await db.sessions.toArray();
+    expect(session.clientName).toBe('');
+  });
+
+  it('quarantines end-to-end documents that do not open and still moves the cursor past them', async () => {
+    const { key, signingKey } = await deriveOrgKeys(new Uint8Array(32).fill(7));
+    useEncryptionStore.getState().setOrgEncryption({ cloudMode: 'e2e', orgKey: key, orgSigningKey: signingKey, orgKeyVersion: 1 });
+    await setSyncStateValue(CLOUD_ENCRYPTION_MODE_KEY, 'e2e');
+    const seal = async (document: PulledDocument) => await sealSyncDocument(document) as PulledDocument;
+    const valid = await seal(behaviorDoc('behavior-a', 3, 'tantrum'));
+    const tampered = await seal(behaviorDoc('behavior-b', 3, 'elopement'));
+    tampered.encrypted!.signature = valid.encrypted!.signature;
+    const otherVersion = await seal(behaviorDoc('behavior-c', 3, 'aggression'));
+    otherVersion.encrypted!.keyVersion = 2;
+    const page = jsonResponse({ documents: [valid, tampered, otherVersion], cursor: 'done', hasMore: false });
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValueOnce(page).mockResolvedValueOnce(page.clone()));
+
+    expect(await useSyncStore.getState().pullFromCloud()).toEqual({ pulled: 3, merged: 1 });
+    await useSyncStore.getState().pullFromCloud();
+
+    expect(await getSyncStateValue('pullCursor')).toBe('done');
+    expect(await db.behaviorEvents.count()).toBe(1);
+    // Seen twice, recorded once
+    expect((await getQuarantinedRows()).map(({ tableName, rowId, remoteId, reason }) => ({ tableName, rowId, remoteId, reason }))).toEqual([
+      { tableName: 'behaviorEvents', rowId: 0, remoteId: 'behavior-b', reason: 'signature-mismatch' },
+      { tableName: 'behaviorEvents', rowId: 0, remoteId: 'behavior-c', reason: 'undecryptable' },
+    ]);
+  });
+});
+
+describe('syncStore syncToCloud', () => {
+  beforeEach(async () => {
+    await useEncryptionStore.getState().initializeWithPassword('TestPass123!', 'U3RhdGljU2FsdDEyMw==');
+    await Promise.all([db.sessions.clear(), db.behaviorEvents.clear(), db.syncQueue.clear(), db.syncConflicts.clear(), db.syncState.clear()]);
+    useEncryptionStore.getState().setOrgEncryption({ cloudMode: 'standard', orgKey: null, orgSigningKey: null, orgKeyVersion: null });
+    useSyncStore.setState({ isOnline: true, isSyncing: false });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('drains the queue and sends deletions as tombstones', async () => {
+    const createdAt = new Date('2026-02-05T14:00:00.000Z');
+    const id = await addBehaviorEvent({ sessionId: 1, behaviorType: 'tantrum', count: 1, timestamp: createdAt, createdAt, synced: false });
+    const documentId = (await db.behaviorEvents.get(id))?.uuid;
+
+    const fetchMock = vi.fn()
+      .mockResolvedValueOnce(jsonResponse({ success: 1, failed: 0, results: [{ id: documentId, ok: true, revision: 1 }] }))
+      .mockResolvedValueOnce(jsonResponse({ success: 1, failed: 0, results: [{ id: documentId, ok: true, revision: 2 }] }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    expect(await useSyncStore.getState().syncToCloud()).toMatchObject({ success: 1, failed: 0 });
+    expect(await db.syncQueue.count()).toBe(0);
+    expect(await db.behaviorEvents.get(id)).toMatchObject({ synced: true, revision: 1, remoteId: documentId });
+
+    await deleteBehaviorEvent(id);
+    await useSyncStore.getState().syncToCloud();
+
+    const body = JSON.parse(String(fetchMock.mock.calls[1][1].body)) as { documents: Array<Record<string, unknown>> };
+    expect(body.documents).toEqual([expect.objectContaining({ id: documentId, deleted: true, revision: 1, data: {} })]);
+    expect(await db.syncQueue.count()).toBe(0);
+    expect(useSyncStore.getState().unsyncedCount).toBe(0);
+  });
+
+  it('keeps failed items queued with backoff instead of dropping them', async () => {
+    const createdAt = new Date('2026-02-05T14:00:00.000Z');
+    await addBehaviorEvent({ sessionId: 1, behaviorType: 'tantrum', count: 1, timestamp: createdAt, createdAt, synced: false });
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(new Response('unavailable', { status: 503 })));
+
+    await useSyncStore.getState().syncToCloud();
+
+    const [item] = await db.syncQueue.toArray();
+    expect(item).toMatchObject({ status: 'pending', attempts: 1 });
+    expect(item.lastError).toContain('503');
+    expect(item.nextAttemptAt).toBeInstanceOf(Date);
+    expect(useSyncStore.getState()).toMatchObject({ status: 'error', unsyncedCount: 1 });
+  });
+
+  it('removes only acknowledged documents and keeps the server reason on the rest', async () => {
+    const createdAt = new Date('2026-02-05T14:00:00.000Z');
+    const first = await addBehaviorEvent({ sessionId: 1, behaviorType: 'tantrum', count: 1, timestamp: createdAt, createdAt, synced: false });
+    const second = await addBehaviorEvent({ sessionId: 1, behaviorType: 'elopement', count: 1, timestamp: createdAt, createdAt, synced: false });
+    const [firstUuid, secondUuid] = (await db.behaviorEvents.bulkGet([first, second])).map((row) => row?.uuid);
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(jsonResponse({
+      success: 1,
+      failed: 1,
+      results: [
+        { id: firstUuid, ok: true, revision: 1 },
+        { id: secondUuid, ok: false, errorCode: 'forbidden', error: 'Learner is not assigned to you' },
+      ],
+    })));
+
+    const result = await useSyncStore.getState().syncToCloud();
+
+    expect(result).toMatchObject({ success: 1, failed: 1 });
+    expect((await db.behaviorEvents.get(first))?.synced).toBe(true);
+    expect((await db.behaviorEvents.get(second))?.synced).toBe(false);
+    const queue = await db.syncQueue.toArray();
+    expect(queue).toHaveLength(1);
+    expect(queue[0]).toMatchObject({ entityId: second, status: 'pending', attempts: 1 });
+    expect(queue[0].lastError).toBe('forbidden: Learner is not assigned to you');
+  });
+
+  it('parks documents the server rejects as invalid', async () => {
+    const createdAt = new Date('2026-02-05T14:00:00.000Z');
+    const id = await addBehaviorEvent({ sessionId: 1, behaviorType: 'tantrum', count: 1, timestamp: createdAt, createdAt, synced: false });
+    const documentId = (await db.behaviorEvents.get(id))?.uuid;
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(jsonResponse({
+      success: 0,
+      failed: 1,
+      results: [{ id: documentId, ok: false, errorCode: 'invalid', error: 'clientId is required' }],
+    })));
+
+    await useSyncStore.getState().syncToCloud();
+
+    const [item] = await db.syncQueue.toArray();
+    expect(item).toMatchObject({ status: 'parked', parkedReason: 'invalid: clientId is required' });
+    expect(useSyncStore.getState()).toMatchObject({ unsyncedCount: 0, parkedCount: 1 });
+  });
+
+  it('uploads only ciphertext for end-to-end organizations and holds back without the org key', async () => {
+    const createdAt = new Date('2026-02-05T14:00:00.000Z');
+    const id = await addBehaviorEvent({ sessionId: 1, behaviorType: 'tantrum', count: 1, timestamp: createdAt, createdAt, synced: false });
+    const documentId = (await db.behaviorEvents.get(id))?.uuid;
+    await setSyncStateValue(CLOUD_ENCRYPTION_MODE_KEY, 'e2e');
+    const fetchMock = vi.fn().mockResolvedValue(jsonResponse({ success: 1, failed: 0, results: [{ id: documentId, ok: true, revision: 1 }] }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    await useSyncStore.getState().syncToCloud();
+    expect(fetchMock).not.toHaveBeenCalled();
+    expect(await db.syncQueue.count()).toBe(1);
+
+    const { key, signingKey } = await deriveOrgKeys(new Uint8Array(32).fill(7));
+    useEncryptionStore.getState().setOrgEncryption({ cloudMode: 'e2e', orgKey: key, orgSigningKey: signingKey, orgKeyVersion: 1 });
+    await useSyncStore.getState().syncToCloud();
+
+    const rawBody = String(fetchMock.mock.calls[0][1].body);
+    expect(rawBody).not.toContain('tantrum');
+    const [sent] = (JSON.parse(rawBody) as { documents: SyncableDocument[] }).documents;
+    expect(sent).toMatchObject({ id: documentId, data: {}, encrypted: { keyVersion: 1 } });
+    expect(await db.behaviorEvents.get(id)).toMatchObject({ synced: true, revision: 1 });
+  });
+});
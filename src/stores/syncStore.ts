@@ -1,18 +1,69 @@
 import { create } from 'zustand';
 import {
-    getUnsyncedBehaviorEvents,
+    buildSyncDocument,
+    completeSyncQueueItem,
+    failSyncQueueItem,
+    getDueSyncQueueItems,
+    getNextSyncRetryTime,
+    getParkedSyncQueueItems,
+    getSyncStateValue,
     getUnsyncedCount,
-    getUnsyncedIncidents,
-    getUnsyncedSessionNotes,
-    getUnsyncedSkillTrials,
-    markBehaviorEventSynced,
-    markIncidentSynced,
-    markSessionNoteSynced,
-    markSkillTrialSynced
+    mergePulledDocuments,
+    parkSyncQueueItem,
+    quarantinePulledDocument,
+    rebaseSyncQueueTombstone,
+    reconcileSyncConflict,
+    setSyncStateValue,
+    type Learner,
+    type SyncQueueItem
 } from '../db/db';
-import type { SyncableDocument, SyncResult } from '../types/sync';
+import type { BackgroundSyncReport, PulledDocument, SyncableDocument, SyncDocumentResult, SyncPullResponse, SyncResult } from '../types/sync';
 import { useEncryptionStore } from './encryptionStore';
-import { dateReplacer } from '../services/encryptionService';
+import { dateReplacer, dateReviver } from '../services/encryptionService';
+import { getCachedCloudEncryptionMode, openSyncDocument, sealSyncDocument, SyncDocumentIntegrityError } from '../services/orgEncryptionService';
+
+const PULL_CURSOR_KEY = 'pullCursor';
+const PULL_PAGE_SIZE = 100;
+
+/** Reason stored on a queue item the server did not acknowledge. */
+function describeRejection(documentResult: SyncDocumentResult | undefined): string {
+    if (!documentResult) return 'No result returned for document';
+    return `${documentResult.errorCode ?? 'write_failed'}: ${documentResult.error ?? 'Rejected by server'}`;
+}
+
+let retryTimer: ReturnType<typeof setTimeout> | null = null;
+
+/** Wakes the sync loop when the earliest backed-off queue item becomes due. */
+async function scheduleRetry(): Promise<void> {
+    if (retryTimer) {
+        clearTimeout(retryTimer);
+        retryTimer = null;
+    }
+    const next = await getNextSyncRetryTime();
+    if (!next) return;
+    retryTimer = setTimeout(() => {
+        retryTimer = null;
+        void useSyncStore.getState().syncToCloud();
+    }, Math.max(next.getTime() - Date.now(), 0));
+}
+
+/**
+ * Decrypts end-to-end documents. Ones that fail verification are quarantined rather than merged,
+ * since the cursor moves past them and a tampered document would otherwise stall every pull.
+ */
+async function openPulledDocuments(documents: PulledDocument[]): Promise<PulledDocument[]> {
+    const opened: PulledDocument[] = [];
+    for (const document of documents) {
+        try {
+            opened.push(await openSyncDocument(document));
+        } catch (error) {
+            if (!(error instanceof SyncDocumentIntegrityError)) throw error;
+            console.warn(`[SyncStore] Quarantining pulled document ${document.id}:`, error);
+            await quarantinePulledDocument(document, error.reason);
+        }
+    }
+    return opened;
+}
 
 export type SyncStatus = 'offline' | 'syncing' | 'synced' | 'error' | 'not-configured';
 
@@ -23,9 +74,13 @@ export type SyncStatus = 'offline' | 'syncing' | 'synced' | 'error' | 'not-confi
 interface SyncState {
     status: SyncStatus;
     unsyncedCount: number;
+    /** Queue items taken out of rotation after repeated or permanent failures. */
+    parkedCount: number;
     lastSyncTime: Date | null;
     isOnline: boolean;
     isSyncing: boolean;
+    isPulling: boolean;
+    lastPullTime: Date | null;
 
     // Actions
     setStatus: (status: SyncStatus) => void;
@@ -34,17 +89,31 @@ interface SyncState {
     decrementUnsyncedCount: () => void;
     setOnline: (online: boolean) => void;
     setLastSyncTime: (time: Date) => void;
-    /** Pushes all unsynced local data to the cloud. */
+    /**
+     * Drains due items from the sync queue (creates, updates and delete tombstones).
+     * Failures back off exponentially; items that cannot succeed are parked with a reason.
+     */
     syncToCloud: () => Promise<{ success: number; failed: number }>;
+    /**
+     * Pulls server changes since the stored cursor, page by page, into the local encrypted tables.
+     * The cursor is persisted after every page so an interrupted hydration resumes where it stopped.
+     * `learners` name the sessions created for records from other devices.
+     */
+    pullFromCloud: (learners?: Pick<Learner, 'id' | 'name'>[]) => Promise<{ pulled: number; merged: number }>;
     refreshUnsyncedCount: () => Promise<void>;
+    /** Folds the outcome of a sync that ran in the service worker into the UI state. */
+    applyBackgroundSyncReport: (report: BackgroundSyncReport) => Promise<void>;
 }
 
 export const useSyncStore = create<SyncState>((set, get) => ({
     status: navigator.onLine ? 'synced' : 'offline',
     unsyncedCount: 0,
+    parkedCount: 0,
     lastSyncTime: null,
     isOnline: navigator.onLine,
     isSyncing: false,
+    isPulling: false,
+    lastPullTime: null,
 
     setStatus: (status) => set({ status }),
     setUnsyncedCount: (count) => set({ unsyncedCount: count }),
@@ -60,11 +129,24 @@ export const useSyncStore = create<SyncState>((set, get) => ({
 
     refreshUnsyncedCount: async () => {
         if (!useEncryptionStore.getState().isReady) {
-            set({ unsyncedCount: 0 });
+            set({ unsyncedCount: 0, parkedCount: 0 });
             return;
         }
         const unsyncedCount = await getUnsyncedCount();
-        set({ unsyncedCount });
+        const parkedCount = (await getParkedSyncQueueItems()).length;
+        set({ unsyncedCount, parkedCount });
+    },
+
+    applyBackgroundSyncReport: async (report) => {
+        const completedAt = new Date(report.completedAt);
+        const { lastSyncTime } = get();
+        if (report.outcome !== 'deferred' && (!lastSyncTime || completedAt > lastSyncTime)) {
+            set({
+                lastSyncTime: completedAt,
+                status: report.outcome === 'failed' ? 'error' : get().isOnline ? 'synced' : 'offline'
+            });
+        }
+        await get().refreshUnsyncedCount();
     },
 
     syncToCloud: async () => {
@@ -80,61 +162,35 @@ export const useSyncStore = create<SyncState>((set, get) => ({
             set({ status: 'error' });
             return { success: 0, failed: get().unsyncedCount };
         }
+        // End-to-end organizations never receive plaintext; wait until this user holds the org key
+        const endToEnd = await getCachedCloudEncryptionMode() === 'e2e';
+        if (endToEnd && !useEncryptionStore.getState().orgKey) {
+            console.warn('[SyncStore] Upload held back: organization encryption key not available');
+            set({ status: 'error' });
+            return { success: 0, failed: get().unsyncedCount };
+        }
 
         set({ isSyncing: true, status: 'syncing' });
 
-        try {
-            // Fetch and decrypt all unsynced items
-            const unsyncedBehaviors = await getUnsyncedBehaviorEvents();
-            const unsyncedTrials = await getUnsyncedSkillTrials();
-            const unsyncedNotes = await getUnsyncedSessionNotes();
-            const unsyncedIncidents = await getUnsyncedIncidents();
-
-            // Convert to SyncableDocuments
-            const documents: SyncableDocument[] = [];
-
-            for (const behavior of unsyncedBehaviors) {
-                documents.push({
-                    id: `behavior-${behavior.id}`,
-                    sessionId: behavior.sessionId,
-                    entityType: 'behavior',
-                    data: behavior as unknown as Record<string, unknown>,
-                    syncedAt: new Date().toISOString()
-                });
-            }
+        // Items from this run, keyed by document id, so acknowledgements can be matched back
+        const sentItems = new Map<string, { item: SyncQueueItem; document: SyncableDocument }>();
 
-            for (const trial of unsyncedTrials) {
-                documents.push({
-                    id: `skillTrial-${trial.id}`,
-                    sessionId: trial.sessionId,
-                    entityType: 'skillTrial',
-                    data: trial as unknown as Record<string, unknown>,
-                    syncedAt: new Date().toISOString()
-                });
-            }
-
-            for (const note of unsyncedNotes) {
-                documents.push({
-                    id: `note-${note.id}`,
-                    sessionId: note.sessionId,
-                    entityType: 'note',
-                    data: note as unknown as Record<string, unknown>,
-                    syncedAt: new Date().toISOString()
-                });
-            }
-
-            for (const incident of unsyncedIncidents) {
-                documents.push({
-                    id: `incident-${incident.id}`,
-                    sessionId: incident.sessionId,
-                    entityType: 'incident',
-                    data: incident as unknown as Record<string, unknown>,
-                    syncedAt: new Date().toISOString()
-                });
+        try {
+            // Build upload documents from the queue; items that can never succeed are parked
+            for (const item of await getDueSyncQueueItems()) {
+                try {
+                    const document = await buildSyncDocument(item);
+                    sentItems.set(document.id, { item, document });
+                } catch (error) {
+                    await parkSyncQueueItem(item, error instanceof Error ? error.message : String(error));
+                }
             }
 
+            const documents = [...sentItems.values()].map(({ document }) => document);
+            const uploads = endToEnd ? await Promise.all(documents.map(sealSyncDocument)) : documents;
             if (documents.length === 0) {
-                set({ isSyncing: false, status: 'synced', unsyncedCount: 0 });
+                set({ isSyncing: false, status: 'synced' });
+                await get().refreshUnsyncedCount();
                 return { success: 0, failed: 0 };
             }
 
@@ -145,36 +201,39 @@ export const useSyncStore = create<SyncState>((set, get) => ({
                     'Content-Type': 'application/json'
                 },
                 credentials: 'include', // Important: send HttpOnly cookies
-                body: JSON.stringify({ documents }, dateReplacer)
+                body: JSON.stringify({ documents: uploads }, dateReplacer)
             });
 
-            if (!response.ok) {
+            // 409 means some writes were stale; the body still reports the rest of the batch
+            if (!response.ok && response.status !== 409) {
                 throw new Error(`Sync API error: ${response.status} ${response.statusText}`);
             }
 
-            const result: SyncResult = await response.json();
+            const result = JSON.parse(await response.text(), dateReviver) as SyncResult;
+            const documentResults = new Map((result.results ?? []).map((documentResult) => [documentResult.id, documentResult]));
+            const conflicts = new Map((result.conflicts ?? []).map((conflict) => [conflict.id, conflict]));
 
-            // Mark successfully synced items in Dexie
-            if (result.success > 0) {
-                for (const behavior of unsyncedBehaviors) {
-                    if (typeof behavior.id === 'number') {
-                        await markBehaviorEventSynced(behavior.id);
-                    }
-                }
-                for (const trial of unsyncedTrials) {
-                    if (typeof trial.id === 'number') {
-                        await markSkillTrialSynced(trial.id);
-                    }
-                }
-                for (const note of unsyncedNotes) {
-                    if (typeof note.id === 'number') {
-                        await markSessionNoteSynced(note.id);
-                    }
-                }
-                for (const incident of unsyncedIncidents) {
-                    if (typeof incident.id === 'number') {
-                        await markIncidentSynced(incident.id);
+            // Only acknowledged documents leave the queue; everything else keeps its place with the server's reason
+            for (const [documentId, { item, document }] of sentItems) {
+                const documentResult = documentResults.get(documentId);
+                const conflict = conflicts.get(documentId);
+                if (documentResult?.ok && documentResult.revision !== undefined) {
+                    await completeSyncQueueItem(item, document, documentResult.revision);
+                } else if (conflict && item.action === 'delete') {
+                    await rebaseSyncQueueTombstone(item, conflict.serverRevision);
+                } else if (conflict) {
+                    // Merge or park stale writes instead of dropping them
+                    const serverDocument = await openSyncDocument(conflict.serverDocument).catch(() => null);
+                    if (serverDocument) {
+                        await reconcileSyncConflict({ ...conflict, serverDocument }, item.entityId);
+                    } else {
+                        await failSyncQueueItem(item, 'conflict: server copy could not be decrypted or verified');
                     }
+                } else if (documentResult?.errorCode === 'invalid') {
+                    // Schema violations will fail the same way every time
+                    await parkSyncQueueItem(item, describeRejection(documentResult));
+                } else {
+                    await failSyncQueueItem(item, describeRejection(documentResult));
                 }
             }
 
@@ -183,17 +242,75 @@ export const useSyncStore = create<SyncState>((set, get) => ({
             set({
                 isSyncing: false,
                 status: newStatus,
-                lastSyncTime: new Date(),
-                unsyncedCount: result.failed
+                lastSyncTime: new Date()
             });
+            await get().refreshUnsyncedCount();
+            await scheduleRetry();
 
             console.log(`[SyncStore] Sync complete: ${result.success} success, ${result.failed} failed`);
             return result;
 
         } catch (error) {
             console.error('[SyncStore] Sync error:', error);
+            const reason = error instanceof Error ? error.message : String(error);
+            for (const { item } of sentItems.values()) {
+                await failSyncQueueItem(item, reason);
+            }
             set({ isSyncing: false, status: 'error' });
-            return { success: 0, failed: get().unsyncedCount };
+            await get().refreshUnsyncedCount();
+            await scheduleRetry();
+            return { success: 0, failed: sentItems.size };
+        }
+    },
+
+    pullFromCloud: async (learners = []) => {
+        const { isPulling, isOnline } = get();
+        if (isPulling || !isOnline || !useEncryptionStore.getState().isReady) {
+            return { pulled: 0, merged: 0 };
+        }
+        // Without the org key, encrypted documents could not be merged and the cursor would skip them
+        if (await getCachedCloudEncryptionMode() === 'e2e' && !useEncryptionStore.getState().orgKey) {
+            return { pulled: 0, merged: 0 };
+        }
+
+        set({ isPulling: true });
+        let pulled = 0;
+        let merged = 0;
+        const learnerNames = new Map(learners.map((learner) => [learner.id, learner.name]));
+
+        try {
+            let cursor = await getSyncStateValue(PULL_CURSOR_KEY);
+            let hasMore = true;
+
+            while (hasMore) {
+                const params = new URLSearchParams({ pageSize: String(PULL_PAGE_SIZE) });
+                if (cursor) {
+                    params.set('cursor', cursor);
+                }
+
+                const response = await fetch(`/api/sync/pull?${params.toString()}`, {
+                    credentials: 'include' // Important: send HttpOnly cookies
+                });
+                if (!response.ok) {
+                    throw new Error(`Sync pull API error: ${response.status} ${response.statusText}`);
+                }
+
+                const page = JSON.parse(await response.text(), dateReviver) as SyncPullResponse;
+                merged += await mergePulledDocuments(await openPulledDocuments(page.documents), learnerNames);
+                pulled += page.documents.length;
+
+                cursor = page.cursor;
+                await setSyncStateValue(PULL_CURSOR_KEY, cursor);
+                hasMore = page.hasMore;
+            }
+
+            set({ isPulling: false, lastPullTime: new Date() });
+            console.log(`[SyncStore] Pull complete: ${pulled} received, ${merged} merged`);
+            return { pulled, merged };
+        } catch (error) {
+            console.error('[SyncStore] Pull error:', error);
+            set({ isPulling: false });
+            return { pulled, merged };
         }
     }
 }));
@@ -202,8 +319,8 @@ export const useSyncStore = create<SyncState>((set, get) => ({
 if (typeof window !== 'undefined') {
     window.addEventListener('online', () => {
         useSyncStore.getState().setOnline(true);
-        // Auto-sync when coming back online
-        useSyncStore.getState().syncToCloud();
+        // Auto-sync when coming back online, then fetch changes from other devices
+        void useSyncStore.getState().syncToCloud().then(() => useSyncStore.getState().pullFromCloud());
     });
 
     window.addEventListener('offline', () => {
@@ -0,0 +1,101 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { addBehaviorEvent, db, getSyncStateValue } from '../db/db';
+import { useEncryptionStore } from '../stores/encryptionStore';
+import { useSyncStore } from '../stores/syncStore';
+import { BACKGROUND_SYNC_REPORT_KEY, BACKGROUND_SYNC_TAG } from '../services/backgroundSync';
+import { registerSyncWorkerHandlers, type SyncWorkerScope } from './syncWorker';
+
+type Listener = (event: { tag?: string; data?: unknown; waitUntil: (promise: Promise<unknown>) => void }) => void;
+
+function createWorkerScope(openWindows: Array<{ postMessage: ReturnType<typeof vi.fn> }> = []) {
+  const listeners = new Map<string, Listener>();
+  const scope: SyncWorkerScope = {
+    addEventListener: (type, listener) => listeners.set(type, listener),
+    clients: {
+      matchAll: vi.fn().mockResolvedValue(openWindows),
+      claim: vi.fn().mockResolvedValue(undefined),
+    },
+    skipWaiting: vi.fn().mockResolvedValue(undefined),
+  };
+  registerSyncWorkerHandlers(scope);
+
+  const dispatch = async (type: string, init: { tag?: string; data?: unknown } = {}) => {
+    const pending: Array<Promise<unknown>> = [];
+    listeners.get(type)?.({ ...init, waitUntil: (promise) => pending.push(promise) });
+    return Promise.all(pending);
+  };
+  return { scope, dispatch };
+}
+
+async function readReport() {
+  const stored = await getSyncStateValue(BACKGROUND_SYNC_REPORT_KEY);
+  return stored ? JSON.parse(stored) : undefined;
+}
+
+async function addTantrum(): Promise<number> {
+  const createdAt = new Date('2026-02-05T14:00:00.000Z');
+  return addBehaviorEvent({ sessionId: 1, behaviorType: 'tantrum', count: 1, timestamp: createdAt, createdAt, synced: false });
+}
+
+describe('sync service worker', () => {
+  beforeEach(async () => {
+    await useEncryptionStore.getState().initializeWithPassword('TestPass123!', 'U3RhdGljU2FsdDEyMw==');
+    await Promise.all([db.sessions.clear(), db.behaviorEvents.clear(), db.syncQueue.clear(), db.syncState.clear()]);
+    useSyncStore.setState({ isOnline: true, isSyncing: false, lastSyncTime: null });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('hands the sync to an open page instead of syncing from the worker', async () => {
+    const page = { postMessage: vi.fn() };
+    const { dispatch } = createWorkerScope([page]);
+    const fetchMock = vi.fn();
+    vi.stubGlobal('fetch', fetchMock);
+
+    await dispatch('sync', { tag: BACKGROUND_SYNC_TAG });
+
+    expect(page.postMessage).toHaveBeenCalledWith({ type: 'sync-request' });
+    expect(fetchMock).not.toHaveBeenCalled();
+    expect(await readReport()).toBeUndefined();
+  });
+
+  it('defers without touching the queue when the worker holds no keys', async () => {
+    await addTantrum();
+    const { dispatch } = createWorkerScope();
+    const fetchMock = vi.fn();
+    vi.stubGlobal('fetch', fetchMock);
+
+    await dispatch('message', { data: { type: 'disarm' } });
+    await dispatch('sync', { tag: BACKGROUND_SYNC_TAG });
+
+    expect(useEncryptionStore.getState().isReady).toBe(false);
+    expect(fetchMock).not.toHaveBeenCalled();
+    expect(await db.syncQueue.count()).toBe(1);
+    expect(await readReport()).toMatchObject({ outcome: 'deferred', success: 0, failed: 0 });
+  });
+
+  it('drains the queue with keys handed over by the page and stores a report', async () => {
+    const id = await addTantrum();
+    const documentId = (await db.behaviorEvents.get(id))?.uuid;
+    const { key, signingKey } = useEncryptionStore.getState();
+    useEncryptionStore.getState().clear();
+
+    const { dispatch } = createWorkerScope();
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(new Response(
+      JSON.stringify({ success: 1, failed: 0, results: [{ id: documentId, ok: true, revision: 1 }] }),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    )));
+
+    await dispatch('message', { data: { type: 'arm', key, signingKey, org: null } });
+    await dispatch('sync', { tag: 'some-other-tag' });
+    expect(await db.syncQueue.count()).toBe(1);
+
+    await dispatch('periodicsync', { tag: BACKGROUND_SYNC_TAG });
+
+    expect(await db.syncQueue.count()).toBe(0);
+    expect(await db.behaviorEvents.get(id)).toMatchObject({ synced: true, revision: 1 });
+    expect(await readReport()).toMatchObject({ outcome: 'synced', success: 1, failed: 0 });
+  });
+});
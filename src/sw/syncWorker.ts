@@ -0,0 +1,109 @@
+import { setSyncStateValue } from '../db/db';
+import { useEncryptionStore } from '../stores/encryptionStore';
+import { useSyncStore } from '../stores/syncStore';
+import {
+    BACKGROUND_SYNC_REPORT_KEY,
+    BACKGROUND_SYNC_TAG,
+    type SyncPageMessage,
+    type SyncWorkerMessage
+} from '../services/backgroundSync';
+import type { BackgroundSyncReport } from '../types/sync';
+
+// Minimal service worker surface; the app is type-checked against the DOM lib, not WebWorker.
+interface SyncWorkerEvent {
+    tag?: string;
+    data?: unknown;
+    waitUntil: (promise: Promise<unknown>) => void;
+}
+
+interface SyncWorkerClient {
+    postMessage: (message: SyncPageMessage) => void;
+}
+
+export interface SyncWorkerScope {
+    addEventListener: (type: string, listener: (event: SyncWorkerEvent) => void) => void;
+    clients: {
+        matchAll: (options: { type: 'window'; includeUncontrolled: boolean }) => Promise<readonly SyncWorkerClient[]>;
+        claim: () => Promise<void>;
+    };
+    skipWaiting: () => Promise<void>;
+}
+
+function isWorkerMessage(value: unknown): value is SyncWorkerMessage {
+    return Boolean(value) && typeof value === 'object' &&
+        ((value as { type?: unknown }).type === 'arm' || (value as { type?: unknown }).type === 'disarm');
+}
+
+/**
+ * Keys arrive from an unlocked page and live only in worker memory; they are gone when the browser
+ * stops the worker, after which wake-ups store a deferred report (see `runBackgroundSync`).
+ */
+export function handleWorkerMessage(message: unknown): void {
+    if (!isWorkerMessage(message)) return;
+    if (message.type === 'arm') {
+        useEncryptionStore.setState({ key: message.key, signingKey: message.signingKey, isReady: true, error: null });
+        useEncryptionStore.getState().setOrgEncryption(message.org
+            ? { cloudMode: 'e2e', orgKey: message.org.key, orgSigningKey: message.org.signingKey, orgKeyVersion: message.org.keyVersion }
+            : { cloudMode: 'standard', orgKey: null, orgSigningKey: null, orgKeyVersion: null });
+    } else {
+        useEncryptionStore.getState().clear();
+    }
+}
+
+async function storeReport(report: BackgroundSyncReport): Promise<BackgroundSyncReport> {
+    await setSyncStateValue(BACKGROUND_SYNC_REPORT_KEY, JSON.stringify(report));
+    return report;
+}
+
+/**
+ * Handles a sync wake-up. An open page owns the sync state, so it is asked to drain the queue;
+ * otherwise the worker drains it itself, provided it still holds the keys from an unlocked session.
+ * A worker restarted by the wake-up has no keys, so nothing is sent until a page is unlocked.
+ * The report is stored for the next page to apply (`applyStoredBackgroundSyncReport`).
+ * @returns The stored report, or null when the work was handed to an open page.
+ */
+export async function runBackgroundSync(scope: SyncWorkerScope): Promise<BackgroundSyncReport | null> {
+    const windows = await scope.clients.matchAll({ type: 'window', includeUncontrolled: true });
+    if (windows.length > 0) {
+        windows[0].postMessage({ type: 'sync-request' });
+        return null;
+    }
+
+    if (!useEncryptionStore.getState().isReady) {
+        return storeReport({
+            completedAt: new Date().toISOString(),
+            outcome: 'deferred',
+            success: 0,
+            failed: 0,
+            reason: 'Encryption keys unavailable; changes will sync when the app is unlocked'
+        });
+    }
+
+    useSyncStore.getState().setOnline(navigator.onLine);
+    const result = await useSyncStore.getState().syncToCloud();
+    return storeReport({
+        completedAt: new Date().toISOString(),
+        outcome: result.failed > 0 || useSyncStore.getState().status === 'error' ? 'failed' : 'synced',
+        success: result.success,
+        failed: result.failed
+    });
+}
+
+export function registerSyncWorkerHandlers(scope: SyncWorkerScope): void {
+    scope.addEventListener('install', (event) => event.waitUntil(scope.skipWaiting()));
+    scope.addEventListener('activate', (event) => event.waitUntil(scope.clients.claim()));
+    scope.addEventListener('message', (event) => handleWorkerMessage(event.data));
+
+    const onSync = (event: SyncWorkerEvent) => {
+        if (event.tag === BACKGROUND_SYNC_TAG) {
+            event.waitUntil(runBackgroundSync(scope));
+        }
+    };
+    scope.addEventListener('sync', onSync);
+    scope.addEventListener('periodicsync', onSync);
+}
+
+// Only attach when actually running as a service worker (not when imported by tests)
+if (typeof window === 'undefined' && typeof self !== 'undefined' && 'registration' in self) {
+    registerSyncWorkerHandlers(self as unknown as SyncWorkerScope);
+}
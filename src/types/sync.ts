@@ -1,16 +1,84 @@
 // Shared types for sync operations between frontend and backend
+import type { EncryptedData } from '../services/encryptionService';
+
+/**
+ * End-to-end mode: the record encrypted under the org data key. The signature binds the
+ * ciphertext to the document's id, type, session and learner so the server cannot swap payloads.
+ */
+export interface EncryptedSyncPayload {
+    payload: EncryptedData;
+    signature: string;
+    keyVersion: number;
+}
 
 export interface SyncableDocument {
+    /** The record's client-generated UUID (records pushed before UUIDs: `${entityType}-${localId}`). */
     id: string;
     sessionId: number;
-    entityType: 'behavior' | 'skillTrial' | 'incident' | 'note';
+    entityType: 'behavior' | 'skillTrial' | 'incident' | 'note' | 'interval' | 'taskAnalysis';
     data: Record<string, unknown>;
     syncedAt: string;
     clientId?: string;
+    /** Server revision the local copy is based on (0 for records never acknowledged). */
+    revision?: number;
+    /** Tombstone: the record was deleted and `data` is empty. */
+    deleted?: boolean;
+    /** Set in end-to-end mode, where `data` is sent empty. */
+    encrypted?: EncryptedSyncPayload;
+}
+
+/** A write rejected because the server copy moved on since the client's base revision. */
+export interface SyncConflict {
+    id: string;
+    entityType: SyncableDocument['entityType'];
+    clientRevision: number;
+    serverRevision: number;
+    serverDocument: PulledDocument;
+}
+
+/** `encryption_required`: plaintext was sent for an end-to-end organization; retried once the org key is loaded. */
+export type SyncErrorCode = 'conflict' | 'forbidden' | 'invalid' | 'encryption_required' | 'write_failed';
+
+/** Per-document outcome of a batch; only documents with `ok: true` were stored. */
+export interface SyncDocumentResult {
+    id: string;
+    ok: boolean;
+    /** New server revision for acknowledged documents. */
+    revision?: number;
+    errorCode?: SyncErrorCode;
+    error?: string;
 }
 
 export interface SyncResult {
     success: number;
     failed: number;
     total?: number;
+    results?: SyncDocumentResult[];
+    /** Server copies for documents rejected with `errorCode: 'conflict'`. */
+    conflicts?: SyncConflict[];
+}
+
+/** Document as returned by `sync/pull`, with server-side attribution. */
+export interface PulledDocument extends SyncableDocument {
+    orgId: string;
+    syncedBy: string;
+    syncedByEmail?: string;
+}
+
+export interface SyncPullResponse {
+    documents: PulledDocument[];
+    cursor: string;
+    hasMore: boolean;
+}
+
+/**
+ * Outcome of a queue drain run by the service worker while no page was open.
+ * `deferred` means the worker held no encryption keys, so nothing was read or sent.
+ */
+export interface BackgroundSyncReport {
+    completedAt: string;
+    outcome: 'synced' | 'failed' | 'deferred';
+    success: number;
+    failed: number;
+    reason?: string;
 }
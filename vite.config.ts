@@ -14,9 +14,25 @@ export default defineConfig({
     })
     */
   ],
+  build: {
+    rollupOptions: {
+      // The background sync worker is served from a stable URL at the site root
+      input: {
+        main: 'index.html',
+        'sync-worker': 'src/sw/syncWorker.ts',
+      },
+      output: {
+        entryFileNames: (chunk) => chunk.name === 'sync-worker' ? 'sync-worker.js' : 'assets/[name]-[hash].js',
+      },
+    },
+  },
   server: {
     port: 5173,
     strictPort: true,
+    headers: {
+      // In dev the sync worker is served from /src/sw/ but must control the whole app
+      'Service-Worker-Allowed': '/',
+    },
     proxy: {
       '/api': {
         target: 'http://localhost:7071',
@@ -33,7 +49,7 @@ export default defineConfig({
     globals: true,
     environment: 'jsdom',
     setupFiles: './src/test/setup.ts',
-    include: ['src/**/*.{test,spec}.{ts,tsx}'],
+    include: ['src/**/*.{test,spec}.{ts,tsx}', 'api/src/**/*.test.ts'],
     exclude: ['tests/**', 'node_modules/**'],
     coverage: {
       provider: 'v8', // or 'istanbul'